@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarCheck } from "lucide-react";
+import { addDays, format, startOfWeek } from "date-fns";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { servesOn, useFamilyMealTimes } from "@/hooks/useFamilyMealTimes";
+import { attendancePatternsKey, useAttendancePatterns } from "@/hooks/useAttendance";
+import type { AttendancePatternInput, MemberAttendanceSettings } from "@shared/schema";
+
+interface AttendancePatternsCardProps {
+  familyId: number;
+  isAdmin: boolean;
+  currentUserId: string | undefined;
+}
+
+// Sunday first, matching dayOfWeek
+const WEEK = Array.from({ length: 7 }, (_, dayOfWeek) => addDays(startOfWeek(new Date()), dayOfWeek));
+
+const slotKey = (dayOfWeek: number, mealTypeId: number) => `${dayOfWeek}|${mealTypeId}`;
+
+export default function AttendancePatternsCard({ familyId, isAdmin, currentUserId }: AttendancePatternsCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { members } = useAttendancePatterns(familyId);
+  const { mealTimes } = useFamilyMealTimes(familyId);
+  const [membershipId, setMembershipId] = useState<number | undefined>();
+  const [portionSize, setPortionSize] = useState('');
+  const [missed, setMissed] = useState<string[]>([]); // slot keys the member is usually out for
+
+  const member = members.find((other) => other.membershipId === membershipId);
+
+  useEffect(() => {
+    if (membershipId === undefined && members.length > 0) {
+      setMembershipId((members.find((other) => other.userId === currentUserId) ?? members[0]).membershipId);
+    }
+  }, [members, currentUserId]);
+
+  useEffect(() => {
+    setPortionSize(member ? member.portionSize.toString() : '');
+    setMissed(member?.pattern.filter((slot) => !slot.attending).map((slot) => slotKey(slot.dayOfWeek, slot.mealTypeId)) ?? []);
+  }, [member]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const pattern: AttendancePatternInput = {
+        portionSize: portionSize.trim() ? Number(portionSize) : undefined,
+        slots: missed.map((key) => {
+          const [dayOfWeek, mealTypeId] = key.split('|').map(Number);
+          return { dayOfWeek, mealTypeId, attending: false };
+        }),
+      };
+      const response = await apiRequest('PUT', `/api/families/${familyId}/attendance-patterns/${membershipId}`, pattern);
+      return response.json() as Promise<MemberAttendanceSettings>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: attendancePatternsKey(familyId) });
+      queryClient.invalidateQueries({ queryKey: ['/api/meals'] });
+      toast({ title: "Usual attendance saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save attendance", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const canEdit = !!member && (isAdmin || member.userId === currentUserId);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarCheck className="h-5 w-5" />
+          Usual Attendance
+        </CardTitle>
+        <CardDescription>
+          Which meals each person is usually home for and how much they eat. New meals cook enough for
+          whoever is attending and only check their allergies; single meals can still be changed on the calendar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {members.length > 0 && (
+          <div className="flex flex-wrap items-end gap-4">
+            {isAdmin && members.length > 1 && (
+              <div className="space-y-2">
+                <Label>Member</Label>
+                <Select value={membershipId?.toString()} onValueChange={(value) => setMembershipId(Number(value))}>
+                  <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {members.map((other) => (
+                      <SelectItem key={other.membershipId} value={other.membershipId.toString()}>{other.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Usual portion (servings)</Label>
+              <Input
+                type="number"
+                min={0.25}
+                max={10}
+                step={0.25}
+                disabled={!canEdit}
+                value={portionSize}
+                onChange={(e) => setPortionSize(e.target.value)}
+                className="w-32"
+              />
+            </div>
+          </div>
+        )}
+
+        {member && mealTimes.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium text-gray-700 py-1">{member.name} eats</th>
+                  {WEEK.map((day) => (
+                    <th key={day.getDay()} className="font-medium text-gray-700 py-1">{format(day, 'EEE')}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {mealTimes.map((mealTime) => (
+                  <tr key={mealTime.id}>
+                    <td className="py-1 text-gray-600">{mealTime.mealName}</td>
+                    {WEEK.map((day) => {
+                      const key = slotKey(day.getDay(), mealTime.id);
+                      return (
+                        <td key={key} className="py-1 text-center">
+                          {servesOn(mealTime, day) && (
+                            <Checkbox
+                              checked={!missed.includes(key)}
+                              disabled={!canEdit}
+                              onCheckedChange={(checked) => setMissed(checked ? missed.filter((other) => other !== key) : [...missed, key])}
+                            />
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {canEdit && (
+          <Button disabled={saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            Save {member?.userId === currentUserId ? 'My' : `${member?.name}'s`} Attendance
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
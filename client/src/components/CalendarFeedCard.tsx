@@ -0,0 +1,96 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Calendar, Copy, RefreshCw } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CalendarFeedSettings } from "@shared/schema";
+
+interface CalendarFeedCardProps {
+  familyId: number;
+  isAdmin: boolean;
+}
+
+export default function CalendarFeedCard({ familyId, isAdmin }: CalendarFeedCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: feed } = useQuery<CalendarFeedSettings>({
+    queryKey: ['/api/families', familyId, 'calendar-feed'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/calendar-feed`);
+      return response.json();
+    },
+  });
+
+  const feedMutation = useMutation({
+    mutationFn: async (enable: boolean) => {
+      const response = await apiRequest(enable ? 'POST' : 'DELETE', `/api/families/${familyId}/calendar-feed`);
+      return response.json() as Promise<CalendarFeedSettings>;
+    },
+    onSuccess: (settings, enable) => {
+      queryClient.setQueryData(['/api/families', familyId, 'calendar-feed'], settings);
+      toast({
+        title: enable ? (feed?.enabled ? "New feed link created" : "Calendar feed turned on") : "Calendar feed turned off",
+        description: enable && feed?.enabled ? "Calendars subscribed to the old link stop updating." : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update the calendar feed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const copyUrl = async () => {
+    if (!feed?.url) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast({ title: "Feed link copied" });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calendar className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe to your meal plan from Google, Apple or Outlook calendar. Meals appear at their meal
+          time, with a reminder when it's time to start cooking.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {feed?.url ? (
+          <div className="flex gap-2">
+            <Input readOnly value={feed.url} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={copyUrl}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">The calendar feed is off.</p>
+        )}
+        {isAdmin ? (
+          <div className="flex gap-2">
+            <Button variant={feed?.enabled ? "outline" : "default"} disabled={feedMutation.isPending} onClick={() => feedMutation.mutate(true)}>
+              {feed?.enabled && <RefreshCw className="h-4 w-4 mr-2" />}
+              {feed?.enabled ? "Create new link" : "Turn on calendar feed"}
+            </Button>
+            {feed?.enabled && (
+              <Button variant="ghost" disabled={feedMutation.isPending} onClick={() => feedMutation.mutate(false)}>
+                Turn off
+              </Button>
+            )}
+          </div>
+        ) : (
+          !feed?.enabled && <p className="text-xs text-gray-500">Ask a family admin to turn it on.</p>
+        )}
+        {feed?.enabled && (
+          <p className="text-xs text-gray-500">
+            Anyone with the link can see your meal plan. Create a new link if it was shared by mistake.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
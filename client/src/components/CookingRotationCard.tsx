@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChefHat } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cookingRotationKey, useCookingRotation } from "@/hooks/useCookingRotation";
+import type { CookingRotationMember, CookingRotationSettingsInput, MealAssignmentRole } from "@shared/schema";
+
+interface CookingRotationCardProps {
+  familyId: number;
+  isAdmin: boolean;
+  currentUserId: string | undefined;
+}
+
+const DUTIES: { role: MealAssignmentRole; label: string }[] = [
+  { role: 'cook', label: "Cooking" },
+  { role: 'helper', label: "Helping the cook" },
+  { role: 'cleanup', label: "Cleaning up" },
+];
+
+export default function CookingRotationCard({ familyId, isAdmin, currentUserId }: CookingRotationCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { members } = useCookingRotation(familyId);
+  const [userId, setUserId] = useState<string | undefined>();
+  const [roles, setRoles] = useState<MealAssignmentRole[]>([]);
+  const [maxCooks, setMaxCooks] = useState('');
+
+  const member = members.find((other) => other.userId === userId);
+
+  useEffect(() => {
+    if (userId === undefined && members.length > 0) {
+      setUserId((members.find((other) => other.userId === currentUserId) ?? members[0]).userId);
+    }
+  }, [members, currentUserId]);
+
+  useEffect(() => {
+    setRoles(member?.roles ?? []);
+    setMaxCooks(member?.maxCooksPerWeek?.toString() ?? '');
+  }, [member]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const settings: CookingRotationSettingsInput = {
+        // Taking every duty is the default, so it's saved as such
+        roles: roles.length === DUTIES.length ? null : roles,
+        maxCooksPerWeek: maxCooks.trim() ? Number(maxCooks) : null,
+      };
+      const response = await apiRequest('PUT', `/api/families/${familyId}/cooking-rotation/members/${userId}`, settings);
+      return response.json() as Promise<CookingRotationMember>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: cookingRotationKey(familyId) });
+      toast({ title: "Cooking rotation saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save cooking rotation", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const canEdit = !!member && (isAdmin || member.userId === currentUserId);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ChefHat className="h-5 w-5" />
+          Cooking Rotation
+        </CardTitle>
+        <CardDescription>
+          Which duties each person takes turns at when cooks are rotated on the calendar. Turns go to
+          whoever is home and has done that duty least lately; harder recipes go to more experienced cooks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {members.length > 0 && (
+          <div className="flex flex-wrap items-end gap-4">
+            {isAdmin && members.length > 1 && (
+              <div className="space-y-2">
+                <Label>Member</Label>
+                <Select value={userId} onValueChange={setUserId}>
+                  <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {members.map((other) => (
+                      <SelectItem key={other.userId} value={other.userId}>{other.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Most meals cooked a week</Label>
+              <Input
+                type="number"
+                min={0}
+                max={21}
+                placeholder="No limit"
+                disabled={!canEdit || !roles.includes('cook')}
+                value={maxCooks}
+                onChange={(e) => setMaxCooks(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            {member && (
+              <div className="space-y-2">
+                <Label>Cooking skill</Label>
+                <div>
+                  <Badge variant="secondary" className="capitalize">{member.skill}</Badge>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {member && (
+          <div className="space-y-2">
+            {DUTIES.map(({ role, label }) => (
+              <div key={role} className="flex items-center gap-2">
+                <Checkbox
+                  id={`rotation-${role}`}
+                  checked={roles.includes(role)}
+                  disabled={!canEdit}
+                  onCheckedChange={(checked) => setRoles(checked ? [...roles, role] : roles.filter((other) => other !== role))}
+                />
+                <label htmlFor={`rotation-${role}`} className="text-sm text-gray-700">{label}</label>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">Cooking skill is set in each member's profile settings.</p>
+          </div>
+        )}
+
+        {canEdit && (
+          <Button disabled={saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            Save {member?.userId === currentUserId ? 'My' : `${member?.name}'s`} Rotation
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, EyeOff, Users } from "lucide-react";
+import { format, subDays } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import type { FamilyNutritionDashboard as FamilyNutritionDashboardData, NutritionFlag } from "@shared/schema";
+
+interface FamilyNutritionDashboardProps {
+  familyId: number;
+  endDate: string;
+}
+
+const describeFlag = (flag: NutritionFlag) =>
+  `${flag.direction === "under" ? "Low" : "High"} ${flag.nutrient} on ${flag.daysFlagged} of ${flag.daysLogged} days`;
+
+export default function FamilyNutritionDashboard({ familyId, endDate }: FamilyNutritionDashboardProps) {
+  const startDate = format(subDays(new Date(`${endDate}T00:00:00`), 13), 'yyyy-MM-dd');
+
+  const { data: dashboard, isLoading } = useQuery<FamilyNutritionDashboardData>({
+    queryKey: ['/api/families', familyId, 'nutrition', 'dashboard', { startDate, endDate }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/nutrition/dashboard?startDate=${startDate}&endDate=${endDate}`);
+      return response.json();
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Family Overview
+        </CardTitle>
+        <p className="text-sm text-gray-500">Average daily intake over the last 14 days</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !dashboard ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-100 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : (
+          <>
+            {dashboard.members.map((member) => (
+              <div key={member.userId} className="border rounded-md p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={member.memberImageUrl || undefined} />
+                      <AvatarFallback>{(member.displayName || '?').charAt(0).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <div className="font-medium text-gray-900">{member.displayName || 'Family member'}</div>
+                      <div className="text-xs text-gray-500">
+                        {member.adherence.daysLogged} days logged
+                        {member.adherence.average !== null && ` • ${member.adherence.average}% adherence`}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {member.flags.map((flag) => (
+                      <Badge key={`${flag.nutrient}-${flag.direction}`} variant="destructive" className="flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        {describeFlag(flag)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                {member.adherence.daysLogged > 0 && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    {([
+                      ['Calories', 'calories', ''],
+                      ['Protein', 'protein', 'g'],
+                      ['Carbs', 'carbs', 'g'],
+                      ['Sodium', 'sodium', 'mg'],
+                    ] as const).map(([label, key, unit]) => (
+                      <div key={key} className="space-y-1">
+                        <div className="flex justify-between text-gray-600">
+                          <span>{label}</span>
+                          <span>{Math.round(member.averages[key])}{unit} / {Math.round(member.targets[key])}{unit}</span>
+                        </div>
+                        <Progress
+                          value={member.targets[key] > 0 ? Math.min(100, (member.averages[key] / member.targets[key]) * 100) : 0}
+                          className="h-2"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {dashboard.hiddenMemberCount > 0 && (
+              <p className="text-sm text-gray-500 flex items-center gap-2">
+                <EyeOff className="w-4 h-4" />
+                {dashboard.hiddenMemberCount} {dashboard.hiddenMemberCount === 1 ? 'member has' : 'members have'} a private profile and {dashboard.hiddenMemberCount === 1 ? 'is' : 'are'} not shown.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
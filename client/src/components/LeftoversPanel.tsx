@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Refrigerator } from "lucide-react";
+import { addDays, format, parseISO } from "date-fns";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FamilyMealTime, LeftoverSummary, Meal } from "@shared/schema";
+
+interface LeftoversPanelProps {
+  meal: Meal & { leftoverExpiresOn?: string };
+  mealTimes: Pick<FamilyMealTime, "id" | "mealName">[];
+}
+
+export default function LeftoversPanel({ meal, mealTimes }: LeftoversPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [cookedServings, setCookedServings] = useState(meal.leftoverServings ?? 0);
+  const [scheduledDate, setScheduledDate] = useState(format(addDays(parseISO(meal.scheduledDate), 1), 'yyyy-MM-dd'));
+  const [mealTypeId, setMealTypeId] = useState<number | undefined>(meal.mealTypeId);
+  const [servings, setServings] = useState(1);
+
+  useEffect(() => {
+    setCookedServings(meal.leftoverServings ?? 0);
+  }, [meal.id, meal.leftoverServings]);
+
+  const isLeftover = meal.leftoverOfMealId !== null;
+
+  const { data: summary } = useQuery<LeftoverSummary>({
+    queryKey: ['/api/meals', meal.id, 'leftovers'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/meals/${meal.id}/leftovers`);
+      return response.json();
+    },
+    enabled: !isLeftover,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/families/${meal.familyId}/meals`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/meals', meal.id, 'leftovers'] });
+  };
+
+  const updateCookedMutation = useMutation({
+    mutationFn: async (leftoverServings: number) => {
+      const response = await apiRequest('PATCH', `/api/meals/${meal.id}`, { leftoverServings });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update leftovers", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/meals/${meal.id}/leftovers`, { scheduledDate, mealTypeId, servings });
+      return response.json() as Promise<Meal & { expiryWarning: string | null }>;
+    },
+    onSuccess: (leftover) => {
+      refresh();
+      toast({
+        title: "Leftovers scheduled",
+        description: leftover.expiryWarning ?? undefined,
+        variant: leftover.expiryWarning ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't schedule leftovers", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLeftover) {
+    const expired = meal.leftoverExpiresOn !== undefined && meal.scheduledDate > meal.leftoverExpiresOn;
+    return (
+      <div className={`rounded-md p-3 text-sm ${expired ? 'bg-red-50 text-red-700' : 'bg-blue-50 text-blue-800'}`}>
+        <div className="flex items-center gap-2 font-medium">
+          {expired ? <AlertTriangle className="w-4 h-4" /> : <Refrigerator className="w-4 h-4" />}
+          Leftovers
+        </div>
+        {meal.leftoverExpiresOn && (
+          <p className="mt-1">
+            {expired
+              ? `These leftovers were only good until ${format(parseISO(meal.leftoverExpiresOn), 'EEEE, MMM d')}.`
+              : `Good until ${format(parseISO(meal.leftoverExpiresOn), 'EEEE, MMM d')}.`}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <Refrigerator className="w-4 h-4" />
+        Leftovers
+      </div>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 flex-1">
+          <Label htmlFor="leftover-cooked">Extra portions to cook</Label>
+          <Input
+            id="leftover-cooked"
+            type="number"
+            min={0}
+            value={cookedServings}
+            onChange={(e) => setCookedServings(Math.max(0, parseInt(e.target.value) || 0))}
+          />
+        </div>
+        <Button
+          variant="outline"
+          disabled={cookedServings === (meal.leftoverServings ?? 0) || updateCookedMutation.isPending}
+          onClick={() => updateCookedMutation.mutate(cookedServings)}
+        >
+          Save
+        </Button>
+      </div>
+
+      {summary && summary.cookedServings > 0 && (
+        <>
+          <p className="text-xs text-gray-500">
+            {summary.remainingServings} of {summary.cookedServings} portions left • good until {format(parseISO(summary.expiresOn), 'EEE, MMM d')}
+          </p>
+          {summary.leftovers.map((leftover) => (
+            <div key={leftover.id} className="flex justify-between text-xs text-gray-600">
+              <span>
+                {format(parseISO(leftover.scheduledDate), 'EEE, MMM d')} •{' '}
+                {mealTimes.find((mealTime) => mealTime.id === leftover.mealTypeId)?.mealName ?? 'Meal'}
+              </span>
+              <span>{leftover.servings} servings</span>
+            </div>
+          ))}
+          {summary.remainingServings > 0 && (
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                type="date"
+                min={meal.scheduledDate}
+                value={scheduledDate}
+                onChange={(e) => setScheduledDate(e.target.value)}
+              />
+              <Select value={mealTypeId?.toString() ?? ""} onValueChange={(value) => setMealTypeId(parseInt(value))}>
+                <SelectTrigger><SelectValue placeholder="Meal" /></SelectTrigger>
+                <SelectContent>
+                  {mealTimes.map((mealTime) => (
+                    <SelectItem key={mealTime.id} value={mealTime.id.toString()}>
+                      {mealTime.mealName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                max={summary.remainingServings}
+                value={servings}
+                onChange={(e) => setServings(Math.max(1, parseInt(e.target.value) || 1))}
+              />
+              <Button
+                className="col-span-3"
+                variant="outline"
+                disabled={!mealTypeId || !scheduledDate || scheduleMutation.isPending}
+                onClick={() => scheduleMutation.mutate()}
+              >
+                Schedule Leftovers
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, ChefHat } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cookingDutiesKey, useCookingRotation } from "@/hooks/useCookingRotation";
+import type {
+  MealAssignmentRole,
+  MealAssignmentsInput,
+  MealAssignmentsResult,
+  MealWithAssignments,
+} from "@shared/schema";
+
+interface MealAssignmentsPanelProps {
+  meal: MealWithAssignments;
+}
+
+type Assignment = MealAssignmentsInput["assignments"][number];
+
+const ROLES: { role: MealAssignmentRole; label: string }[] = [
+  { role: 'cook', label: "Cook" },
+  { role: 'helper', label: "Helping" },
+  { role: 'cleanup', label: "Cleaning up" },
+];
+
+const toAssignments = (meal: MealWithAssignments): Assignment[] =>
+  meal.assignments.map(({ userId, role }) => ({ userId, role }));
+
+export default function MealAssignmentsPanel({ meal }: MealAssignmentsPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { members } = useCookingRotation(meal.familyId);
+  const [assignments, setAssignments] = useState<Assignment[]>(() => toAssignments(meal));
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  useEffect(() => {
+    setAssignments(toAssignments(meal));
+    setWarnings([]);
+  }, [meal.id]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (nextAssignments: Assignment[]) => {
+      const input: MealAssignmentsInput = { assignments: nextAssignments };
+      const response = await apiRequest('PUT', `/api/meals/${meal.id}/assignments`, input);
+      return response.json() as Promise<MealAssignmentsResult>;
+    },
+    onSuccess: (result) => {
+      setAssignments(result.assignments.map(({ userId, role }) => ({ userId, role })));
+      setWarnings(result.warnings);
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${meal.familyId}/meals`] });
+      queryClient.invalidateQueries({ queryKey: cookingDutiesKey(meal.familyId) });
+    },
+    onError: (error: Error) => {
+      setAssignments(toAssignments(meal));
+      toast({ title: "Couldn't update duties", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  // A meal has one cook, so picking someone else replaces them
+  const toggle = (userId: string, role: MealAssignmentRole) => {
+    const assigned = assignments.some((other) => other.userId === userId && other.role === role);
+    const nextAssignments = assigned
+      ? assignments.filter((other) => !(other.userId === userId && other.role === role))
+      : [...assignments.filter((other) => role !== 'cook' || other.role !== 'cook'), { userId, role }];
+    setAssignments(nextAssignments);
+    saveMutation.mutate(nextAssignments);
+  };
+
+  if (members.length === 0 || meal.leftoverOfMealId !== null) return null;
+
+  const locked = meal.status === 'completed';
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <ChefHat className="w-4 h-4" />
+        Duties
+      </div>
+      {ROLES.map(({ role, label }) => (
+        <div key={role} className="flex items-center gap-2">
+          <span className="w-24 shrink-0 text-xs text-gray-500">{label}</span>
+          <div className="flex flex-wrap gap-1">
+            {members.map((member) => {
+              const assigned = assignments.some((other) => other.userId === member.userId && other.role === role);
+              return (
+                <Button
+                  key={member.userId}
+                  variant={assigned ? "default" : "outline"}
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  title={role === 'cook' ? `${member.skill} cook` : undefined}
+                  disabled={locked || saveMutation.isPending}
+                  onClick={() => toggle(member.userId, role)}
+                >
+                  {member.name}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+      {warnings.map((warning) => (
+        <div key={warning} className="flex items-center gap-1 text-xs text-amber-600">
+          <AlertTriangle className="w-3 h-3" />
+          {warning}
+        </div>
+      ))}
+    </div>
+  );
+}
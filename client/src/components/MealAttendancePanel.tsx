@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { AlertTriangle, Users, X } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { mealAttendanceKey, useAttendancePatterns, useMealAttendance } from "@/hooks/useAttendance";
+import type { MealAttendanceInput, MealAttendanceSummary, MealWithDishes } from "@shared/schema";
+
+interface MealAttendancePanelProps {
+  meal: MealWithDishes;
+}
+
+// Portions as typed; a blank portion eats the person's usual amount
+interface AttendanceDraft {
+  members: Record<number, string>; // membershipId -> portion, for members who are attending
+  guests: { name: string; portion: string }[];
+}
+
+const toDraft = (attendance: MealAttendanceSummary | undefined, usualPortions: Record<number, number>): AttendanceDraft => {
+  const draft: AttendanceDraft = { members: {}, guests: [] };
+  for (const attendee of attendance?.attendees ?? []) {
+    if (attendee.membershipId === null) {
+      draft.guests.push({ name: attendee.name, portion: attendee.portion === 1 ? '' : attendee.portion.toString() });
+    } else {
+      const usual = usualPortions[attendee.membershipId];
+      draft.members[attendee.membershipId] = usual === attendee.portion ? '' : attendee.portion.toString();
+    }
+  }
+  return draft;
+};
+
+const toPortion = (text: string) => (text.trim() ? Number(text) : null);
+
+const toInput = (draft: AttendanceDraft): MealAttendanceInput => ({
+  members: Object.entries(draft.members).map(([membershipId, portion]) => ({
+    membershipId: Number(membershipId),
+    portion: toPortion(portion),
+  })),
+  guests: draft.guests.map((guest) => ({ name: guest.name, portion: toPortion(guest.portion) })),
+});
+
+export default function MealAttendancePanel({ meal }: MealAttendancePanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { members, isLoading: membersLoading } = useAttendancePatterns(meal.familyId);
+  const { attendance } = useMealAttendance(meal.id);
+  const usualPortions = Object.fromEntries(members.map((member) => [member.membershipId, member.portionSize]));
+  const [draft, setDraft] = useState<AttendanceDraft>(() => toDraft(attendance, usualPortions));
+  const [guestName, setGuestName] = useState('');
+
+  useEffect(() => {
+    setDraft(toDraft(attendance, usualPortions));
+  }, [attendance, membersLoading]);
+
+  const onSaved = (updated: MealAttendanceSummary) => {
+    queryClient.setQueryData(mealAttendanceKey(meal.id), updated);
+    queryClient.invalidateQueries({ queryKey: [`/api/families/${meal.familyId}/meals`] });
+  };
+  const onFailed = (error: Error) => {
+    setDraft(toDraft(attendance, usualPortions));
+    toast({ title: "Couldn't update who's eating", description: apiErrorMessage(error), variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (nextDraft: AttendanceDraft) => {
+      const response = await apiRequest('PUT', `/api/meals/${meal.id}/attendance`, toInput(nextDraft));
+      return response.json() as Promise<MealAttendanceSummary>;
+    },
+    onSuccess: onSaved,
+    onError: onFailed,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', `/api/meals/${meal.id}/attendance`);
+      return response.json() as Promise<MealAttendanceSummary>;
+    },
+    onSuccess: onSaved,
+    onError: onFailed,
+  });
+
+  // Clearing typed servings makes the meal cook for whoever is attending again
+  const followAttendanceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PATCH', `/api/meals/${meal.id}`, { servings: null });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: mealAttendanceKey(meal.id) });
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${meal.familyId}/meals`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update servings", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const save = (nextDraft: AttendanceDraft) => {
+    setDraft(nextDraft);
+    saveMutation.mutate(nextDraft);
+  };
+
+  if (!attendance || membersLoading) return null;
+
+  const locked = meal.status === 'completed';
+  const pending = saveMutation.isPending || resetMutation.isPending;
+  const canFollowAttendance = !attendance.servingsFromAttendance && meal.leftoverOfMealId === null
+    && attendance.mealServings !== attendance.servings;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <Users className="w-4 h-4" />
+          Who's eating
+        </div>
+        <span className="text-xs text-gray-500">
+          {attendance.servingsFromAttendance
+            ? `Cooking ${attendance.mealServings ?? attendance.servings} servings for them`
+            : `Needs ${attendance.servings} servings`}
+          {attendance.isDefault && ' · usual attendance'}
+        </span>
+      </div>
+      {members.map((member) => {
+        const attending = member.membershipId in draft.members;
+        return (
+          <div key={member.membershipId} className="flex items-center gap-2">
+            <Checkbox
+              id={`attendee-${member.membershipId}`}
+              checked={attending}
+              disabled={locked || pending}
+              onCheckedChange={(checked) => {
+                const { [member.membershipId]: _, ...rest } = draft.members;
+                save({ ...draft, members: checked ? { ...rest, [member.membershipId]: '' } : rest });
+              }}
+            />
+            <label htmlFor={`attendee-${member.membershipId}`} className="flex-1 truncate text-sm text-gray-900">
+              {member.name}
+            </label>
+            <Input
+              type="number"
+              min={0.25}
+              step={0.25}
+              disabled={!attending || locked}
+              placeholder={member.portionSize.toString()}
+              title="Servings this person eats; leave blank for their usual portion"
+              value={draft.members[member.membershipId] ?? ''}
+              onChange={(e) => setDraft({ ...draft, members: { ...draft.members, [member.membershipId]: e.target.value } })}
+              onBlur={() => attending && saveMutation.mutate(draft)}
+              className="w-20 h-8 text-center"
+            />
+          </div>
+        );
+      })}
+      {draft.guests.map((guest, index) => (
+        <div key={`${guest.name}-${index}`} className="flex items-center gap-2">
+          <span className="flex-1 truncate text-sm text-gray-900">{guest.name} <span className="text-xs text-gray-500">(guest)</span></span>
+          <Input
+            type="number"
+            min={0.25}
+            step={0.25}
+            disabled={locked}
+            placeholder="1"
+            value={guest.portion}
+            onChange={(e) => setDraft({
+              ...draft,
+              guests: draft.guests.map((other, i) => (i === index ? { ...other, portion: e.target.value } : other)),
+            })}
+            onBlur={() => saveMutation.mutate(draft)}
+            className="w-20 h-8 text-center"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            disabled={locked || pending}
+            onClick={() => save({ ...draft, guests: draft.guests.filter((_, i) => i !== index) })}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      {!locked && (
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Add a guest"
+            value={guestName}
+            onChange={(e) => setGuestName(e.target.value)}
+            className="h-8"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!guestName.trim() || pending}
+            onClick={() => {
+              save({ ...draft, guests: [...draft.guests, { name: guestName.trim(), portion: '' }] });
+              setGuestName('');
+            }}
+          >
+            Add
+          </Button>
+        </div>
+      )}
+      {attendance.dietaryConflicts.length > 0 && (
+        <div className="space-y-1">
+          {attendance.dietaryConflicts.map((conflict) => (
+            <div key={`${conflict.userId}-${conflict.rule}`} className="flex items-center gap-1 text-xs text-red-600">
+              <AlertTriangle className="w-3 h-3" />
+              {conflict.memberName}: {conflict.type === "allergy" ? `${conflict.rule} allergy` : `not ${conflict.rule}`}
+              {conflict.ingredients.length > 0 && ` (${conflict.ingredients.join(', ')})`}
+            </div>
+          ))}
+        </div>
+      )}
+      {!locked && (!attendance.isDefault || canFollowAttendance) && (
+        <div className="flex justify-end gap-2">
+          {canFollowAttendance && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={followAttendanceMutation.isPending}
+              onClick={() => followAttendanceMutation.mutate()}
+            >
+              Cook {attendance.servings} Servings
+            </Button>
+          )}
+          {!attendance.isDefault && (
+            <Button variant="ghost" size="sm" disabled={pending} onClick={() => resetMutation.mutate()}>
+              Use Usual Attendance
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
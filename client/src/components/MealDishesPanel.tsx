@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Salad, X } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { MealDishInput, MealWithDishes, Recipe } from "@shared/schema";
+
+interface MealDishesPanelProps {
+  meal: MealWithDishes;
+  recipes: Recipe[];
+}
+
+export default function MealDishesPanel({ meal, recipes }: MealDishesPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const toInputs = (mealDishes: MealWithDishes["dishes"] = []) =>
+    mealDishes.map(({ recipeId, servings }): MealDishInput => ({ recipeId, servings }));
+  const [dishes, setDishes] = useState<MealDishInput[]>(() => toInputs(meal.dishes));
+
+  useEffect(() => {
+    setDishes(toInputs(meal.dishes));
+  }, [meal.id]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (nextDishes: MealDishInput[]) => {
+      const response = await apiRequest('PATCH', `/api/meals/${meal.id}`, { dishes: nextDishes });
+      return response.json() as Promise<MealWithDishes>;
+    },
+    onSuccess: (updated) => {
+      setDishes(toInputs(updated.dishes));
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${meal.familyId}/meals`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update side dishes", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const recipeName = (recipeId: number) => recipes.find((recipe) => recipe.id === recipeId)?.name ?? `Recipe #${recipeId}`;
+  const addable = recipes.filter((recipe) => recipe.id !== meal.recipeId && !dishes.some((dish) => dish.recipeId === recipe.id));
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <Salad className="w-4 h-4" />
+        Side dishes
+      </div>
+      {dishes.length === 0 && <p className="text-xs text-gray-500">Just the main recipe.</p>}
+      {dishes.map((dish, index) => (
+        <div key={dish.recipeId} className="flex items-center gap-2">
+          <span className="flex-1 truncate text-sm text-gray-900">{recipeName(dish.recipeId)}</span>
+          <Input
+            type="number"
+            min={1}
+            placeholder={meal.servings?.toString() ?? 'auto'}
+            title="Servings; leave blank to cook as many as the meal"
+            value={dish.servings ?? ''}
+            onChange={(e) => setDishes(dishes.map((other, i) => (
+              i === index ? { ...other, servings: e.target.value === '' ? null : Number(e.target.value) } : other
+            )))}
+            onBlur={() => saveMutation.mutate(dishes)}
+            className="w-20 h-8 text-center"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            disabled={saveMutation.isPending}
+            onClick={() => saveMutation.mutate(dishes.filter((_, i) => i !== index))}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      {addable.length > 0 && (
+        <Select
+          value=""
+          disabled={saveMutation.isPending}
+          onValueChange={(value) => saveMutation.mutate([...dishes, { recipeId: parseInt(value) }])}
+        >
+          <SelectTrigger className="h-8"><SelectValue placeholder="Add a side dish" /></SelectTrigger>
+          <SelectContent>
+            {addable.map((recipe) => (
+              <SelectItem key={recipe.id} value={recipe.id.toString()}>{recipe.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  FamilyMealTime,
+  MealImportField,
+  MealImportFormat,
+  MealImportMapping,
+  MealImportPreview,
+  MealImportResult,
+  MealImportRow,
+} from "@shared/schema";
+
+interface MealImportDialogProps {
+  children: React.ReactNode;
+  familyId: number;
+  mealTimes: Pick<FamilyMealTime, "id" | "mealName">[];
+}
+
+const FIELD_LABELS: Record<MealImportField, string> = {
+  date: "Date",
+  mealTime: "Meal time",
+  recipe: "Recipe",
+  servings: "Servings",
+  notes: "Notes",
+  prepTime: "Prep time",
+  cookTime: "Cook time",
+};
+
+const NO_COLUMN = "__none";
+
+interface ImportFile {
+  name: string;
+  format: MealImportFormat;
+  content: string;
+}
+
+export default function MealImportDialog({ children, familyId, mealTimes }: MealImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [dayFirst, setDayFirst] = useState(false);
+  const [preview, setPreview] = useState<MealImportPreview | null>(null);
+  const [rows, setRows] = useState<MealImportRow[]>([]);
+  const [excludedLines, setExcludedLines] = useState<number[]>([]);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setRows([]);
+    setExcludedLines([]);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (request: { file: ImportFile; mapping?: MealImportMapping; dayFirst: boolean }) => {
+      const response = await apiRequest('POST', `/api/families/${familyId}/meal-imports/preview`, {
+        format: request.file.format,
+        content: request.file.content,
+        mapping: request.mapping,
+        dayFirst: request.dayFirst,
+      });
+      return response.json() as Promise<MealImportPreview>;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setRows(result.rows);
+      setExcludedLines([]);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't read the file", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (selectedRows: MealImportRow[]) => {
+      const response = await apiRequest('POST', `/api/families/${familyId}/meal-imports`, {
+        rows: selectedRows.map(({ matchScore, suggestions, ...row }) => row),
+      });
+      return response.json() as Promise<MealImportResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${familyId}/meals`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${familyId}/recipes`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/families', familyId, 'recipes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recipes'] });
+      const notes = [
+        result.createdRecipes.length > 0 ? `${result.createdRecipes.length} new recipes added.` : null,
+        result.skipped.length > 0 ? `${result.skipped.length} slots already had meals and were left alone.` : null,
+      ].filter(Boolean);
+      toast({ title: `Imported ${result.meals.length} meals`, description: notes.join(' ') || undefined });
+      reset();
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't import meals", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const content = await selected.text();
+    const isCalendar = selected.name.toLowerCase().endsWith('.ics') || content.trimStart().startsWith('BEGIN:VCALENDAR');
+    const nextFile: ImportFile = { name: selected.name, format: isCalendar ? 'ics' : 'csv', content };
+    setFile(nextFile);
+    previewMutation.mutate({ file: nextFile, dayFirst });
+  };
+
+  // Sends every field, with an empty column for unmapped ones, so the server doesn't guess again
+  const currentMapping = (): MealImportMapping | undefined => {
+    if (!preview || file?.format !== 'csv') return undefined;
+    const mapping: MealImportMapping = {};
+    for (const field of Object.keys(FIELD_LABELS) as MealImportField[]) {
+      mapping[field] = preview.mapping[field] ?? "";
+    }
+    return mapping;
+  };
+
+  const remap = (field: MealImportField, column: string) => {
+    if (!file) return;
+    const mapping = { ...currentMapping(), [field]: column === NO_COLUMN ? "" : column };
+    previewMutation.mutate({ file, mapping, dayFirst });
+  };
+
+  const changeDayFirst = (value: boolean) => {
+    setDayFirst(value);
+    if (file) previewMutation.mutate({ file, mapping: currentMapping(), dayFirst: value });
+  };
+
+  const updateRow = (line: number, changes: Partial<MealImportRow>) =>
+    setRows(rows.map((row) => (row.line === line ? { ...row, ...changes } : row)));
+
+  const toggleRow = (line: number, included: boolean) =>
+    setExcludedLines(included ? excludedLines.filter((excluded) => excluded !== line) : [...excludedLines, line]);
+
+  const selectedRows = rows.filter((row) => !excludedLines.includes(row.line));
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) reset(); }}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5" />
+            Import Meals
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="meal-import-file">Calendar (.ics) or spreadsheet (.csv)</Label>
+          <Input
+            key={file?.name ?? 'no-file'}
+            id="meal-import-file"
+            type="file"
+            accept=".ics,.csv,text/calendar,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <p className="text-xs text-gray-500">
+            Spreadsheets need a date column and a recipe column; a meal column puts each meal in the right
+            meal time. Recipes are matched to your family's recipes by name, and new ones are added.
+          </p>
+        </div>
+
+        {file?.format === 'csv' && preview && (
+          <div className="space-y-3 border-t pt-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {(Object.keys(FIELD_LABELS) as MealImportField[]).map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">{FIELD_LABELS[field]}</Label>
+                  <Select value={preview.mapping[field] ?? NO_COLUMN} onValueChange={(value) => remap(field, value)}>
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Not in file</SelectItem>
+                      {preview.columns.filter(Boolean).map((column) => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="meal-import-day-first" checked={dayFirst} onCheckedChange={changeDayFirst} />
+              <Label htmlFor="meal-import-day-first" className="text-sm">Dates are written day first (31/12/2025)</Label>
+            </div>
+          </div>
+        )}
+
+        {preview && preview.issues.length > 0 && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 space-y-1">
+            <div className="flex items-center gap-2 text-sm font-medium text-amber-800">
+              <AlertTriangle className="w-4 h-4" />
+              {preview.issues.length} {preview.issues.length === 1 ? 'row needs' : 'rows need'} attention
+            </div>
+            {preview.issues.map((issue, index) => (
+              <div key={index} className="text-xs text-amber-800">
+                {file?.format === 'ics' ? 'Event' : 'Line'} {issue.line}: {issue.message}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {preview && rows.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            {rows.map((row) => {
+              const recipeValue = row.recipeId?.toString() ?? (row.recipeName ? 'new' : 'none');
+              return (
+                <div key={row.line} className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+                  <Checkbox
+                    checked={!excludedLines.includes(row.line)}
+                    onCheckedChange={(checked) => toggleRow(row.line, checked === true)}
+                  />
+                  <span className="w-24 text-sm text-gray-700">{format(parseISO(row.scheduledDate), 'EEE, MMM d')}</span>
+                  <Select
+                    value={row.mealTypeId.toString()}
+                    onValueChange={(value) => updateRow(row.line, { mealTypeId: parseInt(value) })}
+                  >
+                    <SelectTrigger className="h-8 w-32"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {mealTimes.map((mealTime) => (
+                        <SelectItem key={mealTime.id} value={mealTime.id.toString()}>{mealTime.mealName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="min-w-0 flex-1 truncate text-sm font-medium text-gray-900" title={row.recipeName ?? undefined}>
+                    {row.recipeName ?? row.notes}
+                  </span>
+                  <Select
+                    value={recipeValue}
+                    onValueChange={(value) => updateRow(row.line, {
+                      recipeId: value === 'new' || value === 'none' ? null : parseInt(value),
+                    })}
+                  >
+                    <SelectTrigger className="h-8 w-56"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {row.suggestions.map((match) => (
+                        <SelectItem key={match.recipeId} value={match.recipeId.toString()}>
+                          {match.name} ({Math.round(match.score * 100)}% match)
+                        </SelectItem>
+                      ))}
+                      {row.recipeName ? (
+                        <SelectItem value="new">Add as a new recipe</SelectItem>
+                      ) : (
+                        <SelectItem value="none">Notes only</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {preview && (
+          <div className="flex justify-end gap-2 border-t pt-4">
+            <Button variant="outline" onClick={reset}>Choose another file</Button>
+            <Button
+              disabled={selectedRows.length === 0 || importMutation.isPending || previewMutation.isPending}
+              onClick={() => importMutation.mutate(selectedRows)}
+            >
+              Import {selectedRows.length} {selectedRows.length === 1 ? 'meal' : 'meals'}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { AlertTriangle, ArrowLeft, Clock, RefreshCw } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useFamilyMealTimes } from "@/hooks/useFamilyMealTimes";
+import type { Meal, MealPlanPreview, MealPlanRequest } from "@shared/schema";
+
+interface MealPlanGeneratorDialogProps {
+  children: React.ReactNode;
+  familyId: number;
+  startDate: string;
+  endDate: string;
+  defaultMaxMinutes?: number;
+  defaultNoRepeatDays?: number;
+}
+
+export default function MealPlanGeneratorDialog({
+  children,
+  familyId,
+  startDate,
+  endDate,
+  defaultMaxMinutes = 45,
+  defaultNoRepeatDays = 7,
+}: MealPlanGeneratorDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [weeknightMaxMinutes, setWeeknightMaxMinutes] = useState(defaultMaxMinutes);
+  const [noRepeatDays, setNoRepeatDays] = useState(defaultNoRepeatDays);
+  const [budget, setBudget] = useState("");
+  const [usePantry, setUsePantry] = useState(true);
+  const [preview, setPreview] = useState<MealPlanPreview | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { mealTimeName } = useFamilyMealTimes(familyId);
+
+  const previewMutation = useMutation({
+    mutationFn: async (seed: number) => {
+      const request: Partial<MealPlanRequest> = {
+        startDate,
+        endDate,
+        weeknightMaxMinutes,
+        noRepeatDays,
+        budget: budget.trim() ? Number(budget) : null,
+        usePantry,
+        seed,
+      };
+      const response = await apiRequest('POST', `/api/families/${familyId}/meal-plan/preview`, request);
+      return response.json() as Promise<MealPlanPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: () => {
+      toast({ title: "Failed to generate a meal plan", variant: "destructive" });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (plan: MealPlanPreview) => {
+      const response = await apiRequest('POST', `/api/families/${familyId}/meal-plan/accept`, {
+        meals: plan.meals.map(({ scheduledDate, mealTypeId, recipeId, servings }) => ({ scheduledDate, mealTypeId, recipeId, servings })),
+      });
+      return response.json() as Promise<{ created: Meal[]; skipped: unknown[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${familyId}/meals`] });
+      toast({
+        title: `Added ${result.created.length} meals`,
+        description: result.skipped.length > 0
+          ? `${result.skipped.length} slots were filled in the meantime and were left alone.`
+          : undefined,
+      });
+      setPreview(null);
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Failed to save the meal plan", variant: "destructive" });
+    },
+  });
+
+  const generate = () => previewMutation.mutate(Math.floor(Math.random() * 1_000_000));
+
+  const days = preview
+    ? Array.from(new Set([...preview.meals, ...preview.unfilled].map((slot) => slot.scheduledDate))).sort()
+    : [];
+
+  // The defaults come from the family's saved preferences, which may load after the first render
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setWeeknightMaxMinutes(defaultMaxMinutes);
+      setNoRepeatDays(defaultNoRepeatDays);
+    } else {
+      setPreview(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{preview ? "Review Meal Plan" : "Plan the Week"}</DialogTitle>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="plan-max-minutes">Weeknight time limit (minutes)</Label>
+                <Input
+                  id="plan-max-minutes"
+                  type="number"
+                  min={10}
+                  step={5}
+                  value={weeknightMaxMinutes}
+                  onChange={(e) => setWeeknightMaxMinutes(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="plan-no-repeat">Don't repeat a recipe within (days)</Label>
+                <Input
+                  id="plan-no-repeat"
+                  type="number"
+                  min={0}
+                  max={60}
+                  value={noRepeatDays}
+                  onChange={(e) => setNoRepeatDays(Math.min(60, Math.max(0, parseInt(e.target.value) || 0)))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="plan-budget">Budget for the week</Label>
+                <Input
+                  id="plan-budget"
+                  type="number"
+                  min={0}
+                  placeholder="Use family budget"
+                  value={budget}
+                  onChange={(e) => setBudget(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <Label htmlFor="plan-use-pantry">Use up pantry items</Label>
+                <Switch id="plan-use-pantry" checked={usePantry} onCheckedChange={setUsePantry} />
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              Empty slots are filled with recipes everyone can eat. Existing meals are kept.
+            </p>
+            <div className="flex justify-end">
+              <Button onClick={generate} disabled={previewMutation.isPending}>
+                {previewMutation.isPending ? "Planning..." : "Generate Plan"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                {preview.meals.length} meals • est. {preview.estimatedCost.toFixed(2)}
+                {preview.budget !== null && ` of ${preview.budget.toFixed(2)} budget`}
+              </span>
+              <Button variant="outline" size="sm" onClick={generate} disabled={previewMutation.isPending}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Regenerate
+              </Button>
+            </div>
+
+            {days.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-6">Every slot this week already has a meal.</p>
+            )}
+
+            {days.map((day) => (
+              <div key={day} className="space-y-2">
+                <div className="text-sm font-semibold text-gray-900">{format(parseISO(day), 'EEEE, MMM d')}</div>
+                {preview.meals.filter((meal) => meal.scheduledDate === day).map((meal) => (
+                  <div key={`${meal.scheduledDate}-${meal.mealTypeId}`} className="rounded-md border p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{mealTimeName(meal.mealTypeId)}</Badge>
+                        <span className="font-medium text-gray-900">{meal.recipeName}</span>
+                      </div>
+                      <div className="flex items-center gap-3 text-xs text-gray-500">
+                        {meal.totalMinutes !== null && (
+                          <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{meal.totalMinutes} min</span>
+                        )}
+                        <span>est. {meal.estimatedCost.toFixed(2)}</span>
+                      </div>
+                    </div>
+                    {meal.reasons.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">{meal.reasons.join(' • ')}</p>
+                    )}
+                  </div>
+                ))}
+                {preview.unfilled.filter((slot) => slot.scheduledDate === day).map((slot) => (
+                  <div key={`${slot.scheduledDate}-${slot.mealTypeId}`} className="rounded-md border border-dashed p-3 text-sm text-gray-500">
+                    {mealTimeName(slot.mealTypeId)}: {slot.reason}
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            {preview.excludedRecipes.length > 0 && (
+              <div className="rounded-md bg-amber-50 p-3 text-sm text-amber-800 space-y-1">
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="w-4 h-4" />
+                  Left out of the plan
+                </div>
+                {preview.excludedRecipes.map((recipe) => (
+                  <div key={recipe.recipeId}>{recipe.recipeName}: {recipe.reason}</div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={() => setPreview(null)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Options
+              </Button>
+              <Button
+                disabled={preview.meals.length === 0 || acceptMutation.isPending}
+                onClick={() => acceptMutation.mutate(preview)}
+              >
+                {acceptMutation.isPending ? "Saving..." : `Add ${preview.meals.length} Meals`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
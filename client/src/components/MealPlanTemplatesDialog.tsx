@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Calendar, Share2, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  MealPlanTemplateWithEntries,
+  MealTemplateApplyResult,
+  MealTemplateConflictPolicy,
+  FamilyMealTime,
+} from "@shared/schema";
+
+interface MealPlanTemplatesDialogProps {
+  children: React.ReactNode;
+  familyId: number;
+  weekStart: string; // the calendar week being viewed
+  mealTimes: Pick<FamilyMealTime, "id" | "mealName">[];
+}
+
+const CONFLICT_OPTIONS: { value: MealTemplateConflictPolicy; label: string }[] = [
+  { value: "skip", label: "Keep meals already planned" },
+  { value: "replace", label: "Replace planned meals" },
+  { value: "fail", label: "Don't apply if anything is planned" },
+];
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export default function MealPlanTemplatesDialog({ children, familyId, weekStart, mealTimes }: MealPlanTemplatesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [onConflict, setOnConflict] = useState<MealTemplateConflictPolicy>("skip");
+  const [name, setName] = useState("");
+  const [weeks, setWeeks] = useState(1);
+  const [shareCode, setShareCode] = useState("");
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: templates = [] } = useQuery<MealPlanTemplateWithEntries[]>({
+    queryKey: ['/api/families', familyId, 'meal-plan-templates'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/meal-plan-templates`);
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const refreshTemplates = () =>
+    queryClient.invalidateQueries({ queryKey: ['/api/families', familyId, 'meal-plan-templates'] });
+
+  const mealTimeName = (mealTypeId: number) =>
+    mealTimes.find((mealTime) => mealTime.id === mealTypeId)?.mealName ?? 'Meal';
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/families/${familyId}/meal-plan-templates`, {
+        name: name.trim(),
+        startDate: weekStart,
+        weeks,
+      });
+      return response.json() as Promise<MealPlanTemplateWithEntries>;
+    },
+    onSuccess: (template) => {
+      refreshTemplates();
+      setName("");
+      toast({ title: "Template saved", description: `${template.entries.length} meals saved as "${template.name}".` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save template", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (templateId: number) => {
+      const response = await apiRequest('POST', `/api/meal-plan-templates/${templateId}/apply`, {
+        startDate: weekStart,
+        onConflict,
+      });
+      return response.json() as Promise<MealTemplateApplyResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${familyId}/meals`] });
+      const notes = [
+        result.replaced.length > 0 ? `${result.replaced.length} planned meals replaced.` : null,
+        result.skipped.length > 0 ? `${result.skipped.length} slots already had meals and were left alone.` : null,
+      ].filter(Boolean);
+      toast({ title: `Added ${result.created.length} meals`, description: notes.join(' ') || undefined });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't apply template", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async ({ templateId, share }: { templateId: number; share: boolean }) => {
+      const response = await apiRequest(share ? 'POST' : 'DELETE', `/api/meal-plan-templates/${templateId}/share`);
+      return response.json() as Promise<MealPlanTemplateWithEntries>;
+    },
+    onSuccess: (template) => {
+      refreshTemplates();
+      toast({
+        title: template.shareCode ? "Template shared" : "Template no longer shared",
+        description: template.shareCode ? `Other families can import it with the code ${template.shareCode}.` : undefined,
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/families/${familyId}/meal-plan-templates/import`, {
+        shareCode: shareCode.trim(),
+      });
+      return response.json() as Promise<MealPlanTemplateWithEntries>;
+    },
+    onSuccess: (template) => {
+      refreshTemplates();
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${familyId}/recipes`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/families', familyId, 'recipes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recipes'] });
+      setShareCode("");
+      toast({ title: `Imported "${template.name}"`, description: "Recipes your family didn't have were copied over." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't import template", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: number) => {
+      const response = await apiRequest('DELETE', `/api/meal-plan-templates/${templateId}`);
+      return response.json();
+    },
+    onSuccess: refreshTemplates,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calendar className="w-5 h-5" />
+            Meal Plan Templates
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label>When a slot already has a meal</Label>
+          <Select value={onConflict} onValueChange={(value) => setOnConflict(value as MealTemplateConflictPolicy)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {CONFLICT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          {templates.length === 0 && (
+            <p className="text-sm text-gray-500">No templates yet. Save a week you liked to reuse it later.</p>
+          )}
+          {templates.map((template) => (
+            <div key={template.id} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  type="button"
+                  className="text-left"
+                  onClick={() => setExpandedId(expandedId === template.id ? null : template.id)}
+                >
+                  <div className="text-sm font-medium text-gray-900">{template.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {template.entries.length} meals • {template.weeks} {template.weeks === 1 ? 'week' : 'weeks'}
+                  </div>
+                </button>
+                <div className="flex items-center gap-1">
+                  {template.shareCode && <Badge variant="outline">Code {template.shareCode}</Badge>}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={template.shareCode ? "Stop sharing" : "Share with another family"}
+                    disabled={shareMutation.isPending}
+                    onClick={() => shareMutation.mutate({ templateId: template.id, share: !template.shareCode })}
+                  >
+                    <Share2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(template.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={template.entries.length === 0 || applyMutation.isPending}
+                    onClick={() => applyMutation.mutate(template.id)}
+                  >
+                    Apply
+                  </Button>
+                </div>
+              </div>
+              {expandedId === template.id && (
+                <div className="space-y-1 border-t pt-2">
+                  {template.entries.map((entry) => (
+                    <div key={entry.id} className="flex justify-between text-xs text-gray-600">
+                      <span>
+                        {template.weeks > 1 && `Week ${entry.weekIndex + 1} • `}
+                        {DAY_LABELS[entry.dayOfWeek]} • {mealTimeName(entry.mealTypeId)}
+                      </span>
+                      <span className={entry.recipeId === null ? 'text-gray-400 line-through' : undefined}>
+                        {entry.recipeName ?? entry.notes ?? 'Meal'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <Label htmlFor="template-name">
+            Save the week of {format(parseISO(weekStart), 'MMM d')} as a template
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="template-name"
+              placeholder="e.g. Busy school week"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Select value={weeks.toString()} onValueChange={(value) => setWeeks(parseInt(value))}>
+              <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3, 4].map((count) => (
+                  <SelectItem key={count} value={count.toString()}>
+                    {count} {count === 1 ? 'week' : 'weeks'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button disabled={!name.trim() || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+              Save
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <Label htmlFor="template-share-code">Import a template another family shared</Label>
+          <div className="flex gap-2">
+            <Input
+              id="template-share-code"
+              placeholder="Share code"
+              value={shareCode}
+              onChange={(e) => setShareCode(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              disabled={!shareCode.trim() || importMutation.isPending}
+              onClick={() => importMutation.mutate()}
+            >
+              Import
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
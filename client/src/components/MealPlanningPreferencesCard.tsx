@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChefHat } from "lucide-react";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { mealPlanningPreferencesKey, useMealPlanningPreferences } from "@/hooks/useMealPlanningPreferences";
+import type {
+  MealPlanningDifficulty,
+  MealPlanningPreferenceSettings,
+  MealPlanningPreferencesInput,
+  MealPlanningPreferenceValues,
+  MealPlanningRules,
+} from "@shared/schema";
+
+interface MealPlanningPreferencesCardProps {
+  familyId: number;
+  isAdmin: boolean;
+  currentUserId: string | undefined;
+}
+
+const INHERIT = "__inherit";
+
+// Form state; blank fields fall back to the level above
+interface PreferenceDraft {
+  dietaryRestrictions: string;
+  preferredCuisines: string;
+  avoidIngredients: string;
+  maxCookTime: string;
+  preferredDifficulty: string;
+  balanceNutrition: string;
+  repeatFrequency: string;
+}
+
+const toDraft = (values: MealPlanningPreferenceValues): PreferenceDraft => ({
+  dietaryRestrictions: values.dietaryRestrictions?.join(', ') ?? '',
+  preferredCuisines: values.preferredCuisines?.join(', ') ?? '',
+  avoidIngredients: values.avoidIngredients?.join(', ') ?? '',
+  maxCookTime: values.maxCookTime?.toString() ?? '',
+  preferredDifficulty: values.preferredDifficulty ?? INHERIT,
+  balanceNutrition: values.balanceNutrition === null ? INHERIT : values.balanceNutrition ? 'on' : 'off',
+  repeatFrequency: values.repeatFrequency?.toString() ?? '',
+});
+
+const toList = (text: string) => {
+  const items = text.split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : null;
+};
+
+const toInput = (draft: PreferenceDraft): MealPlanningPreferencesInput => ({
+  dietaryRestrictions: toList(draft.dietaryRestrictions),
+  preferredCuisines: toList(draft.preferredCuisines),
+  avoidIngredients: toList(draft.avoidIngredients),
+  maxCookTime: draft.maxCookTime.trim() ? Number(draft.maxCookTime) : null,
+  preferredDifficulty: draft.preferredDifficulty === INHERIT ? null : draft.preferredDifficulty as MealPlanningDifficulty,
+  balanceNutrition: draft.balanceNutrition === INHERIT ? null : draft.balanceNutrition === 'on',
+  repeatFrequency: draft.repeatFrequency.trim() ? Number(draft.repeatFrequency) : null,
+});
+
+function PreferenceFields({ draft, onChange, disabled, fallback }: {
+  draft: PreferenceDraft;
+  onChange: (draft: PreferenceDraft) => void;
+  disabled: boolean;
+  fallback: string; // what blank fields fall back to, e.g. "family default"
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Dietary restrictions</Label>
+        <Input
+          disabled={disabled}
+          placeholder="e.g. vegetarian, gluten-free"
+          value={draft.dietaryRestrictions}
+          onChange={(e) => onChange({ ...draft, dietaryRestrictions: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Ingredients to avoid</Label>
+        <Input
+          disabled={disabled}
+          placeholder="e.g. mushrooms, cilantro"
+          value={draft.avoidIngredients}
+          onChange={(e) => onChange({ ...draft, avoidIngredients: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Preferred cuisines</Label>
+        <Input
+          disabled={disabled}
+          placeholder="e.g. italian, thai"
+          value={draft.preferredCuisines}
+          onChange={(e) => onChange({ ...draft, preferredCuisines: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Preferred difficulty</Label>
+        <Select
+          disabled={disabled}
+          value={draft.preferredDifficulty}
+          onValueChange={(value) => onChange({ ...draft, preferredDifficulty: value })}
+        >
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={INHERIT}>Use {fallback}</SelectItem>
+            <SelectItem value="easy">Easy only</SelectItem>
+            <SelectItem value="medium">Up to medium</SelectItem>
+            <SelectItem value="hard">Up to hard</SelectItem>
+            <SelectItem value="any">Any difficulty</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Max cook time (minutes)</Label>
+        <Input
+          type="number"
+          min={5}
+          max={480}
+          disabled={disabled}
+          placeholder={`Use ${fallback}`}
+          value={draft.maxCookTime}
+          onChange={(e) => onChange({ ...draft, maxCookTime: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Days before repeating a recipe</Label>
+        <Input
+          type="number"
+          min={0}
+          max={60}
+          disabled={disabled}
+          placeholder={`Use ${fallback}`}
+          value={draft.repeatFrequency}
+          onChange={(e) => onChange({ ...draft, repeatFrequency: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Nutritional balance</Label>
+        <Select
+          disabled={disabled}
+          value={draft.balanceNutrition}
+          onValueChange={(value) => onChange({ ...draft, balanceNutrition: value })}
+        >
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={INHERIT}>Use {fallback}</SelectItem>
+            <SelectItem value="on">Prioritize balanced meals</SelectItem>
+            <SelectItem value="off">Don't consider nutrition</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+function RulesSummary({ rules }: { rules: MealPlanningRules }) {
+  const lists = [
+    ...rules.dietaryRestrictions.map((item) => ({ item, variant: "default" as const })),
+    ...rules.avoidIngredients.map((item) => ({ item: `no ${item}`, variant: "destructive" as const })),
+    ...rules.preferredCuisines.map((item) => ({ item, variant: "secondary" as const })),
+  ];
+  return (
+    <div className="space-y-2 rounded-md bg-gray-50 p-3 text-sm text-gray-700">
+      <p>
+        Meals take up to {rules.maxCookTime} minutes, recipes wait {rules.repeatFrequency} days before coming back,
+        difficulty is {rules.preferredDifficulty === 'any' ? 'not limited' : `${rules.preferredDifficulty} or easier`}
+        {rules.balanceNutrition ? ', and balanced meals come first.' : '.'}
+      </p>
+      {lists.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {lists.map(({ item, variant }) => <Badge key={item} variant={variant}>{item}</Badge>)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function MealPlanningPreferencesCard({ familyId, isAdmin, currentUserId }: MealPlanningPreferencesCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { settings } = useMealPlanningPreferences(familyId);
+  const [familyDraft, setFamilyDraft] = useState<PreferenceDraft | null>(null);
+  const [memberId, setMemberId] = useState<string | undefined>(currentUserId);
+  const [memberDraft, setMemberDraft] = useState<PreferenceDraft | null>(null);
+
+  const member = settings?.members.find((other) => other.userId === memberId);
+
+  useEffect(() => {
+    if (settings) setFamilyDraft(toDraft(settings.familyDefaults));
+  }, [settings]);
+
+  useEffect(() => {
+    setMemberDraft(member ? toDraft(member.overrides) : null);
+  }, [settings, memberId]);
+
+  useEffect(() => {
+    if (!memberId) setMemberId(currentUserId);
+  }, [currentUserId]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ userId, draft }: { userId: string | null; draft: PreferenceDraft }) => {
+      const url = userId === null
+        ? `/api/families/${familyId}/meal-planning-preferences`
+        : `/api/families/${familyId}/meal-planning-preferences/members/${userId}`;
+      const response = await apiRequest('PATCH', url, toInput(draft));
+      return response.json() as Promise<MealPlanningPreferenceSettings>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(mealPlanningPreferencesKey(familyId), updated);
+      toast({ title: "Meal planning preferences saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save meal planning preferences", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const canEditMember = !!member && (isAdmin || member.userId === currentUserId);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ChefHat className="h-5 w-5" />
+          Meal Planning
+        </CardTitle>
+        <CardDescription>
+          Rules for meal recommendations and Auto-Fill Week. Members can add their own restrictions and
+          limits on top of the family's; the strictest limit wins so everyone plans with the same rules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {settings && <RulesSummary rules={settings.rules} />}
+
+        {familyDraft && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">Family defaults</h4>
+            <PreferenceFields draft={familyDraft} onChange={setFamilyDraft} disabled={!isAdmin} fallback="app default" />
+            {isAdmin && (
+              <Button
+                disabled={saveMutation.isPending}
+                onClick={() => saveMutation.mutate({ userId: null, draft: familyDraft })}
+              >
+                Save Family Defaults
+              </Button>
+            )}
+          </div>
+        )}
+
+        {settings && memberDraft && (
+          <div className="space-y-3 border-t pt-4">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-sm font-medium text-gray-900">
+                {member?.userId === currentUserId ? 'Your preferences' : `${member?.name}'s preferences`}
+              </h4>
+              {isAdmin && settings.members.length > 1 && (
+                <Select value={memberId} onValueChange={setMemberId}>
+                  <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {settings.members.map((other) => (
+                      <SelectItem key={other.userId} value={other.userId}>{other.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <PreferenceFields draft={memberDraft} onChange={setMemberDraft} disabled={!canEditMember} fallback="family default" />
+            {canEditMember && member && (
+              <Button
+                variant="outline"
+                disabled={saveMutation.isPending}
+                onClick={() => saveMutation.mutate({ userId: member.userId, draft: memberDraft })}
+              >
+                Save {member.userId === currentUserId ? 'My' : `${member.name}'s`} Preferences
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
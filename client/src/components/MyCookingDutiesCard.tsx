@@ -0,0 +1,77 @@
+import { useFamily } from "@/contexts/FamilyContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChefHat, ChevronRight } from "lucide-react";
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { useCookingDuties } from "@/hooks/useCookingRotation";
+import type { MealAssignmentRole } from "@shared/schema";
+
+const ROLE_LABELS: Record<MealAssignmentRole, string> = {
+  cook: "Cooking",
+  helper: "Helping",
+  cleanup: "Cleaning up",
+};
+
+export default function MyCookingDutiesCard() {
+  const { currentFamily } = useFamily();
+  const { duties } = useCookingDuties(currentFamily?.id);
+
+  if (!currentFamily) return null;
+
+  const remaining = duties.filter((duty) => duty.meal.status !== 'completed').length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold text-gray-900">My Cooking Duties</CardTitle>
+          <span className="text-sm text-gray-500">
+            {duties.length > 0 ? `${remaining} left this week` : 'None'}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {duties.length === 0 ? (
+          <div className="text-center py-6">
+            <ChefHat className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+            <p className="text-sm text-gray-600 mb-3">Nothing assigned to you this week</p>
+            <Link href="/meals">
+              <Button variant="outline" size="sm">Open Calendar</Button>
+            </Link>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3 mb-4">
+              {duties.map((duty) => (
+                <div key={`${duty.meal.id}-${duty.role}`} className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className={`text-sm truncate ${duty.meal.status === 'completed' ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                      {duty.recipeName ?? duty.mealTimeName}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {format(parseISO(duty.meal.scheduledDate), 'EEE')} {duty.mealTimeName.toLowerCase()}
+                      {duty.teammates.length > 0 && ` · with ${duty.teammates.map((teammate) => teammate.name).join(', ')}`}
+                    </div>
+                  </div>
+                  <Badge variant={duty.role === 'cook' ? 'default' : 'secondary'} className="text-xs shrink-0">
+                    {ROLE_LABELS[duty.role]}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-end pt-2 border-t border-gray-100">
+              <Link href="/meals">
+                <Button variant="ghost" size="sm" className="text-primary hover:text-primary/90 h-auto p-0">
+                  View calendar <ChevronRight className="w-3 h-3 ml-1" />
+                </Button>
+              </Link>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
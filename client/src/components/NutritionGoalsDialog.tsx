@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { NutrientTotals, NutritionGoal, NutritionGoalProfile } from "@shared/schema";
+
+interface NutritionGoalsDialogProps {
+  children: React.ReactNode;
+  familyId: number;
+  targets: NutrientTotals;
+}
+
+const TARGET_FIELDS: { key: keyof NutrientTotals; label: string; unit: string }[] = [
+  { key: "calories", label: "Calories", unit: "kcal" },
+  { key: "protein", label: "Protein", unit: "g" },
+  { key: "carbs", label: "Carbs", unit: "g" },
+  { key: "fat", label: "Fat", unit: "g" },
+  { key: "fiber", label: "Fiber", unit: "g" },
+  { key: "sugar", label: "Sugar", unit: "g" },
+  { key: "sodium", label: "Sodium", unit: "mg" },
+];
+
+export default function NutritionGoalsDialog({ children, familyId, targets }: NutritionGoalsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [manualTargets, setManualTargets] = useState<NutrientTotals>(targets);
+  const [profile, setProfile] = useState<NutritionGoalProfile>({
+    age: 35,
+    sex: "female",
+    heightCm: 165,
+    weightKg: 65,
+    activityLevel: "moderate",
+    goalType: "maintain",
+  });
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setManualTargets(targets);
+  }, [open, targets]);
+
+  const { data: history = [] } = useQuery<NutritionGoal[]>({
+    queryKey: ['/api/families', familyId, 'nutrition-goals', 'history'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/nutrition-goals/history`);
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const { data: preview } = useQuery<{ bmr: number; targets: NutrientTotals }>({
+    queryKey: ['/api/nutrition-goals/calculate', profile],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/nutrition-goals/calculate', profile);
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const invalidateGoals = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/families', familyId, 'nutrition-goals'] });
+  };
+
+  const saveGoalMutation = useMutation({
+    mutationFn: async (data: { profile: NutritionGoalProfile } | Record<string, string | number>) => {
+      const response = await apiRequest('POST', `/api/families/${familyId}/nutrition-goals`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateGoals();
+      toast({ title: "Nutrition goals saved" });
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Failed to save nutrition goals", variant: "destructive" });
+    },
+  });
+
+  const deleteGoalMutation = useMutation({
+    mutationFn: async (goalId: number) => {
+      const response = await apiRequest('DELETE', `/api/nutrition-goals/${goalId}`);
+      return response.json();
+    },
+    onSuccess: invalidateGoals,
+  });
+
+  const saveManualTargets = () => {
+    // Calories are stored as an integer, everything else as decimal strings
+    saveGoalMutation.mutate({
+      calories: Math.round(manualTargets.calories),
+      protein: manualTargets.protein.toString(),
+      carbs: manualTargets.carbs.toString(),
+      fat: manualTargets.fat.toString(),
+      fiber: manualTargets.fiber.toString(),
+      sugar: manualTargets.sugar.toString(),
+      sodium: manualTargets.sodium.toString(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Nutrition Goals</DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue="manual">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="manual">Set Targets</TabsTrigger>
+            <TabsTrigger value="calculate">Calculate</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="manual" className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {TARGET_FIELDS.map(({ key, label, unit }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`goal-${key}`}>{label} ({unit})</Label>
+                  <Input
+                    id={`goal-${key}`}
+                    type="number"
+                    min={0}
+                    value={manualTargets[key]}
+                    onChange={(e) => setManualTargets({ ...manualTargets, [key]: Number(e.target.value) || 0 })}
+                  />
+                </div>
+              ))}
+            </div>
+            <Button className="w-full" onClick={saveManualTargets} disabled={saveGoalMutation.isPending}>
+              {saveGoalMutation.isPending ? "Saving..." : "Save Targets"}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="calculate" className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="goal-age">Age</Label>
+                <Input
+                  id="goal-age"
+                  type="number"
+                  value={profile.age}
+                  onChange={(e) => setProfile({ ...profile, age: Number(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Sex</Label>
+                <Select value={profile.sex} onValueChange={(sex) => setProfile({ ...profile, sex: sex as NutritionGoalProfile["sex"] })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="female">Female</SelectItem>
+                    <SelectItem value="male">Male</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="goal-height">Height (cm)</Label>
+                <Input
+                  id="goal-height"
+                  type="number"
+                  value={profile.heightCm}
+                  onChange={(e) => setProfile({ ...profile, heightCm: Number(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="goal-weight">Weight (kg)</Label>
+                <Input
+                  id="goal-weight"
+                  type="number"
+                  value={profile.weightKg}
+                  onChange={(e) => setProfile({ ...profile, weightKg: Number(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Activity</Label>
+                <Select
+                  value={profile.activityLevel}
+                  onValueChange={(activityLevel) => setProfile({ ...profile, activityLevel: activityLevel as NutritionGoalProfile["activityLevel"] })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sedentary">Sedentary</SelectItem>
+                    <SelectItem value="light">Lightly active</SelectItem>
+                    <SelectItem value="moderate">Moderately active</SelectItem>
+                    <SelectItem value="active">Very active</SelectItem>
+                    <SelectItem value="very_active">Extremely active</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Goal</Label>
+                <Select
+                  value={profile.goalType}
+                  onValueChange={(goalType) => setProfile({ ...profile, goalType: goalType as NutritionGoalProfile["goalType"] })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="lose">Lose weight</SelectItem>
+                    <SelectItem value="maintain">Maintain</SelectItem>
+                    <SelectItem value="gain">Gain weight</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {preview && (
+              <div className="rounded-md bg-gray-50 p-3 text-sm space-y-1">
+                <div className="text-gray-600">Resting energy: {preview.bmr} kcal/day</div>
+                <div className="font-medium text-gray-900">
+                  {preview.targets.calories} kcal • {preview.targets.protein}g protein • {preview.targets.carbs}g carbs • {preview.targets.fat}g fat
+                </div>
+              </div>
+            )}
+
+            <Button className="w-full" onClick={() => saveGoalMutation.mutate({ profile })} disabled={saveGoalMutation.isPending}>
+              {saveGoalMutation.isPending ? "Saving..." : "Use Calculated Targets"}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="history" className="space-y-2 max-h-80 overflow-y-auto">
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">No goals saved yet. Default targets are in use.</p>
+            ) : (
+              history.map((goal) => (
+                <div key={goal.id} className="flex items-center justify-between border rounded-md p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                      {format(new Date(`${goal.effectiveFrom}T00:00:00`), 'MMM d, yyyy')}
+                      {goal.effectiveTo
+                        ? ` – ${format(new Date(`${goal.effectiveTo}T00:00:00`), 'MMM d, yyyy')}`
+                        : <Badge variant="secondary">Current</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {goal.calories} kcal • {Number(goal.protein)}g protein • {Number(goal.carbs)}g carbs • {Number(goal.fat)}g fat
+                      {goal.source === "calculated" && " • calculated"}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => deleteGoalMutation.mutate(goal.id)} disabled={deleteGoalMutation.isPending}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { TrendingUp } from "lucide-react";
+import { format, subDays } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import type { NutrientTotals, NutritionAnalytics } from "@shared/schema";
+
+interface NutritionTrendsProps {
+  familyId: number;
+  endDate: string;
+}
+
+const chartConfig = {
+  actual: { label: "Logged", color: "var(--primary)" },
+  rolling7: { label: "7-day average", color: "#3b82f6" },
+  rolling30: { label: "30-day average", color: "#a855f7" },
+  goal: { label: "Goal", color: "#9ca3af" },
+} satisfies ChartConfig;
+
+const METRICS: { key: keyof NutrientTotals; label: string }[] = [
+  { key: "calories", label: "Calories" },
+  { key: "protein", label: "Protein" },
+  { key: "carbs", label: "Carbs" },
+  { key: "fat", label: "Fat" },
+];
+
+export default function NutritionTrends({ familyId, endDate }: NutritionTrendsProps) {
+  const [rangeDays, setRangeDays] = useState("30");
+  const [metric, setMetric] = useState<keyof NutrientTotals>("calories");
+  const startDate = format(subDays(new Date(`${endDate}T00:00:00`), Number(rangeDays) - 1), 'yyyy-MM-dd');
+
+  const { data: analytics, isLoading } = useQuery<NutritionAnalytics>({
+    queryKey: ['/api/nutrition-logs/analytics', { familyId, startDate, endDate }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/nutrition-logs/analytics?familyId=${familyId}&startDate=${startDate}&endDate=${endDate}`);
+      return response.json();
+    },
+  });
+
+  const chartData = (analytics?.days ?? []).map((day) => ({
+    date: format(new Date(`${day.date}T00:00:00`), 'MMM d'),
+    actual: day.logCount > 0 ? day.totals[metric] : null,
+    rolling7: day.rolling7[metric] || null,
+    rolling30: day.rolling30[metric] || null,
+    goal: day.targets[metric],
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+          <TrendingUp className="w-5 h-5" />
+          Trends
+        </CardTitle>
+        <div className="flex gap-2">
+          <Select value={metric} onValueChange={(value) => setMetric(value as keyof NutrientTotals)}>
+            <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {METRICS.map(({ key, label }) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={rangeDays} onValueChange={setRangeDays}>
+            <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !analytics ? (
+          <div className="h-64 bg-gray-100 rounded animate-pulse"></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="rounded-md border p-4">
+                <div className="text-sm text-gray-600">Goal adherence</div>
+                <div className="text-2xl font-bold text-gray-900">
+                  {analytics.adherence.average !== null ? `${analytics.adherence.average}%` : '—'}
+                </div>
+              </div>
+              <div className="rounded-md border p-4">
+                <div className="text-sm text-gray-600">Days on target</div>
+                <div className="text-2xl font-bold text-gray-900">
+                  {analytics.adherence.daysOnTarget} / {analytics.adherence.daysLogged}
+                </div>
+                <div className="text-xs text-gray-500">calories within 10% of goal</div>
+              </div>
+              <div className="rounded-md border p-4">
+                <div className="text-sm text-gray-600">Average per logged day</div>
+                <div className="text-2xl font-bold text-gray-900">{Math.round(analytics.averages.calories)} cal</div>
+                <div className="text-xs text-gray-500">
+                  {Math.round(analytics.averages.protein)}g protein • {Math.round(analytics.averages.carbs)}g carbs • {Math.round(analytics.averages.fat)}g fat
+                </div>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ left: 4, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="actual" stroke="var(--color-actual)" strokeWidth={2} dot={false} connectNulls={false} />
+                <Line dataKey="rolling7" stroke="var(--color-rolling7)" strokeWidth={2} dot={false} connectNulls />
+                {Number(rangeDays) > 7 && (
+                  <Line dataKey="rolling30" stroke="var(--color-rolling30)" strokeWidth={2} dot={false} connectNulls />
+                )}
+                <Line dataKey="goal" stroke="var(--color-goal)" strokeDasharray="4 4" dot={false} />
+              </LineChart>
+            </ChartContainer>
+
+            <div className="space-y-3">
+              <h4 className="font-semibold text-gray-900">By meal type</h4>
+              {analytics.mealTypes.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing logged in this period.</p>
+              ) : (
+                analytics.mealTypes.map((mealType) => (
+                  <div key={mealType.mealTypeId ?? 'other'} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="capitalize text-gray-700">{mealType.mealTypeName}</span>
+                      <span className="text-gray-500">
+                        {Math.round(mealType.dailyAverage.calories)} cal/day
+                        <Badge variant="secondary" className="ml-2">{mealType.calorieShare}%</Badge>
+                      </span>
+                    </div>
+                    <Progress value={mealType.calorieShare} className="h-2" />
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, History, Search } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useFamilyMealTimes } from "@/hooks/useFamilyMealTimes";
+import type { FoodSearchResult, FoodServingOption, InsertNutritionLog } from "@shared/schema";
+
+interface QuickAddFoodDialogProps {
+  children: React.ReactNode;
+  familyId: number;
+  loggedDate: string;
+  defaultMealTypeId?: number;
+}
+
+const SOURCE_LABELS: Record<FoodSearchResult["source"], string> = {
+  history: "Recent",
+  recipe: "Recipe",
+  database: "Food",
+};
+
+// Multiplies a serving by the quantity and shapes it for insertNutritionLogSchema
+const toLogFields = (serving: FoodServingOption, quantity: number) => ({
+  calories: Math.round(serving.nutrients.calories * quantity),
+  protein: (serving.nutrients.protein * quantity).toFixed(2),
+  carbs: (serving.nutrients.carbs * quantity).toFixed(2),
+  fat: (serving.nutrients.fat * quantity).toFixed(2),
+  fiber: (serving.nutrients.fiber * quantity).toFixed(2),
+  sugar: (serving.nutrients.sugar * quantity).toFixed(2),
+  sodium: (serving.nutrients.sodium * quantity).toFixed(2),
+});
+
+export default function QuickAddFoodDialog({ children, familyId, loggedDate, defaultMealTypeId }: QuickAddFoodDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [selected, setSelected] = useState<FoodSearchResult | null>(null);
+  const [servingIndex, setServingIndex] = useState(0);
+  const [quantity, setQuantity] = useState(1);
+  const [mealTypeId, setMealTypeId] = useState<number | undefined>(defaultMealTypeId);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { mealTimes } = useFamilyMealTimes(familyId);
+
+  const { data: results = [], isFetching } = useQuery<FoodSearchResult[]>({
+    queryKey: ['/api/foods/search', { q: debouncedQuery, familyId }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/foods/search?q=${encodeURIComponent(debouncedQuery)}&familyId=${familyId}`);
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const resetForm = () => {
+    setQuery("");
+    setSelected(null);
+    setServingIndex(0);
+    setQuantity(1);
+    setMealTypeId(defaultMealTypeId);
+  };
+
+  const logFoodMutation = useMutation({
+    mutationFn: async (log: Omit<InsertNutritionLog, "userId">) => {
+      const response = await apiRequest('POST', '/api/nutrition-logs', log);
+      return response.json();
+    },
+    onSuccess: (_, log) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/nutrition-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/foods/search'] });
+      toast({ title: `Logged ${log.foodName}` });
+      resetForm();
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Failed to log food", variant: "destructive" });
+    },
+  });
+
+  const logFood = (food: FoodSearchResult, serving: FoodServingOption, amount: number, foodMealTypeId?: number | null) => {
+    logFoodMutation.mutate({
+      familyId,
+      mealTypeId: foodMealTypeId ?? null,
+      foodName: food.name,
+      portion: serving.portion !== null ? (serving.portion * amount).toFixed(2) : null,
+      loggedDate,
+      ...toLogFields(serving, amount),
+    });
+  };
+
+  const selectFood = (food: FoodSearchResult) => {
+    setSelected(food);
+    setServingIndex(0);
+    setQuantity(1);
+    setMealTypeId(defaultMealTypeId ?? food.mealTypeId ?? undefined);
+  };
+
+  const serving = selected?.servings[servingIndex];
+  const preview = serving ? toLogFields(serving, quantity) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) resetForm(); }}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{selected ? selected.name : "Log Food"}</DialogTitle>
+        </DialogHeader>
+
+        {!selected ? (
+          <div className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <Input
+                autoFocus
+                placeholder="Search foods, recipes or past meals"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            {!debouncedQuery.trim() && results.length > 0 && (
+              <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <History className="w-4 h-4" />
+                Log again
+              </div>
+            )}
+
+            <div className="max-h-80 overflow-y-auto divide-y">
+              {results.map((food) => (
+                <div key={food.key} className="flex items-center justify-between gap-3 py-2">
+                  <button type="button" className="flex-1 text-left" onClick={() => selectFood(food)}>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900 capitalize">{food.name}</span>
+                      <Badge variant="outline" className="text-xs">{SOURCE_LABELS[food.source]}</Badge>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {food.servings[0].label} • {food.servings[0].nutrients.calories} cal
+                      {food.detail && ` • ${food.detail}`}
+                    </div>
+                  </button>
+                  {food.source === "history" && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={logFoodMutation.isPending}
+                      onClick={() => logFood(food, food.servings[0], 1, defaultMealTypeId ?? food.mealTypeId)}
+                    >
+                      Log again
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {results.length === 0 && !isFetching && (
+                <p className="text-sm text-gray-500 text-center py-6">
+                  {debouncedQuery.trim() ? "No foods found." : "Foods you log will show up here."}
+                </p>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Serving</Label>
+                <Select value={servingIndex.toString()} onValueChange={(value) => setServingIndex(parseInt(value))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {selected.servings.map((option, index) => (
+                      <SelectItem key={option.label} value={index.toString()}>
+                        {option.label}{option.grams !== null && option.label !== '100 g' ? ` (${option.grams} g)` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quick-add-quantity">Quantity</Label>
+                <Input
+                  id="quick-add-quantity"
+                  type="number"
+                  min={0.25}
+                  step={0.25}
+                  value={quantity}
+                  onChange={(e) => setQuantity(Math.max(0, Number(e.target.value) || 0))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Meal</Label>
+              <Select value={mealTypeId?.toString() ?? ""} onValueChange={(value) => setMealTypeId(parseInt(value))}>
+                <SelectTrigger><SelectValue placeholder="Choose a meal" /></SelectTrigger>
+                <SelectContent>
+                  {mealTimes.map((mealTime) => (
+                    <SelectItem key={mealTime.id} value={mealTime.id.toString()}>
+                      {mealTime.mealName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {preview && (
+              <div className="grid grid-cols-4 gap-2 rounded-md bg-gray-50 p-3 text-center text-sm">
+                <div><div className="font-semibold">{preview.calories}</div><div className="text-xs text-gray-500">cal</div></div>
+                <div><div className="font-semibold">{Math.round(Number(preview.protein))}g</div><div className="text-xs text-gray-500">protein</div></div>
+                <div><div className="font-semibold">{Math.round(Number(preview.carbs))}g</div><div className="text-xs text-gray-500">carbs</div></div>
+                <div><div className="font-semibold">{Math.round(Number(preview.fat))}g</div><div className="text-xs text-gray-500">fat</div></div>
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={() => setSelected(null)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                disabled={!serving || quantity <= 0 || logFoodMutation.isPending}
+                onClick={() => serving && logFood(selected, serving, quantity, mealTypeId)}
+              >
+                {logFoodMutation.isPending ? "Logging..." : "Add to Log"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Minus, Plus, Users } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useMeasurementSystem } from "@/hooks/useMeasurementSystem";
+import type { ScaledRecipe } from "@shared/schema";
+
+interface RecipeScalerProps {
+  recipeId: number;
+  defaultServings: number;
+  onServingsChange?: (servings: number) => void;
+}
+
+export default function RecipeScaler({ recipeId, defaultServings, onServingsChange }: RecipeScalerProps) {
+  const measurementSystem = useMeasurementSystem();
+  const [servings, setServings] = useState(defaultServings);
+
+  useEffect(() => {
+    setServings(defaultServings);
+  }, [recipeId, defaultServings]);
+
+  const { data: scaledRecipe, isLoading } = useQuery<ScaledRecipe>({
+    queryKey: ['/api/recipes', recipeId, { servings, units: measurementSystem }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/recipes/${recipeId}?servings=${servings}&units=${measurementSystem}`);
+      return response.json();
+    },
+    enabled: servings > 0,
+  });
+
+  const updateServings = (value: number) => {
+    const next = Math.min(100, Math.max(1, Math.round(value) || 1));
+    setServings(next);
+    onServingsChange?.(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          Servings
+        </Label>
+        <div className="flex items-center gap-2">
+          <Button type="button" variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => updateServings(servings - 1)} disabled={servings <= 1}>
+            <Minus className="w-3 h-3" />
+          </Button>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={servings}
+            onChange={(e) => updateServings(parseInt(e.target.value))}
+            className="w-16 h-8 text-center"
+          />
+          <Button type="button" variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => updateServings(servings + 1)} disabled={servings >= 100}>
+            <Plus className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      {scaledRecipe && scaledRecipe.scaleFactor !== 1 && (
+        <Badge variant="secondary">
+          Scaled {Math.round(scaledRecipe.scaleFactor * 100) / 100}x from {scaledRecipe.originalServings} servings
+        </Badge>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-4 bg-gray-200 rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : scaledRecipe && scaledRecipe.scaledIngredients.length > 0 ? (
+        <ul className="space-y-1 text-sm">
+          {scaledRecipe.scaledIngredients.map((ingredient) => (
+            <li key={ingredient.ingredientId} className="flex justify-between gap-4">
+              <span className={ingredient.isOptional ? 'text-gray-500' : 'text-gray-900'}>
+                {ingredient.text}
+              </span>
+              {ingredient.isOptional && <span className="text-xs text-gray-400">optional</span>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No ingredients listed for this recipe.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Repeat, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FamilyMealTime, MealRecurrence, Recipe } from "@shared/schema";
+
+interface RecurringMealsDialogProps {
+  children: React.ReactNode;
+  familyId: number;
+  recipes: Recipe[];
+  mealTimes: Pick<FamilyMealTime, "id" | "mealName" | "category">[];
+}
+
+const WEEKDAYS = [
+  { code: "SU", label: "Sun" },
+  { code: "MO", label: "Mon" },
+  { code: "TU", label: "Tue" },
+  { code: "WE", label: "Wed" },
+  { code: "TH", label: "Thu" },
+  { code: "FR", label: "Fri" },
+  { code: "SA", label: "Sat" },
+];
+
+export const describeRecurrence = (rule: Pick<MealRecurrence, "frequency" | "interval" | "byDay" | "untilDate">) => {
+  let text: string;
+  if (rule.frequency === "daily") {
+    text = rule.interval > 1 ? `Every ${rule.interval} days` : "Every day";
+  } else {
+    const days = WEEKDAYS.filter((day) => rule.byDay?.includes(day.code));
+    const isWeekdays = days.length === 5 && days.every((day) => day.code !== "SA" && day.code !== "SU");
+    const dayText = isWeekdays ? "weekdays" : days.map((day) => day.label).join(", ");
+    text = rule.interval > 1 ? `Every ${rule.interval} weeks on ${dayText}` : `Every ${dayText}`;
+  }
+  return rule.untilDate ? `${text} until ${rule.untilDate}` : text;
+};
+
+export default function RecurringMealsDialog({ children, familyId, recipes, mealTimes }: RecurringMealsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [recipeId, setRecipeId] = useState<number | undefined>();
+  const [chosenMealTimeId, setMealTypeId] = useState<number | undefined>();
+  const [byDay, setByDay] = useState<string[]>(["FR"]);
+  const [weekInterval, setWeekInterval] = useState(1);
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [untilDate, setUntilDate] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Meal times load after the dialog mounts, so default to the family's dinner slot
+  const mealTypeId = chosenMealTimeId ?? mealTimes.find((mealTime) => mealTime.category === "dinner")?.id;
+
+  const { data: rules = [] } = useQuery<MealRecurrence[]>({
+    queryKey: ['/api/families', familyId, 'meal-recurrences'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/meal-recurrences`);
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/families', familyId, 'meal-recurrences'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/families/${familyId}/meals`] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const recipe = recipes.find((r) => r.id === recipeId);
+      const response = await apiRequest('POST', `/api/families/${familyId}/meal-recurrences`, {
+        recipeId,
+        mealTypeId,
+        servings: recipe?.servings ?? null,
+        frequency: "weekly",
+        interval: weekInterval,
+        byDay,
+        startDate,
+        untilDate: untilDate || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setRecipeId(undefined);
+      toast({ title: "Recurring meal added" });
+    },
+    onError: () => {
+      toast({ title: "Failed to add recurring meal", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (ruleId: number) => {
+      const response = await apiRequest('DELETE', `/api/meal-recurrences/${ruleId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Recurring meal stopped", description: "Past meals stay on the calendar." });
+    },
+  });
+
+  const toggleDay = (code: string) =>
+    setByDay((days) => (days.includes(code) ? days.filter((day) => day !== code) : [...days, code]));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="w-5 h-5" />
+            Recurring Meals
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {rules.length === 0 && (
+            <p className="text-sm text-gray-500">No recurring meals yet, e.g. pizza every Friday dinner.</p>
+          )}
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {recipes.find((recipe) => recipe.id === rule.recipeId)?.name ?? rule.notes ?? 'Meal'}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {mealTimes.find((mealTime) => mealTime.id === rule.mealTypeId)?.mealName ?? 'Meal'}
+                  {' • '}{describeRecurrence(rule)}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(rule.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Recipe</Label>
+              <Select value={recipeId?.toString() ?? ""} onValueChange={(value) => setRecipeId(parseInt(value))}>
+                <SelectTrigger><SelectValue placeholder="Choose a recipe" /></SelectTrigger>
+                <SelectContent>
+                  {recipes.map((recipe) => (
+                    <SelectItem key={recipe.id} value={recipe.id.toString()}>{recipe.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Meal</Label>
+              <Select value={mealTypeId?.toString() ?? ""} onValueChange={(value) => setMealTypeId(parseInt(value))}>
+                <SelectTrigger><SelectValue placeholder="Choose a meal" /></SelectTrigger>
+                <SelectContent>
+                  {mealTimes.map((mealTime) => (
+                    <SelectItem key={mealTime.id} value={mealTime.id.toString()}>
+                      {mealTime.mealName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Repeat on</Label>
+            <div className="flex gap-1">
+              {WEEKDAYS.map((day) => (
+                <Button
+                  key={day.code}
+                  type="button"
+                  size="sm"
+                  variant={byDay.includes(day.code) ? "default" : "outline"}
+                  className="h-8 px-2"
+                  onClick={() => toggleDay(day.code)}
+                >
+                  {day.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="recurrence-interval">Every N weeks</Label>
+              <Input
+                id="recurrence-interval"
+                type="number"
+                min={1}
+                max={52}
+                value={weekInterval}
+                onChange={(e) => setWeekInterval(Math.min(52, Math.max(1, parseInt(e.target.value) || 1)))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recurrence-start">Starting</Label>
+              <Input id="recurrence-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recurrence-until">Until</Label>
+              <Input id="recurrence-until" type="date" min={startDate} value={untilDate} onChange={(e) => setUntilDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              disabled={!recipeId || !mealTypeId || byDay.length === 0 || !startDate || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+            >
+              {createMutation.isPending ? "Adding..." : "Add Recurring Meal"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,7 +6,9 @@ import { Badge } from "@/components/ui/badge";
 import { ChevronRight, Calendar, Clock, Users } from "lucide-react";
 import { format, addDays, startOfWeek } from "date-fns";
 import { Link } from "wouter";
-import type { Meal, Recipe, MealType } from "@shared/schema";
+import { useFamilyMealTimes } from "@/hooks/useFamilyMealTimes";
+import { apiRequest } from "@/lib/queryClient";
+import type { MealWithDishes, Recipe } from "@shared/schema";
 
 export default function WeeklyMealOverview() {
   const { currentFamily } = useFamily();
@@ -15,8 +17,12 @@ export default function WeeklyMealOverview() {
   const weekEnd = format(addDays(weekStart, 6), 'yyyy-MM-dd');
   const weekStartStr = format(weekStart, 'yyyy-MM-dd');
 
-  const { data: meals = [], isLoading } = useQuery<Meal[]>({
-    queryKey: ['/api/families', currentFamily?.id, 'meals', { startDate: weekStartStr, endDate: weekEnd }],
+  const { data: meals = [], isLoading } = useQuery<MealWithDishes[]>({
+    queryKey: [`/api/families/${currentFamily?.id}/meals`, { startDate: weekStartStr, endDate: weekEnd }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${currentFamily?.id}/meals?startDate=${weekStartStr}&endDate=${weekEnd}`);
+      return response.json();
+    },
     enabled: !!currentFamily?.id,
   });
 
@@ -25,15 +31,16 @@ export default function WeeklyMealOverview() {
     enabled: !!currentFamily?.id,
   });
 
-  const { data: mealTypes = [] } = useQuery<MealType[]>({
-    queryKey: ['/api/meal-types'],
-  });
+  const { allMealTimes } = useFamilyMealTimes(currentFamily?.id);
 
-  // Get recipe details for meals
+  // Get recipe details for meals, including the side dishes served with them
   const mealsWithRecipes = meals.map(meal => {
     const recipe = recipes.find(r => r.id === meal.recipeId);
-    const mealType = mealTypes.find(mt => mt.id === meal.mealTypeId);
-    return { ...meal, recipe, mealType };
+    const sides = meal.dishes
+      .map(dish => recipes.find(r => r.id === dish.recipeId))
+      .filter((side): side is Recipe => !!side);
+    const mealTime = allMealTimes.find(mt => mt.id === meal.mealTypeId);
+    return { ...meal, recipe, sides, mealTime };
   }).filter(meal => meal.recipe); // Only show meals with recipes
 
   // Sort by scheduled date
@@ -113,8 +120,13 @@ export default function WeeklyMealOverview() {
                     <h4 className="font-medium text-gray-900 truncate">
                       {meal.recipe?.name}
                     </h4>
+                    {meal.sides.length > 0 && (
+                      <p className="text-xs text-gray-600 truncate">
+                        with {meal.sides.map(side => side.name).join(', ')}
+                      </p>
+                    )}
                     <p className="text-sm text-gray-500">
-                      {meal.mealType?.name} • {meal.servings || meal.recipe?.servings} servings
+                      {meal.mealTime?.mealName} • {meal.servings || meal.recipe?.servings} servings
                     </p>
                     {meal.recipe?.prepTime && meal.recipe?.cookTime && (
                       <div className="flex items-center mt-1 text-xs text-gray-400">
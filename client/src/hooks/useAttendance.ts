@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import type { MealAttendanceSummary, MemberAttendanceSettings } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export function attendancePatternsKey(familyId: number | undefined) {
+  return ['/api/families', familyId, 'attendance-patterns'];
+}
+
+export function mealAttendanceKey(mealId: number | undefined) {
+  return ['/api/meals', mealId, 'attendance'];
+}
+
+// Every member with their usual portion size and the meal times they usually miss
+export function useAttendancePatterns(familyId: number | undefined) {
+  const { data: members = [], isLoading } = useQuery<MemberAttendanceSettings[]>({
+    queryKey: attendancePatternsKey(familyId),
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/attendance-patterns`);
+      return response.json();
+    },
+    enabled: !!familyId,
+  });
+  return { members, isLoading };
+}
+
+/**
+ * Who is eating a meal, with the servings they need and any allergy or diet conflicts among
+ * them. Refetched whenever it's shown, since patterns and portion sizes change it.
+ */
+export function useMealAttendance(mealId: number | undefined) {
+  const { data: attendance, isLoading } = useQuery<MealAttendanceSummary>({
+    queryKey: mealAttendanceKey(mealId),
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/meals/${mealId}/attendance`);
+      return response.json();
+    },
+    enabled: !!mealId,
+    staleTime: 0,
+  });
+  return { attendance, isLoading };
+}
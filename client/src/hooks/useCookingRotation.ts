@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CookingDuty, CookingRotationMember } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export function cookingRotationKey(familyId: number | undefined) {
+  return ['/api/families', familyId, 'cooking-rotation'];
+}
+
+export function cookingDutiesKey(familyId: number | undefined) {
+  return ['/api/families', familyId, 'cooking-duties'];
+}
+
+// Every member with their cooking skill, the duties they take turns at and their weekly limit
+export function useCookingRotation(familyId: number | undefined) {
+  const { data: members = [], isLoading } = useQuery<CookingRotationMember[]>({
+    queryKey: cookingRotationKey(familyId),
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/cooking-rotation`);
+      return response.json();
+    },
+    enabled: !!familyId,
+  });
+  return { members, isLoading };
+}
+
+// The signed-in member's cooking, helping and cleanup duties for this week
+export function useCookingDuties(familyId: number | undefined) {
+  const { data: duties = [], isLoading } = useQuery<CookingDuty[]>({
+    queryKey: cookingDutiesKey(familyId),
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/cooking-duties`);
+      return response.json();
+    },
+    enabled: !!familyId,
+  });
+  return { duties, isLoading };
+}
@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { FamilyMealTime } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+// daysOfWeek holds lowercase day names; a meal time without days is served every day
+export function servesOn(mealTime: Pick<FamilyMealTime, "daysOfWeek">, date: Date): boolean {
+  if (!mealTime.daysOfWeek || mealTime.daysOfWeek.length === 0) return true;
+  return mealTime.daysOfWeek.includes(format(date, 'EEEE').toLowerCase());
+}
+
+/**
+ * The family's meal slots in display order. Inactive meal times are kept so older meals and
+ * logs still show their slot name, but only active ones are offered for new meals.
+ */
+export function useFamilyMealTimes(familyId: number | undefined) {
+  const { data: allMealTimes = [], isLoading } = useQuery<FamilyMealTime[]>({
+    queryKey: ['/api/families', familyId, 'meal-times'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/meal-times`);
+      return response.json();
+    },
+    enabled: !!familyId,
+  });
+
+  const mealTimes = allMealTimes.filter((mealTime) => mealTime.isActive !== false);
+  const mealTimeName = (mealTimeId: number | null | undefined) =>
+    allMealTimes.find((mealTime) => mealTime.id === mealTimeId)?.mealName ?? 'Meal';
+
+  return { mealTimes, allMealTimes, mealTimeName, isLoading };
+}
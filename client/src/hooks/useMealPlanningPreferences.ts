@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import type { MealPlanningPreferenceSettings, MealPlanningRules } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export function mealPlanningPreferencesKey(familyId: number | undefined) {
+  return ['/api/families', familyId, 'meal-planning-preferences'];
+}
+
+/**
+ * The family's saved meal planning preferences. `rules` combines the family defaults with every
+ * member's overrides and is what recommendations and auto-fill plan with; it is undefined until
+ * the preferences load.
+ */
+export function useMealPlanningPreferences(familyId: number | undefined) {
+  const { data: settings, isLoading } = useQuery<MealPlanningPreferenceSettings>({
+    queryKey: mealPlanningPreferencesKey(familyId),
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/meal-planning-preferences`);
+      return response.json();
+    },
+    enabled: !!familyId,
+  });
+
+  const rules: MealPlanningRules | undefined = settings?.rules;
+  return { settings, rules, isLoading };
+}
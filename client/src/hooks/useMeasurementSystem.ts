@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import type { User, UserPreferences } from "@shared/schema";
+import type { MeasurementSystem } from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "./useAuth";
+
+export function useMeasurementSystem(): MeasurementSystem {
+  const { user } = useAuth();
+  const userId = (user as User | undefined)?.id;
+
+  const { data: preferences } = useQuery<Partial<UserPreferences>>({
+    queryKey: ['/api/preferences', userId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/preferences/${userId}`);
+      return response.json();
+    },
+    enabled: !!userId,
+  });
+
+  return preferences?.measurementSystem ?? "imperial";
+}
@@ -1,12 +1,4 @@
-import type { Recipe, Meal, MealType, NutritionLog, ShoppingList, ShoppingListItem, RestaurantOrder, FamilyMembership } from "@shared/schema";
-
-// Mock meal types
-export const mockMealTypes: MealType[] = [
-  { id: 1, name: "Breakfast", displayOrder: 1 },
-  { id: 2, name: "Lunch", displayOrder: 2 },
-  { id: 3, name: "Dinner", displayOrder: 3 },
-  { id: 4, name: "Snack", displayOrder: 4 },
-];
+import type { Recipe, Meal, NutritionLog, ShoppingList, ShoppingListItem, RestaurantOrder, FamilyMembership } from "@shared/schema";
 
 // Mock family members
 export const mockFamilyMembers: FamilyMembership[] = [
@@ -66,7 +58,7 @@ export const mockRecipes: Recipe[] = [
     servings: 4,
     imageUrl: "https://images.unsplash.com/photo-1512621776951-a57141f2eefd?w=300&h=300&fit=crop",
     tags: ["healthy", "vegetarian", "mediterranean"],
-    nutritionInfo: { calories: 350, protein: "12", carbs: "45", fat: "14" },
+    nutritionInfo: { calories: 350, protein: 12, carbs: 45, fat: 14, fiber: 6, sugar: 5, sodium: 380, servings: 4, source: "manual" },
     difficulty: "easy",
     rating: 4.5,
     ratingCount: 8,
@@ -86,7 +78,7 @@ export const mockRecipes: Recipe[] = [
     servings: 6,
     imageUrl: "https://images.unsplash.com/photo-1565299624946-b28f40a0ca4b?w=300&h=300&fit=crop",
     tags: ["mexican", "high-protein", "gluten-free"],
-    nutritionInfo: { calories: 285, protein: "25", carbs: "18", fat: "12" },
+    nutritionInfo: { calories: 285, protein: 25, carbs: 18, fat: 12, fiber: 3, sugar: 2, sodium: 420, servings: 6, source: "manual" },
     difficulty: "medium",
     rating: 4.8,
     ratingCount: 12,
@@ -106,7 +98,7 @@ export const mockRecipes: Recipe[] = [
     servings: 4,
     imageUrl: "https://images.unsplash.com/photo-1621996346565-e3dbc353d946?w=300&h=300&fit=crop",
     tags: ["pasta", "vegetarian", "comfort-food"],
-    nutritionInfo: { calories: 420, protein: 14, carbs: 52, fat: 18 },
+    nutritionInfo: { calories: 420, protein: 14, carbs: 52, fat: 18, fiber: 3, sugar: 4, sodium: 310, servings: 4, source: "manual" },
     difficulty: "medium",
     rating: 4.2,
     ratingCount: 6,
@@ -126,7 +118,7 @@ export const mockRecipes: Recipe[] = [
     servings: 2,
     imageUrl: "https://images.unsplash.com/photo-1511690743698-d9d85f2fbf38?w=300&h=300&fit=crop",
     tags: ["healthy", "breakfast", "vegan", "quick"],
-    nutritionInfo: { calories: 280, protein: 8, carbs: 48, fat: 6 },
+    nutritionInfo: { calories: 280, protein: 8, carbs: 48, fat: 6, fiber: 7, sugar: 30, sodium: 60, servings: 2, source: "manual" },
     difficulty: "easy",
     rating: 4.6,
     ratingCount: 10,
@@ -145,8 +137,15 @@ export const mockMeals: Meal[] = [
     mealTypeId: 1,
     scheduledDate: new Date().toISOString().split('T')[0], // Today
     servings: 2,
+    servingsFromAttendance: false,
     notes: "Emma's favorite breakfast",
     status: "planned",
+    leftoverServings: 0,
+    leftoverOfMealId: null,
+    fridgeLifeDays: null,
+    recurrenceId: null,
+    recurrenceDate: null,
+    recurrenceModified: false,
     createdBy: "1",
     createdAt: new Date(),
   },
@@ -157,8 +156,15 @@ export const mockMeals: Meal[] = [
     mealTypeId: 3,
     scheduledDate: new Date().toISOString().split('T')[0], // Today
     servings: 4,
+    servingsFromAttendance: false,
     notes: "Family taco night",
     status: "planned",
+    leftoverServings: 0,
+    leftoverOfMealId: null,
+    fridgeLifeDays: null,
+    recurrenceId: null,
+    recurrenceDate: null,
+    recurrenceModified: false,
     createdBy: "1",
     createdAt: new Date(),
   },
@@ -169,8 +175,15 @@ export const mockMeals: Meal[] = [
     mealTypeId: 2,
     scheduledDate: new Date(Date.now() + 86400000).toISOString().split('T')[0], // Tomorrow
     servings: 3,
+    servingsFromAttendance: false,
     notes: "",
     status: "planned",
+    leftoverServings: 0,
+    leftoverOfMealId: null,
+    fridgeLifeDays: null,
+    recurrenceId: null,
+    recurrenceDate: null,
+    recurrenceModified: false,
     createdBy: "1",
     createdAt: new Date(),
   },
@@ -183,6 +196,8 @@ export const mockNutritionLogs: NutritionLog[] = [
     userId: "1",
     familyId: 1,
     mealTypeId: 1,
+    mealId: null,
+    portion: null,
     foodName: "Oatmeal with berries",
     calories: 320,
     protein: "8",
@@ -199,6 +214,8 @@ export const mockNutritionLogs: NutritionLog[] = [
     userId: "1",
     familyId: 1,
     mealTypeId: 2,
+    mealId: null,
+    portion: null,
     foodName: "Grilled chicken salad",
     calories: 380,
     protein: 35,
@@ -215,6 +232,8 @@ export const mockNutritionLogs: NutritionLog[] = [
     userId: "1",
     familyId: 1,
     mealTypeId: 4,
+    mealId: null,
+    portion: null,
     foodName: "Greek yogurt with almonds",
     calories: 180,
     protein: 15,
@@ -2,7 +2,6 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { 
   mockRecipes, 
   mockMeals, 
-  mockMealTypes, 
   mockNutritionLogs, 
   mockShoppingLists, 
   mockShoppingListItems, 
@@ -33,6 +32,16 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors read "400: {"message":"..."}"; this returns just the server's message
+export function apiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+}
+
 // Mock query function for development
 const getMockData = (queryKey: any[]) => {
   const url = queryKey[0] as string;
@@ -44,8 +53,6 @@ const getMockData = (queryKey: any[]) => {
         resolve(mockRecipes);
       } else if (url.includes('/meals')) {
         resolve(mockMeals);
-      } else if (url.includes('/meal-types')) {
-        resolve(mockMealTypes);
       } else if (url.includes('/nutrition-logs')) {
         resolve(mockNutritionLogs);
       } else if (url.includes('/shopping-lists') && url.includes('/items')) {
@@ -3,6 +3,7 @@ import FamilyHeader from "@/components/FamilyHeader";
 import WeeklyMealOverview from "@/components/WeeklyMealOverview";
 import QuickActions from "@/components/QuickActions";
 import ShoppingListPreview from "@/components/ShoppingListPreview";
+import MyCookingDutiesCard from "@/components/MyCookingDutiesCard";
 import RecentRecipes from "@/components/RecentRecipes";
 
 export default function Dashboard() {
@@ -32,6 +33,7 @@ export default function Dashboard() {
           
           <div className="space-y-6">
             <QuickActions />
+            <MyCookingDutiesCard />
             <ShoppingListPreview />
           </div>
         </div>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -18,7 +18,13 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { useToast } from "@/hooks/use-toast";
 import { useFamily } from "@/contexts/FamilyContext";
 import { useAuth } from "@/hooks/useAuth";
-import { apiRequest } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useFamilyMealTimes } from "@/hooks/useFamilyMealTimes";
+import CalendarFeedCard from "@/components/CalendarFeedCard";
+import MealPlanningPreferencesCard from "@/components/MealPlanningPreferencesCard";
+import AttendancePatternsCard from "@/components/AttendancePatternsCard";
+import CookingRotationCard from "@/components/CookingRotationCard";
+import type { FamilyMealTime, FamilyPreferences, MealCategory } from "@shared/schema";
 import { 
   Users, Settings, UserPlus, Crown, Shield, Trash2, Copy, Mail, Calendar, ShoppingCart, 
   MapPin, Plus, Edit, X, Camera, Clock, Globe, Home, Building, User, Upload, Link2
@@ -54,8 +60,16 @@ const addressSchema = z.object({
   isDefault: z.boolean().default(false),
 });
 
+const MEAL_CATEGORY_OPTIONS: { value: MealCategory; label: string }[] = [
+  { value: "breakfast", label: "Breakfast" },
+  { value: "lunch", label: "Lunch" },
+  { value: "dinner", label: "Dinner" },
+  { value: "snack", label: "Snack" },
+];
+
 const mealTimeSchema = z.object({
   mealName: z.string().min(1, "Meal name is required"),
+  category: z.enum(["breakfast", "lunch", "dinner", "snack"]),
   defaultTime: z.string().optional(),
   daysOfWeek: z.array(z.string()),
   isActive: z.boolean().default(true),
@@ -89,7 +103,7 @@ export default function EnhancedFamilySettings() {
   
   const [editingMember, setEditingMember] = useState<any>(null);
   const [editingAddress, setEditingAddress] = useState<any>(null);
-  const [editingMealTime, setEditingMealTime] = useState<any>(null);
+  const [editingMealTime, setEditingMealTime] = useState<FamilyMealTime | null>(null);
   const [editingSite, setEditingSite] = useState<any>(null);
   const [memberDialogOpen, setMemberDialogOpen] = useState(false);
   const [addressDialogOpen, setAddressDialogOpen] = useState(false);
@@ -107,16 +121,27 @@ export default function EnhancedFamilySettings() {
     enabled: !!currentFamily?.id,
   });
 
-  const { data: familyMealTimes = [], isLoading: mealTimesLoading } = useQuery({
-    queryKey: ['/api/families', currentFamily?.id, 'meal-times'],
-    enabled: !!currentFamily?.id,
-  });
+  const { allMealTimes: familyMealTimes, isLoading: mealTimesLoading } = useFamilyMealTimes(currentFamily?.id);
 
   const { data: shoppingSites = [], isLoading: sitesLoading } = useQuery({
     queryKey: ['/api/families', currentFamily?.id, 'shopping-sites'],
     enabled: !!currentFamily?.id,
   });
 
+  const { data: familyPreferences } = useQuery<Partial<FamilyPreferences>>({
+    queryKey: ['/api/families', currentFamily?.id, 'preferences'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${currentFamily?.id}/preferences`);
+      return response.json();
+    },
+    enabled: !!currentFamily?.id,
+  });
+
+  const [preferenceDraft, setPreferenceDraft] = useState<Partial<FamilyPreferences>>({});
+  useEffect(() => {
+    if (familyPreferences) setPreferenceDraft(familyPreferences);
+  }, [familyPreferences]);
+
   // Get current user's role in family
   const currentUserMembership = Array.isArray(familyMembers) ? 
     familyMembers.find((member: any) => member.userId === user?.id) : null;
@@ -165,6 +190,7 @@ export default function EnhancedFamilySettings() {
     resolver: zodResolver(mealTimeSchema),
     defaultValues: {
       mealName: "",
+      category: "snack",
       defaultTime: "",
       daysOfWeek: ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"],
       isActive: true,
@@ -206,6 +232,27 @@ export default function EnhancedFamilySettings() {
     },
   });
 
+  const updatePreferencesMutation = useMutation({
+    mutationFn: async (data: Partial<FamilyPreferences>) => {
+      const { sharedShoppingLists, sharedMealPlanning, enableAchievements, budgetTracking, automaticNutritionTracking } = data;
+      const response = await apiRequest('PATCH', `/api/families/${currentFamily?.id}/preferences`, {
+        sharedShoppingLists,
+        sharedMealPlanning,
+        enableAchievements,
+        budgetTracking,
+        automaticNutritionTracking,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/families', currentFamily?.id, 'preferences'] });
+      toast({ title: "Family preferences updated successfully!" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update family preferences", variant: "destructive" });
+    },
+  });
+
   const saveMemberMutation = useMutation({
     mutationFn: async (data: MemberFormData) => {
       const url = editingMember 
@@ -260,11 +307,9 @@ export default function EnhancedFamilySettings() {
         ? `/api/families/${currentFamily?.id}/meal-times/${editingMealTime.id}`
         : `/api/families/${currentFamily?.id}/meal-times`;
       const method = editingMealTime ? 'PATCH' : 'POST';
-      
-      return await apiRequest(url, {
-        method,
-        body: JSON.stringify(data),
-      });
+
+      const response = await apiRequest(method, url, { ...data, defaultTime: data.defaultTime || null });
+      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/families', currentFamily?.id, 'meal-times'] });
@@ -273,8 +318,26 @@ export default function EnhancedFamilySettings() {
       setEditingMealTime(null);
       mealTimeForm.reset();
     },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save meal time", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  // Meal times that planned meals or food logs still use are switched off rather than deleted
+  const deleteMealTimeMutation = useMutation({
+    mutationFn: async (mealTimeId: number) => {
+      const response = await apiRequest('DELETE', `/api/families/${currentFamily?.id}/meal-times/${mealTimeId}`);
+      return response.json() as Promise<{ success: boolean; deactivated: boolean }>;
+    },
+    onSuccess: ({ deactivated }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/families', currentFamily?.id, 'meal-times'] });
+      toast({
+        title: deactivated ? "Meal time switched off" : "Meal time deleted",
+        description: deactivated ? "Meals and food logs already in it keep their slot." : undefined,
+      });
+    },
     onError: () => {
-      toast({ title: "Failed to save meal time", variant: "destructive" });
+      toast({ title: "Failed to delete meal time", variant: "destructive" });
     },
   });
 
@@ -347,10 +410,17 @@ export default function EnhancedFamilySettings() {
     setAddressDialogOpen(true);
   };
 
-  const openMealTimeDialog = (mealTime?: any) => {
+  const openMealTimeDialog = (mealTime?: FamilyMealTime) => {
     if (mealTime) {
       setEditingMealTime(mealTime);
-      mealTimeForm.reset(mealTime);
+      mealTimeForm.reset({
+        mealName: mealTime.mealName,
+        category: mealTime.category,
+        defaultTime: mealTime.defaultTime ?? "",
+        daysOfWeek: mealTime.daysOfWeek ?? [],
+        isActive: mealTime.isActive ?? true,
+        sortOrder: mealTime.sortOrder ?? 0,
+      });
     } else {
       setEditingMealTime(null);
       mealTimeForm.reset();
@@ -766,7 +836,7 @@ export default function EnhancedFamilySettings() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {familyMealTimes.map((mealTime: any) => (
+                {familyMealTimes.map((mealTime) => (
                   <Card key={mealTime.id} className="p-4">
                     <div className="flex items-center justify-between">
                       <div className="flex-1">
@@ -776,13 +846,14 @@ export default function EnhancedFamilySettings() {
                           {mealTime.defaultTime && (
                             <Badge variant="secondary">{mealTime.defaultTime}</Badge>
                           )}
+                          <Badge variant="outline" className="capitalize">{mealTime.category}</Badge>
                           {!mealTime.isActive && (
                             <Badge variant="outline" className="text-gray-500">Inactive</Badge>
                           )}
                         </div>
                         {mealTime.daysOfWeek && mealTime.daysOfWeek.length > 0 && (
                           <p className="text-sm text-gray-600">
-                            Days: {mealTime.daysOfWeek.map((day: string) => day.charAt(0).toUpperCase() + day.slice(1, 3)).join(', ')}
+                            Days: {mealTime.daysOfWeek.map((day) => day.charAt(0).toUpperCase() + day.slice(1, 3)).join(', ')}
                           </p>
                         )}
                       </div>
@@ -805,13 +876,14 @@ export default function EnhancedFamilySettings() {
                               <AlertDialogHeader>
                                 <AlertDialogTitle>Delete Meal Time</AlertDialogTitle>
                                 <AlertDialogDescription>
-                                  Are you sure you want to delete {mealTime.mealName}?
+                                  Are you sure you want to delete {mealTime.mealName}? If meals or food logs
+                                  already use it, it is switched off instead so they keep their slot.
                                 </AlertDialogDescription>
                               </AlertDialogHeader>
                               <AlertDialogFooter>
                                 <AlertDialogCancel>Cancel</AlertDialogCancel>
                                 <AlertDialogAction 
-                                  onClick={() => deleteMutation.mutate({ type: 'meal-times', id: mealTime.id })}
+                                  onClick={() => deleteMealTimeMutation.mutate(mealTime.id)}
                                   className="bg-red-600 hover:bg-red-700"
                                 >
                                   Delete Meal Time
@@ -827,6 +899,8 @@ export default function EnhancedFamilySettings() {
               </div>
             </CardContent>
           </Card>
+
+          {currentFamily && <CalendarFeedCard familyId={currentFamily.id} isAdmin={isAdmin} />}
         </TabsContent>
 
         <TabsContent value="shopping">
@@ -934,7 +1008,11 @@ export default function EnhancedFamilySettings() {
                       <Label>Shared Shopping Lists</Label>
                       <p className="text-sm text-gray-500">Allow all family members to view and edit shopping lists</p>
                     </div>
-                    <Switch disabled={!isAdmin} />
+                    <Switch
+                      disabled={!isAdmin}
+                      checked={!!preferenceDraft.sharedShoppingLists}
+                      onCheckedChange={(checked) => setPreferenceDraft({ ...preferenceDraft, sharedShoppingLists: checked })}
+                    />
                   </div>
 
                   <div className="flex items-center justify-between">
@@ -942,7 +1020,11 @@ export default function EnhancedFamilySettings() {
                       <Label>Shared Meal Planning</Label>
                       <p className="text-sm text-gray-500">Enable collaborative meal planning for all family members</p>
                     </div>
-                    <Switch disabled={!isAdmin} />
+                    <Switch
+                      disabled={!isAdmin}
+                      checked={!!preferenceDraft.sharedMealPlanning}
+                      onCheckedChange={(checked) => setPreferenceDraft({ ...preferenceDraft, sharedMealPlanning: checked })}
+                    />
                   </div>
 
                   <div className="flex items-center justify-between">
@@ -950,7 +1032,11 @@ export default function EnhancedFamilySettings() {
                       <Label>Achievement System</Label>
                       <p className="text-sm text-gray-500">Track cooking achievements and progress for family members</p>
                     </div>
-                    <Switch disabled={!isAdmin} />
+                    <Switch
+                      disabled={!isAdmin}
+                      checked={!!preferenceDraft.enableAchievements}
+                      onCheckedChange={(checked) => setPreferenceDraft({ ...preferenceDraft, enableAchievements: checked })}
+                    />
                   </div>
 
                   <div className="flex items-center justify-between">
@@ -958,18 +1044,47 @@ export default function EnhancedFamilySettings() {
                       <Label>Budget Tracking</Label>
                       <p className="text-sm text-gray-500">Track grocery spending and set monthly budgets</p>
                     </div>
-                    <Switch disabled={!isAdmin} />
+                    <Switch
+                      disabled={!isAdmin}
+                      checked={!!preferenceDraft.budgetTracking}
+                      onCheckedChange={(checked) => setPreferenceDraft({ ...preferenceDraft, budgetTracking: checked })}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Automatic Nutrition Tracking</Label>
+                      <p className="text-sm text-gray-500">Log nutrition for everyone who ate a meal when it is marked completed</p>
+                    </div>
+                    <Switch
+                      disabled={!isAdmin}
+                      checked={!!preferenceDraft.automaticNutritionTracking}
+                      onCheckedChange={(checked) => setPreferenceDraft({ ...preferenceDraft, automaticNutritionTracking: checked })}
+                    />
                   </div>
                 </div>
 
                 {isAdmin && (
-                  <Button>
-                    Save Preferences
+                  <Button
+                    onClick={() => updatePreferencesMutation.mutate(preferenceDraft)}
+                    disabled={updatePreferencesMutation.isPending}
+                  >
+                    {updatePreferencesMutation.isPending ? "Saving..." : "Save Preferences"}
                   </Button>
                 )}
               </div>
             </CardContent>
           </Card>
+
+          {currentFamily && (
+            <MealPlanningPreferencesCard familyId={currentFamily.id} isAdmin={isAdmin} currentUserId={currentUserMembership?.userId} />
+          )}
+          {currentFamily && (
+            <AttendancePatternsCard familyId={currentFamily.id} isAdmin={isAdmin} currentUserId={currentUserMembership?.userId} />
+          )}
+          {currentFamily && (
+            <CookingRotationCard familyId={currentFamily.id} isAdmin={isAdmin} currentUserId={currentUserMembership?.userId} />
+          )}
         </TabsContent>
       </Tabs>
 
@@ -1155,6 +1270,24 @@ export default function EnhancedFamilySettings() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Kind of meal</Label>
+              <Select
+                value={mealTimeForm.watch("category")}
+                onValueChange={(value) => mealTimeForm.setValue("category", value as MealCategory)}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {MEAL_CATEGORY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                The meal planner uses this to size portions and pick suitable recipes.
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label>Days of Week</Label>
               <div className="grid grid-cols-4 gap-2">
@@ -1,9 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useFamily } from "@/contexts/FamilyContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import {
   Dialog,
   DialogContent,
@@ -31,56 +32,111 @@ import {
   Users,
   Settings,
   RefreshCw,
-  Star,
   Filter,
   Calendar,
-  Zap
+  CheckCircle,
+  Repeat,
+  Upload,
+  ChefHat
 } from "lucide-react";
-import { format, addDays, startOfWeek, addWeeks, subWeeks } from "date-fns";
-import { apiRequest } from "@/lib/queryClient";
-import { mockMealTypes } from "@/lib/mockData";
-import type { Meal, MealType, Recipe } from "@shared/schema";
-
-interface RecommendedMeal {
-  id: string;
-  recipes: Recipe[];
-  totalTime: number;
-  servings: number;
-  tags: string[];
-  nutritionScore?: number;
-}
+import { format, addDays, startOfWeek, addWeeks, subWeeks, differenceInCalendarDays, parseISO } from "date-fns";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { servesOn, useFamilyMealTimes } from "@/hooks/useFamilyMealTimes";
+import { useMealPlanningPreferences } from "@/hooks/useMealPlanningPreferences";
+import { Link } from "wouter";
+import RecipeScaler from "@/components/RecipeScaler";
+import MealPlanGeneratorDialog from "@/components/MealPlanGeneratorDialog";
+import MealPlanTemplatesDialog from "@/components/MealPlanTemplatesDialog";
+import MealImportDialog from "@/components/MealImportDialog";
+import MealDishesPanel from "@/components/MealDishesPanel";
+import MealAttendancePanel from "@/components/MealAttendancePanel";
+import MealAssignmentsPanel from "@/components/MealAssignmentsPanel";
+import { useMealAttendance } from "@/hooks/useAttendance";
+import { cookingDutiesKey, useCookingRotation } from "@/hooks/useCookingRotation";
+import LeftoversPanel from "@/components/LeftoversPanel";
+import RecurringMealsDialog, { describeRecurrence } from "@/components/RecurringMealsDialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  CookingRotationResult,
+  DietaryConflict,
+  Meal,
+  MealBatchConflictPolicy,
+  MealBatchOperation,
+  MealBatchResult,
+  MealMove,
+  MealMoveResult,
+  MealRecurrence,
+  MealRecommendation,
+  MealRecommendations,
+  MealWithAssignments,
+  Recipe,
+} from "@shared/schema";
 
 export default function MealCalendar() {
   const { currentFamily } = useFamily();
   const queryClient = useQueryClient();
-  // Initialize to show week containing existing meals, or current week if no meals
-  const [currentWeek, setCurrentWeek] = useState(() => {
-    // Default to current week, will be updated when meals load
-    return new Date();
-  });
+  const { toast } = useToast();
+  const [currentWeek, setCurrentWeek] = useState(() => new Date());
   const [selectedSlot, setSelectedSlot] = useState<{ date: Date; mealTypeId: number } | null>(null);
   const [showRecommendations, setShowRecommendations] = useState(false);
   const [showPreferences, setShowPreferences] = useState(false);
   const [showSwapDialog, setShowSwapDialog] = useState(false);
   const [selectedMeal, setSelectedMeal] = useState<Meal | null>(null);
-  const [mealPreferences, setMealPreferences] = useState({
-    dietaryRestrictions: [] as string[],
-    preferredCuisines: [] as string[],
-    avoidIngredients: [] as string[],
-    maxCookTime: 60,
-    preferredDifficulty: 'any' as 'easy' | 'medium' | 'hard' | 'any',
-    balanceNutrition: true,
-    repeatFrequency: 3, // days before repeating same recipe
-  });
+  const [detailMeal, setDetailMeal] = useState<MealWithAssignments | null>(null);
+  const [detailServings, setDetailServings] = useState<number | null>(null);
+  const [detailPortions, setDetailPortions] = useState<Record<string, number>>({});
+  const [detailScope, setDetailScope] = useState<'occurrence' | 'series'>('occurrence');
+  // Ctrl/Cmd/Shift-click selects meals; dragging one of them moves them all
+  const [selectedMealIds, setSelectedMealIds] = useState<number[]>([]);
+  const [draggedMealId, setDraggedMealId] = useState<number | null>(null);
+  const [dropSlot, setDropSlot] = useState<string | null>(null);
 
-  // Get meal types from API
-  const { data: mealTypes = [] } = useQuery<MealType[]>({
-    queryKey: ['/api/meal-types'],
+  // The family's own meal slots, e.g. "Second breakfast" or a weekday-only "After-school snack"
+  const { mealTimes, allMealTimes } = useFamilyMealTimes(currentFamily?.id);
+
+  // Saved family rules (with every member's overrides) that recommendations and auto-fill follow
+  const { rules: planningRules } = useMealPlanningPreferences(currentFamily?.id);
+
+  // Get meals for the visible week and the one before it (for "Copy Previous Week").
+  // Querying a range also fills in recurring meals for it.
+  const rangeStart = format(startOfWeek(subWeeks(currentWeek, 1)), 'yyyy-MM-dd');
+  const rangeEnd = format(addDays(startOfWeek(currentWeek), 6), 'yyyy-MM-dd');
+  const { data: meals = [] } = useQuery<(MealWithAssignments & { leftoverExpiresOn?: string })[]>({
+    queryKey: [`/api/families/${currentFamily?.id}/meals`, { startDate: rangeStart, endDate: rangeEnd }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${currentFamily?.id}/meals?startDate=${rangeStart}&endDate=${rangeEnd}`);
+      return response.json();
+    },
+    enabled: !!currentFamily?.id,
   });
 
-  // Get meals for current family
-  const { data: meals = [] } = useQuery<Meal[]>({
-    queryKey: [`/api/families/${currentFamily?.id}/meals`],
+  // Who is eating the open meal, so portions can be adjusted when it's marked as eaten
+  const { attendance: detailAttendance } = useMealAttendance(detailMeal?.id);
+  const detailAttendees = (detailAttendance?.attendees ?? [])
+    .flatMap((attendee) => (attendee.userId ? [{ userId: attendee.userId, name: attendee.name }] : []));
+
+  // Members' names for showing who is cooking each meal
+  const { members: rotationMembers } = useCookingRotation(currentFamily?.id);
+  const cookName = (meal: MealWithAssignments) => {
+    const cook = meal.assignments.find((assignment) => assignment.role === 'cook');
+    return cook ? rotationMembers.find((member) => member.userId === cook.userId)?.name : undefined;
+  };
+
+  // Recurring meal rules, to describe the series a meal belongs to
+  const { data: mealRecurrences = [] } = useQuery<MealRecurrence[]>({
+    queryKey: ['/api/families', currentFamily?.id, 'meal-recurrences'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${currentFamily?.id}/meal-recurrences`);
+      return response.json();
+    },
     enabled: !!currentFamily?.id,
   });
 
@@ -90,141 +146,197 @@ export default function MealCalendar() {
     enabled: !!currentFamily?.id,
   });
 
-  // Auto-navigate to week containing meals when they load
-  useEffect(() => {
-    if (meals.length > 0) {
-      // Find the earliest meal date and navigate to that week
-      const earliestMeal = meals.reduce((earliest, meal) => 
-        meal.scheduledDate < earliest.scheduledDate ? meal : earliest
+  // Recipes ranked by the server for the slot being filled, refreshed each time it opens
+  const recommendationDate = selectedSlot ? format(selectedSlot.date, 'yyyy-MM-dd') : null;
+  const { data: recommendations, isFetching: recommendationsLoading } = useQuery<MealRecommendations>({
+    queryKey: ['/api/families', currentFamily?.id, 'recommendations', { date: recommendationDate, mealTypeId: selectedSlot?.mealTypeId }],
+    queryFn: async () => {
+      const response = await apiRequest(
+        'GET',
+        `/api/families/${currentFamily?.id}/recommendations?date=${recommendationDate}&mealTypeId=${selectedSlot?.mealTypeId}`,
       );
-      const mealDate = new Date(earliestMeal.scheduledDate);
-      setCurrentWeek(mealDate);
-    }
-  }, [meals]);
+      return response.json();
+    },
+    enabled: !!currentFamily?.id && showRecommendations && !!selectedSlot,
+    staleTime: 0,
+  });
+  const recommendedMeals = recommendations?.recommendations ?? [];
+
 
 
 
   // Create meal mutation
   const createMealMutation = useMutation({
     mutationFn: async (data: any) => {
-      const response = await apiRequest('POST', `/api/families/${currentFamily?.id}/meals`, data);
-      return response.json();
+      const response = await apiRequest('POST', '/api/meals', data);
+      return response.json() as Promise<Meal & { dietaryConflicts: DietaryConflict[] }>;
     },
-    onSuccess: () => {
+    onSuccess: (meal) => {
       queryClient.invalidateQueries({ queryKey: [`/api/families/${currentFamily?.id}/meals`] });
+      if (meal.dietaryConflicts?.length) {
+        toast({
+          title: "Dietary conflicts",
+          description: meal.dietaryConflicts
+            .map((conflict) => `${conflict.memberName}: ${conflict.type === "allergy" ? `${conflict.rule} allergy` : `not ${conflict.rule}`}`)
+            .join(', '),
+          variant: "destructive",
+        });
+      }
     },
   });
 
-  // Seed recipes mutation
-  const seedRecipesMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest('POST', `/api/families/${currentFamily?.id}/seed-recipes`, {});
-      return response.json();
+  // Applies several calendar edits at once; the server rolls back all of them if one fails
+  const mealBatchMutation = useMutation({
+    mutationFn: async ({ operations, onConflict }: { operations: MealBatchOperation[]; onConflict: MealBatchConflictPolicy }) => {
+      const response = await apiRequest('POST', `/api/families/${currentFamily?.id}/meals/batch`, { operations, onConflict });
+      return response.json() as Promise<MealBatchResult>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/recipes'] });
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${currentFamily?.id}/meals`] });
     },
   });
 
-  // Smart meal generation based on preferences and nutrition balance
-  const generateRecommendedMeals = (): RecommendedMeal[] => {
-    if (recipes.length === 0) return [];
-
-    const weekMeals = meals.filter(meal => {
-      const mealDate = new Date(meal.scheduledDate);
-      const weekStart = startOfWeek(currentWeek);
-      const weekEnd = addDays(weekStart, 6);
-      return mealDate >= weekStart && mealDate <= weekEnd;
-    });
-
-    const recentRecipeIds = weekMeals.map(m => m.recipeId);
-    
-    // Filter recipes based on preferences
-    let filteredRecipes = recipes.filter(recipe => {
-      // Check dietary restrictions
-      if (mealPreferences.dietaryRestrictions.length > 0) {
-        const hasRestrictedIngredients = recipe.ingredients.some(ingredient =>
-          mealPreferences.avoidIngredients.some(avoid => 
-            ingredient.toLowerCase().includes(avoid.toLowerCase())
-          )
-        );
-        if (hasRestrictedIngredients) return false;
-      }
-
-      // Check cook time preference
-      const totalTime = (recipe.prepTime || 0) + (recipe.cookTime || 0);
-      if (totalTime > mealPreferences.maxCookTime) return false;
-
-      // Check difficulty preference
-      if (mealPreferences.preferredDifficulty !== 'any' && recipe.difficulty) {
-        if (recipe.difficulty !== mealPreferences.preferredDifficulty) return false;
-      }
-
-      // Avoid recent repeats
-      if (recentRecipeIds.includes(recipe.id)) {
-        const daysSinceUsed = Math.floor((Date.now() - new Date(recipe.updatedAt || '').getTime()) / (1000 * 60 * 60 * 24));
-        if (daysSinceUsed < mealPreferences.repeatFrequency) return false;
+  // Moves meals between slots, swapping with whatever planned meal is already there
+  const moveMealsMutation = useMutation({
+    mutationFn: async ({ moves }: { moves: MealMove[]; isUndo?: boolean }) => {
+      const response = await apiRequest('POST', `/api/families/${currentFamily?.id}/meals/move`, { moves });
+      return response.json() as Promise<MealMoveResult>;
+    },
+    onSuccess: (result, { isUndo }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${currentFamily?.id}/meals`] });
+      setSelectedMealIds([]);
+      if (isUndo) {
+        toast({ title: "Move undone" });
+        return;
       }
+      const moved = result.moved.length === 1 ? "Meal moved" : `${result.moved.length} meals moved`;
+      toast({
+        title: result.swapped.length > 0 ? `${moved}, swapped with ${result.swapped.length}` : moved,
+        action: (
+          <ToastAction altText="Undo move" onClick={() => moveMealsMutation.mutate({ moves: result.undo, isUndo: true })}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't move meals", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
 
-      return true;
-    });
-
-    // If no recipes match preferences, fallback to all recipes
-    if (filteredRecipes.length === 0) {
-      filteredRecipes = recipes;
-    }
-
-    const recommendations: RecommendedMeal[] = [];
-    
-    // Generate balanced meal combinations
-    for (let i = 0; i < Math.min(6, filteredRecipes.length); i++) {
-      const mainRecipe = filteredRecipes[i];
-      
-      // Find complementary sides for nutritional balance
-      const sides = filteredRecipes.filter(r => 
-        r.id !== mainRecipe.id && 
-        r.tags?.some(tag => ['side', 'salad', 'vegetable', 'grain'].includes(tag.toLowerCase()))
-      ).slice(0, 2);
-
-      // Calculate nutrition score (simplified)
-      const nutritionScore = calculateNutritionScore(mainRecipe, sides);
-
-      recommendations.push({
-        id: `rec-${i}`,
-        recipes: [mainRecipe, ...sides],
-        totalTime: (mainRecipe.prepTime || 0) + (mainRecipe.cookTime || 0),
-        servings: mainRecipe.servings || 4,
-        tags: [...(mainRecipe.tags || []), ...sides.flatMap(s => s.tags || [])],
-        nutritionScore
+  // Hands out cooks for the visible week's meals that don't have one yet
+  const rotateCooksMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/families/${currentFamily?.id}/cooking-rotation/assign`, {
+        startDate: format(weekStart, 'yyyy-MM-dd'),
+        endDate: format(addDays(weekStart, 6), 'yyyy-MM-dd'),
+        roles: ['cook'],
       });
-    }
+      return response.json() as Promise<CookingRotationResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${currentFamily?.id}/meals`] });
+      queryClient.invalidateQueries({ queryKey: cookingDutiesKey(currentFamily?.id) });
+      toast({
+        title: result.assignments.length === 0
+          ? "Every meal this week already has a cook"
+          : `Assigned cooks for ${result.assignments.length} meals`,
+        description: result.notes.length > 0
+          ? result.notes.map((note) => `${format(parseISO(note.scheduledDate), 'EEE')}: ${note.message}`).join('. ')
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't assign cooks", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
 
-    // Sort by nutrition score if balance is preferred
-    if (mealPreferences.balanceNutrition) {
-      recommendations.sort((a, b) => (b.nutritionScore || 0) - (a.nutritionScore || 0));
-    }
+  // Save the servings chosen in the meal detail scaler
+  const updateMealServingsMutation = useMutation({
+    mutationFn: async ({ mealId, servings }: { mealId: number; servings: number }) => {
+      const response = await apiRequest('PATCH', `/api/meals/${mealId}`, { servings });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${currentFamily?.id}/meals`] });
+      setDetailMeal(null);
+    },
+    onError: () => {
+      toast({ title: "Couldn't save servings", description: "Leftover meals can't use more portions than were cooked.", variant: "destructive" });
+    },
+  });
 
-    return recommendations;
-  };
+  // Mark a meal as eaten (or back to planned); the server logs nutrition when tracking is on
+  const updateMealStatusMutation = useMutation({
+    mutationFn: async ({ mealId, status, portions }: { mealId: number; status: string; portions?: Record<string, number> }) => {
+      const memberPortions = portions
+        ? Object.entries(portions).map(([userId, portion]) => ({ userId, portion }))
+        : undefined;
+      const response = await apiRequest('PATCH', `/api/meals/${mealId}`, { status, memberPortions });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${currentFamily?.id}/meals`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/nutrition-logs'] });
+      // Eating a meal credits its cook's recipes cooked
+      queryClient.invalidateQueries({ queryKey: ['/api/user-stats'] });
+      queryClient.invalidateQueries({ queryKey: cookingDutiesKey(currentFamily?.id) });
+      setDetailMeal(null);
+      setDetailPortions({});
+    },
+  });
 
-  const calculateNutritionScore = (main: Recipe, sides: Recipe[]): number => {
-    // Simplified nutrition scoring based on tags and ingredients
-    let score = 0;
-    
-    const allRecipes = [main, ...sides];
-    const allTags = allRecipes.flatMap(r => r.tags || []);
-    const allIngredients = allRecipes.flatMap(r => r.ingredients);
+  // Edits to a whole recurring series apply from the chosen occurrence onward
+  const updateSeriesMutation = useMutation({
+    mutationFn: async ({ recurrenceId, fromDate, servings }: { recurrenceId: number; fromDate: string; servings: number }) => {
+      const response = await apiRequest('PATCH', `/api/meal-recurrences/${recurrenceId}`, { servings, fromDate });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${currentFamily?.id}/meals`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/families', currentFamily?.id, 'meal-recurrences'] });
+      setDetailMeal(null);
+    },
+  });
 
-    // Bonus for balanced macros
-    if (allTags.includes('protein')) score += 3;
-    if (allTags.includes('vegetable') || allIngredients.some(i => ['carrot', 'broccoli', 'spinach'].includes(i))) score += 2;
-    if (allTags.includes('grain') || allIngredients.some(i => ['rice', 'quinoa', 'pasta'].includes(i))) score += 2;
-    if (allTags.includes('healthy')) score += 1;
+  // Removing one occurrence skips that date; stopping the series keeps earlier meals
+  const deleteMealMutation = useMutation({
+    mutationFn: async (mealId: number) => {
+      const response = await apiRequest('DELETE', `/api/meals/${mealId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${currentFamily?.id}/meals`] });
+      setDetailMeal(null);
+    },
+  });
 
-    return score;
-  };
+  const stopSeriesMutation = useMutation({
+    mutationFn: async ({ recurrenceId, fromDate }: { recurrenceId: number; fromDate: string }) => {
+      const response = await apiRequest('DELETE', `/api/meal-recurrences/${recurrenceId}?fromDate=${fromDate}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/families/${currentFamily?.id}/meals`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/families', currentFamily?.id, 'meal-recurrences'] });
+      setDetailMeal(null);
+    },
+  });
 
-  const recommendedMeals = generateRecommendedMeals();
+  // Seed recipes mutation
+  const seedRecipesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/families/${currentFamily?.id}/seed-recipes`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recipes'] });
+    },
+  });
+
+  // The server adds the source meal's expiry date to leftover meals
+  const isLeftoverExpired = (meal: Meal & { leftoverExpiresOn?: string }) =>
+    meal.leftoverExpiresOn !== undefined && meal.scheduledDate > meal.leftoverExpiresOn;
 
   const getMealForSlot = (date: Date, mealTypeId: number) => {
     const dateStr = format(date, 'yyyy-MM-dd');
@@ -233,18 +345,17 @@ export default function MealCalendar() {
     );
   };
 
-  const handleAcceptRecommendation = (recommendation: RecommendedMeal) => {
+  const handleAcceptRecommendation = (recommendation: MealRecommendation) => {
     if (!selectedSlot || !currentFamily) return;
 
-    // Create a meal for the main recipe (first one in the recommendation)
-    const mainRecipe = recommendation.recipes[0];
+    // Suggested sides are served alongside the main recipe as side dishes
     createMealMutation.mutate({
       familyId: currentFamily.id,
-      recipeId: mainRecipe.id,
+      recipeId: recommendation.recipeId,
       mealTypeId: selectedSlot.mealTypeId,
       scheduledDate: format(selectedSlot.date, 'yyyy-MM-dd'),
-      servings: recommendation.servings,
-      status: 'planned'
+      status: 'planned', // servings follow whoever is attending
+      dishes: recommendation.sides.map((side) => ({ recipeId: side.recipeId })),
     });
 
     setShowRecommendations(false);
@@ -258,75 +369,81 @@ export default function MealCalendar() {
     const previousStart = subWeeks(currentStart, 1);
     
     // Copy meals from previous week to current week
+    const operations: MealBatchOperation[] = [];
     for (let i = 0; i < 7; i++) {
       const currentDate = addDays(currentStart, i);
       const previousDate = addDays(previousStart, i);
       
-      mockMealTypes.forEach(mealType => {
-        const previousMeal = getMealForSlot(previousDate, mealType.id);
-        const currentMeal = getMealForSlot(currentDate, mealType.id);
+      mealTimes.forEach(mealTime => {
+        if (!servesOn(mealTime, currentDate)) return;
+        const previousMeal = getMealForSlot(previousDate, mealTime.id);
+        const currentMeal = getMealForSlot(currentDate, mealTime.id);
         
-        if (previousMeal && !currentMeal) {
-          createMealMutation.mutate({
-            familyId: currentFamily.id,
-            recipeId: previousMeal.recipeId,
-            mealTypeId: mealType.id,
-            scheduledDate: format(currentDate, 'yyyy-MM-dd'),
-            servings: previousMeal.servings,
-            status: 'planned'
+        // Recurring meals fill in their own weeks
+        if (previousMeal && !currentMeal && previousMeal.recurrenceId === null) {
+          operations.push({
+            op: 'create',
+            meal: {
+              recipeId: previousMeal.recipeId,
+              mealTypeId: mealTime.id,
+              scheduledDate: format(currentDate, 'yyyy-MM-dd'),
+              servings: previousMeal.servings,
+              notes: previousMeal.notes,
+              dishes: previousMeal.dishes.map(({ recipeId, servings }) => ({ recipeId, servings })),
+            },
           });
         }
       });
     }
-  };
 
-  const handleAutoFillWeek = () => {
-    if (!currentFamily || recipes.length === 0) {
-      // If no recipes, create sample meals
-      const sampleRecipes = [
-        { name: 'Grilled Chicken', id: 'sample-1' },
-        { name: 'Pasta Primavera', id: 'sample-2' },
-        { name: 'Fish Tacos', id: 'sample-3' },
-        { name: 'Beef Stir Fry', id: 'sample-4' },
-        { name: 'Vegetable Curry', id: 'sample-5' }
-      ];
-      
-      const startDate = startOfWeek(currentWeek);
-      
-      for (let i = 0; i < 7; i++) {
-        const date = addDays(startDate, i);
-        mockMealTypes.forEach((mealType, index) => {
-          const existingMeal = getMealForSlot(date, mealType.id);
-          if (!existingMeal) {
-            const randomRecipe = sampleRecipes[Math.floor(Math.random() * sampleRecipes.length)];
-            // For demo purposes, just log what would be created
-            console.log(`Would create meal: ${randomRecipe.name} for ${format(date, 'yyyy-MM-dd')} ${mealType.name}`);
-          }
-        });
-      }
+    if (operations.length === 0) {
+      toast({ title: "Nothing to copy", description: "Last week's meals are already in this week's slots." });
       return;
     }
+    // Slots someone filled in the meantime are left alone
+    mealBatchMutation.mutate({ operations, onConflict: 'skip' }, {
+      onSuccess: (result) => {
+        const copied = result.results.filter((operation) => operation.status === 'created').length;
+        const skipped = result.results.length - copied;
+        toast({
+          title: `Copied ${copied} meals from last week`,
+          description: skipped > 0 ? `${skipped} slots already had meals and were left alone.` : undefined,
+        });
+      },
+      onError: (error: Error) => {
+        toast({ title: "Couldn't copy last week", description: apiErrorMessage(error), variant: "destructive" });
+      },
+    });
+  };
 
-    const startDate = startOfWeek(currentWeek);
-    
-    for (let i = 0; i < 7; i++) {
-      const date = addDays(startDate, i);
-      mockMealTypes.forEach(mealType => {
-        const existingMeal = getMealForSlot(date, mealType.id);
-        if (!existingMeal && recipes.length > 0) {
-          const randomRecipe = recipes[Math.floor(Math.random() * recipes.length)];
-          
-          createMealMutation.mutate({
-            familyId: currentFamily.id,
-            recipeId: randomRecipe.id,
-            mealTypeId: mealType.id,
-            scheduledDate: format(date, 'yyyy-MM-dd'),
-            servings: randomRecipe.servings || 4,
-            status: 'planned'
-          });
-        }
-      });
-    }
+  const toggleMealSelection = (mealId: number) =>
+    setSelectedMealIds((ids) => (ids.includes(mealId) ? ids.filter((id) => id !== mealId) : [...ids, mealId]));
+
+  /**
+   * Drops the dragged meal, and any meals selected with it, so the dragged one lands on the
+   * target slot. The others shift by the same number of days, and change rows only when they
+   * all share the dragged meal's row.
+   */
+  const handleDropMeal = (day: Date, mealTypeId: number) => {
+    const dragged = meals.find((meal) => meal.id === draggedMealId);
+    setDraggedMealId(null);
+    setDropSlot(null);
+    if (!dragged) return;
+
+    const group = selectedMealIds.includes(dragged.id)
+      ? meals.filter((meal) => selectedMealIds.includes(meal.id))
+      : [dragged];
+    const dayShift = differenceInCalendarDays(day, parseISO(dragged.scheduledDate));
+    const sameRow = group.every((meal) => meal.mealTypeId === dragged.mealTypeId);
+    if (dayShift === 0 && (mealTypeId === dragged.mealTypeId || !sameRow)) return;
+
+    moveMealsMutation.mutate({
+      moves: group.map((meal) => ({
+        mealId: meal.id,
+        scheduledDate: format(addDays(parseISO(meal.scheduledDate), dayShift), 'yyyy-MM-dd'),
+        mealTypeId: sameRow ? mealTypeId : meal.mealTypeId,
+      })),
+    });
   };
 
   const openRecommendations = (date: Date, mealTypeId: number) => {
@@ -339,41 +456,17 @@ export default function MealCalendar() {
     setShowSwapDialog(true);
   };
 
-  const applyMealTemplate = (templateName: string) => {
-    const templates = {
-      'mediterranean': ['Greek Salad', 'Fish Tacos', 'Pasta Primavera'],
-      'comfort': ['Grilled Chicken', 'Roasted Vegetables', 'Caesar Salad'],
-      'quick': ['Pasta Primavera', 'Caesar Salad', 'Fish Tacos'],
-      'healthy': ['Grilled Chicken', 'Roasted Vegetables', 'Caesar Salad']
-    };
-
-    const templateRecipes = templates[templateName as keyof typeof templates] || [];
-    const weekStart = startOfWeek(currentWeek);
-    
-    templateRecipes.forEach((recipeName, index) => {
-      const matchingRecipe = recipes.find(r => r.name.includes(recipeName));
-      if (matchingRecipe) {
-        const day = addDays(weekStart, index % 7);
-        const mealType = mockMealTypes[index % mockMealTypes.length];
-        
-        createMealMutation.mutate({
-          familyId: currentFamily?.id,
-          recipeId: matchingRecipe.id,
-          mealTypeId: mealType.id,
-          scheduledDate: format(day, 'yyyy-MM-dd'),
-          servings: matchingRecipe.servings || 4,
-          status: 'planned'
-        });
-      }
-    });
-  };
-
   if (!currentFamily) {
     return <div>Please select a family first.</div>;
   }
 
   const weekStart = startOfWeek(currentWeek);
   const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  // Switched-off meal times still get a row while this week has meals in them
+  const calendarMealTimes = allMealTimes.filter((mealTime) =>
+    mealTime.isActive !== false ||
+    weekDays.some((day) => getMealForSlot(day, mealTime.id))
+  );
 
   return (
     <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -396,32 +489,27 @@ export default function MealCalendar() {
               </Button>
             )}
             
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
+            {currentFamily && (
+              <MealPlanTemplatesDialog
+                familyId={currentFamily.id}
+                weekStart={format(startOfWeek(currentWeek), 'yyyy-MM-dd')}
+                mealTimes={mealTimes}
+              >
                 <Button variant="outline" size="sm">
                   <Calendar className="w-4 h-4 mr-2" />
                   Templates
                 </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent>
-                <DropdownMenuItem onClick={() => applyMealTemplate('mediterranean')}>
-                  <Star className="w-4 h-4 mr-2" />
-                  Mediterranean Week
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => applyMealTemplate('comfort')}>
-                  <Star className="w-4 h-4 mr-2" />
-                  Comfort Food Week
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => applyMealTemplate('quick')}>
-                  <Zap className="w-4 h-4 mr-2" />
-                  Quick & Easy Week
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => applyMealTemplate('healthy')}>
-                  <Star className="w-4 h-4 mr-2" />
-                  Healthy Week
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+              </MealPlanTemplatesDialog>
+            )}
+
+            {currentFamily && (
+              <MealImportDialog familyId={currentFamily.id} mealTimes={mealTimes}>
+                <Button variant="outline" size="sm">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import
+                </Button>
+              </MealImportDialog>
+            )}
 
             <Dialog open={showPreferences} onOpenChange={setShowPreferences}>
               <DialogTrigger asChild>
@@ -434,72 +522,99 @@ export default function MealCalendar() {
                 <DialogHeader>
                   <DialogTitle>Meal Planning Preferences</DialogTitle>
                 </DialogHeader>
-                <div className="space-y-4">
-                  <div>
-                    <label className="text-sm font-medium">Max Cook Time</label>
-                    <input
-                      type="range"
-                      min="15"
-                      max="120"
-                      value={mealPreferences.maxCookTime}
-                      onChange={(e) => setMealPreferences(prev => ({
-                        ...prev,
-                        maxCookTime: parseInt(e.target.value)
-                      }))}
-                      className="w-full"
-                    />
-                    <span className="text-xs text-gray-500">{mealPreferences.maxCookTime} minutes</span>
-                  </div>
-                  
-                  <div>
-                    <label className="text-sm font-medium">Repeat Frequency</label>
-                    <input
-                      type="range"
-                      min="1"
-                      max="14"
-                      value={mealPreferences.repeatFrequency}
-                      onChange={(e) => setMealPreferences(prev => ({
-                        ...prev,
-                        repeatFrequency: parseInt(e.target.value)
-                      }))}
-                      className="w-full"
-                    />
-                    <span className="text-xs text-gray-500">Wait {mealPreferences.repeatFrequency} days before repeating</span>
-                  </div>
-
-                  <div className="flex items-center space-x-2">
-                    <input
-                      type="checkbox"
-                      id="balanceNutrition"
-                      checked={mealPreferences.balanceNutrition}
-                      onChange={(e) => setMealPreferences(prev => ({
-                        ...prev,
-                        balanceNutrition: e.target.checked
-                      }))}
-                    />
-                    <label htmlFor="balanceNutrition" className="text-sm">Prioritize nutritional balance</label>
+                {planningRules ? (
+                  <div className="space-y-3 text-sm text-gray-700">
+                    <div className="flex justify-between">
+                      <span>Max cook time</span>
+                      <span className="font-medium">{planningRules.maxCookTime} minutes</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Repeat frequency</span>
+                      <span className="font-medium">Wait {planningRules.repeatFrequency} days</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Difficulty</span>
+                      <span className="font-medium capitalize">
+                        {planningRules.preferredDifficulty === 'any' ? 'Any' : `${planningRules.preferredDifficulty} or easier`}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Nutritional balance</span>
+                      <span className="font-medium">{planningRules.balanceNutrition ? 'Prioritized' : 'Not considered'}</span>
+                    </div>
+                    {[
+                      { label: 'Dietary restrictions', items: planningRules.dietaryRestrictions },
+                      { label: 'Avoid', items: planningRules.avoidIngredients },
+                      { label: 'Preferred cuisines', items: planningRules.preferredCuisines },
+                    ].filter(({ items }) => items.length > 0).map(({ label, items }) => (
+                      <div key={label} className="space-y-1">
+                        <span>{label}</span>
+                        <div className="flex flex-wrap gap-1">
+                          {items.map((item) => <Badge key={item} variant="secondary">{item}</Badge>)}
+                        </div>
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">
+                      These are the family's saved rules, including every member's own restrictions and limits.
+                    </p>
+                    <Link href="/family-settings">
+                      <Button variant="outline" size="sm" className="w-full" onClick={() => setShowPreferences(false)}>
+                        Edit in Family Settings
+                      </Button>
+                    </Link>
                   </div>
-                </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Loading preferences...</p>
+                )}
               </DialogContent>
             </Dialog>
 
             <Button 
               variant="outline"
               onClick={handleCopyFromPreviousWeek}
+              disabled={mealBatchMutation.isPending}
               size="sm"
             >
               <Copy className="w-4 h-4 mr-2" />
               Copy Previous Week
             </Button>
             
-            <Button 
-              onClick={handleAutoFillWeek}
-              className="bg-primary hover:bg-primary/90 text-white"
+            {currentFamily && (
+              <RecurringMealsDialog familyId={currentFamily.id} recipes={recipes} mealTimes={mealTimes}>
+                <Button variant="outline" size="sm">
+                  <Repeat className="w-4 h-4 mr-2" />
+                  Recurring
+                </Button>
+              </RecurringMealsDialog>
+            )}
+
+            <Button
+              variant="outline"
               size="sm"
+              onClick={() => rotateCooksMutation.mutate()}
+              disabled={!currentFamily || rotateCooksMutation.isPending}
             >
-              <Shuffle className="w-4 h-4 mr-2" />
-              Auto-Fill Week
+              <ChefHat className="w-4 h-4 mr-2" />
+              Rotate Cooks
             </Button>
+
+            {currentFamily && (
+              <MealPlanGeneratorDialog
+                familyId={currentFamily.id}
+                startDate={format(weekStart, 'yyyy-MM-dd')}
+                endDate={format(addDays(weekStart, 6), 'yyyy-MM-dd')}
+                defaultMaxMinutes={planningRules?.maxCookTime}
+                defaultNoRepeatDays={planningRules?.repeatFrequency}
+              >
+                <Button
+                  className="bg-primary hover:bg-primary/90 text-white"
+                  size="sm"
+                >
+                  <Shuffle className="w-4 h-4 mr-2" />
+                  Auto-Fill Week
+                </Button>
+              </MealPlanGeneratorDialog>
+            )}
           </div>
         </div>
 
@@ -527,6 +642,19 @@ export default function MealCalendar() {
             </div>
           </CardHeader>
           <CardContent>
+            <div className="flex items-center justify-between mb-3 text-xs text-gray-500">
+              {selectedMealIds.length > 0 ? (
+                <>
+                  <span>{selectedMealIds.length} meals selected. Drag one of them to move them together.</span>
+                  <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setSelectedMealIds([])}>
+                    Clear selection
+                  </Button>
+                </>
+              ) : (
+                <span>Drag a meal to another slot to move it, or onto another meal to swap them. Ctrl-click to select several.</span>
+              )}
+            </div>
+
             {/* Calendar Grid */}
             <div className="grid grid-cols-8 gap-2">
               {/* Header Row */}
@@ -539,25 +667,78 @@ export default function MealCalendar() {
               ))}
 
               {/* Meal Rows */}
-              {mockMealTypes.map((mealType) => (
-                <div key={mealType.id} className="contents">
+              {calendarMealTimes.map((mealTime) => (
+                <div key={mealTime.id} className="contents">
                   <div className="font-medium text-sm text-gray-700 p-2 border-r">
-                    {mealType.name}
+                    <div>{mealTime.mealName}</div>
+                    {mealTime.defaultTime && (
+                      <div className="text-xs font-normal text-gray-500">{mealTime.defaultTime}</div>
+                    )}
                   </div>
                   {weekDays.map((day) => {
-                    const meal = getMealForSlot(day, mealType.id);
+                    const meal = getMealForSlot(day, mealTime.id);
+                    const slot = `${format(day, 'yyyy-MM-dd')}|${mealTime.id}`;
+                    const acceptsDrop = draggedMealId !== null && mealTime.isActive !== false && servesOn(mealTime, day);
                     return (
-                      <div key={`${day.toISOString()}-${mealType.id}`} className="min-h-[120px] border border-gray-200 rounded-lg p-2 relative group">
+                      <div
+                        key={`${day.toISOString()}-${mealTime.id}`}
+                        className={`min-h-[120px] border rounded-lg p-2 relative group ${dropSlot === slot ? 'border-primary bg-primary/5' : 'border-gray-200'}`}
+                        onDragOver={(e) => {
+                          if (!acceptsDrop) return;
+                          e.preventDefault();
+                          setDropSlot(slot);
+                        }}
+                        onDragLeave={() => setDropSlot((current) => (current === slot ? null : current))}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          handleDropMeal(day, mealTime.id);
+                        }}
+                      >
                         {meal ? (
-                          <div className="space-y-2 h-full">
+                          <div
+                            className={`space-y-2 h-full rounded ${selectedMealIds.includes(meal.id) ? 'ring-2 ring-primary ring-offset-2' : ''} ${meal.status === 'planned' ? 'cursor-grab' : ''}`}
+                            draggable={meal.status === 'planned'}
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = 'move';
+                              e.dataTransfer.setData('text/plain', meal.id.toString());
+                              setDraggedMealId(meal.id);
+                            }}
+                            onDragEnd={() => {
+                              setDraggedMealId(null);
+                              setDropSlot(null);
+                            }}
+                          >
                             {(() => {
                               const recipe = recipes.find(r => r.id === meal.recipeId);
                               if (recipe) {
                                 return (
                                   <div className="space-y-2">
-                                    <div className="text-sm font-medium text-gray-900 leading-tight">
+                                    <button
+                                      type="button"
+                                      className="text-left text-sm font-medium text-gray-900 leading-tight hover:text-primary"
+                                      onClick={(e) => {
+                                        if (e.ctrlKey || e.metaKey || e.shiftKey) {
+                                          toggleMealSelection(meal.id);
+                                        } else {
+                                          setDetailMeal(meal);
+                                        }
+                                      }}
+                                    >
                                       {recipe.name}
-                                    </div>
+                                    </button>
+                                    {meal.dishes.length > 0 && (
+                                      <div className="text-xs text-gray-600 leading-tight">
+                                        with {meal.dishes.map((dish) => recipes.find((r) => r.id === dish.recipeId)?.name ?? 'a side').join(', ')}
+                                      </div>
+                                    )}
+                                    {meal.leftoverOfMealId !== null && (
+                                      <Badge
+                                        variant={isLeftoverExpired(meal) ? "destructive" : "outline"}
+                                        className="text-xs px-1 py-0"
+                                      >
+                                        {isLeftoverExpired(meal) ? "Leftovers past fridge life" : "Leftovers"}
+                                      </Badge>
+                                    )}
                                     <div className="flex items-center space-x-3 text-xs text-gray-500">
                                       <div className="flex items-center space-x-1">
                                         <Users className="w-3 h-3" />
@@ -567,6 +748,12 @@ export default function MealCalendar() {
                                         <Clock className="w-3 h-3" />
                                         <span>{(recipe.prepTime || 0) + (recipe.cookTime || 0)}m</span>
                                       </div>
+                                      {cookName(meal) && (
+                                        <div className="flex items-center space-x-1 min-w-0">
+                                          <ChefHat className="w-3 h-3 shrink-0" />
+                                          <span className="truncate">{cookName(meal)}</span>
+                                        </div>
+                                      )}
                                     </div>
                                     {recipe.tags && recipe.tags.length > 0 && (
                                       <div className="flex flex-wrap gap-1">
@@ -609,7 +796,7 @@ export default function MealCalendar() {
                                   </Button>
                                 </DropdownMenuTrigger>
                                 <DropdownMenuContent>
-                                  <DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => setDetailMeal(meal)}>
                                     <Edit className="w-4 h-4 mr-2" />
                                     Edit Meal
                                   </DropdownMenuItem>
@@ -626,13 +813,18 @@ export default function MealCalendar() {
                               </DropdownMenu>
                             </div>
                           </div>
+                        ) : mealTime.isActive === false || !servesOn(mealTime, day) ? (
+                          <div
+                            className="h-full min-h-[100px] rounded bg-gray-50"
+                            title={mealTime.isActive === false ? `${mealTime.mealName} is switched off` : `No ${mealTime.mealName} on ${format(day, 'EEEE')}s`}
+                          />
                         ) : (
-                          <Dialog open={showRecommendations && selectedSlot?.date.toDateString() === day.toDateString() && selectedSlot?.mealTypeId === mealType.id} onOpenChange={setShowRecommendations}>
+                          <Dialog open={showRecommendations && selectedSlot?.date.toDateString() === day.toDateString() && selectedSlot?.mealTypeId === mealTime.id} onOpenChange={setShowRecommendations}>
                             <DialogTrigger asChild>
                               <Button
                                 variant="ghost"
                                 className="w-full h-full border-2 border-dashed border-gray-300 hover:border-gray-400 flex items-center justify-center"
-                                onClick={() => openRecommendations(day, mealType.id)}
+                                onClick={() => openRecommendations(day, mealTime.id)}
                               >
                                 <Plus className="w-6 h-6 text-gray-400" />
                               </Button>
@@ -641,35 +833,43 @@ export default function MealCalendar() {
                               <DialogHeader>
                                 <DialogTitle>Recommended Meals</DialogTitle>
                               </DialogHeader>
-                              <div className="space-y-4">
-                                {recommendedMeals.length > 0 ? (
+                              <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+                                {recommendationsLoading && recommendedMeals.length === 0 ? (
+                                  <p className="text-center py-8 text-sm text-gray-500">Finding recipes...</p>
+                                ) : recommendedMeals.length > 0 ? (
                                   recommendedMeals.map((recommendation) => (
-                                    <Card key={recommendation.id} className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleAcceptRecommendation(recommendation)}>
+                                    <Card key={recommendation.recipeId} className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleAcceptRecommendation(recommendation)}>
                                       <CardContent className="p-4">
                                         <div className="flex justify-between items-start">
                                           <div className="space-y-2">
                                             <h4 className="font-medium">
-                                              {recommendation.recipes.map(r => r.name).join(' + ')}
+                                              {[recommendation.recipeName, ...recommendation.sides.map(side => side.recipeName)].join(' + ')}
                                             </h4>
                                             <div className="flex items-center space-x-4 text-sm text-gray-500">
-                                              <div className="flex items-center space-x-1">
-                                                <Clock className="w-4 h-4" />
-                                                <span>{recommendation.totalTime} min</span>
-                                              </div>
+                                              {recommendation.totalMinutes !== null && (
+                                                <div className="flex items-center space-x-1">
+                                                  <Clock className="w-4 h-4" />
+                                                  <span>{recommendation.totalMinutes} min</span>
+                                                </div>
+                                              )}
                                               <div className="flex items-center space-x-1">
                                                 <Users className="w-4 h-4" />
                                                 <span>{recommendation.servings} servings</span>
                                               </div>
+                                              {recommendation.caloriesPerServing !== null && (
+                                                <span>{Math.round(recommendation.caloriesPerServing)} cal</span>
+                                              )}
                                             </div>
-                                            <div className="flex space-x-1">
-                                              {recommendation.tags.map((tag) => (
-                                                <Badge key={tag} variant="secondary" className="text-xs">
-                                                  {tag}
-                                                </Badge>
+                                            <ul className="space-y-0.5 text-xs text-gray-600">
+                                              {recommendation.reasons.map((reason) => (
+                                                <li key={reason}>• {reason}</li>
                                               ))}
-                                            </div>
+                                            </ul>
+                                          </div>
+                                          <div className="flex flex-col items-end gap-2">
+                                            <Badge variant="secondary" title="Match score">{recommendation.score}</Badge>
+                                            <Button size="sm">Accept</Button>
                                           </div>
-                                          <Button size="sm">Accept</Button>
                                         </div>
                                       </CardContent>
                                     </Card>
@@ -677,7 +877,11 @@ export default function MealCalendar() {
                                 ) : (
                                   <div className="text-center py-8">
                                     <p className="text-gray-500 mb-4">No recommendations available.</p>
-                                    <p className="text-sm text-gray-400">Add some recipes to get meal suggestions.</p>
+                                    <p className="text-sm text-gray-400">
+                                      {recommendations && recommendations.excludedRecipes.length > 0
+                                        ? "None of your recipes fit the family's allergies, diets and meal planning rules."
+                                        : 'Add some recipes to get meal suggestions.'}
+                                    </p>
                                   </div>
                                 )}
                               </div>
@@ -693,6 +897,126 @@ export default function MealCalendar() {
           </CardContent>
         </Card>
 
+        {/* Meal Detail Dialog */}
+        <Dialog open={!!detailMeal} onOpenChange={(open) => { if (!open) { setDetailMeal(null); setDetailServings(null); setDetailPortions({}); setDetailScope('occurrence'); } }}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>
+                {recipes.find(r => r.id === detailMeal?.recipeId)?.name ?? `Recipe #${detailMeal?.recipeId}`}
+              </DialogTitle>
+            </DialogHeader>
+            {detailMeal && (
+              <div className="space-y-4">
+                <div className="text-sm text-gray-600">
+                  {format(new Date(detailMeal.scheduledDate), 'EEEE, MMMM d')}
+                </div>
+                {detailMeal.recipeId && (
+                  <RecipeScaler
+                    recipeId={detailMeal.recipeId}
+                    defaultServings={detailMeal.servings || 1}
+                    onServingsChange={setDetailServings}
+                  />
+                )}
+                {detailMeal.recurrenceId !== null && (() => {
+                  const series = mealRecurrences.find((rule) => rule.id === detailMeal.recurrenceId);
+                  const fromDate = detailMeal.recurrenceDate ?? detailMeal.scheduledDate;
+                  return (
+                    <div className="space-y-2 rounded-md border p-3">
+                      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                        <Repeat className="w-4 h-4" />
+                        {series ? describeRecurrence(series) : 'Recurring meal'}
+                      </div>
+                      <Select value={detailScope} onValueChange={(value) => setDetailScope(value as 'occurrence' | 'series')}>
+                        <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="occurrence">Changes apply to this meal only</SelectItem>
+                          <SelectItem value="series">Changes apply to this and future meals in the series</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={deleteMealMutation.isPending}
+                          onClick={() => deleteMealMutation.mutate(detailMeal.id)}
+                        >
+                          Skip This Date
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600"
+                          disabled={stopSeriesMutation.isPending}
+                          onClick={() => stopSeriesMutation.mutate({ recurrenceId: detailMeal.recurrenceId!, fromDate })}
+                        >
+                          Stop Series From Here
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })()}
+                <MealDishesPanel meal={detailMeal} recipes={recipes} />
+                <MealAttendancePanel meal={detailMeal} />
+                <MealAssignmentsPanel meal={detailMeal} />
+                <LeftoversPanel meal={detailMeal} mealTimes={mealTimes} />
+                {detailMeal.status !== 'completed' && detailAttendees.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="text-sm font-medium text-gray-700">Portions eaten</div>
+                    {detailAttendees.map((member) => (
+                      <div key={member.userId} className="flex items-center justify-between gap-4">
+                        <span className="text-sm text-gray-600">{member.name}</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={0.25}
+                          placeholder="auto"
+                          value={detailPortions[member.userId] ?? ''}
+                          onChange={(e) => {
+                            const { [member.userId]: _, ...rest } = detailPortions;
+                            setDetailPortions(e.target.value === '' ? rest : { ...rest, [member.userId]: Number(e.target.value) });
+                          }}
+                          className="w-20 h-8 text-center"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    disabled={updateMealStatusMutation.isPending}
+                    onClick={() => updateMealStatusMutation.mutate(
+                      detailMeal.status === 'completed'
+                        ? { mealId: detailMeal.id, status: 'planned' }
+                        : { mealId: detailMeal.id, status: 'completed', portions: detailPortions }
+                    )}
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    {detailMeal.status === 'completed' ? "Mark as Planned" : "Mark as Eaten"}
+                  </Button>
+                  <Button
+                    disabled={!detailServings || detailServings === detailMeal.servings || updateMealServingsMutation.isPending || updateSeriesMutation.isPending}
+                    onClick={() => {
+                      if (!detailServings) return;
+                      if (detailScope === 'series' && detailMeal.recurrenceId !== null) {
+                        updateSeriesMutation.mutate({
+                          recurrenceId: detailMeal.recurrenceId,
+                          fromDate: detailMeal.recurrenceDate ?? detailMeal.scheduledDate,
+                          servings: detailServings,
+                        });
+                      } else {
+                        updateMealServingsMutation.mutate({ mealId: detailMeal.id, servings: detailServings });
+                      }
+                    }}
+                  >
+                    {updateMealServingsMutation.isPending || updateSeriesMutation.isPending ? "Saving..." : "Save Servings"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
         {/* Recipe Swap Dialog */}
         <Dialog open={showSwapDialog} onOpenChange={setShowSwapDialog}>
           <DialogContent className="max-w-2xl">
@@ -1,15 +1,34 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useFamily } from "@/contexts/FamilyContext";
+import { apiRequest } from "@/lib/queryClient";
+import { useFamilyMealTimes } from "@/hooks/useFamilyMealTimes";
+import NutritionGoalsDialog from "@/components/NutritionGoalsDialog";
+import NutritionTrends from "@/components/NutritionTrends";
+import FamilyNutritionDashboard from "@/components/FamilyNutritionDashboard";
+import QuickAddFoodDialog from "@/components/QuickAddFoodDialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Plus, Flame, Dumbbell, Wheat, Droplets } from "lucide-react";
+import { Plus, Flame, Dumbbell, Wheat, Droplets, Target } from "lucide-react";
 import { format } from "date-fns";
-import type { NutritionLog } from "@shared/schema";
+import type { FamilyMembership, NutritionLog, ResolvedNutritionGoals, User } from "@shared/schema";
+
+// Shown until the member's saved goals load
+const DEFAULT_DAILY_GOALS = {
+  calories: 2000,
+  protein: 120,
+  carbs: 250,
+  fat: 65,
+  fiber: 28,
+  sugar: 50,
+  sodium: 2300,
+};
 
 export default function Nutrition() {
-  const { user } = useAuth();
+  const { user } = useAuth() as { user: User | undefined };
+  const { currentFamily } = useFamily();
   const [selectedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
 
   const { data: nutritionLogs = [], isLoading } = useQuery<NutritionLog[]>({
@@ -25,27 +44,35 @@ export default function Nutrition() {
     fat: totals.fat + (Number(log.fat) || 0),
   }), { calories: 0, protein: 0, carbs: 0, fat: 0 });
 
-  // Daily goals (these could be user-configurable)
-  const dailyGoals = {
-    calories: 2000,
-    protein: 120,
-    carbs: 250,
-    fat: 65,
-  };
+  const { data: nutritionGoals } = useQuery<ResolvedNutritionGoals>({
+    queryKey: ['/api/families', currentFamily?.id, 'nutrition-goals', { date: selectedDate }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${currentFamily?.id}/nutrition-goals?date=${selectedDate}`);
+      return response.json();
+    },
+    enabled: !!user && !!currentFamily?.id,
+  });
+
+  const dailyGoals = nutritionGoals?.targets ?? DEFAULT_DAILY_GOALS;
+
+  // Admins also get the family overview
+  const { data: familyMembers = [] } = useQuery<FamilyMembership[]>({
+    queryKey: [`/api/families/${currentFamily?.id}/members`],
+    enabled: !!currentFamily?.id,
+  });
+  const isFamilyAdmin = familyMembers.some((member) => member.userId === user?.id && member.role === 'admin');
 
-  // Group logs by meal type
+  // Group logs by the family's meal times, in the same order as the meal calendar
+  const { allMealTimes, mealTimeName } = useFamilyMealTimes(currentFamily?.id);
   const logsByMealType = nutritionLogs.reduce((groups, log) => {
     const mealTypeId = log.mealTypeId || 0;
     if (!groups[mealTypeId]) groups[mealTypeId] = [];
     groups[mealTypeId].push(log);
     return groups;
   }, {} as Record<number, NutritionLog[]>);
-
-  const mealTypeNames = {
-    1: 'Breakfast',
-    2: 'Lunch', 
-    3: 'Dinner',
-    4: 'Snacks'
+  const mealTimeOrder = (mealTypeId: string) => {
+    const index = allMealTimes.findIndex((mealTime) => mealTime.id === parseInt(mealTypeId));
+    return index === -1 ? allMealTimes.length : index;
   };
 
   return (
@@ -57,10 +84,24 @@ export default function Nutrition() {
             <h2 className="text-3xl font-bold text-gray-900">Nutrition Tracking</h2>
             <p className="text-gray-600 mt-1">Monitor your daily nutrition goals</p>
           </div>
-          <Button className="bg-primary hover:bg-primary/90 text-white">
-            <Plus className="w-4 h-4 mr-2" />
-            Log Food
-          </Button>
+          <div className="flex gap-2">
+            {currentFamily && (
+              <NutritionGoalsDialog familyId={currentFamily.id} targets={dailyGoals}>
+                <Button variant="outline">
+                  <Target className="w-4 h-4 mr-2" />
+                  Goals
+                </Button>
+              </NutritionGoalsDialog>
+            )}
+            {currentFamily && (
+              <QuickAddFoodDialog familyId={currentFamily.id} loggedDate={selectedDate}>
+                <Button className="bg-primary hover:bg-primary/90 text-white">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Log Food
+                </Button>
+              </QuickAddFoodDialog>
+            )}
+          </div>
         </div>
 
         {/* Daily Overview */}
@@ -170,6 +211,12 @@ export default function Nutrition() {
           </Card>
         </div>
 
+        {/* Trends */}
+        {currentFamily && <NutritionTrends familyId={currentFamily.id} endDate={selectedDate} />}
+
+        {/* Family Overview */}
+        {currentFamily && isFamilyAdmin && <FamilyNutritionDashboard familyId={currentFamily.id} endDate={selectedDate} />}
+
         {/* Food Log */}
         <Card>
           <CardHeader>
@@ -181,19 +228,25 @@ export default function Nutrition() {
             ) : Object.keys(logsByMealType).length === 0 ? (
               <div className="p-6 text-center">
                 <p className="text-gray-600 mb-4">No food logged for today yet.</p>
-                <Button className="bg-primary hover:bg-primary/90 text-white">
-                  <Plus className="w-4 h-4 mr-2" />
-                  Log your first meal
-                </Button>
+                {currentFamily && (
+                  <QuickAddFoodDialog familyId={currentFamily.id} loggedDate={selectedDate}>
+                    <Button className="bg-primary hover:bg-primary/90 text-white">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Log your first meal
+                    </Button>
+                  </QuickAddFoodDialog>
+                )}
               </div>
             ) : (
-              Object.entries(logsByMealType).map(([mealTypeId, logs]) => {
+              Object.entries(logsByMealType)
+                .sort(([a], [b]) => mealTimeOrder(a) - mealTimeOrder(b))
+                .map(([mealTypeId, logs]) => {
                 const mealCalories = logs.reduce((sum, log) => sum + (log.calories || 0), 0);
                 return (
                   <div key={mealTypeId} className="p-6">
                     <div className="flex items-center justify-between mb-3">
                       <h4 className="font-semibold text-gray-900">
-                        {mealTypeNames[parseInt(mealTypeId) as keyof typeof mealTypeNames] || 'Unknown'}
+                        {mealTypeId === '0' ? 'Other' : mealTimeName(parseInt(mealTypeId))}
                       </h4>
                       <span className="text-sm text-gray-500">{mealCalories} calories</span>
                     </div>
@@ -205,10 +258,18 @@ export default function Nutrition() {
                         </div>
                       ))}
                     </div>
-                    <Button variant="ghost" size="sm" className="mt-3 text-primary hover:text-primary/90">
-                      <Plus className="w-3 h-3 mr-1" />
-                      Add food
-                    </Button>
+                    {currentFamily && (
+                      <QuickAddFoodDialog
+                        familyId={currentFamily.id}
+                        loggedDate={selectedDate}
+                        defaultMealTypeId={parseInt(mealTypeId) || undefined}
+                      >
+                        <Button variant="ghost" size="sm" className="mt-3 text-primary hover:text-primary/90">
+                          <Plus className="w-3 h-3 mr-1" />
+                          Add food
+                        </Button>
+                      </QuickAddFoodDialog>
+                    )}
                   </div>
                 );
               })
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -16,6 +16,7 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
+import type { User as AppUser, UserPreferences } from "@shared/schema";
 import { User, Settings, Bell, Shield, Trash2, Plus, X } from "lucide-react";
 
 const profileSchema = z.object({
@@ -46,12 +47,18 @@ const privacySchema = z.object({
   shareAchievements: z.boolean(),
 });
 
+const unitsSchema = z.object({
+  measurementSystem: z.enum(["imperial", "metric"]),
+});
+
 type ProfileFormData = z.infer<typeof profileSchema>;
 type NotificationFormData = z.infer<typeof notificationSchema>;
 type PrivacyFormData = z.infer<typeof privacySchema>;
+type UnitsFormData = z.infer<typeof unitsSchema>;
 
 export default function ProfileSettings() {
-  const { user } = useAuth();
+  const { user: authUser } = useAuth();
+  const user = authUser as AppUser | undefined;
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -65,8 +72,12 @@ export default function ProfileSettings() {
   });
 
   // Fetch user preferences
-  const { data: preferences, isLoading: preferencesLoading } = useQuery({
+  const { data: preferences, isLoading: preferencesLoading } = useQuery<Partial<UserPreferences>>({
     queryKey: ['/api/preferences', user?.id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/preferences/${user?.id}`);
+      return response.json();
+    },
     enabled: !!user?.id,
   });
 
@@ -107,13 +118,24 @@ export default function ProfileSettings() {
     },
   });
 
+  const unitsForm = useForm<UnitsFormData>({
+    resolver: zodResolver(unitsSchema),
+    defaultValues: {
+      measurementSystem: preferences?.measurementSystem || "imperial",
+    },
+  });
+
+  // Defaults are only read on mount, so show the saved system once preferences arrive
+  useEffect(() => {
+    if (preferences) {
+      unitsForm.reset({ measurementSystem: preferences.measurementSystem || "imperial" });
+    }
+  }, [preferences]);
+
   // Update profile mutation
   const updateProfileMutation = useMutation({
     mutationFn: async (data: ProfileFormData) => {
-      return await apiRequest('/api/profile/update', {
-        method: 'PATCH',
-        body: JSON.stringify(data),
-      });
+      return await apiRequest('PATCH', '/api/profile/update', { userId: user?.id, ...data });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/profile'] });
@@ -126,11 +148,8 @@ export default function ProfileSettings() {
 
   // Update preferences mutation
   const updatePreferencesMutation = useMutation({
-    mutationFn: async (data: NotificationFormData | PrivacyFormData) => {
-      return await apiRequest('/api/preferences/update', {
-        method: 'PATCH',
-        body: JSON.stringify(data),
-      });
+    mutationFn: async (data: NotificationFormData | PrivacyFormData | UnitsFormData) => {
+      return await apiRequest('PATCH', '/api/preferences/update', data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/preferences'] });
@@ -324,6 +343,38 @@ export default function ProfileSettings() {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>Units & Measurements</CardTitle>
+                <CardDescription>
+                  Choose how ingredient amounts are displayed in recipes and shopping lists
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={unitsForm.handleSubmit((data) => updatePreferencesMutation.mutate(data))} className="space-y-6">
+                  <div className="space-y-2">
+                    <Label>Measurement System</Label>
+                    <Select
+                      value={unitsForm.watch("measurementSystem")}
+                      onValueChange={(value) => unitsForm.setValue("measurementSystem", value as any)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select measurement system" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="imperial">Imperial - cups, ounces, pounds</SelectItem>
+                        <SelectItem value="metric">Metric - millilitres, grams, kilograms</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <Button type="submit" disabled={updatePreferencesMutation.isPending}>
+                    {updatePreferencesMutation.isPending ? "Saving..." : "Save Units"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Dietary Restrictions & Allergies</CardTitle>
@@ -1,20 +1,23 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useFamily } from "@/contexts/FamilyContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Search, Star, Clock, Users, Heart, Link2, Camera, Video, Mic, FileText, Upload, Scan, Download, Sparkles, ChefHat } from "lucide-react";
-import type { Recipe } from "@shared/schema";
+import { Plus, Search, Star, Clock, Users, Heart, Link2, Camera, Video, Mic, FileText, Upload, Scan, Download, Sparkles, ChefHat, AlertTriangle } from "lucide-react";
+import type { Recipe, RecipeConflictReport } from "@shared/schema";
 import AddRecipeModal from "@/components/AddRecipeModal";
-import { apiRequest } from "@/lib/queryClient";
+import RecipeScaler from "@/components/RecipeScaler";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 export default function Recipes() {
   const { currentFamily } = useFamily();
   const [searchTerm, setSearchTerm] = useState("");
   const [activeFilter, setActiveFilter] = useState("All");
+  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -23,6 +26,39 @@ export default function Recipes() {
     enabled: !!currentFamily
   });
 
+  const { data: conflictReports = [] } = useQuery<RecipeConflictReport[]>({
+    queryKey: ['/api/families', currentFamily?.id, 'recipes', 'conflicts'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${currentFamily!.id}/recipes/conflicts`);
+      return response.json();
+    },
+    enabled: !!currentFamily
+  });
+
+  // Links from the calendar feed open a recipe with ?recipe=<id>
+  useEffect(() => {
+    const recipeId = Number(new URLSearchParams(window.location.search).get('recipe'));
+    const linked = recipeId ? recipes.find((recipe) => recipe.id === recipeId) : undefined;
+    if (linked) setSelectedRecipe(linked);
+  }, [recipes]);
+
+  const conflictsFor = (recipeId: number) =>
+    conflictReports.find((report) => report.recipeId === recipeId)?.conflicts ?? [];
+
+  const rateRecipeMutation = useMutation({
+    mutationFn: async ({ recipeId, rating }: { recipeId: number; rating: number }) => {
+      const response = await apiRequest('PUT', `/api/recipes/${recipeId}/rating`, { rating });
+      return response.json() as Promise<Recipe>;
+    },
+    onSuccess: (recipe) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recipes'] });
+      toast({ title: `Rated ${recipe.name}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save your rating", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
   const createRecipeMutation = useMutation({
     mutationFn: async (recipeData: any) => {
       const response = await apiRequest('POST', '/api/recipes', recipeData);
@@ -306,7 +342,7 @@ export default function Recipes() {
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {filteredRecipes.map((recipe) => (
-              <Card key={recipe.id} className="group hover:shadow-md transition-shadow cursor-pointer overflow-hidden">
+              <Card key={recipe.id} className="group hover:shadow-md transition-shadow cursor-pointer overflow-hidden" onClick={() => setSelectedRecipe(recipe)}>
                 <div className="aspect-square bg-gray-200 relative">
                   {recipe.imageUrl ? (
                     <img 
@@ -337,15 +373,34 @@ export default function Recipes() {
                   </h3>
                   <p className="text-sm text-gray-500 mt-1">
                     {recipe.difficulty} • {recipe.servings} servings
+                    {recipe.nutritionInfo && ` • ${recipe.nutritionInfo.calories} cal`}
                   </p>
+                  {conflictsFor(recipe.id).length > 0 && (
+                    <Badge
+                      variant="destructive"
+                      className="mt-2 flex w-fit items-center gap-1 text-xs"
+                      title={conflictsFor(recipe.id).map((conflict) => `${conflict.memberName}: ${conflict.rule}`).join(', ')}
+                    >
+                      <AlertTriangle className="w-3 h-3" />
+                      Conflicts for {Array.from(new Set(conflictsFor(recipe.id).map((conflict) => conflict.memberName))).join(', ')}
+                    </Badge>
+                  )}
                   <div className="flex items-center justify-between mt-3">
                     <div className="flex items-center space-x-1">
                       <div className="flex text-yellow-400">
                         {[...Array(5)].map((_, i) => (
-                          <Star 
-                            key={i} 
-                            className={`w-3 h-3 ${i < Math.floor(recipe.rating || 0) ? 'fill-current' : ''}`} 
-                          />
+                          <button
+                            key={i}
+                            type="button"
+                            title={`Rate ${i + 1} of 5`}
+                            disabled={rateRecipeMutation.isPending}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              rateRecipeMutation.mutate({ recipeId: recipe.id, rating: i + 1 });
+                            }}
+                          >
+                            <Star className={`w-3 h-3 ${i < Math.floor(Number(recipe.rating) || 0) ? 'fill-current' : ''}`} />
+                          </button>
                         ))}
                       </div>
                       <span className="text-xs text-gray-500">({recipe.ratingCount || 0})</span>
@@ -371,6 +426,60 @@ export default function Recipes() {
             ))}
           </div>
         )}
+
+        <Dialog open={!!selectedRecipe} onOpenChange={(open) => !open && setSelectedRecipe(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{selectedRecipe?.name}</DialogTitle>
+              {selectedRecipe?.description && (
+                <DialogDescription>{selectedRecipe.description}</DialogDescription>
+              )}
+            </DialogHeader>
+            {selectedRecipe?.nutritionInfo && (
+              <div className="grid grid-cols-4 gap-2 rounded-lg bg-gray-50 p-3 text-center text-sm">
+                <div>
+                  <div className="font-semibold text-gray-900">{selectedRecipe.nutritionInfo.calories}</div>
+                  <div className="text-xs text-gray-500">calories</div>
+                </div>
+                <div>
+                  <div className="font-semibold text-gray-900">{selectedRecipe.nutritionInfo.protein}g</div>
+                  <div className="text-xs text-gray-500">protein</div>
+                </div>
+                <div>
+                  <div className="font-semibold text-gray-900">{selectedRecipe.nutritionInfo.carbs}g</div>
+                  <div className="text-xs text-gray-500">carbs</div>
+                </div>
+                <div>
+                  <div className="font-semibold text-gray-900">{selectedRecipe.nutritionInfo.fat}g</div>
+                  <div className="text-xs text-gray-500">fat</div>
+                </div>
+                <div className="col-span-4 text-xs text-gray-500">
+                  Per serving
+                  {selectedRecipe.nutritionInfo.source === "calculated" && selectedRecipe.nutritionInfo.confidence !== undefined && (
+                    <> • estimated from ingredients ({Math.round(selectedRecipe.nutritionInfo.confidence * 100)}% confidence)</>
+                  )}
+                </div>
+              </div>
+            )}
+            {selectedRecipe && conflictsFor(selectedRecipe.id).length > 0 && (
+              <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm space-y-1">
+                <div className="flex items-center gap-2 font-medium text-red-700">
+                  <AlertTriangle className="w-4 h-4" />
+                  Dietary conflicts
+                </div>
+                {conflictsFor(selectedRecipe.id).map((conflict) => (
+                  <div key={`${conflict.userId}-${conflict.type}-${conflict.rule}`} className="text-red-700">
+                    {conflict.memberName}: {conflict.type === "allergy" ? `${conflict.rule} allergy` : `not ${conflict.rule}`}
+                    <span className="text-red-500"> ({conflict.ingredients.join(', ')})</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {selectedRecipe && (
+              <RecipeScaler recipeId={selectedRecipe.id} defaultServings={selectedRecipe.servings || 4} />
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </main>
   );
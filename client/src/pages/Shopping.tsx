@@ -12,8 +12,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useFamily } from "@/contexts/FamilyContext";
+import { useMeasurementSystem } from "@/hooks/useMeasurementSystem";
 import { apiRequest } from "@/lib/queryClient";
-import type { ShoppingList, ShoppingListItem, Meal, PantryItem } from "@shared/schema";
+import type { ShoppingList, ShoppingListItem, Meal, PantryItem, Recipe, GeneratedShoppingList } from "@shared/schema";
+import { formatMeasurement, toMeasurementSystem } from "@shared/units";
 
 interface EnhancedShoppingListItem extends ShoppingListItem {
   meal?: Meal;
@@ -24,12 +26,15 @@ export default function Shopping() {
   const { currentFamily } = useFamily();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const measurementSystem = useMeasurementSystem();
   
   const [selectedList, setSelectedList] = useState<ShoppingList | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterBy, setFilterBy] = useState<"all" | "pending" | "completed" | "aisle">("all");
   const [sortBy, setSortBy] = useState<"name" | "category" | "aisle" | "priority">("aisle");
   const [showMealIntegration, setShowMealIntegration] = useState(false);
+  const [selectedMealIds, setSelectedMealIds] = useState<number[]>([]);
+  const [generatedPreview, setGeneratedPreview] = useState<GeneratedShoppingList | null>(null);
 
   // Fetch shopping lists
   const { data: shoppingLists = [], isLoading: listsLoading } = useQuery({
@@ -49,12 +54,22 @@ export default function Shopping() {
     enabled: !!currentFamily?.id,
   });
 
-  // Fetch upcoming meals for integration
-  const { data: upcomingMeals = [] } = useQuery({
-    queryKey: ['/api/meals/upcoming', currentFamily?.id],
+  // Fetch meals and recipes for integration
+  const { data: familyMeals = [] } = useQuery<Meal[]>({
+    queryKey: [`/api/families/${currentFamily?.id}/meals`],
     enabled: !!currentFamily?.id && showMealIntegration,
   });
 
+  const { data: recipes = [] } = useQuery<Recipe[]>({
+    queryKey: [`/api/families/${currentFamily?.id}/recipes`],
+    enabled: !!currentFamily?.id && showMealIntegration,
+  });
+
+  const today = new Date().toISOString().split('T')[0];
+  const upcomingMeals = familyMeals
+    .filter(meal => meal.recipeId && meal.scheduledDate >= today)
+    .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate));
+
   // Create shopping list mutation
   const createListMutation = useMutation({
     mutationFn: async (data: { name: string; description?: string }) => {
@@ -102,34 +117,47 @@ export default function Shopping() {
     },
   });
 
-  // Generate from meals mutation
+  // Generate from meals mutation (returns a preview diff against the selected list)
   const generateFromMealsMutation = useMutation({
     mutationFn: async (mealIds: number[]) => {
-      return await apiRequest('/api/shopping-lists/generate', {
-        method: 'POST',
-        body: JSON.stringify({
-          familyId: currentFamily?.id,
-          mealIds,
-        }),
+      const response = await apiRequest('POST', '/api/shopping-lists/generate', {
+        familyId: currentFamily?.id,
+        mealIds,
+        shoppingListId: selectedList?.id,
       });
+      return response.json() as Promise<GeneratedShoppingList>;
     },
     onSuccess: (data) => {
-      // Add generated items to current list or create new list
-      data.consolidatedIngredients.forEach((ingredient: any) => {
-        addItemMutation.mutate({
-          name: ingredient.name,
-          quantity: ingredient.quantity,
-          unit: ingredient.unit,
-          category: ingredient.category,
-          sourceType: ingredient.sourceType,
-          sourceId: ingredient.sourceId,
-          priority: ingredient.priority,
-        });
-      });
+      setGeneratedPreview(data);
+    },
+    onError: () => {
+      toast({ title: "Failed to generate shopping list", variant: "destructive" });
+    },
+  });
+
+  // Apply a generated diff to the selected list
+  const applyGeneratedMutation = useMutation({
+    mutationFn: async (preview: GeneratedShoppingList) => {
+      const response = await apiRequest('POST', `/api/shopping-lists/${selectedList?.id}/apply-diff`, preview.diff);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/shopping-list-items'] });
       toast({ title: "Shopping list generated from meals" });
+      setGeneratedPreview(null);
+      setSelectedMealIds([]);
+      setShowMealIntegration(false);
+    },
+    onError: () => {
+      toast({ title: "Failed to update shopping list", variant: "destructive" });
     },
   });
 
+  const toggleMealSelection = (mealId: number, checked: boolean) => {
+    setGeneratedPreview(null);
+    setSelectedMealIds(prev => checked ? [...prev, mealId] : prev.filter(id => id !== mealId));
+  };
+
   // Filter and sort items
   const filteredItems = listItems
     .filter((item: ShoppingListItem) => {
@@ -176,6 +204,13 @@ export default function Shopping() {
     });
   };
 
+  const formatQuantity = (quantity: string | null, unit: string | null) => {
+    const amount = quantity !== null ? parseFloat(quantity) : NaN;
+    if (isNaN(amount)) return [quantity, unit].filter(Boolean).join(" ");
+    const converted = toMeasurementSystem(amount, unit, measurementSystem);
+    return formatMeasurement(converted.amount, converted.unit);
+  };
+
   const handleAddItem = (data: { name: string; quantity?: string; category?: string; priority?: number }) => {
     if (!selectedList) return;
     
@@ -211,7 +246,7 @@ export default function Shopping() {
           <p className="text-gray-600 mt-2">Organize your grocery shopping with smart meal integration</p>
         </div>
         <div className="flex gap-2">
-          <Dialog>
+          <Dialog open={showMealIntegration} onOpenChange={setShowMealIntegration}>
             <DialogTrigger asChild>
               <Button variant="outline">
                 <Calendar className="h-4 w-4 mr-2" />
@@ -226,20 +261,67 @@ export default function Shopping() {
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
-                {upcomingMeals.map((meal: any) => (
-                  <div key={meal.id} className="flex items-center space-x-2">
-                    <Checkbox id={`meal-${meal.id}`} />
-                    <Label htmlFor={`meal-${meal.id}`} className="flex-1">
-                      {meal.recipe?.name} - {new Date(meal.scheduledDate).toLocaleDateString()}
-                    </Label>
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                  {upcomingMeals.map((meal) => (
+                    <div key={meal.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`meal-${meal.id}`}
+                        checked={selectedMealIds.includes(meal.id)}
+                        onCheckedChange={(checked) => toggleMealSelection(meal.id, checked === true)}
+                      />
+                      <Label htmlFor={`meal-${meal.id}`} className="flex-1">
+                        {recipes.find(r => r.id === meal.recipeId)?.name || `Recipe #${meal.recipeId}`} - {new Date(meal.scheduledDate).toLocaleDateString()}
+                        {meal.servings && <span className="text-gray-500"> ({meal.servings} servings)</span>}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+
+                {generatedPreview && (
+                  <div className="rounded-lg border p-3 space-y-2 text-sm">
+                    <div className="flex gap-2">
+                      <Badge variant="secondary">{generatedPreview.diff.toAdd.length} to add</Badge>
+                      <Badge variant="secondary">{generatedPreview.diff.toUpdate.length} to update</Badge>
+                      <Badge variant="outline">{generatedPreview.diff.coveredByPantry.length} in pantry</Badge>
+                    </div>
+                    <div className="max-h-40 overflow-y-auto space-y-1">
+                      {generatedPreview.consolidatedIngredients.map((ingredient) => (
+                        <div key={`${ingredient.name}-${ingredient.unit}`} className="flex justify-between">
+                          <span>{ingredient.name}</span>
+                          <span className="text-gray-600">{formatQuantity(ingredient.quantity, ingredient.unit)}</span>
+                        </div>
+                      ))}
+                      {generatedPreview.diff.coveredByPantry.map((covered) => (
+                        <div key={`pantry-${covered.pantryItemId}-${covered.name}`} className="flex justify-between text-gray-400">
+                          <span>{covered.name}</span>
+                          <span>in pantry</span>
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                ))}
-                <Button 
-                  onClick={() => generateFromMealsMutation.mutate(upcomingMeals.map((m: any) => m.id))}
-                  className="w-full"
-                >
-                  Generate Shopping List
-                </Button>
+                )}
+
+                {!selectedList && (
+                  <p className="text-sm text-gray-500">Open a shopping list to add the generated items to it.</p>
+                )}
+
+                {generatedPreview ? (
+                  <Button
+                    onClick={() => applyGeneratedMutation.mutate(generatedPreview)}
+                    disabled={!selectedList || applyGeneratedMutation.isPending}
+                    className="w-full"
+                  >
+                    Apply to {selectedList?.name || 'list'}
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => generateFromMealsMutation.mutate(selectedMealIds)}
+                    disabled={selectedMealIds.length === 0 || generateFromMealsMutation.isPending}
+                    className="w-full"
+                  >
+                    Generate Shopping List
+                  </Button>
+                )}
               </div>
             </DialogContent>
           </Dialog>
@@ -466,7 +548,7 @@ export default function Shopping() {
                                   {item.name}
                                 </div>
                                 <div className="text-sm text-gray-600">
-                                  {item.quantity} {item.unit}
+                                  {formatQuantity(item.quantity, item.unit)}
                                   {item.category && ` • ${item.category}`}
                                   {item.sourceType === 'recipe' && (
                                     <Badge variant="outline" className="ml-2">From Recipe</Badge>
@@ -0,0 +1,125 @@
+-- Moves meal slots from the global meal_types table to each family's family_meal_times.
+--
+-- meals, nutrition_logs, meal_recurrences and meal_plan_template_entries keep their
+-- meal_type_id columns, but afterwards they hold family_meal_times ids. Run this once,
+-- before `npm run db:push` picks up the new foreign keys:
+--
+--   psql "$DATABASE_URL" -f migrations/0001_family_meal_times.sql
+--
+-- meal_recurrences and the meal plan template tables are only migrated if an earlier
+-- `db:push` already created them; otherwise `db:push` creates them afterwards, already
+-- pointing at family_meal_times.
+
+BEGIN;
+
+ALTER TABLE family_meal_times ADD COLUMN IF NOT EXISTS category varchar NOT NULL DEFAULT 'snack';
+
+UPDATE family_meal_times
+SET category = CASE
+  WHEN meal_name ILIKE '%breakfast%' OR meal_name ILIKE '%brunch%' THEN 'breakfast'
+  WHEN meal_name ILIKE '%lunch%' THEN 'lunch'
+  WHEN meal_name ILIKE '%dinner%' OR meal_name ILIKE '%supper%' THEN 'dinner'
+  ELSE 'snack'
+END;
+
+-- Which global meal types each family has used anywhere
+CREATE TEMP TABLE used_meal_types ON COMMIT DROP AS
+SELECT family_id, meal_type_id FROM meals
+UNION SELECT family_id, meal_type_id FROM nutrition_logs WHERE meal_type_id IS NOT NULL;
+
+DO $$
+BEGIN
+  IF to_regclass('meal_recurrences') IS NOT NULL THEN
+    INSERT INTO used_meal_types SELECT family_id, meal_type_id FROM meal_recurrences;
+  END IF;
+  IF to_regclass('meal_plan_template_entries') IS NOT NULL THEN
+    INSERT INTO used_meal_types
+    SELECT t.family_id, e.meal_type_id
+    FROM meal_plan_template_entries e
+    JOIN meal_plan_templates t ON t.id = e.template_id;
+  END IF;
+END $$;
+
+-- Families without meal times get one for every global meal type; families that set up their
+-- own get one for each type they used but have no meal time of the same name for
+INSERT INTO family_meal_times (family_id, meal_name, category, default_time, days_of_week, is_active, sort_order)
+SELECT
+  f.id,
+  initcap(mt.name),
+  CASE WHEN lower(mt.name) IN ('breakfast', 'lunch', 'dinner', 'snack') THEN lower(mt.name) ELSE 'snack' END,
+  CASE lower(mt.name)
+    WHEN 'breakfast' THEN '07:30'
+    WHEN 'lunch' THEN '12:30'
+    WHEN 'dinner' THEN '18:30'
+    WHEN 'snack' THEN '15:30'
+  END,
+  NULL,
+  true,
+  mt.display_order
+FROM families f
+CROSS JOIN meal_types mt
+WHERE NOT EXISTS (
+    SELECT 1 FROM family_meal_times fmt
+    WHERE fmt.family_id = f.id AND lower(fmt.meal_name) = lower(mt.name)
+  )
+  AND (
+    NOT EXISTS (SELECT 1 FROM family_meal_times fmt WHERE fmt.family_id = f.id)
+    OR EXISTS (SELECT 1 FROM used_meal_types u WHERE u.family_id = f.id AND u.meal_type_id = mt.id)
+  );
+
+-- Global meal type -> the family's meal time of the same name
+CREATE TEMP TABLE meal_type_map ON COMMIT DROP AS
+SELECT DISTINCT ON (fmt.family_id, mt.id)
+  fmt.family_id,
+  mt.id AS meal_type_id,
+  fmt.id AS meal_time_id
+FROM meal_types mt
+JOIN family_meal_times fmt ON lower(fmt.meal_name) = lower(mt.name)
+ORDER BY fmt.family_id, mt.id, fmt.sort_order, fmt.id;
+
+ALTER TABLE meals DROP CONSTRAINT IF EXISTS meals_meal_type_id_meal_types_id_fk;
+ALTER TABLE nutrition_logs DROP CONSTRAINT IF EXISTS nutrition_logs_meal_type_id_meal_types_id_fk;
+
+UPDATE meals m
+SET meal_type_id = map.meal_time_id
+FROM meal_type_map map
+WHERE map.family_id = m.family_id AND map.meal_type_id = m.meal_type_id;
+
+UPDATE nutrition_logs l
+SET meal_type_id = map.meal_time_id
+FROM meal_type_map map
+WHERE map.family_id = l.family_id AND map.meal_type_id = l.meal_type_id;
+
+ALTER TABLE meals
+  ADD CONSTRAINT meals_meal_type_id_family_meal_times_id_fk
+  FOREIGN KEY (meal_type_id) REFERENCES family_meal_times(id);
+ALTER TABLE nutrition_logs
+  ADD CONSTRAINT nutrition_logs_meal_type_id_family_meal_times_id_fk
+  FOREIGN KEY (meal_type_id) REFERENCES family_meal_times(id);
+
+DO $$
+BEGIN
+  IF to_regclass('meal_recurrences') IS NOT NULL THEN
+    ALTER TABLE meal_recurrences DROP CONSTRAINT IF EXISTS meal_recurrences_meal_type_id_meal_types_id_fk;
+    UPDATE meal_recurrences r
+    SET meal_type_id = map.meal_time_id
+    FROM meal_type_map map
+    WHERE map.family_id = r.family_id AND map.meal_type_id = r.meal_type_id;
+    ALTER TABLE meal_recurrences
+      ADD CONSTRAINT meal_recurrences_meal_type_id_family_meal_times_id_fk
+      FOREIGN KEY (meal_type_id) REFERENCES family_meal_times(id);
+  END IF;
+
+  IF to_regclass('meal_plan_template_entries') IS NOT NULL THEN
+    ALTER TABLE meal_plan_template_entries DROP CONSTRAINT IF EXISTS meal_plan_template_entries_meal_type_id_meal_types_id_fk;
+    UPDATE meal_plan_template_entries e
+    SET meal_type_id = map.meal_time_id
+    FROM meal_plan_templates t, meal_type_map map
+    WHERE t.id = e.template_id AND map.family_id = t.family_id AND map.meal_type_id = e.meal_type_id;
+    ALTER TABLE meal_plan_template_entries
+      ADD CONSTRAINT meal_plan_template_entries_meal_type_id_family_meal_times_id_fk
+      FOREIGN KEY (meal_type_id) REFERENCES family_meal_times(id);
+  END IF;
+END $$;
+
+COMMIT;
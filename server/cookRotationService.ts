@@ -0,0 +1,175 @@
+import { format, parseISO, startOfWeek } from "date-fns";
+import {
+  COOKING_SKILL_LEVELS,
+  MEAL_ASSIGNMENT_ROLES,
+  type AttendanceMember,
+  type CookingRotationMember,
+  type CookingRotationNote,
+  type CookingRotationSettings,
+  type CookingSkillLevel,
+  type MealAssignment,
+  type MealAssignmentRole,
+  type User,
+} from "@shared/schema";
+
+// How far back past duties count toward whose turn it is
+export const COOK_ROTATION_HISTORY_DAYS = 28;
+
+const DIFFICULTY_RANK: Record<string, number> = { easy: 0, medium: 1, hard: 2 };
+
+// The hardest recipe each skill level is left to cook without a second look
+const SKILL_MAX_DIFFICULTY: Record<CookingSkillLevel, number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+  expert: 2,
+};
+
+export interface RotationMeal {
+  id: number;
+  scheduledDate: string;
+  difficulty: string | null; // of the main recipe
+  attendeeIds: string[]; // members eating the meal
+}
+
+export type RotationDuty = Pick<MealAssignment, "mealId" | "userId" | "role"> & { scheduledDate: string };
+
+export interface RotationPlanInput {
+  meals: RotationMeal[];
+  members: CookingRotationMember[];
+  duties: RotationDuty[]; // assignments already on the books, in range and over the history window
+  roles: MealAssignmentRole[];
+  overwrite: boolean;
+  weekStartsOn: 0 | 1;
+}
+
+export interface RotationPlan {
+  assignments: Pick<MealAssignment, "mealId" | "userId" | "role">[];
+  notes: CookingRotationNote[];
+}
+
+const ROLE_LABELS: Record<MealAssignmentRole, string> = { cook: "cook", helper: "help", cleanup: "clean up" };
+
+export class CookRotationService {
+  public static skillOf(level: string | null | undefined): CookingSkillLevel {
+    return COOKING_SKILL_LEVELS.find(skill => skill === level) ?? 'beginner';
+  }
+
+  // Recipes without a difficulty are open to anyone
+  public static canCook(skill: CookingSkillLevel, difficulty: string | null): boolean {
+    if (difficulty === null || !(difficulty in DIFFICULTY_RANK)) return true;
+    return DIFFICULTY_RANK[difficulty] <= SKILL_MAX_DIFFICULTY[skill];
+  }
+
+  public static toMembers(
+    members: Pick<AttendanceMember, "userId" | "name">[],
+    memberUsers: Pick<User, "id" | "cookingSkillLevel">[],
+    settings: CookingRotationSettings[],
+  ): CookingRotationMember[] {
+    return members.map(member => {
+      const memberSettings = settings.find(row => row.userId === member.userId);
+      return {
+        userId: member.userId,
+        name: member.name,
+        skill: this.skillOf(memberUsers.find(user => user.id === member.userId)?.cookingSkillLevel),
+        roles: MEAL_ASSIGNMENT_ROLES.filter(role => !memberSettings?.roles || memberSettings.roles.includes(role)),
+        maxCooksPerWeek: memberSettings?.maxCooksPerWeek ?? null,
+      };
+    });
+  }
+
+  // Things worth a second look about duties handed out by hand; none of them block saving
+  public static checkAssignments(
+    assignments: Pick<MealAssignment, "userId" | "role">[],
+    members: CookingRotationMember[],
+    attendeeIds: string[],
+    difficulty: string | null,
+  ): string[] {
+    const warnings: string[] = [];
+    for (const assignment of assignments) {
+      const member = members.find(other => other.userId === assignment.userId);
+      if (!member) continue;
+      if (!attendeeIds.includes(member.userId)) {
+        warnings.push(`${member.name} isn't down as eating this meal`);
+      }
+      if (assignment.role === 'cook' && !this.canCook(member.skill, difficulty)) {
+        warnings.push(`${member.name} is a ${member.skill} cook and this is a ${difficulty} recipe`);
+      }
+    }
+    return warnings;
+  }
+
+  /**
+   * Hands out duties for a run of meals. Each duty goes to someone eating the meal who takes
+   * that duty, preferring whoever has done it least over the history window and the plan so far.
+   * Cooks also have to be under their weekly limit and skilled enough for the recipe; when
+   * nobody home is, the most experienced cook gets it with a note.
+   */
+  public static plan(input: RotationPlanInput): RotationPlan {
+    const inRange = new Set(input.meals.map(meal => meal.id));
+    const ledger = input.duties.filter(duty =>
+      !(input.overwrite && inRange.has(duty.mealId) && input.roles.includes(duty.role)));
+    const plan: RotationPlan = { assignments: [], notes: [] };
+    const weekOf = (date: string) => format(startOfWeek(parseISO(date), { weekStartsOn: input.weekStartsOn }), 'yyyy-MM-dd');
+
+    const sortedMeals = [...input.meals].sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate) || a.id - b.id);
+    for (const meal of sortedMeals) {
+      const note = (message: string) => plan.notes.push({ mealId: meal.id, scheduledDate: meal.scheduledDate, message });
+      const onMeal = () => ledger.filter(duty => duty.mealId === meal.id);
+
+      for (const role of MEAL_ASSIGNMENT_ROLES.filter(role => input.roles.includes(role))) {
+        if (onMeal().some(duty => duty.role === role)) continue;
+        const cookId = onMeal().find(duty => duty.role === 'cook')?.userId;
+        const home = input.members.filter(member =>
+          member.roles.includes(role) && meal.attendeeIds.includes(member.userId) && member.userId !== cookId);
+        let candidates = home;
+
+        if (role === 'cook') {
+          const week = weekOf(meal.scheduledDate);
+          candidates = home.filter(member => member.maxCooksPerWeek === null
+            || ledger.filter(duty => duty.role === 'cook' && duty.userId === member.userId && weekOf(duty.scheduledDate) === week).length
+              < member.maxCooksPerWeek);
+          if (candidates.length === 0) {
+            note(home.length > 0 ? "Everyone home who cooks has hit their limit for the week" : "Nobody who cooks is home for this meal");
+            continue;
+          }
+          const skilled = candidates.filter(member => this.canCook(member.skill, meal.difficulty));
+          if (skilled.length > 0) {
+            candidates = skilled;
+          } else {
+            const best = Math.max(...candidates.map(member => COOKING_SKILL_LEVELS.indexOf(member.skill)));
+            candidates = candidates.filter(member => COOKING_SKILL_LEVELS.indexOf(member.skill) === best);
+            note(`Nobody home is rated for ${meal.difficulty} recipes, so it went to the most experienced cook`);
+          }
+        } else if (candidates.length === 0) {
+          note(`Nobody else is home to ${ROLE_LABELS[role]}`);
+          continue;
+        }
+
+        const chosen = this.fairest(candidates, role, ledger, onMeal());
+        plan.assignments.push({ mealId: meal.id, userId: chosen.userId, role });
+        ledger.push({ mealId: meal.id, userId: chosen.userId, role, scheduledDate: meal.scheduledDate });
+      }
+    }
+    return plan;
+  }
+
+  // Fewest turns first, then whoever isn't already on the meal, then whoever went longest ago
+  private static fairest(
+    candidates: CookingRotationMember[],
+    role: MealAssignmentRole,
+    ledger: RotationDuty[],
+    onMeal: RotationDuty[],
+  ): CookingRotationMember {
+    const busy = (member: CookingRotationMember) => (onMeal.some(duty => duty.userId === member.userId) ? 1 : 0);
+    const turns = (member: CookingRotationMember) =>
+      ledger.filter(duty => duty.role === role && duty.userId === member.userId);
+    const lastTurn = (member: CookingRotationMember) =>
+      turns(member).reduce((latest, duty) => (duty.scheduledDate > latest ? duty.scheduledDate : latest), '');
+    return [...candidates].sort((a, b) =>
+      turns(a).length - turns(b).length
+      || busy(a) - busy(b)
+      || lastTurn(a).localeCompare(lastTurn(b))
+      || a.name.localeCompare(b.name))[0];
+  }
+}
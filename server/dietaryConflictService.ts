@@ -0,0 +1,296 @@
+import type {
+  AllergenGroup,
+  DietaryConflict,
+  DietRule,
+  FamilyMembership,
+  IngredientDietaryFlags,
+  MemberDietaryProfile,
+  Recipe,
+  RecipeConflictReport,
+  RecipeIngredient,
+  User,
+} from "@shared/schema";
+
+interface KeywordRule {
+  keywords: string[];
+  // Phrases that contain a keyword but are safe ("coconut milk" is not dairy)
+  exceptions?: string[];
+}
+
+const ALLERGEN_RULES: Record<AllergenGroup, KeywordRule> = {
+  nuts: {
+    keywords: [
+      'nut', 'peanut', 'almond', 'walnut', 'pecan', 'cashew', 'pistachio', 'hazelnut', 'macadamia',
+      'pine nut', 'brazil nut', 'praline', 'marzipan', 'nutella', 'frangipane',
+    ],
+    exceptions: ['nutmeg', 'butternut', 'doughnut', 'coconut', 'water chestnut', 'nutritional yeast'],
+  },
+  dairy: {
+    keywords: [
+      'milk', 'butter', 'cheese', 'cream', 'yogurt', 'yoghurt', 'ghee', 'whey', 'casein', 'buttermilk',
+      'parmesan', 'mozzarella', 'cheddar', 'ricotta', 'feta', 'brie', 'gouda', 'mascarpone', 'half-and-half',
+      'half and half', 'custard', 'kefir', 'paneer', 'creme fraiche',
+    ],
+    exceptions: [
+      'coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'rice milk', 'cashew milk',
+      'peanut butter', 'almond butter', 'nut butter', 'cocoa butter', 'apple butter', 'butternut', 'butter bean',
+      'cream of tartar', 'dairy-free', 'vegan butter', 'vegan cheese',
+    ],
+  },
+  gluten: {
+    keywords: [
+      'wheat', 'flour', 'bread', 'pasta', 'spaghetti', 'penne', 'macaroni', 'noodle', 'barley', 'rye', 'couscous',
+      'semolina', 'breadcrumb', 'bread crumb', 'panko', 'soy sauce', 'tortilla', 'beer', 'seitan', 'bulgur',
+      'farro', 'spelt', 'cracker', 'crouton', 'pita', 'bagel', 'croissant', 'brioche', 'biscuit', 'orzo', 'malt',
+    ],
+    exceptions: [
+      'rice flour', 'almond flour', 'coconut flour', 'corn flour', 'cornflour', 'chickpea flour', 'tapioca flour',
+      'buckwheat', 'corn tortilla', 'rice noodle', 'gluten-free', 'gluten free',
+    ],
+  },
+  shellfish: {
+    keywords: ['shrimp', 'prawn', 'crab', 'lobster', 'scallop', 'clam', 'mussel', 'oyster', 'crawfish', 'crayfish', 'squid', 'calamari', 'octopus'],
+  },
+  soy: {
+    keywords: ['soy', 'soya', 'tofu', 'edamame', 'miso', 'tempeh', 'tamari', 'soybean'],
+  },
+  egg: {
+    keywords: ['egg', 'mayonnaise', 'mayo', 'meringue', 'aioli', 'hollandaise'],
+    exceptions: ['eggplant', 'egg-free', 'vegan mayo', 'vegan mayonnaise'],
+  },
+  sesame: {
+    keywords: ['sesame', 'tahini', 'benne', 'hummus'],
+  },
+  fish: {
+    keywords: [
+      'fish', 'salmon', 'tuna', 'cod', 'tilapia', 'halibut', 'anchovy', 'anchovies', 'sardine', 'trout', 'mackerel',
+      'haddock', 'snapper', 'sea bass', 'swordfish', 'mahi', 'catfish', 'worcestershire', 'caesar dressing',
+    ],
+    exceptions: ['shellfish'],
+  },
+};
+
+const MEAT_KEYWORDS = [
+  'chicken', 'beef', 'steak', 'pork', 'bacon', 'ham', 'turkey', 'lamb', 'veal', 'duck', 'sausage', 'chorizo',
+  'pepperoni', 'salami', 'prosciutto', 'pancetta', 'meatball', 'ground meat', 'gelatin', 'lard', 'venison',
+  'chicken broth', 'beef broth', 'chicken stock', 'beef stock', 'bone broth',
+];
+
+const DIET_RULE_KEYWORDS: Record<DietRule, KeywordRule> = {
+  vegetarian: {
+    keywords: [...MEAT_KEYWORDS, ...ALLERGEN_RULES.fish.keywords, ...ALLERGEN_RULES.shellfish.keywords],
+    exceptions: ['vegetable broth', 'vegetable stock', 'vegan sausage', 'plant-based', 'eggplant'],
+  },
+  vegan: {
+    keywords: [
+      ...MEAT_KEYWORDS, ...ALLERGEN_RULES.fish.keywords, ...ALLERGEN_RULES.shellfish.keywords,
+      ...ALLERGEN_RULES.dairy.keywords, ...ALLERGEN_RULES.egg.keywords, 'honey',
+    ],
+    exceptions: [
+      ...(ALLERGEN_RULES.dairy.exceptions ?? []), ...(ALLERGEN_RULES.egg.exceptions ?? []),
+      'vegetable broth', 'vegetable stock', 'vegan sausage', 'plant-based',
+    ],
+  },
+  keto: {
+    keywords: [
+      'sugar', 'flour', 'bread', 'pasta', 'spaghetti', 'noodle', 'rice', 'potato', 'honey', 'maple syrup',
+      'corn', 'oats', 'oatmeal', 'quinoa', 'tortilla', 'bean', 'lentil', 'chickpea', 'banana', 'couscous',
+      'cracker', 'cereal', 'molasses', 'agave',
+    ],
+    exceptions: [
+      'almond flour', 'coconut flour', 'cauliflower rice', 'sugar-free', 'sugar free', 'green bean',
+      'corn starch', 'cornstarch', 'rice vinegar', 'sweet potato',
+    ],
+  },
+  halal: {
+    keywords: [
+      'pork', 'bacon', 'ham', 'lard', 'gelatin', 'prosciutto', 'pancetta', 'chorizo', 'pepperoni', 'salami',
+      'wine', 'beer', 'rum', 'bourbon', 'brandy', 'whiskey', 'vodka', 'liqueur', 'sake', 'mirin', 'sherry',
+    ],
+    exceptions: ['wine vinegar', 'halal', 'turkey bacon', 'beef bacon'],
+  },
+};
+
+// Keto recipes may still slip in a little starch; over this per serving, the recipe breaks the diet
+const KETO_MAX_CARBS_PER_SERVING = 20;
+
+// Free-text allergies and restrictions as members type them, mapped onto the fixed groups
+const ALLERGY_ALIASES: Record<string, AllergenGroup> = {
+  nut: 'nuts', nuts: 'nuts', peanut: 'nuts', peanuts: 'nuts', 'tree nut': 'nuts', 'tree nuts': 'nuts', 'nut-free': 'nuts',
+  dairy: 'dairy', milk: 'dairy', lactose: 'dairy', 'lactose intolerant': 'dairy', 'lactose intolerance': 'dairy', 'dairy-free': 'dairy',
+  gluten: 'gluten', wheat: 'gluten', celiac: 'gluten', coeliac: 'gluten', 'gluten-free': 'gluten', 'gluten free': 'gluten',
+  shellfish: 'shellfish', crustacean: 'shellfish', crustaceans: 'shellfish', shrimp: 'shellfish',
+  soy: 'soy', soya: 'soy', 'soy-free': 'soy',
+  egg: 'egg', eggs: 'egg', 'egg-free': 'egg',
+  sesame: 'sesame', 'sesame seeds': 'sesame',
+  fish: 'fish', seafood: 'fish',
+};
+
+const DIET_ALIASES: Record<string, DietRule> = {
+  vegetarian: 'vegetarian', veggie: 'vegetarian', 'lacto-ovo vegetarian': 'vegetarian',
+  vegan: 'vegan', 'plant-based': 'vegan', 'plant based': 'vegan',
+  keto: 'keto', ketogenic: 'keto', 'low-carb': 'keto', 'low carb': 'keto',
+  halal: 'halal',
+};
+
+export class DietaryConflictService {
+  private static normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-z\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  // Whole-word match, allowing plurals ("eggs", "anchovies" already listed)
+  private static matchesRule(text: string, rule: KeywordRule): boolean {
+    let remaining = ` ${this.normalize(text)} `;
+    for (const exception of rule.exceptions ?? []) {
+      remaining = remaining.replace(new RegExp(`\\b${this.escape(exception)}(s|es)?\\b`, 'g'), ' ');
+    }
+    return rule.keywords.some(keyword => new RegExp(`\\b${this.escape(keyword)}(s|es)?\\b`).test(remaining));
+  }
+
+  public static flagIngredient(ingredient: string): IngredientDietaryFlags {
+    return {
+      ingredient,
+      allergens: (Object.keys(ALLERGEN_RULES) as AllergenGroup[]).filter(group => this.matchesRule(ingredient, ALLERGEN_RULES[group])),
+      violatesDiets: (Object.keys(DIET_RULE_KEYWORDS) as DietRule[]).filter(diet => this.matchesRule(ingredient, DIET_RULE_KEYWORDS[diet])),
+    };
+  }
+
+  // Parsed rows are preferred; recipes that were never parsed fall back to their raw lines
+  private static ingredientLines(recipe: Recipe, rows: RecipeIngredient[]): string[] {
+    if (rows.length > 0) {
+      return rows.filter(row => !row.isOptional).map(row => row.rawText || row.food);
+    }
+    return recipe.ingredients ?? [];
+  }
+
+  public static analyzeRecipe(recipe: Recipe, rows: RecipeIngredient[]): IngredientDietaryFlags[] {
+    const flags = this.ingredientLines(recipe, rows).map(line => this.flagIngredient(line));
+
+    // Keto is about totals as much as ingredients; trust calculated carbs when we have them
+    const carbs = recipe.nutritionInfo?.carbs;
+    if (carbs !== undefined && carbs > KETO_MAX_CARBS_PER_SERVING && !flags.some(flag => flag.violatesDiets.includes('keto'))) {
+      flags.push({ ingredient: `${Math.round(carbs)}g carbs per serving`, allergens: [], violatesDiets: ['keto'] });
+    }
+    return flags;
+  }
+
+  public static buildMemberProfile(membership: FamilyMembership, user?: User): MemberDietaryProfile {
+    const allergyTexts = [...(membership.allergies ?? []), ...(user?.allergies ?? [])];
+    const dietTexts = [
+      ...(user?.dietaryRestrictions ?? []),
+      ...(membership.foodPreferences ?? []),
+      ...(membership.dietType ? [membership.dietType] : []),
+    ];
+
+    const name = membership.displayName
+      || [user?.firstName, user?.lastName].filter(Boolean).join(' ')
+      || 'Family member';
+    return this.buildProfile(membership.userId, name, allergyTexts, dietTexts);
+  }
+
+  /**
+   * Profile for the family's meal planning rules: restrictions read like member diets, and
+   * avoided ingredients are matched by name like custom allergies.
+   */
+  public static buildRulesProfile(name: string, dietaryRestrictions: string[], avoidIngredients: string[]): MemberDietaryProfile {
+    return this.buildProfile('', name, avoidIngredients, dietaryRestrictions);
+  }
+
+  private static buildProfile(userId: string, name: string, allergyTexts: string[], dietTexts: string[]): MemberDietaryProfile {
+    const allergens = new Set<AllergenGroup>();
+    const diets = new Set<DietRule>();
+    const otherAllergies = new Set<string>();
+
+    for (const text of allergyTexts) {
+      const normalized = this.normalize(text);
+      if (!normalized) continue;
+      const group = ALLERGY_ALIASES[normalized];
+      if (group) allergens.add(group);
+      else otherAllergies.add(normalized);
+    }
+
+    // Restrictions like "gluten-free" or "nut-free" are really allergen avoidance
+    for (const text of dietTexts) {
+      const normalized = this.normalize(text);
+      if (DIET_ALIASES[normalized]) diets.add(DIET_ALIASES[normalized]);
+      else if (ALLERGY_ALIASES[normalized]) allergens.add(ALLERGY_ALIASES[normalized]);
+    }
+
+    return {
+      userId,
+      name,
+      allergens: Array.from(allergens),
+      diets: Array.from(diets),
+      otherAllergies: Array.from(otherAllergies),
+    };
+  }
+
+  public static findConflicts(flags: IngredientDietaryFlags[], members: MemberDietaryProfile[]): DietaryConflict[] {
+    const conflicts: DietaryConflict[] = [];
+
+    for (const member of members) {
+      for (const allergen of member.allergens) {
+        const ingredients = flags.filter(flag => flag.allergens.includes(allergen)).map(flag => flag.ingredient);
+        if (ingredients.length > 0) {
+          conflicts.push({ userId: member.userId, memberName: member.name, type: 'allergy', rule: allergen, ingredients });
+        }
+      }
+
+      for (const allergy of member.otherAllergies) {
+        const rule = { keywords: [allergy] };
+        const ingredients = flags.filter(flag => this.matchesRule(flag.ingredient, rule)).map(flag => flag.ingredient);
+        if (ingredients.length > 0) {
+          conflicts.push({ userId: member.userId, memberName: member.name, type: 'allergy', rule: allergy, ingredients });
+        }
+      }
+
+      for (const diet of member.diets) {
+        const ingredients = flags.filter(flag => flag.violatesDiets.includes(diet)).map(flag => flag.ingredient);
+        if (ingredients.length > 0) {
+          conflicts.push({ userId: member.userId, memberName: member.name, type: 'diet', rule: diet, ingredients });
+        }
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Why a planner should leave the recipe out, or null when it can be planned: members' allergies
+   * and diets come first, then the family's rules profile (see buildRulesProfile).
+   */
+  public static exclusionReason(
+    recipe: Recipe,
+    rows: RecipeIngredient[],
+    members: MemberDietaryProfile[],
+    rulesProfile: MemberDietaryProfile,
+  ): string | null {
+    const flags = this.analyzeRecipe(recipe, rows);
+    const conflict = this.findConflicts(flags, members)[0];
+    if (conflict) {
+      const rule = conflict.type === 'allergy' ? `${conflict.rule} allergy` : `${conflict.rule} diet`;
+      return `Conflicts with ${conflict.memberName}'s ${rule}`;
+    }
+    const ruleConflict = this.findConflicts(flags, [rulesProfile])[0];
+    if (ruleConflict) {
+      return ruleConflict.type === 'allergy'
+        ? `Contains ${ruleConflict.ingredients[0]}, which the family avoids`
+        : `Not ${ruleConflict.rule}, as the family's meal planning rules require`;
+    }
+    return null;
+  }
+
+  public static checkRecipe(recipe: Recipe, rows: RecipeIngredient[], members: MemberDietaryProfile[]): RecipeConflictReport {
+    const flags = this.analyzeRecipe(recipe, rows);
+    return {
+      recipeId: recipe.id,
+      recipeName: recipe.name,
+      allergens: Array.from(new Set(flags.flatMap(flag => flag.allergens))),
+      violatesDiets: Array.from(new Set(flags.flatMap(flag => flag.violatesDiets))),
+      conflicts: this.findConflicts(flags, members),
+    };
+  }
+}
@@ -0,0 +1,175 @@
+import type { NutrientTotals } from "@shared/schema";
+
+// Offline food composition data, USDA-style values per 100 g (sodium in mg)
+export interface FoodRecord {
+  id: string;
+  name: string;
+  aliases: string[];
+  category: string;
+  per100g: NutrientTotals;
+  // g/ml for foods the shared density table does not cover
+  density?: number;
+  // Typical grams per counted unit ("each", "can", "clove")
+  unitWeights?: Record<string, number>;
+}
+
+type NutrientRow = [calories: number, protein: number, carbs: number, fat: number, fiber: number, sugar: number, sodium: number];
+
+function food(
+  id: string,
+  name: string,
+  category: string,
+  aliases: string[],
+  [calories, protein, carbs, fat, fiber, sugar, sodium]: NutrientRow,
+  extra: Pick<FoodRecord, "density" | "unitWeights"> = {},
+): FoodRecord {
+  return { id, name, aliases, category, per100g: { calories, protein, carbs, fat, fiber, sugar, sodium }, ...extra };
+}
+
+export const FOOD_DATABASE: FoodRecord[] = [
+  // Grains and starches
+  food('quinoa', 'quinoa', 'grains', [], [368, 14.1, 64.2, 6.1, 7, 0, 5]),
+  food('white-rice', 'white rice', 'grains', ['rice', 'jasmine rice', 'basmati rice', 'long grain rice'], [365, 7.1, 80, 0.7, 1.3, 0.1, 5]),
+  food('brown-rice', 'brown rice', 'grains', [], [370, 7.9, 77.2, 2.9, 3.5, 0.9, 7]),
+  food('pasta', 'pasta', 'grains', ['spaghetti', 'penne', 'macaroni', 'linguine', 'fettuccine', 'noodles', 'egg noodles'], [371, 13, 74.7, 1.5, 3.2, 2.7, 6], { unitWeights: { package: 454 } }),
+  food('flour', 'all-purpose flour', 'grains', ['flour', 'white flour', 'plain flour'], [364, 10.3, 76.3, 1, 2.7, 0.3, 2]),
+  food('whole-wheat-flour', 'whole wheat flour', 'grains', [], [340, 13.2, 72, 2.5, 10.7, 0.4, 2]),
+  food('bread', 'white bread', 'grains', ['bread', 'sandwich bread'], [265, 9, 49, 3.2, 2.7, 5, 490], { unitWeights: { slice: 30 } }),
+  food('whole-wheat-bread', 'whole wheat bread', 'grains', ['whole grain bread'], [252, 12.4, 42.7, 3.5, 6, 4.4, 450], { unitWeights: { slice: 32 } }),
+  food('flour-tortilla', 'flour tortilla', 'grains', ['tortilla', 'tortillas', 'wrap'], [306, 8.2, 50.4, 8, 3.5, 2.5, 600], { unitWeights: { each: 45 } }),
+  food('corn-tortilla', 'corn tortilla', 'grains', [], [218, 5.7, 44.6, 2.9, 6.3, 0.9, 45], { unitWeights: { each: 26 } }),
+  food('oats', 'rolled oats', 'grains', ['oats', 'oatmeal', 'old fashioned oats', 'quick oats'], [379, 13.2, 67.7, 6.5, 10.1, 1, 6]),
+  food('breadcrumbs', 'breadcrumbs', 'grains', ['bread crumbs', 'panko'], [395, 13.4, 71.9, 5.3, 4.5, 6.2, 732]),
+  food('granola', 'granola', 'grains', [], [471, 10, 64, 20, 5, 24, 26], { density: 0.5 }),
+  food('couscous', 'couscous', 'grains', [], [376, 12.8, 77.4, 0.6, 5, 0, 10], { density: 0.73 }),
+  food('cornstarch', 'cornstarch', 'grains', ['corn starch'], [381, 0.3, 91.3, 0.1, 0.9, 0, 9]),
+  food('potato', 'potato', 'vegetables', ['russet potato', 'yukon gold potato', 'red potato'], [77, 2, 17.5, 0.1, 2.2, 0.8, 6], { unitWeights: { each: 170 } }),
+  food('sweet-potato', 'sweet potato', 'vegetables', ['yam'], [86, 1.6, 20.1, 0.1, 3, 4.2, 55], { unitWeights: { each: 130 } }),
+
+  // Meat, fish and other proteins
+  food('chicken-breast', 'chicken breast', 'protein', ['boneless skinless chicken breast', 'chicken breasts'], [120, 22.5, 0, 2.6, 0, 0, 45], { unitWeights: { each: 175 } }),
+  food('chicken-thigh', 'chicken thigh', 'protein', ['boneless chicken thigh'], [121, 19.7, 0, 4.1, 0, 0, 95], { unitWeights: { each: 115 } }),
+  food('chicken', 'chicken', 'protein', ['whole chicken', 'cooked chicken', 'shredded chicken'], [143, 17.4, 0, 8.1, 0, 0, 70], { unitWeights: { each: 1500 } }),
+  food('ground-beef', 'ground beef', 'protein', ['lean ground beef', 'minced beef', 'hamburger'], [215, 18.6, 0, 15, 0, 0, 66]),
+  food('beef', 'beef steak', 'protein', ['steak', 'beef', 'sirloin', 'flank steak', 'stew meat', 'beef chuck'], [158, 21, 0, 8, 0, 0, 56], { unitWeights: { each: 225 } }),
+  food('pork', 'pork loin', 'protein', ['pork', 'pork chop', 'pork tenderloin', 'pork shoulder'], [143, 21, 0, 6, 0, 0, 50], { unitWeights: { each: 170 } }),
+  food('bacon', 'bacon', 'protein', [], [417, 13, 1.4, 40, 0, 0, 833], { unitWeights: { slice: 15 } }),
+  food('sausage', 'pork sausage', 'protein', ['sausage', 'italian sausage'], [301, 14, 1.5, 26, 0, 1, 749], { unitWeights: { each: 75 } }),
+  food('ground-turkey', 'ground turkey', 'protein', ['turkey'], [150, 19.7, 0, 8.3, 0, 0, 70]),
+  food('salmon', 'salmon', 'protein', ['salmon fillet'], [208, 20, 0, 13, 0, 0, 59], { unitWeights: { each: 170, fillet: 170 } }),
+  food('white-fish', 'cod', 'protein', ['white fish', 'tilapia', 'halibut', 'haddock'], [82, 17.8, 0, 0.7, 0, 0, 54], { unitWeights: { each: 170, fillet: 170 } }),
+  food('shrimp', 'shrimp', 'protein', ['prawns'], [85, 20.1, 0, 0.5, 0, 0, 119], { unitWeights: { each: 12 } }),
+  food('tuna', 'canned tuna', 'protein', ['tuna'], [116, 25.5, 0, 0.8, 0, 0, 338], { unitWeights: { can: 142 } }),
+  food('tofu', 'firm tofu', 'protein', ['tofu'], [144, 17.3, 2.8, 8.7, 2.3, 0.6, 14], { unitWeights: { package: 396 } }),
+  food('egg', 'egg', 'protein', ['eggs', 'whole egg'], [143, 12.6, 0.7, 9.5, 0, 0.4, 142], { unitWeights: { each: 50 } }),
+  food('egg-white', 'egg white', 'protein', [], [52, 10.9, 0.7, 0.2, 0, 0.7, 166], { unitWeights: { each: 33 } }),
+  food('black-beans', 'black beans', 'legumes', [], [91, 6, 16.5, 0.3, 6.9, 0.3, 230], { density: 0.75, unitWeights: { can: 240 } }),
+  food('chickpeas', 'chickpeas', 'legumes', ['garbanzo beans'], [139, 7, 22.5, 2.6, 6.4, 0, 246], { density: 0.7, unitWeights: { can: 240 } }),
+  food('kidney-beans', 'kidney beans', 'legumes', ['pinto beans', 'cannellini beans', 'white beans', 'beans'], [84, 5.2, 15, 0.4, 4.6, 0.3, 258], { density: 0.75, unitWeights: { can: 240 } }),
+  food('lentils', 'lentils', 'legumes', ['red lentils', 'green lentils'], [352, 24.6, 63.4, 1.1, 10.7, 2, 6]),
+
+  // Dairy
+  food('milk', 'whole milk', 'dairy', ['milk'], [61, 3.2, 4.8, 3.3, 0, 5.1, 43]),
+  food('skim-milk', 'skim milk', 'dairy', ['nonfat milk', 'low fat milk'], [34, 3.4, 5, 0.1, 0, 5.1, 42]),
+  food('butter', 'butter', 'dairy', ['unsalted butter', 'salted butter'], [717, 0.9, 0.1, 81.1, 0, 0.1, 11]),
+  food('heavy-cream', 'heavy cream', 'dairy', ['whipping cream', 'cream', 'heavy whipping cream'], [340, 2.8, 2.7, 36, 0, 2.9, 27]),
+  food('sour-cream', 'sour cream', 'dairy', [], [198, 2.4, 4.6, 19.4, 0, 3.4, 31]),
+  food('yogurt', 'plain yogurt', 'dairy', ['yogurt', 'yoghurt'], [61, 3.5, 4.7, 3.3, 0, 4.7, 46]),
+  food('greek-yogurt', 'greek yogurt', 'dairy', [], [59, 10.2, 3.6, 0.4, 0, 3.2, 36]),
+  food('cheddar', 'cheddar cheese', 'dairy', ['cheese', 'shredded cheese', 'cheddar', 'monterey jack', 'colby jack'], [403, 22.9, 3.1, 33.1, 0, 0.5, 653], { density: 0.45, unitWeights: { slice: 21 } }),
+  food('mozzarella', 'mozzarella cheese', 'dairy', ['mozzarella'], [300, 22, 2.2, 22, 0, 1, 630], { density: 0.45 }),
+  food('parmesan', 'parmesan cheese', 'dairy', ['parmesan', 'parmigiano reggiano', 'grated parmesan'], [431, 38.5, 4.1, 28.6, 0, 0.9, 1529]),
+  food('feta', 'feta cheese', 'dairy', ['feta'], [264, 14.2, 4.1, 21.3, 0, 4.1, 1116], { density: 0.6 }),
+  food('cream-cheese', 'cream cheese', 'dairy', [], [342, 6, 4.1, 34.2, 0, 3.2, 321], { density: 0.98, unitWeights: { package: 226 } }),
+
+  // Vegetables and herbs
+  food('onion', 'onion', 'vegetables', ['yellow onion', 'red onion', 'white onion', 'sweet onion', 'shallot'], [40, 1.1, 9.3, 0.1, 1.7, 4.2, 4], { density: 0.6, unitWeights: { each: 150 } }),
+  food('garlic', 'garlic', 'vegetables', ['garlic clove', 'minced garlic'], [149, 6.4, 33.1, 0.5, 2.1, 1, 17], { density: 0.6, unitWeights: { clove: 5, head: 50 } }),
+  food('tomato', 'tomato', 'vegetables', ['tomatoes', 'roma tomato', 'plum tomato'], [18, 0.9, 3.9, 0.2, 1.2, 2.6, 5], { density: 0.6, unitWeights: { each: 120 } }),
+  food('cherry-tomato', 'cherry tomato', 'vegetables', ['grape tomato'], [18, 0.9, 3.9, 0.2, 1.2, 2.6, 5], { density: 0.6, unitWeights: { each: 17 } }),
+  food('canned-tomatoes', 'canned tomatoes', 'vegetables', ['diced tomatoes', 'crushed tomatoes', 'whole peeled tomatoes', 'canned diced tomatoes'], [24, 1.2, 4, 0.2, 1.9, 2.6, 143], { density: 1.03, unitWeights: { can: 411 } }),
+  food('tomato-sauce', 'tomato sauce', 'vegetables', ['marinara sauce', 'pasta sauce'], [24, 1.2, 5.3, 0.3, 1.5, 3.6, 474], { unitWeights: { can: 227, jar: 680 } }),
+  food('tomato-paste', 'tomato paste', 'vegetables', [], [82, 4.3, 18.9, 0.5, 4.1, 12.2, 59], { unitWeights: { can: 170 } }),
+  food('carrot', 'carrot', 'vegetables', ['carrots', 'baby carrots'], [41, 0.9, 9.6, 0.2, 2.8, 4.7, 69], { density: 0.55, unitWeights: { each: 60 } }),
+  food('celery', 'celery', 'vegetables', ['celery stalk', 'celery rib'], [14, 0.7, 3, 0.2, 1.6, 1.3, 80], { density: 0.5, unitWeights: { stalk: 40, each: 40 } }),
+  food('bell-pepper', 'bell pepper', 'vegetables', ['red bell pepper', 'green bell pepper', 'yellow bell pepper', 'red pepper', 'green pepper'], [26, 1, 6, 0.3, 2.1, 4.2, 4], { density: 0.6, unitWeights: { each: 150 } }),
+  food('jalapeno', 'jalapeno', 'vegetables', ['jalapeno pepper', 'chili pepper', 'serrano'], [29, 0.9, 6.5, 0.4, 2.8, 4.1, 3], { unitWeights: { each: 14 } }),
+  food('broccoli', 'broccoli', 'vegetables', ['broccoli florets'], [34, 2.8, 6.6, 0.4, 2.6, 1.7, 33], { density: 0.37, unitWeights: { head: 350, each: 350 } }),
+  food('cauliflower', 'cauliflower', 'vegetables', ['cauliflower florets'], [25, 1.9, 5, 0.3, 2, 1.9, 30], { density: 0.45, unitWeights: { head: 575, each: 575 } }),
+  food('spinach', 'spinach', 'vegetables', ['baby spinach'], [23, 2.9, 3.6, 0.4, 2.2, 0.4, 79], { density: 0.13, unitWeights: { handful: 30, bunch: 340 } }),
+  food('kale', 'kale', 'vegetables', [], [35, 2.9, 4.4, 1.5, 4.1, 1, 53], { density: 0.09, unitWeights: { bunch: 200, handful: 25 } }),
+  food('lettuce', 'lettuce', 'vegetables', ['romaine lettuce', 'romaine', 'iceberg lettuce', 'mixed greens', 'salad greens', 'arugula'], [17, 1.2, 3.3, 0.3, 2.1, 1.2, 8], { density: 0.2, unitWeights: { head: 600, handful: 20 } }),
+  food('cabbage', 'cabbage', 'vegetables', ['red cabbage', 'coleslaw mix'], [25, 1.3, 5.8, 0.1, 2.5, 3.2, 18], { density: 0.37, unitWeights: { head: 900 } }),
+  food('cucumber', 'cucumber', 'vegetables', ['english cucumber'], [15, 0.7, 3.6, 0.1, 0.5, 1.7, 2], { density: 0.55, unitWeights: { each: 300 } }),
+  food('zucchini', 'zucchini', 'vegetables', ['courgette', 'summer squash'], [17, 1.2, 3.1, 0.3, 1, 2.5, 8], { density: 0.55, unitWeights: { each: 200 } }),
+  food('mushroom', 'mushrooms', 'vegetables', ['mushroom', 'cremini mushrooms', 'button mushrooms', 'portobello'], [22, 3.1, 3.3, 0.3, 1, 2, 5], { density: 0.3, unitWeights: { each: 18 } }),
+  food('corn', 'corn', 'vegetables', ['corn kernels', 'sweet corn'], [86, 3.3, 19, 1.4, 2, 6.3, 15], { density: 0.65, unitWeights: { each: 100, can: 300 } }),
+  food('peas', 'green peas', 'vegetables', ['peas', 'frozen peas'], [77, 5.2, 13.6, 0.4, 4.5, 4.7, 108], { density: 0.6 }),
+  food('green-beans', 'green beans', 'vegetables', ['string beans'], [31, 1.8, 7, 0.2, 2.7, 3.3, 6], { density: 0.45 }),
+  food('avocado', 'avocado', 'vegetables', [], [160, 2, 8.5, 14.7, 6.7, 0.7, 7], { density: 0.6, unitWeights: { each: 150 } }),
+  food('green-onion', 'green onion', 'vegetables', ['scallion', 'scallions', 'spring onion'], [32, 1.8, 7.3, 0.2, 2.6, 2.3, 16], { density: 0.4, unitWeights: { each: 15, bunch: 100, stalk: 15 } }),
+  food('ginger', 'ginger', 'vegetables', ['fresh ginger', 'ginger root'], [80, 1.8, 17.8, 0.8, 2, 1.7, 13], { density: 0.6, unitWeights: { piece: 15 } }),
+  food('cilantro', 'cilantro', 'herbs', ['coriander leaves'], [23, 2.1, 3.7, 0.5, 2.8, 0.9, 46], { density: 0.07, unitWeights: { bunch: 50, handful: 10, sprig: 1 } }),
+  food('parsley', 'parsley', 'herbs', ['flat leaf parsley', 'italian parsley'], [36, 3, 6.3, 0.8, 3.3, 0.9, 56], { density: 0.25, unitWeights: { bunch: 60, handful: 10, sprig: 1 } }),
+  food('basil', 'basil', 'herbs', ['basil leaves', 'fresh basil'], [23, 3.2, 2.7, 0.6, 1.6, 0.3, 4], { density: 0.09, unitWeights: { bunch: 60, handful: 10, sprig: 1 } }),
+  food('thyme', 'thyme', 'herbs', ['dried thyme'], [276, 9.1, 63.9, 7.4, 37, 1.7, 55], { density: 0.3, unitWeights: { sprig: 0.5 } }),
+  food('oregano', 'oregano', 'herbs', ['dried oregano', 'italian seasoning'], [265, 9, 68.9, 4.3, 42.5, 4.1, 25], { density: 0.2 }),
+
+  // Fruit
+  food('lemon-juice', 'lemon juice', 'fruit', ['juice of lemon'], [22, 0.4, 6.9, 0.2, 0.3, 2.5, 1], { density: 1.03 }),
+  food('lemon', 'lemon', 'fruit', ['lemon zest'], [29, 1.1, 9.3, 0.3, 2.8, 2.5, 2], { unitWeights: { each: 100 } }),
+  food('lime-juice', 'lime juice', 'fruit', ['juice of lime'], [25, 0.4, 8.4, 0.1, 0.4, 1.7, 2], { density: 1.03 }),
+  food('lime', 'lime', 'fruit', ['lime zest'], [30, 0.7, 10.5, 0.2, 2.8, 1.7, 2], { unitWeights: { each: 65 } }),
+  food('apple', 'apple', 'fruit', [], [52, 0.3, 13.8, 0.2, 2.4, 10.4, 1], { density: 0.55, unitWeights: { each: 180 } }),
+  food('banana', 'banana', 'fruit', [], [89, 1.1, 22.8, 0.3, 2.6, 12.2, 1], { density: 0.6, unitWeights: { each: 120 } }),
+  food('orange', 'orange', 'fruit', [], [47, 0.9, 11.8, 0.1, 2.4, 9.4, 0], { unitWeights: { each: 130 } }),
+  food('berries', 'mixed berries', 'fruit', ['berries', 'frozen berries', 'strawberries', 'raspberries', 'blackberries'], [43, 0.8, 10, 0.3, 3, 6, 1], { density: 0.6 }),
+  food('blueberries', 'blueberries', 'fruit', [], [57, 0.7, 14.5, 0.3, 2.4, 10, 1], { density: 0.62 }),
+  food('raisins', 'raisins', 'fruit', ['dried cranberries'], [299, 3.1, 79.2, 0.5, 3.7, 59.2, 11]),
+  food('coconut', 'shredded coconut', 'fruit', ['coconut flakes', 'coconut'], [660, 6.9, 23.7, 64.5, 16.3, 7.4, 37], { density: 0.35 }),
+
+  // Oils, sauces and condiments
+  food('olive-oil', 'olive oil', 'fats', ['extra virgin olive oil'], [884, 0, 0, 100, 0, 0, 2]),
+  food('vegetable-oil', 'vegetable oil', 'fats', ['oil', 'canola oil', 'cooking oil', 'sunflower oil', 'avocado oil'], [884, 0, 0, 100, 0, 0, 0]),
+  food('sesame-oil', 'sesame oil', 'fats', ['toasted sesame oil'], [884, 0, 0, 100, 0, 0, 0]),
+  food('coconut-oil', 'coconut oil', 'fats', [], [892, 0, 0, 99.1, 0, 0, 0], { density: 0.92 }),
+  food('mayonnaise', 'mayonnaise', 'condiments', ['mayo'], [680, 1, 0.6, 74.9, 0, 0.6, 635], { density: 0.91 }),
+  food('soy-sauce', 'soy sauce', 'condiments', ['tamari', 'low sodium soy sauce'], [53, 8.1, 4.9, 0.6, 0.8, 0.4, 5493]),
+  food('honey', 'honey', 'condiments', [], [304, 0.3, 82.4, 0, 0.2, 82.1, 4]),
+  food('maple-syrup', 'maple syrup', 'condiments', [], [260, 0, 67, 0.1, 0, 60.5, 12]),
+  food('ketchup', 'ketchup', 'condiments', [], [101, 1, 27.4, 0.1, 0.3, 21.3, 907], { density: 1.15 }),
+  food('mustard', 'mustard', 'condiments', ['dijon mustard', 'yellow mustard'], [60, 3.7, 5.8, 3.3, 4, 0.9, 1104], { density: 1.05 }),
+  food('vinegar', 'vinegar', 'condiments', ['white vinegar', 'apple cider vinegar', 'rice vinegar', 'red wine vinegar'], [18, 0, 0.04, 0, 0, 0.04, 2]),
+  food('balsamic-vinegar', 'balsamic vinegar', 'condiments', [], [88, 0.5, 17, 0, 0, 15, 23], { density: 1.06 }),
+  food('salsa', 'salsa', 'condiments', [], [36, 1.5, 6.6, 0.2, 1.9, 4, 430], { density: 1.05, unitWeights: { jar: 454 } }),
+  food('hummus', 'hummus', 'condiments', [], [166, 7.9, 14.3, 9.6, 6, 0.3, 379], { density: 1.0 }),
+  food('peanut-butter', 'peanut butter', 'condiments', ['almond butter'], [588, 25.1, 19.6, 50.4, 6, 9.2, 459]),
+  food('broth', 'chicken broth', 'condiments', ['broth', 'stock', 'chicken stock', 'vegetable broth', 'vegetable stock', 'beef broth'], [7, 0.6, 0.5, 0.2, 0, 0.2, 343], { unitWeights: { can: 411, package: 946 } }),
+  food('coconut-milk', 'coconut milk', 'condiments', ['canned coconut milk'], [197, 2, 2.8, 21.3, 0, 3.3, 13], { density: 0.98, unitWeights: { can: 400 } }),
+  food('wine', 'wine', 'condiments', ['white wine', 'red wine', 'dry white wine'], [83, 0.1, 2.6, 0, 0, 0.8, 5], { density: 0.99 }),
+
+  // Baking, sweeteners and pantry
+  food('sugar', 'granulated sugar', 'baking', ['sugar', 'white sugar', 'cane sugar'], [387, 0, 100, 0, 0, 99.8, 1]),
+  food('brown-sugar', 'brown sugar', 'baking', ['light brown sugar', 'dark brown sugar'], [380, 0.1, 98.1, 0, 0, 97, 28]),
+  food('powdered-sugar', 'powdered sugar', 'baking', ["confectioners' sugar", 'icing sugar'], [389, 0, 99.8, 0, 0, 97.8, 2]),
+  food('salt', 'salt', 'baking', ['table salt', 'sea salt', 'kosher salt'], [0, 0, 0, 0, 0, 0, 38758]),
+  food('black-pepper', 'black pepper', 'spices', ['pepper', 'ground black pepper'], [251, 10.4, 64, 3.3, 25.3, 0.6, 20], { density: 0.47 }),
+  food('baking-soda', 'baking soda', 'baking', ['bicarbonate of soda'], [0, 0, 0, 0, 0, 0, 27360]),
+  food('baking-powder', 'baking powder', 'baking', [], [53, 0, 27.7, 0, 0.2, 0, 10600]),
+  food('vanilla', 'vanilla extract', 'baking', ['vanilla'], [288, 0.1, 12.7, 0.1, 0, 12.7, 9], { density: 0.88 }),
+  food('cocoa', 'cocoa powder', 'baking', ['unsweetened cocoa powder', 'cocoa'], [228, 19.6, 57.9, 13.7, 37, 1.8, 21]),
+  food('chocolate-chips', 'chocolate chips', 'baking', ['semi-sweet chocolate chips', 'dark chocolate', 'chocolate'], [480, 4.2, 64, 30, 5.9, 54.5, 11]),
+  food('almonds', 'almonds', 'nuts', ['sliced almonds', 'slivered almonds'], [579, 21.2, 21.6, 49.9, 12.5, 4.4, 1]),
+  food('walnuts', 'walnuts', 'nuts', [], [654, 15.2, 13.7, 65.2, 6.7, 2.6, 2]),
+  food('pecans', 'pecans', 'nuts', [], [691, 9.2, 13.9, 72, 9.6, 4, 0]),
+  food('peanuts', 'peanuts', 'nuts', [], [567, 25.8, 16.1, 49.2, 8.5, 4.7, 18], { density: 0.6 }),
+  food('chia-seeds', 'chia seeds', 'nuts', ['chia'], [486, 16.5, 42.1, 30.7, 34.4, 0, 16], { density: 0.65 }),
+  food('sesame-seeds', 'sesame seeds', 'nuts', [], [573, 17.7, 23.5, 49.7, 11.8, 0.3, 11], { density: 0.6 }),
+
+  // Spices
+  food('cumin', 'ground cumin', 'spices', ['cumin'], [375, 17.8, 44.2, 22.3, 10.5, 2.3, 168], { density: 0.43 }),
+  food('chili-powder', 'chili powder', 'spices', ['chile powder', 'cayenne pepper', 'red pepper flakes'], [282, 13.5, 49.7, 14.3, 34.8, 7.2, 2867], { density: 0.54 }),
+  food('paprika', 'paprika', 'spices', ['smoked paprika'], [282, 14.1, 54, 12.9, 34.9, 10.3, 68], { density: 0.46 }),
+  food('cinnamon', 'ground cinnamon', 'spices', ['cinnamon'], [247, 4, 80.6, 1.2, 53.1, 2.2, 10], { density: 0.53 }),
+  food('garlic-powder', 'garlic powder', 'spices', ['onion powder'], [331, 16.6, 72.7, 0.7, 9, 2.4, 60], { density: 0.65 }),
+];
@@ -0,0 +1,203 @@
+import type {
+  FoodSearchResult,
+  FoodServingOption,
+  NutrientTotals,
+  NutritionLog,
+  Recipe,
+} from "@shared/schema";
+import { getDensity, getUnitDefinition } from "@shared/units";
+import { FOOD_DATABASE, type FoodRecord } from "./foodDatabase";
+import { RecipeNutritionService } from "./recipeNutritionService";
+
+// Past logs and recipes are what people actually eat, so they outrank equally good database hits
+const SOURCE_BOOST: Record<FoodSearchResult["source"], number> = {
+  history: 0.15,
+  recipe: 0.1,
+  database: 0,
+};
+
+const MIN_SCORE = 0.3;
+
+const COUNT_UNIT_LABELS: Record<string, string> = {
+  each: '1 whole',
+};
+
+export class FoodSearchService {
+  private static normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  // Typeahead-friendly: rewards prefixes, so "chick" finds chicken before the user finishes typing
+  public static scoreName(query: string, candidate: string): number {
+    const normalizedQuery = this.normalize(query);
+    const name = this.normalize(candidate);
+    if (!normalizedQuery || !name) return 0;
+
+    if (name === normalizedQuery) return 1;
+    if (name.startsWith(normalizedQuery)) return 0.9;
+
+    const nameWords = name.split(' ');
+    const queryWords = normalizedQuery.split(' ');
+    if (queryWords.every(word => nameWords.some(nameWord => nameWord.startsWith(word)))) {
+      return 0.75 - 0.05 * Math.max(0, nameWords.length - queryWords.length);
+    }
+    const matched = queryWords.filter(word => nameWords.some(nameWord => nameWord.startsWith(word))).length;
+    return 0.5 * (matched / queryWords.length);
+  }
+
+  private static scale(nutrients: NutrientTotals, factor: number): NutrientTotals {
+    const round = (value: number, digits: number) => Math.round(value * factor * 10 ** digits) / 10 ** digits;
+    return {
+      calories: round(nutrients.calories, 0),
+      protein: round(nutrients.protein, 1),
+      carbs: round(nutrients.carbs, 1),
+      fat: round(nutrients.fat, 1),
+      fiber: round(nutrients.fiber, 1),
+      sugar: round(nutrients.sugar, 1),
+      sodium: round(nutrients.sodium, 0),
+    };
+  }
+
+  private static gramsOption(record: FoodRecord, label: string, grams: number): FoodServingOption {
+    return {
+      label,
+      grams: Math.round(grams * 10) / 10,
+      portion: null,
+      nutrients: this.scale(RecipeNutritionService.nutrientsForGrams(record, grams), 1),
+    };
+  }
+
+  // Counted units first (most natural for produce), then household volumes, then weights
+  public static servingOptions(record: FoodRecord): FoodServingOption[] {
+    const options: FoodServingOption[] = [];
+
+    for (const [unit, grams] of Object.entries(record.unitWeights ?? {})) {
+      options.push(this.gramsOption(record, COUNT_UNIT_LABELS[unit] ?? `1 ${unit}`, grams));
+    }
+
+    const density = record.density ?? getDensity(record.name);
+    if (density !== null) {
+      for (const unit of ['cup', 'tbsp']) {
+        const milliliters = getUnitDefinition(unit)?.toBase ?? 0;
+        options.push(this.gramsOption(record, `1 ${unit}`, milliliters * density));
+      }
+    }
+
+    options.push(this.gramsOption(record, '100 g', 100));
+    options.push(this.gramsOption(record, '1 oz', getUnitDefinition('oz')?.toBase ?? 28.35));
+    return options;
+  }
+
+  private static databaseResults(query: string): (FoodSearchResult & { score: number })[] {
+    return FOOD_DATABASE.flatMap(record => {
+      // An alias hit ("egg noodles" for pasta) ranks just below the same hit on a real name
+      const score = Math.max(
+        this.scoreName(query, record.name),
+        ...record.aliases.map(alias => this.scoreName(query, alias) * 0.9),
+      );
+      if (score < MIN_SCORE) return [];
+      return [{
+        key: `database:${record.id}`,
+        source: "database" as const,
+        name: record.name,
+        detail: record.category,
+        servings: this.servingOptions(record),
+        recipeId: null,
+        mealTypeId: null,
+        lastLoggedDate: null,
+        score,
+      }];
+    });
+  }
+
+  private static recipeResults(query: string, recipes: Recipe[]): (FoodSearchResult & { score: number })[] {
+    return recipes.flatMap(recipe => {
+      const nutrition = recipe.nutritionInfo;
+      const score = this.scoreName(query, recipe.name);
+      if (!nutrition || score < MIN_SCORE) return [];
+
+      // Recipe nutrition is stored per serving
+      return [{
+        key: `recipe:${recipe.id}`,
+        source: "recipe" as const,
+        name: recipe.name,
+        detail: recipe.description,
+        servings: [
+          { label: '1 serving', grams: null, portion: 1, nutrients: this.scale(nutrition, 1) },
+          { label: '1/2 serving', grams: null, portion: 0.5, nutrients: this.scale(nutrition, 0.5) },
+        ],
+        recipeId: recipe.id,
+        mealTypeId: null,
+        lastLoggedDate: null,
+        score,
+      }];
+    });
+  }
+
+  private static logNutrients(log: NutritionLog): NutrientTotals {
+    return {
+      calories: log.calories || 0,
+      protein: Number(log.protein) || 0,
+      carbs: Number(log.carbs) || 0,
+      fat: Number(log.fat) || 0,
+      fiber: Number(log.fiber) || 0,
+      sugar: Number(log.sugar) || 0,
+      sodium: Number(log.sodium) || 0,
+    };
+  }
+
+  /**
+   * One result per distinct food name, using its most recent log. Logs must be newest first.
+   * With no query every recent food matches, which is what "log again" shows.
+   */
+  public static historyResults(query: string, logs: NutritionLog[]): (FoodSearchResult & { score: number })[] {
+    const seen = new Set<string>();
+    const results: (FoodSearchResult & { score: number })[] = [];
+
+    for (const log of logs) {
+      const name = this.normalize(log.foodName);
+      if (seen.has(name)) continue;
+      seen.add(name);
+
+      const score = query ? this.scoreName(query, log.foodName) : 1;
+      if (score < MIN_SCORE) continue;
+
+      const nutrients = this.logNutrients(log);
+      const portion = log.portion ? Number(log.portion) : null;
+      const servings: FoodServingOption[] = [{ label: 'Same as last time', grams: null, portion, nutrients }];
+      if (portion && portion !== 1) {
+        servings.push({ label: '1 serving', grams: null, portion: 1, nutrients: this.scale(nutrients, 1 / portion) });
+      }
+
+      results.push({
+        key: `history:${name}`,
+        source: "history",
+        name: log.foodName,
+        detail: `Last logged ${log.loggedDate}`,
+        servings,
+        recipeId: null,
+        mealTypeId: log.mealTypeId,
+        lastLoggedDate: log.loggedDate,
+        score: score - results.length * 0.001, // keep recency order among equal scores
+      });
+    }
+    return results;
+  }
+
+  public static search(query: string, recipes: Recipe[], recentLogs: NutritionLog[], limit: number): FoodSearchResult[] {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return this.historyResults('', recentLogs).slice(0, limit).map(({ score, ...result }) => result);
+    }
+
+    return [
+      ...this.historyResults(trimmed, recentLogs),
+      ...this.recipeResults(trimmed, recipes),
+      ...this.databaseResults(trimmed),
+    ]
+      .map(result => ({ ...result, score: result.score + SOURCE_BOOST[result.source] }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ score, ...result }) => result);
+  }
+}
@@ -1,8 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Imported calendars and spreadsheets arrive as text in the JSON body
+app.use("/api/families/:familyId/meal-imports", express.json({ limit: "5mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -39,6 +42,17 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  // Parse ingredient text and calculate nutrition for recipes created before either existed
+  storage.backfillRecipeIngredients()
+    .then((count) => {
+      if (count > 0) log(`parsed ingredients for ${count} existing recipes`);
+    })
+    .then(() => storage.backfillRecipeNutrition())
+    .then((count) => {
+      if (count > 0) log(`calculated nutrition for ${count} existing recipes`);
+    })
+    .catch((error) => console.error("Error backfilling recipe data:", error));
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
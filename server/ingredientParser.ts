@@ -0,0 +1,236 @@
+import type { InsertRecipeIngredient } from "@shared/schema";
+import { UNIT_ALIASES } from "@shared/units";
+
+export interface ParsedIngredient {
+  rawText: string;
+  quantity: number | null;
+  quantityMax: number | null;
+  unit: string | null;
+  food: string;
+  preparation: string | null;
+  notes: string | null;
+  isOptional: boolean;
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '¼': '1/4',
+  '¾': '3/4',
+  '⅕': '1/5',
+  '⅖': '2/5',
+  '⅗': '3/5',
+  '⅘': '4/5',
+  '⅙': '1/6',
+  '⅚': '5/6',
+  '⅛': '1/8',
+  '⅜': '3/8',
+  '⅝': '5/8',
+  '⅞': '7/8',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  dozen: 12,
+  half: 0.5,
+};
+
+// Size words only count as a unit when followed by a food ("2 large eggs")
+const SIZE_UNITS = new Set(['large', 'medium', 'small']);
+
+const UNIT_LOOKUP: { alias: string; unit: string }[] = Object.entries(UNIT_ALIASES)
+  .flatMap(([unit, aliases]) => aliases.map(alias => ({ alias, unit })))
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+const NOTE_PHRASES = ['or more to taste', 'to taste', 'as needed', 'for garnish', 'for serving', 'divided'];
+
+const NUMBER_PATTERN = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?|\.\d+`;
+const QUANTITY_REGEX = new RegExp(
+  String.raw`^(${NUMBER_PATTERN})(?:\s*(?:-|–|to|or)\s*(${NUMBER_PATTERN}))?\s*`,
+  'i',
+);
+
+export class IngredientParser {
+  private static normalizeFractions(text: string): string {
+    let result = text;
+    for (const [glyph, fraction] of Object.entries(UNICODE_FRACTIONS)) {
+      // "1½" -> "1 1/2", "½" -> "1/2"
+      result = result.replace(new RegExp(`(\\d)${glyph}`, 'g'), `$1 ${fraction}`);
+      result = result.split(glyph).join(fraction);
+    }
+    return result.replace(/⁄/g, '/');
+  }
+
+  private static parseNumber(value: string): number | null {
+    const trimmed = value.trim();
+    const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+    if (mixed) {
+      const denominator = parseInt(mixed[3]);
+      return denominator ? parseInt(mixed[1]) + parseInt(mixed[2]) / denominator : null;
+    }
+    const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+    if (fraction) {
+      const denominator = parseInt(fraction[2]);
+      return denominator ? parseInt(fraction[1]) / denominator : null;
+    }
+    const parsed = parseFloat(trimmed);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  private static extractParentheticals(text: string): { text: string; notes: string[] } {
+    const notes: string[] = [];
+    const stripped = text.replace(/\(([^)]*)\)/g, (_, inner: string) => {
+      if (inner.trim()) notes.push(inner.trim());
+      return ' ';
+    });
+    return { text: stripped.replace(/\s+/g, ' ').trim(), notes };
+  }
+
+  private static extractQuantity(text: string): { quantity: number | null; quantityMax: number | null; rest: string } {
+    const numeric = text.match(QUANTITY_REGEX);
+    if (numeric) {
+      const quantity = this.parseNumber(numeric[1]);
+      const quantityMax = numeric[2] ? this.parseNumber(numeric[2]) : null;
+      return { quantity, quantityMax, rest: text.slice(numeric[0].length) };
+    }
+
+    // Word quantities: "a pinch of salt", "two eggs", "half a lemon"
+    const word = text.match(/^([a-z]+)\s+/i);
+    if (word && NUMBER_WORDS[word[1].toLowerCase()] !== undefined) {
+      let rest = text.slice(word[0].length);
+      const quantity = NUMBER_WORDS[word[1].toLowerCase()];
+      if (word[1].toLowerCase() === 'half') {
+        rest = rest.replace(/^an?\s+/i, '');
+      }
+      return { quantity, quantityMax: null, rest };
+    }
+
+    return { quantity: null, quantityMax: null, rest: text };
+  }
+
+  private static extractUnit(text: string, hasQuantity: boolean): { unit: string | null; rest: string } {
+    for (const { alias, unit } of UNIT_LOOKUP) {
+      // Single-letter aliases are case-sensitive so "T" (tbsp) and "t" (tsp) stay distinct
+      const flags = alias.length === 1 ? '' : 'i';
+      const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const match = text.match(new RegExp(`^${escaped}\\.?(?=\\s|$|,)\\s*(?:of\\s+)?`, flags));
+      if (!match) continue;
+
+      const rest = text.slice(match[0].length);
+      if (SIZE_UNITS.has(unit)) {
+        // "2 large eggs" keeps "large" as the unit; "large eggs" alone is just the food
+        if (!hasQuantity || !rest.trim()) continue;
+      } else if (alias.length === 1 && !rest.trim()) {
+        continue;
+      }
+      return { unit, rest };
+    }
+    return { unit: null, rest: text };
+  }
+
+  private static splitPreparation(text: string): { food: string; preparation: string | null; notes: string[] } {
+    const notes: string[] = [];
+    let working = text;
+
+    for (const phrase of NOTE_PHRASES) {
+      const regex = new RegExp(`,?\\s*${phrase}\\b`, 'i');
+      if (regex.test(working)) {
+        notes.push(phrase);
+        working = working.replace(regex, '');
+      }
+    }
+
+    const [head, ...tail] = working.split(',');
+    const preparation = tail.map(part => part.trim()).filter(Boolean).join(', ');
+
+    return {
+      food: head.trim(),
+      preparation: preparation || null,
+      notes,
+    };
+  }
+
+  private static normalizeFood(food: string): string {
+    return food
+      .toLowerCase()
+      .replace(/^of\s+/, '')
+      .replace(/[.;:]+$/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  public static parse(line: string): ParsedIngredient {
+    const rawText = line.trim();
+    let text = this.normalizeFractions(rawText).replace(/^[-*•\s]+/, '');
+
+    const isOptional = /\boptional\b/i.test(text);
+    text = text.replace(/,?\s*\(?\s*optional\s*\)?/i, ' ').trim();
+
+    const parenthetical = this.extractParentheticals(text);
+    text = parenthetical.text;
+
+    const { quantity, quantityMax, rest: afterQuantity } = this.extractQuantity(text);
+
+    // A second parenthetical-free size like "1 14-oz can" is folded into notes
+    let afterSize = afterQuantity;
+    const packageSize = afterSize.match(/^(\d+(?:\.\d+)?)\s*-?\s*(oz|ounce|g|gram|ml|lb)s?\b\s*/i);
+    if (quantity !== null && packageSize) {
+      parenthetical.notes.push(`${packageSize[1]} ${packageSize[2].toLowerCase()}`);
+      afterSize = afterSize.slice(packageSize[0].length);
+    }
+
+    const { unit, rest: afterUnit } = this.extractUnit(afterSize, quantity !== null);
+    const { food, preparation, notes } = this.splitPreparation(afterUnit);
+    const allNotes = [...parenthetical.notes, ...notes];
+
+    return {
+      rawText,
+      quantity,
+      quantityMax: quantityMax !== null && quantity !== null && quantityMax > quantity ? quantityMax : null,
+      unit,
+      food: this.normalizeFood(food) || this.normalizeFood(rawText),
+      preparation,
+      notes: allNotes.length > 0 ? allNotes.join('; ') : null,
+      isOptional,
+    };
+  }
+
+  public static parseAll(lines: string[]): ParsedIngredient[] {
+    return lines.filter(line => line && line.trim()).map(line => this.parse(line));
+  }
+
+  public static toInsertRows(recipeId: number, lines: string[]): InsertRecipeIngredient[] {
+    return lines
+      .map((line, position) => ({ line, position }))
+      .filter(({ line }) => line && line.trim())
+      .map(({ line, position }) => {
+        const parsed = this.parse(line);
+        return {
+          recipeId,
+          position,
+          rawText: parsed.rawText,
+          quantity: parsed.quantity !== null ? parsed.quantity.toFixed(4) : null,
+          quantityMax: parsed.quantityMax !== null ? parsed.quantityMax.toFixed(4) : null,
+          unit: parsed.unit,
+          food: parsed.food,
+          preparation: parsed.preparation,
+          notes: parsed.notes,
+          isOptional: parsed.isOptional,
+        };
+      });
+  }
+}
@@ -0,0 +1,72 @@
+import { addDays, format, parseISO } from "date-fns";
+import { DEFAULT_FRIDGE_LIFE_DAYS, type LeftoverSummary, type Meal } from "@shared/schema";
+
+export class LeftoverService {
+  public static expiresOn(source: Meal): string {
+    const fridgeLifeDays = source.fridgeLifeDays ?? DEFAULT_FRIDGE_LIFE_DAYS;
+    return format(addDays(parseISO(source.scheduledDate), fridgeLifeDays), 'yyyy-MM-dd');
+  }
+
+  /**
+   * Adds the source meal's expiry date to each leftover meal so calendars can warn without
+   * fetching every source. Sources missing from the list are looked up through getSource.
+   */
+  public static async withExpiry(
+    meals: Meal[],
+    getSource: (id: number) => Promise<Meal | undefined>,
+  ): Promise<(Meal & { leftoverExpiresOn?: string })[]> {
+    const byId = new Map(meals.map(meal => [meal.id, meal]));
+    return await Promise.all(meals.map(async meal => {
+      if (meal.leftoverOfMealId === null) return meal;
+      const source = byId.get(meal.leftoverOfMealId) ?? await getSource(meal.leftoverOfMealId);
+      return source ? { ...meal, leftoverExpiresOn: this.expiresOn(source) } : meal;
+    }));
+  }
+
+  public static summarize(source: Meal, leftovers: Meal[]): LeftoverSummary {
+    const cookedServings = source.leftoverServings ?? 0;
+    const assignedServings = leftovers.reduce((sum, meal) => sum + (meal.servings ?? 0), 0);
+    return {
+      sourceMealId: source.id,
+      cookedServings,
+      assignedServings,
+      remainingServings: Math.max(0, cookedServings - assignedServings),
+      expiresOn: this.expiresOn(source),
+      leftovers,
+    };
+  }
+
+  /**
+   * Checks a leftover meal against its source. Scheduling before the food is cooked is an
+   * error; scheduling after it has gone off is allowed but comes back as a warning.
+   */
+  public static validate(
+    source: Meal,
+    leftovers: Meal[],
+    leftover: { id?: number; scheduledDate: string; servings: number },
+  ): { error: string | null; expiryWarning: string | null } {
+    if (source.leftoverOfMealId !== null) {
+      return { error: "Leftovers can only come from a cooked meal, not from other leftovers", expiryWarning: null };
+    }
+    if (leftover.scheduledDate < source.scheduledDate) {
+      return { error: "Leftovers cannot be scheduled before the meal they come from", expiryWarning: null };
+    }
+
+    const summary = this.summarize(source, leftovers.filter(meal => meal.id !== leftover.id));
+    if (leftover.servings > summary.remainingServings) {
+      return {
+        error: summary.remainingServings === 0
+          ? "No leftover servings remain from this meal"
+          : `Only ${summary.remainingServings} leftover servings remain from this meal`,
+        expiryWarning: null,
+      };
+    }
+
+    return {
+      error: null,
+      expiryWarning: leftover.scheduledDate > summary.expiresOn
+        ? `Leftovers from ${source.scheduledDate} are only good until ${summary.expiresOn}`
+        : null,
+    };
+  }
+}
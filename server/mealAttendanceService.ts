@@ -0,0 +1,103 @@
+import { parseISO } from "date-fns";
+import type {
+  AttendanceMember,
+  FamilyMembership,
+  Meal,
+  MealAttendance,
+  MealAttendee,
+  MealAttendeeRow,
+  MemberAttendancePattern,
+  MemberDietaryProfile,
+} from "@shared/schema";
+import type { MemberPortion } from "./recipeNutritionService";
+
+export class MealAttendanceService {
+  public static toMembers(
+    memberships: FamilyMembership[],
+    profiles: Pick<MemberDietaryProfile, "userId" | "name">[],
+  ): AttendanceMember[] {
+    return memberships.map(membership => ({
+      membershipId: membership.id,
+      userId: membership.userId,
+      name: profiles.find(profile => profile.userId === membership.userId)?.name ?? membership.displayName ?? 'Family member',
+      portionSize: Number(membership.portionSize ?? 1) || 1,
+    }));
+  }
+
+  // Members attend every meal unless their pattern says they're out for that weekday and meal time
+  public static attendsByDefault(
+    membershipId: number,
+    scheduledDate: string,
+    mealTypeId: number,
+    patterns: MemberAttendancePattern[],
+  ): boolean {
+    const dayOfWeek = parseISO(scheduledDate).getDay();
+    const slot = patterns.find(pattern =>
+      pattern.membershipId === membershipId && pattern.dayOfWeek === dayOfWeek && pattern.mealTypeId === mealTypeId);
+    return slot?.attending ?? true;
+  }
+
+  public static defaultAttendees(
+    members: AttendanceMember[],
+    patterns: MemberAttendancePattern[],
+    scheduledDate: string,
+    mealTypeId: number,
+  ): MealAttendee[] {
+    return members
+      .filter(member => this.attendsByDefault(member.membershipId, scheduledDate, mealTypeId, patterns))
+      .map(member => ({ membershipId: member.membershipId, userId: member.userId, name: member.name, portion: member.portionSize }));
+  }
+
+  /**
+   * Who is eating a meal: the saved attendees when the meal has any, otherwise whoever's
+   * pattern has them home for that weekday and meal time.
+   */
+  public static resolve(
+    meal: Pick<Meal, "id" | "scheduledDate" | "mealTypeId">,
+    members: AttendanceMember[],
+    patterns: MemberAttendancePattern[],
+    rows: MealAttendeeRow[],
+  ): MealAttendance {
+    if (rows.length === 0) {
+      const attendees = this.defaultAttendees(members, patterns, meal.scheduledDate, meal.mealTypeId);
+      return { mealId: meal.id, isDefault: true, attendees, servings: this.servingsFor(attendees) };
+    }
+
+    const attendees = rows.flatMap((row): MealAttendee[] => {
+      const portion = row.portion !== null ? Number(row.portion) : null;
+      if (row.membershipId === null) {
+        return [{ membershipId: null, userId: null, name: row.guestName ?? 'Guest', portion: portion ?? 1 }];
+      }
+      // People who have since left the family no longer count
+      const member = members.find(other => other.membershipId === row.membershipId);
+      return member
+        ? [{ membershipId: member.membershipId, userId: member.userId, name: member.name, portion: portion ?? member.portionSize }]
+        : [];
+    });
+    return { mealId: meal.id, isDefault: false, attendees, servings: this.servingsFor(attendees) };
+  }
+
+  // Servings to cook: everyone's portion, rounded up to whole servings
+  public static servingsFor(attendees: MealAttendee[]): number {
+    const total = attendees.reduce((sum, attendee) => sum + attendee.portion, 0);
+    return Math.max(1, Math.ceil(total - 0.001));
+  }
+
+  /**
+   * How much each attending member ate, for nutrition logs. When the servings were typed
+   * rather than derived, portions are scaled so the attendees finish them between them.
+   * Guests share the food but aren't logged.
+   */
+  public static memberPortions(meal: Pick<Meal, "servings" | "servingsFromAttendance">, attendance: MealAttendance): MemberPortion[] {
+    const total = attendance.attendees.reduce((sum, attendee) => sum + attendee.portion, 0);
+    const scale = meal.servings && !meal.servingsFromAttendance && total > 0 ? meal.servings / total : 1;
+    return attendance.attendees.flatMap(attendee =>
+      attendee.userId ? [{ userId: attendee.userId, portion: Math.round(attendee.portion * scale * 100) / 100 }] : []);
+  }
+
+  // Allergens and diets only matter for the members actually eating; guests have none on file
+  public static attendingProfiles<T extends Pick<MemberDietaryProfile, "userId">>(profiles: T[], attendees: MealAttendee[]): T[] {
+    const attendingIds = new Set(attendees.flatMap(attendee => attendee.userId ? [attendee.userId] : []));
+    return profiles.filter(profile => attendingIds.has(profile.userId));
+  }
+}
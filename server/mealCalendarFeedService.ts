@@ -0,0 +1,132 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { Family, FamilyMealTime, Meal, Recipe } from "@shared/schema";
+import { TimeZoneService } from "./timeZoneService";
+
+// Days of past and future meals a subscribed calendar sees
+export const CALENDAR_FEED_PAST_DAYS = 30;
+export const CALENDAR_FEED_FUTURE_DAYS = 90;
+
+// How long a timed meal event lasts on the calendar
+const MEAL_EVENT_MINUTES = 60;
+
+interface CalendarFeedInput {
+  family: Family;
+  meals: Meal[];
+  recipes: Recipe[];
+  mealTimes: FamilyMealTime[];
+  appUrl: string; // e.g. https://example.com, used for recipe links and event UIDs
+  now?: Date;
+}
+
+export class MealCalendarFeedService {
+  /**
+   * Builds an iCalendar (RFC 5545) feed of the family's meals. Meals in a meal time with a
+   * default time become timed events in the family's time zone, with a reminder when it's
+   * time to start cooking; the rest become all-day events.
+   */
+  public static build({ family, meals, recipes, mealTimes, appUrl, now = new Date() }: CalendarFeedInput): string {
+    const timeZone = TimeZoneService.isTimeZone(family.timezone) ? family.timezone : "UTC";
+    const recipesById = new Map(recipes.map(recipe => [recipe.id, recipe]));
+    const mealTimesById = new Map(mealTimes.map(mealTime => [mealTime.id, mealTime]));
+    const host = new URL(appUrl).host;
+
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//FamilyEats//Meal Plan//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${this.escape(`${family.name} meals`)}`,
+      `X-WR-TIMEZONE:${timeZone}`,
+      "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+      "X-PUBLISHED-TTL:PT6H",
+    ];
+
+    for (const meal of meals) {
+      const recipe = meal.recipeId !== null ? recipesById.get(meal.recipeId) : undefined;
+      const mealTime = mealTimesById.get(meal.mealTypeId);
+      const title = recipe?.name ?? meal.notes ?? "Meal";
+      const isLeftover = meal.leftoverOfMealId !== null;
+      const recipeUrl = recipe ? `${appUrl}/recipes?recipe=${recipe.id}` : null;
+
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:meal-${meal.id}@${host}`,
+        `DTSTAMP:${this.utcStamp(now)}`,
+      );
+      if (mealTime?.defaultTime) {
+        const start = TimeZoneService.zonedToUtc(meal.scheduledDate, mealTime.defaultTime, timeZone);
+        lines.push(
+          `DTSTART:${this.utcStamp(start)}`,
+          `DTEND:${this.utcStamp(new Date(start.getTime() + MEAL_EVENT_MINUTES * 60000))}`,
+        );
+      } else {
+        lines.push(
+          `DTSTART;VALUE=DATE:${meal.scheduledDate.replace(/-/g, '')}`,
+          `DTEND;VALUE=DATE:${format(addDays(parseISO(meal.scheduledDate), 1), 'yyyyMMdd')}`,
+        );
+      }
+      lines.push(`SUMMARY:${this.escape(`${mealTime?.mealName ?? "Meal"}: ${isLeftover ? `Leftover ${title}` : title}`)}`);
+
+      const totalMinutes = (recipe?.prepTime ?? 0) + (recipe?.cookTime ?? 0);
+      const details = [
+        meal.servings ? `Serves ${meal.servings}` : null,
+        recipe && !isLeftover && totalMinutes > 0 ? `Prep ${recipe.prepTime ?? 0} min, cook ${recipe.cookTime ?? 0} min` : null,
+        recipe && meal.notes ? meal.notes : null,
+        recipeUrl,
+      ].filter((detail): detail is string => !!detail);
+      if (details.length > 0) lines.push(`DESCRIPTION:${this.escape(details.join("\n"))}`);
+      if (recipeUrl) lines.push(`URL:${recipeUrl}`);
+
+      // Leftovers only need reheating, so only cooked meals get a start-cooking reminder
+      if (mealTime?.defaultTime && !isLeftover && totalMinutes > 0) {
+        lines.push(
+          "BEGIN:VALARM",
+          "ACTION:DISPLAY",
+          `TRIGGER:-PT${totalMinutes}M`,
+          `DESCRIPTION:${this.escape(`Start cooking ${title}`)}`,
+          "END:VALARM",
+        );
+      }
+      lines.push("END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(line => this.fold(line)).join("\r\n") + "\r\n";
+  }
+
+  private static utcStamp(instant: Date): string {
+    return instant.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r?\n/g, "\\n");
+  }
+
+  // Content lines longer than 75 octets continue on lines that start with a space
+  private static fold(line: string): string {
+    const bytes = Buffer.from(line, "utf8");
+    if (bytes.length <= 75) return line;
+
+    const chunks: string[] = [];
+    let current = "";
+    let currentBytes = 0;
+    for (const char of line) {
+      const size = Buffer.byteLength(char, "utf8");
+      const limit = chunks.length === 0 ? 75 : 74;
+      if (currentBytes + size > limit) {
+        chunks.push(current);
+        current = "";
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += size;
+    }
+    chunks.push(current);
+    return chunks.join("\r\n ");
+  }
+}
@@ -0,0 +1,487 @@
+import { isValid, parse } from "date-fns";
+import type {
+  FamilyMealTime,
+  MealBatchOperation,
+  MealImportField,
+  MealImportFormat,
+  MealImportIssue,
+  MealImportMapping,
+  MealImportPreview,
+  MealImportRecipeMatch,
+  MealImportRow,
+  MealImportRowInput,
+  Recipe,
+} from "@shared/schema";
+import { MEAL_IMPORT_FIELDS, MAX_MEAL_IMPORT_ROWS } from "@shared/schema";
+import { MealTimeService } from "./mealTimeService";
+import { TimeZoneService } from "./timeZoneService";
+
+// A recipe at least this similar is matched without asking; closer than SUGGEST is offered as a choice
+const AUTO_MATCH_SCORE = 0.8;
+const SUGGEST_SCORE = 0.5;
+const MAX_SUGGESTIONS = 3;
+
+// Header names other planners and spreadsheets use for each field, compared after normalizing
+const FIELD_HEADERS: Record<MealImportField, string[]> = {
+  date: ["date", "day", "scheduled date", "meal date", "planned date", "when"],
+  mealTime: ["meal", "meal time", "meal type", "mealtime", "slot", "course"],
+  recipe: ["recipe", "recipe name", "dish", "title", "name", "menu", "food"],
+  servings: ["servings", "serves", "portions", "people"],
+  notes: ["notes", "note", "comments", "description", "details"],
+  prepTime: ["prep time", "prep", "prep minutes", "preparation time"],
+  cookTime: ["cook time", "cook", "cook minutes", "cooking time"],
+};
+
+const DATE_FORMATS = ["yyyy/M/d", "d.M.yyyy", "MMMM d, yyyy", "MMM d, yyyy", "MMMM d yyyy", "MMM d yyyy", "d MMMM yyyy", "d MMM yyyy", "EEEE, MMMM d, yyyy", "EEE, MMM d, yyyy"];
+
+interface MealImportOptions {
+  format: MealImportFormat;
+  content: string;
+  mapping?: MealImportMapping;
+  dayFirst: boolean;
+  mealTimes: FamilyMealTime[];
+  recipes: Recipe[];
+  timeZone: string | null; // the family's, for calendar events stored in UTC or another zone
+}
+
+interface ParsedEntry {
+  line: number;
+  date: string | null;
+  time: string | null; // HH:MM for timed calendar events
+  mealTime: string | null;
+  mealTimeFromTitle?: boolean; // "Dinner" in a "Dinner: Lasagna" event title, unless it names no meal time
+  recipe: string | null;
+  servings: string | null;
+  notes: string | null;
+  prepTime: string | null;
+  cookTime: string | null;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export class MealImportService {
+  /**
+   * Reads a CSV or iCalendar file into meals the family can review before importing. Each row
+   * gets a meal time and, where a family recipe has a similar name, that recipe; anything that
+   * can't become a meal is reported as an issue instead.
+   */
+  public static preview(options: MealImportOptions): MealImportPreview {
+    const { entries, columns, mapping, issues } = options.format === "csv"
+      ? this.readCsv(options.content, options.mapping, options.dayFirst)
+      : this.readIcs(options.content, options.timeZone);
+
+    const activeMealTimes = options.mealTimes.filter(mealTime => mealTime.isActive !== false);
+    const rows: MealImportRow[] = [];
+    for (const parsed of entries) {
+      let entry = parsed;
+      const scheduledDate = entry.date;
+      if (!scheduledDate) {
+        issues.push({ line: entry.line, message: "Missing or unreadable date" });
+        continue;
+      }
+      let mealTime = this.resolveMealTime(entry, activeMealTimes);
+      if (!mealTime && entry.mealTimeFromTitle) {
+        entry = { ...entry, mealTime: null, recipe: `${entry.mealTime}: ${entry.recipe}` };
+        mealTime = this.resolveMealTime(entry, activeMealTimes);
+      }
+      if (!mealTime) {
+        issues.push({
+          line: entry.line,
+          message: entry.mealTime ? `"${entry.mealTime}" doesn't match any of your meal times` : "No meal time to put this meal in",
+        });
+        continue;
+      }
+      if (!entry.recipe && !entry.notes) {
+        issues.push({ line: entry.line, message: "No recipe or notes to import" });
+        continue;
+      }
+      if (rows.length === MAX_MEAL_IMPORT_ROWS) {
+        issues.push({ line: entry.line, message: `Only ${MAX_MEAL_IMPORT_ROWS} meals can be imported at once` });
+        continue;
+      }
+
+      const suggestions = entry.recipe ? this.rankRecipes(entry.recipe, options.recipes) : [];
+      const best = suggestions.length > 0 && suggestions[0].score >= AUTO_MATCH_SCORE ? suggestions[0] : undefined;
+      rows.push({
+        line: entry.line,
+        scheduledDate,
+        mealTypeId: mealTime.id,
+        recipeId: best?.recipeId ?? null,
+        recipeName: entry.recipe,
+        matchScore: best?.score ?? null,
+        suggestions,
+        servings: this.positiveInteger(entry.servings),
+        notes: entry.notes,
+        prepTime: this.minutes(entry.prepTime),
+        cookTime: this.minutes(entry.cookTime),
+      });
+    }
+
+    issues.sort((a, b) => a.line - b.line);
+    return { columns, mapping, rows, issues };
+  }
+
+  // The batch operations that schedule reviewed rows, once every row has a recipe id or only notes
+  public static toOperations(rows: MealImportRowInput[], recipeIdsByName: Map<string, number>): MealBatchOperation[] {
+    return rows.map(row => ({
+      op: "create" as const,
+      meal: {
+        recipeId: row.recipeId ?? (row.recipeName ? recipeIdsByName.get(this.normalize(row.recipeName)) : undefined),
+        mealTypeId: row.mealTypeId,
+        scheduledDate: row.scheduledDate,
+        servings: row.servings ?? undefined,
+        notes: row.notes ?? undefined,
+      },
+    }));
+  }
+
+  public static normalize(text: string): string {
+    return text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  /**
+   * Whole-name similarity for matching imported titles to recipes: shared words catch reordered
+   * names ("Curry, chicken"), edit distance catches typos ("Spagetti bolognese").
+   */
+  public static scoreName(name: string, candidate: string): number {
+    const a = this.normalize(name);
+    const b = this.normalize(candidate);
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+
+    const wordsA = new Set(a.split(" "));
+    const wordsB = new Set(b.split(" "));
+    const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+    const wordScore = shared === wordsA.size && shared === wordsB.size ? 0.95 : (2 * shared) / (wordsA.size + wordsB.size);
+    const editScore = 1 - this.editDistance(a, b) / Math.max(a.length, b.length);
+    return Math.round(Math.max(wordScore, editScore) * 100) / 100;
+  }
+
+  private static rankRecipes(name: string, recipes: Recipe[]): MealImportRecipeMatch[] {
+    return recipes
+      .map(recipe => ({ recipeId: recipe.id, name: recipe.name, score: this.scoreName(name, recipe.name) }))
+      .filter(match => match.score >= SUGGEST_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  private static editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  // A named meal time wins; otherwise a timed event goes in the meal time served closest to it
+  private static resolveMealTime(entry: ParsedEntry, mealTimes: FamilyMealTime[]): FamilyMealTime | undefined {
+    if (entry.mealTime) {
+      const name = entry.mealTime.trim().toLowerCase();
+      const category = name === "supper" ? "dinner" : name === "brunch" ? "lunch" : name;
+      return mealTimes.find(mealTime => mealTime.mealName.trim().toLowerCase() === name)
+        ?? mealTimes.find(mealTime => mealTime.category === category);
+    }
+
+    const served = mealTimes.filter(mealTime => MealTimeService.servesOn(mealTime, entry.date!));
+    const candidates = served.length > 0 ? served : mealTimes;
+    if (entry.time) {
+      const toMinutes = (time: string) => {
+        const [hour, minute] = time.split(":").map(Number);
+        return hour * 60 + minute;
+      };
+      const timed = candidates.filter(mealTime => mealTime.defaultTime);
+      if (timed.length > 0) {
+        const target = toMinutes(entry.time);
+        return timed.reduce((best, mealTime) =>
+          Math.abs(toMinutes(mealTime.defaultTime!) - target) < Math.abs(toMinutes(best.defaultTime!) - target) ? mealTime : best);
+      }
+    }
+    return MealTimeService.match({ mealName: "Dinner", category: "dinner" }, candidates) ?? candidates[0];
+  }
+
+  private static positiveInteger(value: string | null): number | null {
+    const number = value ? parseInt(value, 10) : NaN;
+    return Number.isFinite(number) && number > 0 ? number : null;
+  }
+
+  // Accepts plain minutes or durations like "1h 30m" and "1:30"
+  private static minutes(value: string | null): number | null {
+    if (!value) return null;
+    const clock = value.match(/^(\d+):(\d{2})$/);
+    if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+    const hours = value.match(/(\d+(?:\.\d+)?)\s*h/i);
+    const minutes = value.match(/(\d+)\s*m/i);
+    if (hours || minutes) return Math.round(Number(hours?.[1] ?? 0) * 60) + Number(minutes?.[1] ?? 0);
+    const plain = parseInt(value, 10);
+    return Number.isFinite(plain) && plain >= 0 ? plain : null;
+  }
+
+  private static parseDate(value: string | null, dayFirst: boolean): string | null {
+    const text = value?.trim();
+    if (!text) return null;
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) return this.isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+    // Spreadsheets write 3/4/25 and 3/4/2025; which number is the month depends on the locale
+    const numeric = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+    if (numeric) {
+      const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+      const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+      return dayFirst ? this.isoDate(year, second, first) : this.isoDate(year, first, second);
+    }
+
+    for (const dateFormat of DATE_FORMATS) {
+      const date = parse(text, dateFormat, new Date());
+      if (isValid(date) && date.getFullYear() >= 1900) {
+        return this.isoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+      }
+    }
+    return null;
+  }
+
+  private static isoDate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+  }
+
+  // CSV
+
+  private static readCsv(content: string, override: MealImportMapping | undefined, dayFirst: boolean) {
+    const records = this.parseCsv(content);
+    const issues: MealImportIssue[] = [];
+    const headerIndex = records.findIndex(record => record.cells.some(cell => cell.trim()));
+    if (headerIndex === -1) {
+      return { entries: [], columns: [], mapping: {}, issues: [{ line: 1, message: "The file is empty" }] };
+    }
+
+    const columns = records[headerIndex].cells.map(cell => cell.trim());
+    const mapping = this.guessMapping(columns);
+    for (const field of MEAL_IMPORT_FIELDS) {
+      const column = override?.[field];
+      if (column === undefined) continue;
+      // An empty column name in the override turns a guessed field off
+      if (column === "") delete mapping[field];
+      else if (columns.includes(column)) mapping[field] = column;
+      else issues.push({ line: records[headerIndex].line, message: `There is no "${column}" column` });
+    }
+    if (!mapping.date) issues.push({ line: records[headerIndex].line, message: "Choose which column holds the date" });
+    if (!mapping.recipe && !mapping.notes) issues.push({ line: records[headerIndex].line, message: "Choose which column holds the recipe" });
+
+    const cell = (cells: string[], field: MealImportField) => {
+      const column = mapping[field];
+      const value = column ? cells[columns.indexOf(column)]?.trim() : undefined;
+      return value ? value : null;
+    };
+    const entries: ParsedEntry[] = records
+      .slice(headerIndex + 1)
+      .filter(record => record.cells.some(value => value.trim()))
+      .map(({ line, cells }) => ({
+        line,
+        date: this.parseDate(cell(cells, "date"), dayFirst),
+        time: null,
+        mealTime: cell(cells, "mealTime"),
+        recipe: cell(cells, "recipe"),
+        servings: cell(cells, "servings"),
+        notes: cell(cells, "notes"),
+        prepTime: cell(cells, "prepTime"),
+        cookTime: cell(cells, "cookTime"),
+      }));
+    return { entries: mapping.date ? entries : [], columns, mapping, issues };
+  }
+
+  private static guessMapping(columns: string[]): MealImportMapping {
+    const mapping: MealImportMapping = {};
+    const used = new Set<string>();
+    for (const field of MEAL_IMPORT_FIELDS) {
+      const column = columns.find(header => !used.has(header) && FIELD_HEADERS[field].includes(this.normalize(header)));
+      if (column) {
+        mapping[field] = column;
+        used.add(column);
+      }
+    }
+    return mapping;
+  }
+
+  // RFC 4180, plus the semicolon and tab separated files some spreadsheet locales export
+  private static parseCsv(content: string): { line: number; cells: string[] }[] {
+    const text = content.replace(/^\uFEFF/, "");
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best);
+
+    const records: { line: number; cells: string[] }[] = [];
+    let cells: string[] = [];
+    let value = "";
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === "\n") line++;
+          value += char;
+        }
+      } else if (char === '"' && value === "") {
+        quoted = true;
+      } else if (char === delimiter) {
+        cells.push(value);
+        value = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") i++;
+        cells.push(value);
+        records.push({ line: recordLine, cells });
+        cells = [];
+        value = "";
+        line++;
+        recordLine = line;
+      } else {
+        value += char;
+      }
+    }
+    if (value !== "" || cells.length > 0) {
+      cells.push(value);
+      records.push({ line: recordLine, cells });
+    }
+    return records;
+  }
+
+  // iCalendar
+
+  private static readIcs(content: string, timeZone: string | null) {
+    const issues: MealImportIssue[] = [];
+    const entries: ParsedEntry[] = [];
+    const familyTimeZone = TimeZoneService.isTimeZone(timeZone) ? timeZone : null;
+    const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+    if (!lines.some(line => line.trim().toUpperCase() === "BEGIN:VCALENDAR")) {
+      return { entries, columns: [], mapping: {}, issues: [{ line: 1, message: "This isn't an iCalendar file" }] };
+    }
+
+    const components: string[] = [];
+    let event: IcsProperty[] = [];
+    let eventNumber = 0;
+    for (const line of lines) {
+      const property = this.parseIcsLine(line);
+      if (!property) continue;
+      if (property.name === "BEGIN") {
+        components.push(property.value.toUpperCase());
+        if (property.value.toUpperCase() === "VEVENT") {
+          event = [];
+          eventNumber++;
+        }
+      } else if (property.name === "END") {
+        if (components.pop() === "VEVENT") {
+          const entry = this.readIcsEvent(event, eventNumber, familyTimeZone, issues);
+          if (entry) entries.push(entry);
+        }
+      } else if (components[components.length - 1] === "VEVENT") {
+        // Properties of alarms inside the event are skipped by the check above
+        event.push(property);
+      }
+    }
+    if (eventNumber === 0) issues.push({ line: 1, message: "The calendar has no events" });
+    return { entries, columns: [], mapping: {}, issues };
+  }
+
+  private static readIcsEvent(properties: IcsProperty[], line: number, timeZone: string | null, issues: MealImportIssue[]): ParsedEntry | null {
+    const property = (name: string) => properties.find(candidate => candidate.name === name);
+    const text = (name: string) => {
+      const value = property(name)?.value;
+      return value ? this.unescapeIcsText(value).trim() || null : null;
+    };
+
+    if (property("STATUS")?.value.toUpperCase() === "CANCELLED") {
+      issues.push({ line, message: `"${text("SUMMARY") ?? "Untitled event"}" was cancelled` });
+      return null;
+    }
+    const start = property("DTSTART");
+    const when = start ? this.readIcsDateTime(start, timeZone) : null;
+    if (property("RRULE")) {
+      issues.push({ line, message: `"${text("SUMMARY") ?? "Untitled event"}" repeats; only its first date is imported` });
+    }
+
+    // Our own feed and many planners title events "Dinner: Lasagna"
+    let summary = text("SUMMARY");
+    let mealTime: string | null = null;
+    const prefixed = summary?.match(/^([^:]{1,40}):\s*(.+)$/);
+    if (prefixed) {
+      mealTime = prefixed[1].trim();
+      summary = prefixed[2].trim();
+    }
+    const description = text("DESCRIPTION");
+    return {
+      line,
+      date: when?.date ?? null,
+      time: when?.time ?? null,
+      mealTime,
+      mealTimeFromTitle: !!prefixed,
+      recipe: summary,
+      servings: description?.match(/\bserves\s+(\d+)/i)?.[1] ?? null,
+      notes: description,
+      prepTime: null,
+      cookTime: null,
+    };
+  }
+
+  // Splits NAME;PARAM=value:VALUE, where quoted parameter values may contain colons
+  private static parseIcsLine(line: string): IcsProperty | null {
+    let quoted = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') quoted = !quoted;
+      else if (line[i] === ":" && !quoted) {
+        colon = i;
+        break;
+      }
+    }
+    if (colon === -1) return null;
+
+    const [name, ...rawParams] = line.slice(0, colon).split(";");
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+      const equals = param.indexOf("=");
+      if (equals > 0) params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, "");
+    }
+    return { name: name.trim().toUpperCase(), params, value: line.slice(colon + 1) };
+  }
+
+  // Dates come as all-day dates, UTC times, times in a named zone or floating local times
+  private static readIcsDateTime(property: IcsProperty, timeZone: string | null): { date: string; time: string | null } | null {
+    const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) return null;
+    const [, year, month, day, hour, minute, , utc] = match;
+    const date = this.isoDate(Number(year), Number(month), Number(day));
+    if (!date || hour === undefined || property.params.VALUE === "DATE") return date ? { date, time: null } : null;
+
+    const time = `${hour}:${minute}`;
+    const sourceZone = utc ? "UTC" : property.params.TZID;
+    if (!timeZone || !sourceZone || sourceZone === timeZone || !TimeZoneService.isTimeZone(sourceZone)) {
+      return { date, time };
+    }
+    return TimeZoneService.utcToZoned(TimeZoneService.zonedToUtc(date, time, sourceZone), timeZone);
+  }
+
+  private static unescapeIcsText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+  }
+}
@@ -0,0 +1,59 @@
+import type { Meal, MealBatchOperation, MealMove } from "@shared/schema";
+
+const slotKey = (slot: { scheduledDate: string; mealTypeId: number }) => `${slot.scheduledDate}|${slot.mealTypeId}`;
+
+export class MealMoveService {
+  // Every date a set of moves reads or writes, so the caller can load the meals around them
+  public static dateRange(moves: MealMove[], movingMeals: Meal[]): { startDate: string; endDate: string } {
+    const dates = [...moves.map(move => move.scheduledDate), ...movingMeals.map(meal => meal.scheduledDate)].sort();
+    return { startDate: dates[0], endDate: dates[dates.length - 1] };
+  }
+
+  /**
+   * Turns drag-and-drop moves into batch operations. A meal already in a target slot that
+   * isn't moving itself swaps into the slot the moved meal came from. Swaps are listed after
+   * the moves, which the batch relies on to let the two meals trade places.
+   */
+  public static toOperations(moves: MealMove[], meals: Meal[]): { operations: MealBatchOperation[]; error: string | null } {
+    const byId = new Map(meals.map(meal => [meal.id, meal]));
+    const movingIds = new Set(moves.map(move => move.mealId));
+    if (movingIds.size !== moves.length) {
+      return { operations: [], error: "Each meal can only be moved once" };
+    }
+    if (new Set(moves.map(slotKey)).size !== moves.length) {
+      return { operations: [], error: "Two meals can't be moved into the same slot" };
+    }
+
+    const operations: MealBatchOperation[] = [];
+    const swaps: MealBatchOperation[] = [];
+    for (const move of moves) {
+      const meal = byId.get(move.mealId);
+      if (!meal) {
+        return { operations: [], error: `Meal ${move.mealId} not found` };
+      }
+      // Prepared and eaten meals are history, so they neither move nor get swapped out
+      if (meal.status !== 'planned') {
+        return { operations: [], error: "Only planned meals can be moved" };
+      }
+      operations.push({ op: 'move', ...move });
+      if (slotKey(move) === slotKey(meal)) continue;
+
+      const occupants = meals.filter(other => !movingIds.has(other.id) && slotKey(other) === slotKey(move));
+      if (occupants.length > 1) {
+        return { operations: [], error: "That slot has more than one meal; move them one at a time" };
+      }
+      const [occupant] = occupants;
+      if (!occupant) continue;
+      if (occupant.status !== 'planned') {
+        return { operations: [], error: "That slot has a meal that was already prepared or eaten" };
+      }
+      swaps.push({ op: 'move', mealId: occupant.id, scheduledDate: meal.scheduledDate, mealTypeId: meal.mealTypeId });
+    }
+    return { operations: [...operations, ...swaps], error: null };
+  }
+
+  // Moves that put each of the given meals back in the slot it had before
+  public static undoMoves(originals: Meal[]): MealMove[] {
+    return originals.map(meal => ({ mealId: meal.id, scheduledDate: meal.scheduledDate, mealTypeId: meal.mealTypeId }));
+  }
+}
@@ -0,0 +1,426 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import {
+  MEAL_CATEGORIES,
+  type AttendanceMember,
+  type FamilyMealTime,
+  type Meal,
+  type MealPlanPreview,
+  type MealPlanRequest,
+  type MealPlanningRules,
+  type MemberAttendancePattern,
+  type MemberDietaryProfile,
+  type NutrientTotals,
+  type PantryItem,
+  type PlannedMeal,
+  type Recipe,
+  type RecipeIngredient,
+  type UnfilledMealSlot,
+} from "@shared/schema";
+import { FOOD_DATABASE } from "./foodDatabase";
+import { DietaryConflictService } from "./dietaryConflictService";
+import { RecipeNutritionService } from "./recipeNutritionService";
+import { ShoppingListService } from "./shoppingListService";
+import { MealTimeService } from "./mealTimeService";
+import { MealPlanningPreferenceService } from "./mealPlanningPreferenceService";
+import { MealAttendanceService } from "./mealAttendanceService";
+
+export interface MealPlannerInput {
+  request: MealPlanRequest;
+  recipes: Recipe[];
+  ingredientRows: RecipeIngredient[];
+  mealTimes: FamilyMealTime[]; // the family's meal slots
+  // Meals from noRepeatDays before startDate to noRepeatDays after endDate
+  existingMeals: Meal[];
+  members: MemberDietaryProfile[];
+  memberTargets: NutrientTotals[];
+  pantryItems: PantryItem[];
+  budget: number | null;
+  // Who usually eats at each meal time; with nobody home, recipes fall back to their own servings
+  attendanceMembers: AttendanceMember[];
+  attendancePatterns: MemberAttendancePattern[];
+  // The family's meal planning rules; the request already carries their time and repeat limits
+  preferences: MealPlanningRules;
+}
+
+interface RecipeProfile {
+  recipe: Recipe;
+  totalMinutes: number | null;
+  cuisine: string | null;
+  protein: string | null;
+  caloriesPerServing: number | null;
+  // Cost of each ingredient line for the whole recipe, keyed to the pantry item that would cover it
+  lines: { cost: number; pantryKey: string | null }[];
+}
+
+interface PlannedUse {
+  date: string;
+  recipeId: number | null;
+  cuisine: string | null;
+  protein: string | null;
+}
+
+const CUISINES = [
+  'italian', 'mexican', 'chinese', 'indian', 'thai', 'japanese', 'korean', 'vietnamese', 'french',
+  'greek', 'mediterranean', 'middle eastern', 'spanish', 'american', 'cajun', 'caribbean',
+];
+
+// Main protein groups, keyed by food database id
+const PROTEIN_GROUPS: Record<string, string> = {
+  'chicken-breast': 'chicken',
+  'chicken-thigh': 'chicken',
+  'chicken': 'chicken',
+  'ground-beef': 'beef',
+  'beef': 'beef',
+  'pork': 'pork',
+  'bacon': 'pork',
+  'sausage': 'pork',
+  'ground-turkey': 'turkey',
+  'salmon': 'fish',
+  'white-fish': 'fish',
+  'tuna': 'fish',
+  'shrimp': 'shellfish',
+  'tofu': 'tofu',
+  'egg': 'egg',
+  'black-beans': 'legumes',
+  'chickpeas': 'legumes',
+  'kidney-beans': 'legumes',
+  'lentils': 'legumes',
+};
+
+// Rough grocery prices per 100 g by food category, in the family's currency
+const CATEGORY_COST_PER_100G: Record<string, number> = {
+  protein: 1.2,
+  dairy: 0.6,
+  grains: 0.25,
+  vegetables: 0.35,
+  fruit: 0.4,
+  legumes: 0.3,
+  nuts: 1.5,
+  fats: 0.8,
+  condiments: 0.5,
+  spices: 2,
+  herbs: 2.5,
+  baking: 0.3,
+};
+
+// Lines we cannot price ("1 bunch of something unusual") get a flat guess
+const UNPRICED_LINE_COST = 0.5;
+
+// Share of the daily calorie target each meal is expected to cover
+const MEAL_CALORIE_SHARE: Record<string, number> = {
+  breakfast: 0.25,
+  lunch: 0.3,
+  dinner: 0.35,
+  snack: 0.1,
+};
+const DEFAULT_CALORIE_SHARE = 0.3;
+
+// Monday to Friday
+const WEEKNIGHTS = new Set([1, 2, 3, 4, 5]);
+
+// A repeat inside the no-repeat window only wins when nothing else is left
+const REPEAT_PENALTY = 5;
+const ROTATION_WINDOW_DAYS = 2;
+const PANTRY_EXPIRY_DAYS = 3;
+
+// Small deterministic PRNG so the same seed always produces the same plan
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class MealPlannerService {
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  // Share of a member's daily targets one meal in this category is expected to cover
+  public static calorieShare(category: string): number {
+    return MEAL_CALORIE_SHARE[category] ?? DEFAULT_CALORIE_SHARE;
+  }
+
+  public static detectCuisine(recipe: Recipe): string | null {
+    const tags = (recipe.tags ?? []).map(tag => tag.toLowerCase().trim());
+    return CUISINES.find(cuisine => tags.includes(cuisine)) ?? null;
+  }
+
+  /**
+   * Prices each ingredient line and finds the main protein (the protein group with the most
+   * grams). Recipes without parsed ingredients are priced per line and have no known protein.
+   */
+  public static profileRecipe(recipe: Recipe, rows: RecipeIngredient[]): RecipeProfile {
+    const prepTime = recipe.prepTime ?? null;
+    const cookTime = recipe.cookTime ?? null;
+    const base = {
+      recipe,
+      totalMinutes: prepTime === null && cookTime === null ? null : (prepTime ?? 0) + (cookTime ?? 0),
+      cuisine: this.detectCuisine(recipe),
+      caloriesPerServing: recipe.nutritionInfo?.calories ?? null,
+    };
+
+    if (rows.length === 0) {
+      return {
+        ...base,
+        protein: null,
+        lines: recipe.ingredients.map(() => ({ cost: UNPRICED_LINE_COST, pantryKey: null })),
+      };
+    }
+
+    const proteinGrams = new Map<string, number>();
+    const lines = rows
+      .filter(row => !row.isOptional)
+      .map(row => {
+        const analysis = RecipeNutritionService.analyzeIngredient(row);
+        const record = analysis.foodId ? FOOD_DATABASE.find(food => food.id === analysis.foodId) : undefined;
+        const group = analysis.foodId ? PROTEIN_GROUPS[analysis.foodId] : undefined;
+        if (group && analysis.grams !== null) {
+          proteinGrams.set(group, (proteinGrams.get(group) ?? 0) + analysis.grams);
+        }
+
+        const costPer100g = record ? CATEGORY_COST_PER_100G[record.category] : undefined;
+        const cost = costPer100g !== undefined && analysis.grams !== null
+          ? (analysis.grams / 100) * costPer100g
+          : UNPRICED_LINE_COST;
+        return { cost, pantryKey: ShoppingListService.foodKey(row.food) };
+      });
+
+    const protein = Array.from(proteinGrams.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+    return { ...base, protein, lines };
+  }
+
+  /**
+   * Fills every empty slot in the range, one slot at a time in date order. Allergies, diets, the
+   * family's restrictions and avoided ingredients, and the weeknight time limit are hard
+   * constraints; variety, nutrition fit, preferred cuisines and difficulty, budget and pantry use
+   * are scored, and the best scoring recipe takes the slot.
+   */
+  public static generate(input: MealPlannerInput): MealPlanPreview {
+    const { request } = input;
+    const random = mulberry32(request.seed ?? 1);
+
+    const rowsByRecipe = new Map<number, RecipeIngredient[]>();
+    for (const row of input.ingredientRows) {
+      const rows = rowsByRecipe.get(row.recipeId) ?? [];
+      rows.push(row);
+      rowsByRecipe.set(row.recipeId, rows);
+    }
+
+    const { preferences } = input;
+    const rulesProfile = DietaryConflictService.buildRulesProfile('family', preferences.dietaryRestrictions, preferences.avoidIngredients);
+    const preferredCuisines = preferences.preferredCuisines.map(cuisine => cuisine.toLowerCase());
+
+    const excludedRecipes: MealPlanPreview["excludedRecipes"] = [];
+    const profiles: RecipeProfile[] = [];
+    for (const recipe of input.recipes) {
+      const rows = rowsByRecipe.get(recipe.id) ?? [];
+      const reason = DietaryConflictService.exclusionReason(recipe, rows, input.members, rulesProfile);
+      if (reason) {
+        excludedRecipes.push({ recipeId: recipe.id, recipeName: recipe.name, reason });
+        continue;
+      }
+      profiles.push(this.profileRecipe(recipe, rows));
+    }
+
+    const profileById = new Map(profiles.map(profile => [profile.recipe.id, profile]));
+    const uses: PlannedUse[] = input.existingMeals.map(meal => {
+      const profile = meal.recipeId ? profileById.get(meal.recipeId) : undefined;
+      return {
+        date: meal.scheduledDate,
+        recipeId: meal.recipeId,
+        cuisine: profile?.cuisine ?? null,
+        protein: profile?.protein ?? null,
+      };
+    });
+
+    const dailyCalories = input.memberTargets.length > 0
+      ? input.memberTargets.reduce((sum, targets) => sum + targets.calories, 0) / input.memberTargets.length
+      : null;
+
+    // Items marked low are treated as already used up; each item covers one planned meal
+    const pantry = new Map<string, PantryItem>();
+    if (request.usePantry) {
+      for (const item of input.pantryItems) {
+        if (!item.isLow) pantry.set(ShoppingListService.foodKey(item.name), item);
+      }
+    }
+    const expiryCutoff = addDays(parseISO(request.startDate), PANTRY_EXPIRY_DAYS);
+
+    const selectedMealTimes = input.mealTimes
+      .filter(mealTime => !request.mealTypeIds || request.mealTypeIds.includes(mealTime.id))
+      .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+
+    const occupied = new Set(input.existingMeals.map(meal => `${meal.scheduledDate}|${meal.mealTypeId}`));
+    const slots: { date: Date; scheduledDate: string; mealTime: FamilyMealTime }[] = [];
+    const start = parseISO(request.startDate);
+    const dayCount = differenceInCalendarDays(parseISO(request.endDate), start) + 1;
+    for (let index = 0; index < dayCount; index++) {
+      const date = addDays(start, index);
+      const scheduledDate = format(date, 'yyyy-MM-dd');
+      for (const mealTime of selectedMealTimes) {
+        if (MealTimeService.isSlotOn(mealTime, scheduledDate) && !occupied.has(`${scheduledDate}|${mealTime.id}`)) {
+          slots.push({ date, scheduledDate, mealTime });
+        }
+      }
+    }
+
+    const meals: PlannedMeal[] = [];
+    const unfilled: UnfilledMealSlot[] = [];
+    let remainingBudget = input.budget;
+
+    slots.forEach((slot, slotIndex) => {
+      const isWeeknight = WEEKNIGHTS.has(slot.date.getDay());
+      const candidates = profiles.filter(profile =>
+        !isWeeknight ||
+        request.weeknightMaxMinutes === null ||
+        profile.totalMinutes === null ||
+        profile.totalMinutes <= request.weeknightMaxMinutes
+      );
+      if (candidates.length === 0) {
+        unfilled.push({
+          scheduledDate: slot.scheduledDate,
+          mealTypeId: slot.mealTime.id,
+          reason: profiles.length === 0
+            ? 'No recipes fit the family\'s allergies, diets and meal planning rules'
+            : `No recipes take ${request.weeknightMaxMinutes} minutes or less`,
+        });
+        return;
+      }
+
+      const allowance = remainingBudget !== null ? Math.max(0, remainingBudget) / (slots.length - slotIndex) : null;
+      const category = slot.mealTime.category;
+      const mealName = slot.mealTime.mealName.toLowerCase();
+      const calorieTarget = dailyCalories !== null ? dailyCalories * this.calorieShare(category) : null;
+      const attendees = MealAttendanceService.defaultAttendees(
+        input.attendanceMembers, input.attendancePatterns, slot.scheduledDate, slot.mealTime.id);
+      const slotServings = attendees.length > 0 ? MealAttendanceService.servingsFor(attendees) : null;
+
+      const scored = candidates.map(profile => {
+        const servings = slotServings ?? profile.recipe.servings ?? 4;
+        const scale = servings / (profile.recipe.servings && profile.recipe.servings > 0 ? profile.recipe.servings : 1);
+        const reasons: string[] = [];
+        let score = random() * 0.3;
+
+        const lastUse = uses
+          .filter(use => use.recipeId === profile.recipe.id)
+          .map(use => Math.abs(differenceInCalendarDays(parseISO(use.date), slot.date)))
+          .sort((a, b) => a - b)[0];
+        if (lastUse !== undefined && lastUse < request.noRepeatDays) {
+          score -= REPEAT_PENALTY;
+          reasons.push(`Repeats within ${request.noRepeatDays} days; not enough other recipes fit`);
+        }
+
+        const tags = (profile.recipe.tags ?? []).map(tag => tag.toLowerCase());
+        if (tags.includes(mealName) || tags.includes(category)) {
+          score += 1;
+          reasons.push(`Tagged for ${tags.includes(mealName) ? mealName : category}`);
+        } else if (MEAL_CATEGORIES.some(other => tags.includes(other))) {
+          score -= 1.5;
+        }
+
+        if (!preferences.balanceNutrition) {
+          score += 0.5;
+        } else if (calorieTarget !== null && profile.caloriesPerServing !== null && calorieTarget > 0) {
+          const fit = 1 - Math.min(1, Math.abs(profile.caloriesPerServing - calorieTarget) / calorieTarget);
+          score += fit;
+          if (fit >= 0.8) reasons.push(`Close to the ${Math.round(calorieTarget)} cal target for ${mealName}`);
+        } else {
+          score += 0.5;
+        }
+
+        const cuisineTag = preferredCuisines.find(cuisine => cuisine === profile.cuisine || tags.includes(cuisine));
+        if (cuisineTag) {
+          score += 0.5;
+          reasons.push(`One of the family's preferred cuisines (${cuisineTag})`);
+        }
+        if (!MealPlanningPreferenceService.fitsDifficulty(profile.recipe.difficulty, preferences.preferredDifficulty)) {
+          score -= 1;
+          reasons.push(`Harder than the family's preferred ${preferences.preferredDifficulty} recipes`);
+        }
+
+        const nearby = uses.filter(use => Math.abs(differenceInCalendarDays(parseISO(use.date), slot.date)) <= ROTATION_WINDOW_DAYS);
+        if (profile.protein) {
+          const repeats = nearby.filter(use => use.protein === profile.protein).length;
+          score -= repeats * 0.5;
+          if (repeats === 0) reasons.push(`Rotates in ${profile.protein}`);
+        }
+        if (profile.cuisine) {
+          const repeats = nearby.filter(use => use.cuisine === profile.cuisine).length;
+          score -= repeats * 0.4;
+          if (repeats === 0) reasons.push(`Rotates in ${profile.cuisine} food`);
+        }
+
+        const pantryItems: PantryItem[] = [];
+        let cost = 0;
+        for (const line of profile.lines) {
+          const item = line.pantryKey ? pantry.get(line.pantryKey) : undefined;
+          if (item && !pantryItems.includes(item)) {
+            pantryItems.push(item);
+          } else if (!item) {
+            cost += line.cost * scale;
+          }
+        }
+        if (pantryItems.length > 0) {
+          const expiring = pantryItems.filter(item => item.expirationDate && item.expirationDate <= expiryCutoff);
+          score += Math.min(1, pantryItems.length * 0.3) + expiring.length * 0.3;
+          reasons.push(expiring.length > 0
+            ? `Uses ${expiring.map(item => item.name).join(', ')} before it expires`
+            : `Uses pantry ${pantryItems.map(item => item.name).join(', ')}`);
+        }
+
+        if (allowance !== null) {
+          if (cost > allowance) {
+            score -= Math.min(2, allowance > 0 ? cost / allowance - 1 : 2);
+          } else {
+            reasons.push('Within budget');
+          }
+        }
+
+        score += 0.2 * (Number(profile.recipe.rating) || 0) / 5;
+        return { profile, servings, cost, pantryItems, score, reasons };
+      });
+
+      const best = scored.sort((a, b) => b.score - a.score)[0];
+      for (const item of best.pantryItems) {
+        pantry.delete(ShoppingListService.foodKey(item.name));
+      }
+      if (remainingBudget !== null) remainingBudget -= best.cost;
+      uses.push({
+        date: slot.scheduledDate,
+        recipeId: best.profile.recipe.id,
+        cuisine: best.profile.cuisine,
+        protein: best.profile.protein,
+      });
+
+      meals.push({
+        scheduledDate: slot.scheduledDate,
+        mealTypeId: slot.mealTime.id,
+        recipeId: best.profile.recipe.id,
+        recipeName: best.profile.recipe.name,
+        servings: best.servings,
+        totalMinutes: best.profile.totalMinutes,
+        cuisine: best.profile.cuisine,
+        protein: best.profile.protein,
+        estimatedCost: this.round(best.cost),
+        pantryItems: best.pantryItems.map(item => item.name),
+        caloriesPerServing: best.profile.caloriesPerServing,
+        reasons: best.reasons,
+      });
+    });
+
+    return {
+      startDate: request.startDate,
+      endDate: request.endDate,
+      meals,
+      unfilled,
+      excludedRecipes,
+      estimatedCost: this.round(meals.reduce((sum, meal) => sum + meal.estimatedCost, 0)),
+      budget: input.budget !== null ? this.round(input.budget) : null,
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  DEFAULT_MEAL_PLANNING_RULES,
+  MEAL_PLANNING_DIFFICULTIES,
+  type MealPlanningPreferences,
+  type MealPlanningPreferenceSettings,
+  type MealPlanningPreferenceValues,
+  type MealPlanningRules,
+  type MemberDietaryProfile,
+} from "@shared/schema";
+
+export class MealPlanningPreferenceService {
+  private static values(row: MealPlanningPreferences | undefined): MealPlanningPreferenceValues {
+    return {
+      dietaryRestrictions: row?.dietaryRestrictions ?? null,
+      preferredCuisines: row?.preferredCuisines ?? null,
+      avoidIngredients: row?.avoidIngredients ?? null,
+      maxCookTime: row?.maxCookTime ?? null,
+      preferredDifficulty: row?.preferredDifficulty ?? null,
+      balanceNutrition: row?.balanceNutrition ?? null,
+      repeatFrequency: row?.repeatFrequency ?? null,
+    };
+  }
+
+  // Case-insensitive union that keeps the first spelling it sees
+  private static union(...lists: string[][]): string[] {
+    const seen = new Map<string, string>();
+    for (const item of lists.flat()) {
+      const key = item.trim().toLowerCase();
+      if (key && !seen.has(key)) seen.set(key, item.trim());
+    }
+    return Array.from(seen.values());
+  }
+
+  /**
+   * Lists add to the level above (a member who avoids mushrooms still avoids what the family
+   * avoids); every other field replaces it.
+   */
+  private static apply(base: MealPlanningRules, values: MealPlanningPreferenceValues): MealPlanningRules {
+    return {
+      dietaryRestrictions: this.union(base.dietaryRestrictions, values.dietaryRestrictions ?? []),
+      preferredCuisines: this.union(base.preferredCuisines, values.preferredCuisines ?? []),
+      avoidIngredients: this.union(base.avoidIngredients, values.avoidIngredients ?? []),
+      maxCookTime: values.maxCookTime ?? base.maxCookTime,
+      preferredDifficulty: values.preferredDifficulty ?? base.preferredDifficulty,
+      balanceNutrition: values.balanceNutrition ?? base.balanceNutrition,
+      repeatFrequency: values.repeatFrequency ?? base.repeatFrequency,
+    };
+  }
+
+  /**
+   * Combines every member's rules into the one set the family plans with, so the plan doesn't
+   * depend on who is planning: the strictest limit wins and every list is merged. Difficulty is
+   * the hardest recipe the family will take on, so the easiest preference wins.
+   */
+  private static combine(base: MealPlanningRules, members: MealPlanningRules[]): MealPlanningRules {
+    if (members.length === 0) return base;
+
+    const difficulties = members
+      .map(rules => rules.preferredDifficulty)
+      .filter(difficulty => difficulty !== "any")
+      .sort((a, b) => MEAL_PLANNING_DIFFICULTIES.indexOf(a) - MEAL_PLANNING_DIFFICULTIES.indexOf(b));
+    return {
+      dietaryRestrictions: this.union(...members.map(rules => rules.dietaryRestrictions)),
+      preferredCuisines: this.union(...members.map(rules => rules.preferredCuisines)),
+      avoidIngredients: this.union(...members.map(rules => rules.avoidIngredients)),
+      maxCookTime: Math.min(...members.map(rules => rules.maxCookTime)),
+      preferredDifficulty: difficulties[0] ?? "any",
+      balanceNutrition: members.some(rules => rules.balanceNutrition),
+      repeatFrequency: Math.max(...members.map(rules => rules.repeatFrequency)),
+    };
+  }
+
+  /**
+   * Resolves the stored rows (family defaults and member overrides) into each member's rules
+   * and the family-wide rules. Overrides of people who left the family are ignored.
+   */
+  public static resolve(
+    rows: MealPlanningPreferences[],
+    members: Pick<MemberDietaryProfile, "userId" | "name">[],
+  ): MealPlanningPreferenceSettings {
+    const familyDefaults = this.values(rows.find(row => row.userId === null));
+    const base = this.apply(DEFAULT_MEAL_PLANNING_RULES, familyDefaults);
+
+    const memberPreferences = members.map(member => {
+      const overrides = this.values(rows.find(row => row.userId === member.userId));
+      return { userId: member.userId, name: member.name, overrides, rules: this.apply(base, overrides) };
+    });
+
+    return {
+      familyDefaults,
+      members: memberPreferences,
+      rules: this.combine(base, memberPreferences.map(member => member.rules)),
+    };
+  }
+
+  // True when a recipe's difficulty is within the family's preferred difficulty
+  public static fitsDifficulty(recipeDifficulty: string | null | undefined, preferred: MealPlanningRules["preferredDifficulty"]): boolean {
+    if (preferred === "any" || !recipeDifficulty) return true;
+    const rank = MEAL_PLANNING_DIFFICULTIES.indexOf(recipeDifficulty as MealPlanningRules["preferredDifficulty"]);
+    return rank === -1 || rank <= MEAL_PLANNING_DIFFICULTIES.indexOf(preferred);
+  }
+}
@@ -0,0 +1,411 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import {
+  MEAL_CATEGORIES,
+  type FamilyMealTime,
+  type Meal,
+  type MealDish,
+  type MealPlanningRules,
+  type MealRecommendation,
+  type MealRecommendations,
+  type MemberDietaryProfile,
+  type NutrientTotals,
+  type PantryItem,
+  type Recipe,
+  type RecipeIngredient,
+  type RecipeRating,
+  type RecommendationFactor,
+} from "@shared/schema";
+import { FOOD_DATABASE } from "./foodDatabase";
+import { DietaryConflictService } from "./dietaryConflictService";
+import { MealPlannerService } from "./mealPlannerService";
+import { MealPlanningPreferenceService } from "./mealPlanningPreferenceService";
+import { RecipeNutritionService } from "./recipeNutritionService";
+import { ShoppingListService } from "./shoppingListService";
+
+// How far back cook history is read
+export const RECOMMENDATION_HISTORY_DAYS = 90;
+
+export interface MealRecommendationInput {
+  date: string;
+  mealTime: FamilyMealTime;
+  recipes: Recipe[];
+  ingredientRows: RecipeIngredient[];
+  members: MemberDietaryProfile[];
+  memberTargets: NutrientTotals[];
+  ratings: RecipeRating[]; // the family's recipes, rated by anyone
+  // Meals from RECOMMENDATION_HISTORY_DAYS before date to the repeat window after it, and their side dishes
+  meals: Meal[];
+  dishes: MealDish[];
+  pantryItems: PantryItem[];
+  preferences: MealPlanningRules;
+  servings: number | null; // family headcount; recipes fall back to their own servings
+  timeZone: string | null; // tells the hemisphere apart for seasonality
+  limit: number;
+}
+
+interface Reason {
+  text: string;
+  impact: number; // weighted effect on the score; negative reasons are warnings
+}
+
+interface FactorScore {
+  score: number; // 0-1, 0.5 is neutral
+  reasons: Reason[];
+}
+
+const FACTOR_WEIGHTS: Record<RecommendationFactor, number> = {
+  nutrition: 0.2,
+  rating: 0.2,
+  recency: 0.2,
+  pantry: 0.15,
+  season: 0.1,
+  time: 0.1,
+  preference: 0.05,
+};
+
+// Recipes tagged like this are sides, offered with a main rather than as one
+const SIDE_TAGS = ['side', 'side dish'];
+const SIDE_CANDIDATE_TAGS = [...SIDE_TAGS, 'salad', 'vegetable', 'grain'];
+const MAX_SIDES = 2;
+const MAX_REASONS = 4;
+
+// Pantry items expiring this many days after the meal still count as "expiring"
+const PANTRY_EXPIRY_DAYS = 3;
+
+// Months (1-12) each food database produce item is in season in the northern hemisphere.
+// Produce that keeps all year (onions, potatoes, bananas) is left out.
+const SEASONAL_PRODUCE: Record<string, number[]> = {
+  'tomato': [6, 7, 8, 9],
+  'cherry-tomato': [6, 7, 8, 9],
+  'bell-pepper': [7, 8, 9, 10],
+  'jalapeno': [7, 8, 9],
+  'zucchini': [6, 7, 8, 9],
+  'cucumber': [6, 7, 8, 9],
+  'corn': [7, 8, 9],
+  'peas': [4, 5, 6],
+  'green-beans': [6, 7, 8, 9],
+  'broccoli': [3, 4, 5, 9, 10, 11],
+  'cauliflower': [9, 10, 11, 12],
+  'spinach': [3, 4, 5, 9, 10, 11],
+  'kale': [10, 11, 12, 1, 2, 3],
+  'cabbage': [10, 11, 12, 1, 2, 3],
+  'lettuce': [4, 5, 6, 9, 10],
+  'sweet-potato': [9, 10, 11, 12],
+  'mushroom': [9, 10, 11],
+  'berries': [6, 7, 8],
+  'blueberries': [6, 7, 8],
+  'apple': [8, 9, 10, 11],
+  'orange': [12, 1, 2, 3],
+};
+
+const SOUTHERN_TIME_ZONES = [
+  'Australia/', 'Pacific/Auckland', 'Pacific/Chatham', 'America/Argentina/', 'America/Santiago',
+  'America/Sao_Paulo', 'America/Montevideo', 'America/Asuncion', 'Africa/Johannesburg', 'Africa/Maputo',
+  'Africa/Windhoek', 'Indian/Mauritius', 'Indian/Reunion',
+];
+
+export class MealRecommendationService {
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private static clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+  }
+
+  private static list(items: string[]): string {
+    if (items.length <= 1) return items.join('');
+    return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+  }
+
+  private static daysLabel(days: number): string {
+    if (days === 1) return 'yesterday';
+    if (days < 14) return `${days} days ago`;
+    return `${Math.round(days / 7)} weeks ago`;
+  }
+
+  // The month the produce calendar should read, shifted by six months south of the equator
+  private static seasonMonth(date: Date, timeZone: string | null): number {
+    const month = date.getMonth() + 1;
+    const southern = !!timeZone && SOUTHERN_TIME_ZONES.some(zone => zone.endsWith('/') ? timeZone.startsWith(zone) : timeZone === zone);
+    return southern ? ((month + 5) % 12) + 1 : month;
+  }
+
+  private static nutritionFactor(recipe: Recipe, calorieTarget: number | null, proteinTarget: number | null, mealName: string): FactorScore {
+    const nutrition = recipe.nutritionInfo;
+    if (!nutrition || calorieTarget === null || calorieTarget <= 0) return { score: 0.5, reasons: [] };
+
+    const calorieFit = 1 - Math.min(1, Math.abs(nutrition.calories - calorieTarget) / calorieTarget);
+    const proteinFit = proteinTarget && proteinTarget > 0 ? Math.min(1, nutrition.protein / proteinTarget) : 0.5;
+    const reasons: Reason[] = [];
+    const calories = Math.round(nutrition.calories);
+    const target = Math.round(calorieTarget);
+    if (calorieFit >= 0.85) {
+      reasons.push({ text: `${calories} cal, close to the ${target} cal ${mealName} target`, impact: 0.3 });
+    } else if (nutrition.calories > calorieTarget * 1.4) {
+      reasons.push({ text: `${calories} cal, well over the ${target} cal ${mealName} target`, impact: -0.3 });
+    }
+    if (proteinTarget && proteinFit >= 1) {
+      reasons.push({ text: `${Math.round(nutrition.protein)}g protein per serving`, impact: 0.15 });
+    }
+    return { score: 0.7 * calorieFit + 0.3 * proteinFit, reasons };
+  }
+
+  private static ratingFactor(recipe: Recipe, ratings: RecipeRating[], members: MemberDietaryProfile[]): FactorScore {
+    const memberRatings = ratings.filter(rating => members.some(member => member.userId === rating.userId));
+    if (memberRatings.length === 0) {
+      // Ratings from before members rated individually only show in the recipe's average
+      const average = Number(recipe.rating) || 0;
+      return { score: average > 0 ? this.clamp((average - 1) / 4) : 0.5, reasons: [] };
+    }
+
+    const average = memberRatings.reduce((sum, rating) => sum + rating.rating, 0) / memberRatings.length;
+    const reasons: Reason[] = [];
+    if (average >= 4) {
+      const raters = memberRatings.length === 1 ? '1 family member' : `${memberRatings.length} family members`;
+      reasons.push({ text: `Rated ${average.toFixed(1)} by ${raters}`, impact: average / 10 });
+    }
+    for (const rating of memberRatings.filter(rating => rating.rating <= 2)) {
+      const name = members.find(member => member.userId === rating.userId)?.name ?? 'A family member';
+      reasons.push({ text: `${name} rated it ${rating.rating}/5`, impact: -0.3 });
+    }
+    return { score: (average - 1) / 4, reasons };
+  }
+
+  private static recencyFactor(recipe: Recipe, date: Date, cookDates: string[], repeatDays: number): FactorScore {
+    const past = cookDates
+      .filter(cookDate => parseISO(cookDate) < date)
+      .map(cookDate => differenceInCalendarDays(date, parseISO(cookDate)))
+      .sort((a, b) => a - b)[0];
+    const upcoming = cookDates
+      .filter(cookDate => parseISO(cookDate) >= date)
+      .sort()[0];
+
+    if (upcoming !== undefined && differenceInCalendarDays(parseISO(upcoming), date) < repeatDays) {
+      const label = upcoming === format(date, 'yyyy-MM-dd') ? 'the same day' : format(parseISO(upcoming), 'EEEE');
+      return { score: 0, reasons: [{ text: `Already planned for ${label}`, impact: -0.5 }] };
+    }
+    if (past !== undefined && past < repeatDays) {
+      return { score: 0, reasons: [{ text: `Cooked ${this.daysLabel(past)}`, impact: -0.5 }] };
+    }
+    if (past === undefined) {
+      const isNew = !!recipe.createdAt && differenceInCalendarDays(date, recipe.createdAt) <= RECOMMENDATION_HISTORY_DAYS;
+      return {
+        score: 0.8,
+        reasons: [{
+          text: isNew ? 'New recipe, not cooked yet' : `Not cooked in over ${Math.round(RECOMMENDATION_HISTORY_DAYS / 30)} months`,
+          impact: 0.2,
+        }],
+      };
+    }
+    return {
+      score: Math.min(1, past / 28),
+      reasons: past >= 14 ? [{ text: `Not cooked in ${Math.round(past / 7)} weeks`, impact: past / 100 }] : [],
+    };
+  }
+
+  private static pantryFactor(rows: RecipeIngredient[], pantry: Map<string, PantryItem>, date: Date): FactorScore {
+    const expiryCutoff = addDays(date, PANTRY_EXPIRY_DAYS);
+    const used: PantryItem[] = [];
+    for (const row of rows.filter(row => !row.isOptional)) {
+      const item = pantry.get(ShoppingListService.foodKey(row.food));
+      if (item && !used.includes(item)) used.push(item);
+    }
+    if (used.length === 0) return { score: 0, reasons: [] };
+
+    const expiring = used.filter(item => item.expirationDate && item.expirationDate <= expiryCutoff);
+    const reasons: Reason[] = expiring.map(item => {
+      const expiresOn = item.expirationDate as Date;
+      const label = differenceInCalendarDays(expiresOn, date) <= 6 ? format(expiresOn, 'EEEE') : format(expiresOn, 'MMM d');
+      return { text: `Uses ${item.name} expiring ${label}`, impact: 0.5 };
+    });
+    const others = used.filter(item => !expiring.includes(item));
+    if (others.length > 0) {
+      reasons.push({ text: `Uses ${this.list(others.map(item => item.name))} from the pantry`, impact: 0.1 * others.length });
+    }
+    return { score: this.clamp(used.length * 0.25 + expiring.length * 0.35), reasons };
+  }
+
+  private static seasonFactor(rows: RecipeIngredient[], month: number): FactorScore {
+    const seasonal = new Map<string, boolean>();
+    for (const row of rows) {
+      const foodId = RecipeNutritionService.analyzeIngredient(row).foodId;
+      if (foodId && SEASONAL_PRODUCE[foodId]) seasonal.set(foodId, SEASONAL_PRODUCE[foodId].includes(month));
+    }
+    if (seasonal.size === 0) return { score: 0.5, reasons: [] };
+
+    const inSeason = Array.from(seasonal.keys()).filter(foodId => seasonal.get(foodId));
+    const names = inSeason.map(foodId => FOOD_DATABASE.find(food => food.id === foodId)?.name ?? foodId);
+    return {
+      score: 0.3 + 0.7 * (inSeason.length / seasonal.size),
+      reasons: names.length > 0
+        ? [{ text: `${this.list(names).replace(/^./, letter => letter.toUpperCase())} in season`, impact: 0.1 * names.length }]
+        : [],
+    };
+  }
+
+  private static timeFactor(totalMinutes: number | null, maxMinutes: number): FactorScore {
+    if (totalMinutes === null) return { score: 0.5, reasons: [] };
+    if (totalMinutes > maxMinutes) {
+      return { score: 0, reasons: [{ text: `Takes ${totalMinutes} minutes, over the family's ${maxMinutes} minute limit`, impact: -0.4 }] };
+    }
+    return {
+      score: 1 - 0.6 * (totalMinutes / maxMinutes),
+      reasons: totalMinutes <= Math.min(30, maxMinutes / 2) ? [{ text: `Ready in ${totalMinutes} minutes`, impact: 0.15 }] : [],
+    };
+  }
+
+  private static preferenceFactor(recipe: Recipe, mealTime: FamilyMealTime, preferences: MealPlanningRules): FactorScore {
+    const tags = (recipe.tags ?? []).map(tag => tag.toLowerCase());
+    const mealName = mealTime.mealName.toLowerCase();
+    const reasons: Reason[] = [];
+    let score = 0.5;
+
+    const cuisine = preferences.preferredCuisines
+      .map(preferred => preferred.toLowerCase())
+      .find(preferred => preferred === MealPlannerService.detectCuisine(recipe) || tags.includes(preferred));
+    if (cuisine) {
+      score += 0.3;
+      reasons.push({ text: `One of the family's preferred cuisines (${cuisine})`, impact: 0.2 });
+    }
+    if (tags.includes(mealName) || tags.includes(mealTime.category)) {
+      score += 0.2;
+      reasons.push({ text: `Tagged for ${tags.includes(mealName) ? mealName : mealTime.category}`, impact: 0.1 });
+    } else if (MEAL_CATEGORIES.some(category => tags.includes(category))) {
+      score -= 0.3;
+    }
+    if (!MealPlanningPreferenceService.fitsDifficulty(recipe.difficulty, preferences.preferredDifficulty)) {
+      score -= 0.3;
+      reasons.push({ text: `Harder than the family's preferred ${preferences.preferredDifficulty} recipes`, impact: -0.2 });
+    }
+    return { score: this.clamp(score), reasons };
+  }
+
+  /**
+   * Ranks the family's recipes for one meal slot. Allergies, diets and the family's restrictions
+   * and avoided ingredients exclude recipes; computed nutrition against the members' targets,
+   * member ratings, how recently it was cooked, pantry overlap, seasonal produce, prep time and
+   * cuisine/difficulty preferences are weighted into a 0-100 score, with the reasons behind it.
+   */
+  public static recommend(input: MealRecommendationInput): MealRecommendations {
+    const { preferences, mealTime } = input;
+    const date = parseISO(input.date);
+    const mealName = mealTime.mealName.toLowerCase();
+    const weights = { ...FACTOR_WEIGHTS, nutrition: preferences.balanceNutrition ? FACTOR_WEIGHTS.nutrition : 0 };
+    const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+
+    const rowsByRecipe = new Map<number, RecipeIngredient[]>();
+    for (const row of input.ingredientRows) {
+      const rows = rowsByRecipe.get(row.recipeId) ?? [];
+      rows.push(row);
+      rowsByRecipe.set(row.recipeId, rows);
+    }
+
+    // Every date each recipe was (or will be) served, as the main or a side
+    const mealsById = new Map(input.meals.map(meal => [meal.id, meal]));
+    const cookDates = new Map<number, string[]>();
+    const addCookDate = (recipeId: number | null, scheduledDate: string) => {
+      if (recipeId === null) return;
+      cookDates.set(recipeId, [...(cookDates.get(recipeId) ?? []), scheduledDate]);
+    };
+    for (const meal of input.meals) {
+      // Leftovers reuse another meal's cooking, so they don't count as cooking it again
+      if (meal.leftoverOfMealId === null) addCookDate(meal.recipeId, meal.scheduledDate);
+    }
+    for (const dish of input.dishes) {
+      const meal = mealsById.get(dish.mealId);
+      if (meal && meal.leftoverOfMealId === null) addCookDate(dish.recipeId, meal.scheduledDate);
+    }
+
+    // Items marked low or expired by the meal date can't be cooked with
+    const pantry = new Map<string, PantryItem>();
+    for (const item of input.pantryItems) {
+      if (item.isLow || (item.expirationDate && differenceInCalendarDays(item.expirationDate, date) < 0)) continue;
+      pantry.set(ShoppingListService.foodKey(item.name), item);
+    }
+
+    const share = MealPlannerService.calorieShare(mealTime.category);
+    const averageTarget = (nutrient: keyof NutrientTotals) => input.memberTargets.length > 0
+      ? input.memberTargets.reduce((sum, targets) => sum + targets[nutrient], 0) / input.memberTargets.length * share
+      : null;
+    const calorieTarget = averageTarget('calories');
+    const proteinTarget = mealTime.category === 'snack' ? null : averageTarget('protein');
+    const month = this.seasonMonth(date, input.timeZone);
+    const rulesProfile = DietaryConflictService.buildRulesProfile('family', preferences.dietaryRestrictions, preferences.avoidIngredients);
+
+    const excludedRecipes: MealRecommendations["excludedRecipes"] = [];
+    const scored: { recipe: Recipe; recommendation: MealRecommendation; isSide: boolean; canBeSide: boolean }[] = [];
+    for (const recipe of input.recipes) {
+      const rows = rowsByRecipe.get(recipe.id) ?? [];
+      const reason = DietaryConflictService.exclusionReason(recipe, rows, input.members, rulesProfile);
+      if (reason) {
+        excludedRecipes.push({ recipeId: recipe.id, recipeName: recipe.name, reason });
+        continue;
+      }
+
+      const prepTime = recipe.prepTime ?? null;
+      const cookTime = recipe.cookTime ?? null;
+      const totalMinutes = prepTime === null && cookTime === null ? null : (prepTime ?? 0) + (cookTime ?? 0);
+      const factorScores: Record<RecommendationFactor, FactorScore> = {
+        nutrition: this.nutritionFactor(recipe, calorieTarget, proteinTarget, mealName),
+        rating: this.ratingFactor(recipe, input.ratings.filter(rating => rating.recipeId === recipe.id), input.members),
+        recency: this.recencyFactor(recipe, date, cookDates.get(recipe.id) ?? [], preferences.repeatFrequency),
+        pantry: this.pantryFactor(rows, pantry, date),
+        season: this.seasonFactor(rows, month),
+        time: this.timeFactor(totalMinutes, preferences.maxCookTime),
+        preference: this.preferenceFactor(recipe, mealTime, preferences),
+      };
+
+      const factors = {} as Record<RecommendationFactor, number>;
+      const reasons: Reason[] = [];
+      let score = 0;
+      for (const factor of Object.keys(factorScores) as RecommendationFactor[]) {
+        factors[factor] = this.round(factorScores[factor].score);
+        score += weights[factor] * factorScores[factor].score;
+        if (weights[factor] > 0) reasons.push(...factorScores[factor].reasons);
+      }
+
+      const tags = (recipe.tags ?? []).map(tag => tag.toLowerCase());
+      scored.push({
+        recipe,
+        isSide: SIDE_TAGS.some(tag => tags.includes(tag)),
+        canBeSide: SIDE_CANDIDATE_TAGS.some(tag => tags.includes(tag)),
+        recommendation: {
+          recipeId: recipe.id,
+          recipeName: recipe.name,
+          score: Math.round((score / totalWeight) * 100),
+          factors,
+          reasons: reasons
+            // Strongest first, with warnings after the reasons in favor
+            .sort((a, b) => Number(b.impact > 0) - Number(a.impact > 0) || Math.abs(b.impact) - Math.abs(a.impact))
+            .slice(0, MAX_REASONS)
+            .map(reason => reason.text),
+          totalMinutes,
+          caloriesPerServing: recipe.nutritionInfo?.calories ?? null,
+          servings: input.servings ?? recipe.servings ?? 4,
+          sides: [],
+        },
+      });
+    }
+
+    scored.sort((a, b) => b.recommendation.score - a.recommendation.score);
+    const mains = scored.filter(entry => !entry.isSide);
+    const sides = scored.filter(entry => entry.canBeSide && entry.recommendation.factors.recency > 0);
+    const withSides = mealTime.category === 'lunch' || mealTime.category === 'dinner';
+
+    return {
+      date: input.date,
+      mealTypeId: mealTime.id,
+      recommendations: (mains.length > 0 ? mains : scored).slice(0, input.limit).map(({ recipe, recommendation }) => ({
+        ...recommendation,
+        sides: withSides
+          ? sides
+            .filter(side => side.recipe.id !== recipe.id)
+            .slice(0, MAX_SIDES)
+            .map(side => ({ recipeId: side.recipe.id, recipeName: side.recipe.name }))
+          : [],
+      })),
+      excludedRecipes,
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfWeek } from "date-fns";
+import { RECURRENCE_WEEKDAYS, type InsertMeal, type MealRecurrence } from "@shared/schema";
+
+type RecurrencePattern = Pick<
+  MealRecurrence,
+  "frequency" | "interval" | "byDay" | "startDate" | "untilDate" | "exceptionDates"
+>;
+
+export class MealRecurrenceService {
+  /**
+   * Dates between rangeStart and rangeEnd (inclusive) on which the rule produces a meal.
+   * Weekly intervals count calendar weeks from the week the rule starts in, so "every 2
+   * weeks on Tuesday and Friday" keeps both days in the same on-week.
+   */
+  public static occurrences(rule: RecurrencePattern, rangeStart: string, rangeEnd: string): string[] {
+    const first = rangeStart > rule.startDate ? rangeStart : rule.startDate;
+    const last = rule.untilDate && rule.untilDate < rangeEnd ? rule.untilDate : rangeEnd;
+    if (first > last) return [];
+
+    const start = parseISO(rule.startDate);
+    const startWeek = startOfWeek(start);
+    const interval = Math.max(1, rule.interval);
+    const exceptions = new Set(rule.exceptionDates ?? []);
+    const days = new Set(rule.byDay ?? []);
+
+    const dates: string[] = [];
+    const end = parseISO(last);
+    for (let day = parseISO(first); day <= end; day = addDays(day, 1)) {
+      const date = format(day, 'yyyy-MM-dd');
+      if (exceptions.has(date)) continue;
+
+      if (rule.frequency === "daily") {
+        if (differenceInCalendarDays(day, start) % interval === 0) dates.push(date);
+        continue;
+      }
+
+      const weeks = Math.floor(differenceInCalendarDays(startOfWeek(day), startWeek) / 7);
+      // A weekly rule without days repeats on the weekday it starts on
+      const onDay = days.size > 0 ? days.has(RECURRENCE_WEEKDAYS[day.getDay()]) : day.getDay() === start.getDay();
+      if (onDay && weeks % interval === 0) dates.push(date);
+    }
+    return dates;
+  }
+
+  public static toMeal(rule: MealRecurrence, date: string): InsertMeal {
+    return {
+      familyId: rule.familyId,
+      recipeId: rule.recipeId,
+      mealTypeId: rule.mealTypeId,
+      scheduledDate: date,
+      servings: rule.servings,
+      notes: rule.notes,
+      status: 'planned',
+      recurrenceId: rule.id,
+      recurrenceDate: date,
+      createdBy: rule.createdBy,
+    };
+  }
+
+  // RRULE text for display and calendar export, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,FR"
+  public static toRRule(rule: RecurrencePattern): string {
+    const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.frequency === "weekly" && rule.byDay && rule.byDay.length > 0) {
+      const ordered = RECURRENCE_WEEKDAYS.filter(day => rule.byDay!.includes(day));
+      parts.push(`BYDAY=${ordered.join(',')}`);
+    }
+    if (rule.untilDate) parts.push(`UNTIL=${rule.untilDate.replace(/-/g, '')}`);
+    return parts.join(';');
+  }
+}
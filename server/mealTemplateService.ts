@@ -0,0 +1,63 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfWeek } from "date-fns";
+import type {
+  InsertMeal,
+  InsertMealPlanTemplateEntry,
+  Meal,
+  MealPlanTemplateWithEntries,
+  Recipe,
+} from "@shared/schema";
+
+export class MealTemplateService {
+  // Templates line up with calendar weeks, which start on Sunday
+  public static weekStart(date: string): string {
+    return format(startOfWeek(parseISO(date)), 'yyyy-MM-dd');
+  }
+
+  public static weekEnd(weekStart: string, weeks: number): string {
+    return format(addDays(parseISO(weekStart), weeks * 7 - 1), 'yyyy-MM-dd');
+  }
+
+  /**
+   * Turns the meals of one or more calendar weeks into template entries. Leftover meals are
+   * left out because they only make sense next to the meal that cooked them.
+   */
+  public static entriesFromMeals(meals: Meal[], recipes: Recipe[], weekStart: string): InsertMealPlanTemplateEntry[] {
+    const recipeNames = new Map(recipes.map(recipe => [recipe.id, recipe.name]));
+    return meals
+      .filter(meal => meal.leftoverOfMealId === null)
+      .map(meal => {
+        const offset = differenceInCalendarDays(parseISO(meal.scheduledDate), parseISO(weekStart));
+        return {
+          weekIndex: Math.floor(offset / 7),
+          dayOfWeek: offset % 7,
+          mealTypeId: meal.mealTypeId,
+          recipeId: meal.recipeId,
+          recipeName: meal.recipeId !== null ? recipeNames.get(meal.recipeId) ?? null : null,
+          servings: meal.servings,
+          notes: meal.notes,
+        };
+      })
+      .sort((a, b) => a.weekIndex - b.weekIndex || a.dayOfWeek - b.dayOfWeek || a.mealTypeId - b.mealTypeId);
+  }
+
+  // Entries whose recipe has since been deleted and that carry no notes have nothing left to plan
+  public static toMeals(
+    template: MealPlanTemplateWithEntries,
+    weekStart: string,
+    familyId: number,
+    createdBy: string,
+  ): InsertMeal[] {
+    return template.entries
+      .filter(entry => entry.recipeId !== null || entry.notes)
+      .map(entry => ({
+        familyId,
+        recipeId: entry.recipeId,
+        mealTypeId: entry.mealTypeId,
+        scheduledDate: format(addDays(parseISO(weekStart), entry.weekIndex * 7 + entry.dayOfWeek), 'yyyy-MM-dd'),
+        servings: entry.servings,
+        notes: entry.notes,
+        status: 'planned',
+        createdBy,
+      }));
+  }
+}
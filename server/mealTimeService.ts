@@ -0,0 +1,22 @@
+import { format, parseISO } from "date-fns";
+import type { FamilyMealTime } from "@shared/schema";
+
+export class MealTimeService {
+  // daysOfWeek holds lowercase day names; a meal time without days is served every day
+  public static servesOn(mealTime: Pick<FamilyMealTime, "daysOfWeek">, date: string): boolean {
+    if (!mealTime.daysOfWeek || mealTime.daysOfWeek.length === 0) return true;
+    return mealTime.daysOfWeek.includes(format(parseISO(date), 'EEEE').toLowerCase());
+  }
+
+  public static isSlotOn(mealTime: FamilyMealTime, date: string): boolean {
+    return mealTime.isActive !== false && this.servesOn(mealTime, date);
+  }
+
+  // Finds the meal time in another family that plays the same part: same name, else same category
+  public static match(mealTime: Pick<FamilyMealTime, "mealName" | "category">, candidates: FamilyMealTime[]): FamilyMealTime | undefined {
+    const name = mealTime.mealName.trim().toLowerCase();
+    const active = candidates.filter(candidate => candidate.isActive !== false);
+    return active.find(candidate => candidate.mealName.trim().toLowerCase() === name)
+      ?? active.find(candidate => candidate.category === mealTime.category);
+  }
+}
@@ -0,0 +1,244 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type {
+  DailyNutrition,
+  FamilyMealTime,
+  FamilyMembership,
+  FamilyMemberNutrition,
+  MealTypeNutrition,
+  NutrientTotals,
+  NutritionAnalytics,
+  NutritionGoal,
+  NutritionFlag,
+  NutritionLog,
+} from "@shared/schema";
+import { NutritionGoalService } from "./nutritionGoalService";
+
+const NUTRIENT_KEYS: (keyof NutrientTotals)[] = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+// Adherence is scored on energy and macros; fiber, sugar and sodium are shown but not scored
+const ADHERENCE_KEYS: (keyof NutrientTotals)[] = ['calories', 'protein', 'carbs', 'fat'];
+
+const ON_TARGET_TOLERANCE = 0.1;
+
+export const ROLLING_WINDOW_DAYS = 30;
+
+// Share of a target below or above which a day counts against the member
+const FLAG_THRESHOLDS: Record<NutritionFlag["nutrient"], { under: number; over: number }> = {
+  protein: { under: 0.8, over: 1.5 },
+  sodium: { under: 0.5, over: 1.0 }, // the sodium target is an upper limit
+};
+
+// A pattern needs enough logged days, most of them on the same side of the target
+const MIN_FLAG_DAYS = 3;
+const FLAG_DAY_SHARE = 0.6;
+
+export class NutritionAnalyticsService {
+  private static emptyTotals(): NutrientTotals {
+    return { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0 };
+  }
+
+  private static round(totals: NutrientTotals): NutrientTotals {
+    const rounded = this.emptyTotals();
+    for (const key of NUTRIENT_KEYS) {
+      rounded[key] = Math.round(totals[key] * 10) / 10;
+    }
+    return rounded;
+  }
+
+  private static addLog(totals: NutrientTotals, log: NutritionLog) {
+    totals.calories += log.calories || 0;
+    totals.protein += Number(log.protein) || 0;
+    totals.carbs += Number(log.carbs) || 0;
+    totals.fat += Number(log.fat) || 0;
+    totals.fiber += Number(log.fiber) || 0;
+    totals.sugar += Number(log.sugar) || 0;
+    totals.sodium += Number(log.sodium) || 0;
+  }
+
+  private static average(totals: NutrientTotals[]): NutrientTotals {
+    const sum = this.emptyTotals();
+    if (totals.length === 0) return sum;
+    for (const day of totals) {
+      for (const key of NUTRIENT_KEYS) sum[key] += day[key];
+    }
+    for (const key of NUTRIENT_KEYS) sum[key] /= totals.length;
+    return sum;
+  }
+
+  // Goals are versioned by date, so each day is scored against the goal in effect then
+  private static goalForDate(goals: NutritionGoal[], date: string): NutritionGoal | undefined {
+    return goals
+      .filter(goal => goal.effectiveFrom <= date && (goal.effectiveTo === null || goal.effectiveTo > date))
+      .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+  }
+
+  /**
+   * Scores a day 0-100: each scored nutrient loses points in proportion to how far it
+   * landed from its target, in either direction.
+   */
+  public static adherence(totals: NutrientTotals, targets: NutrientTotals): number {
+    const scores = ADHERENCE_KEYS
+      .filter(key => targets[key] > 0)
+      .map(key => Math.max(0, 1 - Math.abs(totals[key] - targets[key]) / targets[key]));
+    if (scores.length === 0) return 0;
+    return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100);
+  }
+
+  /**
+   * Aggregates logs into per-day totals for startDate..endDate (inclusive). Logs from up to
+   * 30 days before startDate may be passed in so the first days have full rolling windows.
+   */
+  public static summarize(
+    logs: NutritionLog[],
+    goals: NutritionGoal[],
+    mealTimes: FamilyMealTime[],
+    startDate: string,
+    endDate: string,
+  ): NutritionAnalytics {
+    const totalsByDate = new Map<string, { totals: NutrientTotals; logCount: number }>();
+    for (const log of logs) {
+      const entry = totalsByDate.get(log.loggedDate) ?? { totals: this.emptyTotals(), logCount: 0 };
+      this.addLog(entry.totals, log);
+      entry.logCount++;
+      totalsByDate.set(log.loggedDate, entry);
+    }
+
+    // Rolling averages only count days that have logs, so a day nobody logged is not read as fasting
+    const rollingAverage = (date: Date, windowDays: number) => {
+      const loggedDays: NutrientTotals[] = [];
+      for (let offset = windowDays - 1; offset >= 0; offset--) {
+        const entry = totalsByDate.get(format(addDays(date, -offset), 'yyyy-MM-dd'));
+        if (entry) loggedDays.push(entry.totals);
+      }
+      return this.round(this.average(loggedDays));
+    };
+
+    const start = parseISO(startDate);
+    const dayCount = differenceInCalendarDays(parseISO(endDate), start) + 1;
+    const days: DailyNutrition[] = [];
+    for (let index = 0; index < dayCount; index++) {
+      const day = addDays(start, index);
+      const date = format(day, 'yyyy-MM-dd');
+      const entry = totalsByDate.get(date);
+      const targets = NutritionGoalService.toTargets(this.goalForDate(goals, date));
+      const totals = entry ? entry.totals : this.emptyTotals();
+
+      days.push({
+        date,
+        totals: this.round(totals),
+        targets,
+        logCount: entry?.logCount ?? 0,
+        adherence: entry ? this.adherence(totals, targets) : null,
+        rolling7: rollingAverage(day, 7),
+        rolling30: rollingAverage(day, ROLLING_WINDOW_DAYS),
+      });
+    }
+
+    const loggedDays = days.filter(day => day.logCount > 0);
+    const daysOnTarget = loggedDays.filter(day =>
+      day.targets.calories > 0 &&
+      Math.abs(day.totals.calories - day.targets.calories) / day.targets.calories <= ON_TARGET_TOLERANCE
+    ).length;
+
+    return {
+      startDate,
+      endDate,
+      days,
+      averages: this.round(this.average(loggedDays.map(day => day.totals))),
+      mealTypes: this.breakdownByMealType(
+        logs.filter(log => log.loggedDate >= startDate && log.loggedDate <= endDate),
+        mealTimes,
+        loggedDays.length,
+      ),
+      adherence: {
+        average: loggedDays.length > 0
+          ? Math.round(loggedDays.reduce((sum, day) => sum + (day.adherence ?? 0), 0) / loggedDays.length)
+          : null,
+        daysLogged: loggedDays.length,
+        daysOnTarget,
+      },
+    };
+  }
+
+  /**
+   * Flags nutrients a member is consistently under or over on. Only logged days count, so
+   * a member who rarely logs is not flagged for the days they skipped.
+   */
+  public static flagNutrients(analytics: NutritionAnalytics): NutritionFlag[] {
+    const loggedDays = analytics.days.filter(day => day.logCount > 0);
+    if (loggedDays.length < MIN_FLAG_DAYS) return [];
+
+    const flags: NutritionFlag[] = [];
+    for (const nutrient of Object.keys(FLAG_THRESHOLDS) as NutritionFlag["nutrient"][]) {
+      const ratios = loggedDays
+        .filter(day => day.targets[nutrient] > 0)
+        .map(day => day.totals[nutrient] / day.targets[nutrient]);
+      if (ratios.length < MIN_FLAG_DAYS) continue;
+
+      const averagePercent = Math.round((ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length) * 100);
+      const thresholds = FLAG_THRESHOLDS[nutrient];
+      const daysUnder = ratios.filter(ratio => ratio < thresholds.under).length;
+      const daysOver = ratios.filter(ratio => ratio > thresholds.over).length;
+
+      if (daysUnder / ratios.length >= FLAG_DAY_SHARE) {
+        flags.push({ nutrient, direction: "under", daysFlagged: daysUnder, daysLogged: ratios.length, averagePercent });
+      } else if (daysOver / ratios.length >= FLAG_DAY_SHARE) {
+        flags.push({ nutrient, direction: "over", daysFlagged: daysOver, daysLogged: ratios.length, averagePercent });
+      }
+    }
+    return flags;
+  }
+
+  public static summarizeMember(
+    member: FamilyMembership,
+    logs: NutritionLog[],
+    goals: NutritionGoal[],
+    mealTimes: FamilyMealTime[],
+    startDate: string,
+    endDate: string,
+  ): FamilyMemberNutrition {
+    const analytics = this.summarize(logs, goals, mealTimes, startDate, endDate);
+    return {
+      userId: member.userId,
+      displayName: member.displayName,
+      memberImageUrl: member.memberImageUrl,
+      role: member.role,
+      targets: analytics.days[analytics.days.length - 1]?.targets ?? NutritionGoalService.toTargets(undefined),
+      averages: analytics.averages,
+      adherence: analytics.adherence,
+      flags: this.flagNutrients(analytics),
+    };
+  }
+
+  // Logs are grouped by the family meal time they were logged against
+  private static breakdownByMealType(logs: NutritionLog[], mealTimes: FamilyMealTime[], daysLogged: number): MealTypeNutrition[] {
+    const groups = new Map<number | null, { totals: NutrientTotals; logCount: number }>();
+    for (const log of logs) {
+      const group = groups.get(log.mealTypeId) ?? { totals: this.emptyTotals(), logCount: 0 };
+      this.addLog(group.totals, log);
+      group.logCount++;
+      groups.set(log.mealTypeId, group);
+    }
+
+    const totalCalories = Array.from(groups.values()).reduce((sum, group) => sum + group.totals.calories, 0);
+    const orderOf = (mealTypeId: number | null) =>
+      mealTimes.find(mealTime => mealTime.id === mealTypeId)?.sortOrder ?? Number.MAX_SAFE_INTEGER;
+
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => orderOf(a) - orderOf(b))
+      .map(([mealTypeId, group]) => {
+        const dailyAverage = this.emptyTotals();
+        for (const key of NUTRIENT_KEYS) {
+          dailyAverage[key] = daysLogged > 0 ? group.totals[key] / daysLogged : 0;
+        }
+        return {
+          mealTypeId,
+          mealTypeName: mealTimes.find(mealTime => mealTime.id === mealTypeId)?.mealName ?? 'Other',
+          totals: this.round(group.totals),
+          dailyAverage: this.round(dailyAverage),
+          calorieShare: totalCalories > 0 ? Math.round((group.totals.calories / totalCalories) * 100) : 0,
+          logCount: group.logCount,
+        };
+      });
+  }
+}
@@ -0,0 +1,113 @@
+import type {
+  InsertNutritionGoal,
+  NutrientTotals,
+  NutritionGoal,
+  NutritionGoalProfile,
+} from "@shared/schema";
+
+// Used until a member sets their own goals
+export const DEFAULT_NUTRITION_GOALS: NutrientTotals = {
+  calories: 2000,
+  protein: 120,
+  carbs: 250,
+  fat: 65,
+  fiber: 28,
+  sugar: 50,
+  sodium: 2300,
+};
+
+const ACTIVITY_MULTIPLIERS: Record<NutritionGoalProfile["activityLevel"], number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9,
+};
+
+const CALORIE_ADJUSTMENTS: Record<NutritionGoalProfile["goalType"], number> = {
+  lose: -500,
+  maintain: 0,
+  gain: 300,
+};
+
+// Grams of protein per kg of body weight
+const PROTEIN_PER_KG: Record<NutritionGoalProfile["goalType"], number> = {
+  lose: 1.6,
+  maintain: 1.2,
+  gain: 1.8,
+};
+
+// Calorie floors so a weight-loss goal never drops below a safe intake
+const MINIMUM_CALORIES: Record<NutritionGoalProfile["sex"], number> = {
+  male: 1500,
+  female: 1200,
+};
+
+export class NutritionGoalService {
+  // Mifflin-St Jeor resting energy expenditure
+  public static calculateBmr(profile: NutritionGoalProfile): number {
+    const base = 10 * profile.weightKg + 6.25 * profile.heightCm - 5 * profile.age;
+    return profile.sex === "male" ? base + 5 : base - 161;
+  }
+
+  public static calculateTargets(profile: NutritionGoalProfile): NutrientTotals {
+    const maintenance = this.calculateBmr(profile) * ACTIVITY_MULTIPLIERS[profile.activityLevel];
+    const calories = Math.round(
+      Math.max(MINIMUM_CALORIES[profile.sex], maintenance + CALORIE_ADJUSTMENTS[profile.goalType]),
+    );
+
+    // Protein from body weight, fat at 30% of energy, carbs fill the rest
+    const protein = Math.round(profile.weightKg * PROTEIN_PER_KG[profile.goalType]);
+    const fat = Math.round((calories * 0.3) / 9);
+    const carbs = Math.max(0, Math.round((calories - protein * 4 - fat * 9) / 4));
+
+    return {
+      calories,
+      protein,
+      carbs,
+      fat,
+      fiber: Math.round((calories / 1000) * 14),
+      sugar: Math.round((calories * 0.1) / 4),
+      sodium: 2300,
+    };
+  }
+
+  // Column values for a calculated goal, including the profile it came from
+  public static toGoalValues(profile: NutritionGoalProfile): Pick<
+    InsertNutritionGoal,
+    "calories" | "protein" | "carbs" | "fat" | "fiber" | "sugar" | "sodium" | "source"
+    | "age" | "sex" | "heightCm" | "weightKg" | "activityLevel" | "goalType"
+  > {
+    const targets = this.calculateTargets(profile);
+    return {
+      calories: targets.calories,
+      protein: targets.protein.toFixed(2),
+      carbs: targets.carbs.toFixed(2),
+      fat: targets.fat.toFixed(2),
+      fiber: targets.fiber.toFixed(2),
+      sugar: targets.sugar.toFixed(2),
+      sodium: targets.sodium.toFixed(2),
+      source: "calculated",
+      age: profile.age,
+      sex: profile.sex,
+      heightCm: profile.heightCm.toFixed(1),
+      weightKg: profile.weightKg.toFixed(1),
+      activityLevel: profile.activityLevel,
+      goalType: profile.goalType,
+    };
+  }
+
+  // Numeric targets for a stored goal; optional targets fall back to the defaults
+  public static toTargets(goal: NutritionGoal | undefined | null): NutrientTotals {
+    if (!goal) return { ...DEFAULT_NUTRITION_GOALS };
+    return {
+      calories: goal.calories,
+      protein: Number(goal.protein),
+      carbs: Number(goal.carbs),
+      fat: Number(goal.fat),
+      fiber: goal.fiber !== null ? Number(goal.fiber) : DEFAULT_NUTRITION_GOALS.fiber,
+      sugar: goal.sugar !== null ? Number(goal.sugar) : DEFAULT_NUTRITION_GOALS.sugar,
+      sodium: goal.sodium !== null ? Number(goal.sodium) : DEFAULT_NUTRITION_GOALS.sodium,
+    };
+  }
+}
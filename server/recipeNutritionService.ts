@@ -0,0 +1,273 @@
+import type {
+  Meal,
+  MealDish,
+  Recipe,
+  RecipeIngredient,
+  InsertNutritionLog,
+  NutrientTotals,
+  IngredientNutrition,
+  NutritionInfo,
+} from "@shared/schema";
+import { convertUnits, getDensity, getItemWeight, getUnitDefinition, isPlainCount } from "@shared/units";
+import { FOOD_DATABASE, type FoodRecord } from "./foodDatabase";
+
+export interface MemberPortion {
+  userId: string;
+  portion: number; // servings eaten; 0 means the member skipped the meal
+}
+
+export interface FoodMatch {
+  food: FoodRecord;
+  confidence: number;
+}
+
+// Words that describe how an ingredient is bought or cut rather than what it is
+const DESCRIPTOR_WORDS = new Set([
+  'fresh', 'freshly', 'large', 'medium', 'small', 'organic', 'boneless', 'skinless', 'raw', 'ripe',
+  'extra', 'virgin', 'finely', 'roughly', 'thinly', 'chopped', 'minced', 'sliced', 'packed', 'lightly',
+  'unsalted', 'salted', 'low', 'sodium', 'reduced', 'fat', 'free', 'lean', 'whole', 'good', 'quality',
+  'of', 'and', 'or', 'the', 'for', 'a', 'about',
+]);
+
+// Fallback weights when neither the food record nor the shared tables know a count unit
+const DEFAULT_COUNT_WEIGHTS: Record<string, number> = {
+  each: 100,
+  can: 400,
+  jar: 450,
+  bottle: 500,
+  package: 450,
+  bunch: 100,
+  head: 500,
+  handful: 30,
+  sprig: 1,
+  slice: 30,
+  piece: 50,
+  fillet: 170,
+  stalk: 40,
+  clove: 5,
+  stick: 113,
+};
+
+const MATCH_THRESHOLD = 0.35;
+
+const NUTRIENT_KEYS: (keyof NutrientTotals)[] = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+export class RecipeNutritionService {
+  private static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z\s'-]/g, ' ')
+      .split(/[\s-]+/)
+      .filter(word => word && !DESCRIPTOR_WORDS.has(word))
+      .map(word => {
+        if (word.length > 3 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+        if (word.length > 3 && /(oes|ches|shes|ses|xes)$/.test(word)) return word.slice(0, -2);
+        if (word.length > 2 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+        return word;
+      });
+  }
+
+  private static scoreName(foodTokens: string[], candidate: string): number {
+    const candidateTokens = this.tokenize(candidate);
+    if (candidateTokens.length === 0 || foodTokens.length === 0) return 0;
+
+    const foodSet = new Set(foodTokens);
+    const candidateSet = new Set(candidateTokens);
+    const shared = candidateTokens.filter(token => foodSet.has(token)).length;
+
+    if (shared === candidateSet.size && shared === foodSet.size) return 1;
+    // Every word of the database name appears in the ingredient ("diced yellow onion" ~ "onion")
+    if (shared === candidateSet.size) return 0.7 + 0.3 * (candidateSet.size / foodSet.size);
+    // The ingredient is a less specific name for the food ("cheese" ~ "cheddar cheese")
+    if (shared === foodSet.size) return 0.6 * (foodSet.size / candidateSet.size);
+
+    const union = new Set([...foodTokens, ...candidateTokens]).size;
+    return 0.5 * (shared / union);
+  }
+
+  public static matchFood(foodName: string): FoodMatch | null {
+    const foodTokens = this.tokenize(foodName);
+    let best: FoodMatch | null = null;
+
+    for (const record of FOOD_DATABASE) {
+      for (const name of [record.name, ...record.aliases]) {
+        const confidence = this.scoreName(foodTokens, name);
+        if (!best || confidence > best.confidence) {
+          best = { food: record, confidence };
+        }
+      }
+    }
+
+    return best && best.confidence >= MATCH_THRESHOLD ? best : null;
+  }
+
+  // Estimates the ingredient weight and how much we trust the estimate
+  private static estimateGrams(row: RecipeIngredient, record: FoodRecord): { grams: number; confidence: number } | null {
+    if (row.quantity === null) return null;
+
+    const low = Number(row.quantity);
+    const quantity = row.quantityMax !== null ? (low + Number(row.quantityMax)) / 2 : low;
+    const definition = getUnitDefinition(row.unit);
+
+    if (definition?.dimension === "weight") {
+      return { grams: convertUnits(quantity, definition.unit, 'g') ?? 0, confidence: 1 };
+    }
+
+    if (definition?.dimension === "volume") {
+      const milliliters = quantity * definition.toBase;
+      const density = record.density ?? getDensity(row.food) ?? getDensity(record.name);
+      // Unknown density: assume water, but flag it as a rough guess
+      return density !== null
+        ? { grams: milliliters * density, confidence: 0.9 }
+        : { grams: milliliters, confidence: 0.6 };
+    }
+
+    const countUnit = !row.unit || isPlainCount(row.unit) ? 'each' : definition?.unit ?? row.unit;
+    const knownWeight = record.unitWeights?.[countUnit]
+      ?? getItemWeight(row.food, row.unit)
+      ?? getItemWeight(record.name, row.unit);
+    if (knownWeight !== null && knownWeight !== undefined) {
+      return { grams: quantity * knownWeight, confidence: 0.85 };
+    }
+
+    return { grams: quantity * (DEFAULT_COUNT_WEIGHTS[countUnit] ?? 100), confidence: 0.5 };
+  }
+
+  private static emptyTotals(): NutrientTotals {
+    return { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0 };
+  }
+
+  private static roundTotals(totals: NutrientTotals): NutrientTotals {
+    const rounded = this.emptyTotals();
+    for (const key of NUTRIENT_KEYS) {
+      // Calories and sodium read best as whole numbers, grams to one decimal
+      rounded[key] = key === 'calories' || key === 'sodium'
+        ? Math.round(totals[key])
+        : Math.round(totals[key] * 10) / 10;
+    }
+    return rounded;
+  }
+
+  public static nutrientsForGrams(record: FoodRecord, grams: number): NutrientTotals {
+    const totals = this.emptyTotals();
+    for (const key of NUTRIENT_KEYS) {
+      totals[key] = (record.per100g[key] * grams) / 100;
+    }
+    return totals;
+  }
+
+  public static analyzeIngredient(row: RecipeIngredient): IngredientNutrition {
+    const base = { ingredientId: row.id, rawText: row.rawText };
+    const match = this.matchFood(row.food);
+    if (!match) {
+      return { ...base, matchedFood: null, foodId: null, grams: null, confidence: 0, nutrients: null };
+    }
+
+    const estimate = this.estimateGrams(row, match.food);
+    if (!estimate) {
+      // "salt to taste": matched, but there is no amount to count
+      return { ...base, matchedFood: match.food.name, foodId: match.food.id, grams: null, confidence: 0, nutrients: null };
+    }
+
+    return {
+      ...base,
+      matchedFood: match.food.name,
+      foodId: match.food.id,
+      grams: Math.round(estimate.grams * 10) / 10,
+      confidence: Math.round(match.confidence * estimate.confidence * 100) / 100,
+      nutrients: this.roundTotals(this.nutrientsForGrams(match.food, estimate.grams)),
+    };
+  }
+
+  public static calculateRecipeNutrition(recipe: Recipe, ingredientRows: RecipeIngredient[]): NutritionInfo {
+    const servings = recipe.servings && recipe.servings > 0 ? recipe.servings : 1;
+    const rows = ingredientRows.filter(row => !row.isOptional);
+    const ingredients = rows.map(row => this.analyzeIngredient(row));
+
+    const total = this.emptyTotals();
+    for (const ingredient of ingredients) {
+      if (!ingredient.nutrients) continue;
+      for (const key of NUTRIENT_KEYS) {
+        total[key] += ingredient.nutrients[key];
+      }
+    }
+
+    const perServing = this.emptyTotals();
+    for (const key of NUTRIENT_KEYS) {
+      perServing[key] = total[key] / servings;
+    }
+
+    // Amount-less lines ("to taste") do not count against confidence
+    const measured = ingredients.filter((_, index) => rows[index].quantity !== null);
+    const confidence = measured.length > 0
+      ? measured.reduce((sum, ingredient) => sum + ingredient.confidence, 0) / measured.length
+      : 0;
+
+    return {
+      ...this.roundTotals(perServing),
+      servings,
+      source: "calculated",
+      confidence: Math.round(confidence * 100) / 100,
+      total: this.roundTotals(total),
+      ingredients,
+      calculatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Builds one nutrition log per member who ate a completed meal. Without overrides the
+   * meal's servings are shared evenly between members; overrides replace that share.
+   */
+  public static buildMealLogs(
+    meal: Meal,
+    recipe: Recipe,
+    nutrition: NutritionInfo,
+    memberIds: string[],
+    overrides: MemberPortion[] = [],
+  ): InsertNutritionLog[] {
+    if (memberIds.length === 0) return [];
+    const defaultPortion = meal.servings ? meal.servings / memberIds.length : 1;
+
+    return memberIds.flatMap(userId => {
+      const portion = overrides.find(override => override.userId === userId)?.portion ?? defaultPortion;
+      if (portion <= 0) return [];
+
+      return [{
+        userId,
+        familyId: meal.familyId,
+        mealTypeId: meal.mealTypeId,
+        mealId: meal.id,
+        portion: portion.toFixed(2),
+        foodName: recipe.name,
+        calories: Math.round(nutrition.calories * portion),
+        protein: (nutrition.protein * portion).toFixed(2),
+        carbs: (nutrition.carbs * portion).toFixed(2),
+        fat: (nutrition.fat * portion).toFixed(2),
+        fiber: (nutrition.fiber * portion).toFixed(2),
+        sugar: (nutrition.sugar * portion).toFixed(2),
+        sodium: (nutrition.sodium * portion).toFixed(2),
+        loggedDate: meal.scheduledDate,
+      }];
+    });
+  }
+
+  /**
+   * Logs a side dish like the main recipe, shared over the dish's own servings. A member who
+   * ate more or less than their share of the meal is taken to have done the same with each dish.
+   */
+  public static buildDishLogs(
+    meal: Meal,
+    dish: MealDish,
+    recipe: Recipe,
+    nutrition: NutritionInfo,
+    memberIds: string[],
+    overrides: MemberPortion[] = [],
+  ): InsertNutritionLog[] {
+    if (memberIds.length === 0) return [];
+    const dishServings = dish.servings ?? meal.servings;
+    const mealShare = meal.servings ? meal.servings / memberIds.length : 1;
+    const dishShare = dishServings ? dishServings / memberIds.length : 1;
+    const dishOverrides = overrides.map(override => ({ ...override, portion: override.portion * dishShare / mealShare }));
+    return this.buildMealLogs({ ...meal, servings: dishServings }, recipe, nutrition, memberIds, dishOverrides);
+  }
+}
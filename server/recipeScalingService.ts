@@ -0,0 +1,80 @@
+import type { Recipe, RecipeIngredient, ScaledIngredient, ScaledRecipe } from "@shared/schema";
+import {
+  formatQuantity,
+  formatUnit,
+  getUnitDefinition,
+  normalizeUnit,
+  toMeasurementSystem,
+  type MeasurementSystem,
+} from "@shared/units";
+
+export class RecipeScalingService {
+  private static scaleIngredient(row: RecipeIngredient, factor: number, system?: MeasurementSystem): ScaledIngredient {
+    const base = {
+      ingredientId: row.id,
+      rawText: row.rawText,
+      food: row.food,
+      preparation: row.preparation,
+      notes: row.notes,
+      isOptional: row.isOptional ?? false,
+    };
+
+    if (row.quantity === null) {
+      // "salt to taste" has nothing to scale
+      return { ...base, text: row.rawText, quantity: null, quantityMax: null, displayQuantity: null, unit: row.unit };
+    }
+
+    // Promote within the unit's own system (48 tsp -> 1 cup) unless a system was requested
+    const targetSystem = system ?? getUnitDefinition(row.unit)?.system ?? undefined;
+    const scaled = Number(row.quantity) * factor;
+    const promoted = targetSystem
+      ? toMeasurementSystem(scaled, row.unit, targetSystem)
+      : { amount: scaled, unit: normalizeUnit(row.unit) };
+    // A zero quantity ("0-1 tbsp") has no ratio to carry over to the upper bound
+    const ratio = scaled === 0 ? 1 : promoted.amount / scaled;
+
+    const quantityMax = row.quantityMax !== null ? Number(row.quantityMax) * factor * ratio : null;
+    const displayQuantity = quantityMax !== null
+      ? `${formatQuantity(promoted.amount, promoted.unit)}-${formatQuantity(quantityMax, promoted.unit)}`
+      : formatQuantity(promoted.amount, promoted.unit);
+
+    const text = [
+      displayQuantity,
+      formatUnit(promoted.unit, quantityMax ?? promoted.amount),
+      row.food + (row.preparation ? `, ${row.preparation}` : ''),
+    ].filter(Boolean).join(' ');
+
+    return {
+      ...base,
+      text: row.notes ? `${text} (${row.notes})` : text,
+      quantity: promoted.amount,
+      quantityMax,
+      displayQuantity,
+      unit: promoted.unit,
+    };
+  }
+
+  public static scaleRecipe(
+    recipe: Recipe,
+    ingredientRows: RecipeIngredient[],
+    servings?: number,
+    system?: MeasurementSystem,
+  ): ScaledRecipe {
+    const originalServings = recipe.servings || 1;
+    const targetServings = servings && servings > 0 ? servings : originalServings;
+    const scaleFactor = targetServings / originalServings;
+
+    const scaledIngredients = [...ingredientRows]
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .map(row => this.scaleIngredient(row, scaleFactor, system));
+
+    return {
+      ...recipe,
+      servings: targetServings,
+      ingredients: scaledIngredients.map(ingredient => ingredient.text),
+      originalServings,
+      scaleFactor,
+      scaledIngredients,
+    };
+  }
+}
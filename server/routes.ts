@@ -1,21 +1,239 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
+import { RecipeScalingService } from "./recipeScalingService";
+import { NutritionGoalService } from "./nutritionGoalService";
+import { NutritionAnalyticsService, ROLLING_WINDOW_DAYS } from "./nutritionAnalyticsService";
+import { FoodSearchService } from "./foodSearchService";
+import { DietaryConflictService } from "./dietaryConflictService";
+import { MealPlannerService } from "./mealPlannerService";
+import { LeftoverService } from "./leftoverService";
+import { MealRecurrenceService } from "./mealRecurrenceService";
+import { MealTemplateService } from "./mealTemplateService";
+import { MealMoveService } from "./mealMoveService";
+import { MealImportService } from "./mealImportService";
+import { MealPlanningPreferenceService } from "./mealPlanningPreferenceService";
+import { MealRecommendationService, RECOMMENDATION_HISTORY_DAYS } from "./mealRecommendationService";
+import { MealAttendanceService } from "./mealAttendanceService";
+import { CookRotationService, COOK_ROTATION_HISTORY_DAYS } from "./cookRotationService";
+import { MealCalendarFeedService, CALENDAR_FEED_FUTURE_DAYS, CALENDAR_FEED_PAST_DAYS } from "./mealCalendarFeedService";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { db } from "./db";
-import { challenges } from "@shared/schema";
+import {
+  challenges,
+  MAX_TEMPLATE_WEEKS,
+  MAX_RECOMMENDATIONS,
+  MEAL_TEMPLATE_CONFLICT_POLICIES,
+  type CalendarFeedSettings,
+  type CookingDuty,
+  type CookingRotationResult,
+  type DietaryConflict,
+  type Family,
+  type Meal,
+  type MealAttendance,
+  type MealAttendanceSummary,
+  type MealAssignment,
+  type MealAssignmentsResult,
+  type MemberAttendanceSettings,
+  type MealDish,
+  type MealImportIssue,
+  MAX_MEAL_DISHES,
+  type MealDishInput,
+  type MealImportResult,
+  type MealMoveResult,
+  type Recipe,
+} from "@shared/schema";
 import {
   insertFamilySchema,
   insertFamilyMembershipSchema,
   insertRecipeSchema,
   insertMealSchema,
+  mealDishInputSchema,
+  insertMealRecurrenceSchema,
+  insertFamilyMealTimeSchema,
   insertNutritionLogSchema,
+  insertNutritionGoalSchema,
+  nutritionGoalProfileSchema,
+  mealPlanRequestSchema,
+  mealBatchRequestSchema,
+  mealMoveRequestSchema,
+  mealImportPreviewRequestSchema,
+  mealImportRequestSchema,
   insertShoppingListSchema,
   insertShoppingListItemSchema,
   insertRestaurantOrderSchema,
+  insertUserPreferencesSchema,
+  insertFamilyPreferencesSchema,
+  mealPlanningPreferencesInputSchema,
+  recipeRatingSchema,
+  mealAttendanceInputSchema,
+  attendancePatternInputSchema,
+  mealAssignmentsInputSchema,
+  cookingRotationSettingsInputSchema,
+  cookingRotationRequestSchema,
+  isoDateSchema,
 } from "@shared/schema";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
+import { addDays, differenceInCalendarDays, format, parseISO, startOfWeek } from "date-fns";
+
+const nutritionGoalBodySchema = z.object({
+  userId: z.string().optional(), // defaults to the caller; admins may set goals for other members
+  effectiveFrom: isoDateSchema.optional(),
+  profile: nutritionGoalProfileSchema.optional(), // when given, targets are calculated from it
+}).passthrough();
+
+const MAX_ANALYTICS_RANGE_DAYS = 366;
+
+// How many of the user's latest logs feed "log again" and history matches in food search
+const FOOD_SEARCH_HISTORY_SIZE = 200;
+
+const foodSearchQuerySchema = z.object({
+  q: z.string().max(100).default(''),
+  familyId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const nutritionRangeSchema = z.object({
+  startDate: isoDateSchema,
+  endDate: isoDateSchema,
+}).refine(({ startDate, endDate }) => startDate <= endDate, "startDate must not be after endDate");
+
+// Leftover and recurrence links are managed by their own endpoints, and whether servings follow
+// attendance by whether servings are given, so none of them are set directly
+const editableMealSchema = insertMealSchema.omit({
+  servingsFromAttendance: true,
+  leftoverOfMealId: true,
+  recurrenceId: true,
+  recurrenceDate: true,
+  recurrenceModified: true,
+});
+
+// Side dishes replace the meal's current ones; an empty list leaves just the main recipe
+const mealDishesSchema = z.array(mealDishInputSchema).max(MAX_MEAL_DISHES);
+
+// Recurring meals are generated for the queried range, so the range must stay bounded
+const MAX_MEAL_RANGE_DAYS = 366;
+
+const mealRecurrenceBodySchema = insertMealRecurrenceSchema
+  .omit({ familyId: true, createdBy: true })
+  .extend({ startDate: isoDateSchema, untilDate: isoDateSchema.nullable().optional() });
+
+const MAX_MEAL_PLAN_DAYS = 31;
+
+const recommendationQuerySchema = z.object({
+  date: isoDateSchema,
+  mealTypeId: z.coerce.number().int().positive(),
+  limit: z.coerce.number().int().min(1).max(MAX_RECOMMENDATIONS).default(6),
+});
+
+const mealPlanPreviewSchema = mealPlanRequestSchema
+  .refine(({ startDate, endDate }) => startDate <= endDate, "startDate must not be after endDate");
+
+const acceptMealPlanSchema = z.object({
+  meals: z.array(z.object({
+    scheduledDate: isoDateSchema,
+    mealTypeId: z.number().int().positive(),
+    recipeId: z.number().int().positive(),
+    servings: z.number().int().positive(),
+  })).min(1).max(MAX_MEAL_PLAN_DAYS * 6),
+});
+
+const cookingRotationBodySchema = cookingRotationRequestSchema
+  .refine(({ startDate, endDate }) => startDate <= endDate, "startDate must not be after endDate");
+
+const mealTemplateBodySchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().nullable().optional(),
+});
+
+const createMealTemplateSchema = mealTemplateBodySchema.extend({
+  startDate: isoDateSchema, // any day of the first calendar week to save
+  weeks: z.number().int().min(1).max(MAX_TEMPLATE_WEEKS).default(1),
+});
+
+const applyMealTemplateSchema = z.object({
+  startDate: isoDateSchema, // any day of the first calendar week to fill
+  onConflict: z.enum(MEAL_TEMPLATE_CONFLICT_POLICIES).default("skip"),
+});
+
+// Meal slots are the family's own meal times, so a meal time from another family is rejected
+async function isFamilyMealTime(familyId: number, mealTimeId: number | null | undefined): Promise<boolean> {
+  if (mealTimeId === null || mealTimeId === undefined) return true;
+  const mealTime = await storage.getFamilyMealTimeById(mealTimeId);
+  return mealTime?.familyId === familyId;
+}
+
+const UNKNOWN_MEAL_TIME_MESSAGE = "mealTypeId must be one of the family's meal times";
+
+// Meals copy their recipe onto the family's calendar, so another family's recipe is rejected
+async function areFamilyRecipes(familyId: number, recipeIds: (number | null | undefined)[]): Promise<boolean> {
+  const ids = recipeIds.filter((id): id is number => id !== null && id !== undefined);
+  if (ids.length === 0) return true;
+  const familyRecipeIds = new Set((await storage.getRecipesByFamilyId(familyId)).map(recipe => recipe.id));
+  return ids.every(id => familyRecipeIds.has(id));
+}
+
+const UNKNOWN_RECIPE_MESSAGE = "recipeId must be one of the family's recipes";
+
+async function areFamilyDishes(familyId: number, dishes: MealDishInput[] | undefined): Promise<boolean> {
+  if (!dishes || dishes.length === 0) return true;
+  const familyRecipeIds = new Set((await storage.getRecipesByFamilyId(familyId)).map(recipe => recipe.id));
+  return dishes.every(dish => familyRecipeIds.has(dish.recipeId));
+}
+
+const UNKNOWN_DISH_MESSAGE = "Every side dish must be one of the family's recipes";
+
+// Meals are sent with their side dishes so the calendar can show and total the whole meal
+async function withDishes<T extends Meal>(mealList: T[]): Promise<(T & { dishes: MealDish[] })[]> {
+  const dishes = await storage.getMealDishes(mealList.map(meal => meal.id));
+  return mealList.map(meal => ({ ...meal, dishes: dishes.filter(dish => dish.mealId === meal.id) }));
+}
+
+// Allergens and diets are only checked against the people eating the meal
+async function attendeeDietaryConflicts(familyId: number, attendance: MealAttendance, recipeIds: number[]): Promise<DietaryConflict[]> {
+  if (recipeIds.length === 0) return [];
+  const members = MealAttendanceService.attendingProfiles(await storage.getFamilyDietaryProfiles(familyId), attendance.attendees);
+  const conflicts: DietaryConflict[] = [];
+  for (const recipeId of recipeIds) {
+    const recipe = await storage.getRecipeById(recipeId);
+    if (!recipe) continue;
+    const ingredients = await storage.getRecipeIngredients(recipe.id);
+    conflicts.push(...DietaryConflictService.checkRecipe(recipe, ingredients, members).conflicts);
+  }
+  return conflicts;
+}
+
+async function mealAttendanceSummary(meal: Meal): Promise<MealAttendanceSummary> {
+  const [attendance, dishes] = await Promise.all([storage.getMealAttendance(meal), storage.getMealDishes([meal.id])]);
+  const recipeIds = [...(meal.recipeId ? [meal.recipeId] : []), ...dishes.map(dish => dish.recipeId)];
+  return {
+    ...attendance,
+    mealServings: meal.servings,
+    servingsFromAttendance: !!meal.servingsFromAttendance,
+    dietaryConflicts: await attendeeDietaryConflicts(meal.familyId, attendance, recipeIds),
+  };
+}
+
+// The calendar shows who is cooking, helping and cleaning up each meal
+async function withAssignments<T extends Meal>(mealList: T[]): Promise<(T & { assignments: MealAssignment[] })[]> {
+  const assignments = await storage.getMealAssignments(mealList.map(meal => meal.id));
+  return mealList.map(meal => ({ ...meal, assignments: assignments.filter(assignment => assignment.mealId === meal.id) }));
+}
+
+// Members eating each meal, by user id; duties only go to people who are home
+async function mealAttendeeIds(familyId: number, mealList: Meal[]): Promise<Record<number, string[]>> {
+  const [members, patterns, rows] = await Promise.all([
+    storage.getAttendanceMembers(familyId),
+    storage.getAttendancePatterns(familyId),
+    storage.getMealAttendees(mealList.map(meal => meal.id)),
+  ]);
+  return Object.fromEntries(mealList.map(meal => {
+    const { attendees } = MealAttendanceService.resolve(meal, members, patterns, rows.filter(row => row.mealId === meal.id));
+    return [meal.id, attendees.flatMap(attendee => attendee.userId ? [attendee.userId] : [])];
+  }));
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -221,6 +439,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Allergen and diet conflicts for every family recipe, for flagging recipe cards
+  app.get('/api/families/:familyId/recipes/conflicts', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      // Check if user is member of this family
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const recipes = await storage.getRecipesByFamilyId(familyId);
+      const [ingredients, members] = await Promise.all([
+        storage.getRecipeIngredientsByRecipeIds(recipes.map(recipe => recipe.id)),
+        storage.getFamilyDietaryProfiles(familyId),
+      ]);
+
+      res.json(recipes.map(recipe => DietaryConflictService.checkRecipe(
+        recipe,
+        ingredients.filter(ingredient => ingredient.recipeId === recipe.id),
+        members,
+      )));
+    } catch (error) {
+      console.error("Error checking recipe conflicts:", error);
+      res.status(500).json({ message: "Failed to check recipe conflicts" });
+    }
+  });
+
+  // The caller's own 1-5 star rating; the recipe's average and count are refreshed from all ratings
+  app.put('/api/recipes/:id/rating', isAuthenticated, async (req: any, res) => {
+    try {
+      const recipeId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const recipe = await storage.getRecipeById(recipeId);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, recipe.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { rating } = recipeRatingSchema.parse(req.body);
+      res.json(await storage.rateRecipe(recipeId, userId, rating));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error rating recipe:", error);
+        res.status(500).json({ message: "Failed to rate recipe" });
+      }
+    }
+  });
+
   app.put('/api/recipes/:id', isAuthenticated, async (req: any, res) => {
     try {
       const recipeId = parseInt(req.params.id);
@@ -251,6 +526,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/recipes/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const recipeId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const { servings, units } = z.object({
+        servings: z.coerce.number().int().positive().max(100).optional(),
+        units: z.enum(["imperial", "metric"]).optional(),
+      }).parse(req.query);
+
+      const recipe = await storage.getRecipeById(recipeId);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      // Check if user is member of the family
+      const membership = await storage.getUserFamilyMembership(userId, recipe.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const ingredients = await storage.getRecipeIngredients(recipeId);
+      res.json(RecipeScalingService.scaleRecipe(recipe, ingredients, servings, units));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error fetching recipe:", error);
+        res.status(500).json({ message: "Failed to fetch recipe" });
+      }
+    }
+  });
+
+  app.get('/api/recipes/:id/ingredients', isAuthenticated, async (req: any, res) => {
+    try {
+      const recipeId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const recipe = await storage.getRecipeById(recipeId);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      // Check if user is member of the family
+      const membership = await storage.getUserFamilyMembership(userId, recipe.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const ingredients = await storage.getRecipeIngredients(recipeId);
+      res.json(ingredients);
+    } catch (error) {
+      console.error("Error fetching recipe ingredients:", error);
+      res.status(500).json({ message: "Failed to fetch recipe ingredients" });
+    }
+  });
+
+  app.get('/api/recipes/:id/nutrition', isAuthenticated, async (req: any, res) => {
+    try {
+      const recipeId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const recipe = await storage.getRecipeById(recipeId);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      // Check if user is member of the family
+      const membership = await storage.getUserFamilyMembership(userId, recipe.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const nutritionInfo = recipe.nutritionInfo ?? await storage.calculateRecipeNutrition(recipeId);
+      res.json(nutritionInfo);
+    } catch (error) {
+      console.error("Error fetching recipe nutrition:", error);
+      res.status(500).json({ message: "Failed to fetch recipe nutrition" });
+    }
+  });
+
+  app.post('/api/recipes/:id/nutrition/recalculate', isAuthenticated, async (req: any, res) => {
+    try {
+      const recipeId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const recipe = await storage.getRecipeById(recipeId);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      // Check if user is member of the family
+      const membership = await storage.getUserFamilyMembership(userId, recipe.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Replaces any hand-entered values with the calculated breakdown
+      const nutritionInfo = await storage.calculateRecipeNutrition(recipeId, { force: true });
+      res.json(nutritionInfo);
+    } catch (error) {
+      console.error("Error recalculating recipe nutrition:", error);
+      res.status(500).json({ message: "Failed to recalculate recipe nutrition" });
+    }
+  });
+
+  app.get('/api/recipes/:id/conflicts', isAuthenticated, async (req: any, res) => {
+    try {
+      const recipeId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const recipe = await storage.getRecipeById(recipeId);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      // Check if user is member of the family
+      const membership = await storage.getUserFamilyMembership(userId, recipe.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const [ingredients, members] = await Promise.all([
+        storage.getRecipeIngredients(recipeId),
+        storage.getFamilyDietaryProfiles(recipe.familyId),
+      ]);
+      res.json(DietaryConflictService.checkRecipe(recipe, ingredients, members));
+    } catch (error) {
+      console.error("Error checking recipe conflicts:", error);
+      res.status(500).json({ message: "Failed to check recipe conflicts" });
+    }
+  });
+
   app.delete('/api/recipes/:id', isAuthenticated, async (req: any, res) => {
     try {
       const recipeId = parseInt(req.params.id);
@@ -267,8 +674,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const success = await storage.deleteRecipe(recipeId);
-      res.json({ success });
+      const { deleted, scheduled } = await storage.deleteRecipe(recipeId);
+      if (scheduled) {
+        return res.status(409).json({ message: "This recipe is still on the calendar; take it off those meals first" });
+      }
+      res.json({ success: deleted });
     } catch (error) {
       console.error("Error deleting recipe:", error);
       res.status(500).json({ message: "Failed to delete recipe" });
@@ -290,16 +700,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/meals', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const mealData = insertMealSchema.parse({ ...req.body, createdBy: userId });
+      const { dishes = [], ...mealData } = editableMealSchema
+        .extend({ dishes: mealDishesSchema.optional() })
+        .parse({ ...req.body, createdBy: userId });
 
       // Check if user is member of the family
       const membership = await storage.getUserFamilyMembership(userId, mealData.familyId);
       if (!membership) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (!(await isFamilyMealTime(mealData.familyId, mealData.mealTypeId))) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+      if (!(await areFamilyDishes(mealData.familyId, dishes))) {
+        return res.status(400).json({ message: UNKNOWN_DISH_MESSAGE });
+      }
+
+      // Without typed servings the meal cooks for whoever is attending
+      const servingsFromAttendance = mealData.servings === undefined || mealData.servings === null;
+      const meal = await storage.createMeal({ ...mealData, servingsFromAttendance }, dishes);
+
+      // The meal is still scheduled; conflicts come back as warnings for the client to surface
+      const recipeIds = [...(meal.recipeId ? [meal.recipeId] : []), ...meal.dishes.map(dish => dish.recipeId)];
+      const dietaryConflicts = await attendeeDietaryConflicts(meal.familyId, await storage.getMealAttendance(meal), recipeIds);
 
-      const meal = await storage.createMeal(mealData);
-      res.json(meal);
+      res.json({ ...meal, dietaryConflicts });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: fromZodError(error).toString() });
@@ -324,135 +749,1581 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       let meals;
       if (startDate && endDate) {
-        meals = await storage.getMealsByDateRange(familyId, startDate as string, endDate as string);
+        const range = nutritionRangeSchema.parse({ startDate, endDate });
+        if (differenceInCalendarDays(parseISO(range.endDate), parseISO(range.startDate)) + 1 > MAX_MEAL_RANGE_DAYS) {
+          return res.status(400).json({ message: `Date range cannot exceed ${MAX_MEAL_RANGE_DAYS} days` });
+        }
+        await storage.materializeMealRecurrences(familyId, range.startDate, range.endDate);
+        meals = await storage.getMealsByDateRange(familyId, range.startDate, range.endDate);
       } else {
         meals = await storage.getMealsByFamilyId(familyId);
       }
 
-      res.json(meals);
+      res.json(await withAssignments(await withDishes(await LeftoverService.withExpiry(meals, id => storage.getMealById(id)))));
     } catch (error) {
-      console.error("Error fetching meals:", error);
-      res.status(500).json({ message: "Failed to fetch meals" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error fetching meals:", error);
+        res.status(500).json({ message: "Failed to fetch meals" });
+      }
     }
   });
 
-  app.patch('/api/meals/:id', isAuthenticated, async (req: any, res) => {
+  // Several calendar edits (copy week, auto-fill, drag and drop) applied all or nothing
+  app.post('/api/families/:familyId/meals/batch', isAuthenticated, async (req: any, res) => {
     try {
+      const familyId = parseInt(req.params.familyId);
       const userId = req.user.claims.sub;
-      const mealId = parseInt(req.params.id);
 
-      // First get the meal to check family membership
-      const meal = await storage.getMealById(mealId);
-      if (!meal) {
-        return res.status(404).json({ message: "Meal not found" });
-      }
-
-      // Check if user is member of the family
-      const membership = await storage.getUserFamilyMembership(userId, meal.familyId);
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
       if (!membership) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const updatedMeal = await storage.updateMeal(mealId, req.body);
-      res.json(updatedMeal);
+      const { operations, onConflict } = mealBatchRequestSchema.parse(req.body);
+      const familyMealTimeIds = new Set((await storage.getFamilyMealTimes(familyId)).map(mealTime => mealTime.id));
+      const usesUnknownMealTime = operations.some(operation => {
+        const mealTypeId = operation.op === 'create' ? operation.meal.mealTypeId
+          : operation.op === 'update' ? operation.changes.mealTypeId
+          : operation.op === 'move' ? operation.mealTypeId
+          : undefined;
+        return mealTypeId !== undefined && !familyMealTimeIds.has(mealTypeId);
+      });
+      if (usesUnknownMealTime) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+      const dishes = operations.flatMap(operation =>
+        operation.op === 'create' ? operation.meal.dishes ?? []
+          : operation.op === 'update' ? operation.changes.dishes ?? []
+          : []);
+      if (!(await areFamilyDishes(familyId, dishes))) {
+        return res.status(400).json({ message: UNKNOWN_DISH_MESSAGE });
+      }
+      const recipeIds = operations.map(operation =>
+        operation.op === 'create' ? operation.meal.recipeId
+          : operation.op === 'update' ? operation.changes.recipeId
+          : undefined);
+      if (!(await areFamilyRecipes(familyId, recipeIds))) {
+        return res.status(400).json({ message: UNKNOWN_RECIPE_MESSAGE });
+      }
+
+      const result = await storage.applyMealBatch(familyId, userId, operations, onConflict);
+      if (!result.applied) {
+        const failed = result.results.find(operation => operation.status === 'conflict' || operation.status === 'invalid');
+        return res.status(failed?.status === 'conflict' ? 409 : 400).json({
+          message: failed?.status === 'conflict'
+            ? `Operation ${failed.index + 1} targets a slot that already has a meal; nothing was changed`
+            : `Operation ${(failed?.index ?? 0) + 1} failed: ${failed?.reason}; nothing was changed`,
+          ...result,
+        });
+      }
+
+      // Meals moved to another day or meal time may now have different people attending
+      const refreshed = await storage.refreshAttendanceServings(familyId, {
+        mealIds: result.results.flatMap(operation => operation.meal && operation.op !== 'delete' ? [operation.meal.id] : []),
+      });
+      res.json({
+        ...result,
+        results: result.results.map(operation => {
+          const current = refreshed.find(meal => meal.id === operation.meal?.id);
+          return current ? { ...operation, meal: current } : operation;
+        }),
+      });
     } catch (error) {
-      console.error("Error updating meal:", error);
-      res.status(500).json({ message: "Failed to update meal" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error applying meal batch:", error);
+        res.status(500).json({ message: "Failed to apply meal changes" });
+      }
     }
   });
 
-  app.delete('/api/meals/:id', isAuthenticated, async (req: any, res) => {
+  // Drag and drop: moving onto an occupied slot swaps the two meals
+  app.post('/api/families/:familyId/meals/move', isAuthenticated, async (req: any, res) => {
     try {
+      const familyId = parseInt(req.params.familyId);
       const userId = req.user.claims.sub;
-      const mealId = parseInt(req.params.id);
 
-      // First get the meal to check family membership
-      const meal = await storage.getMealById(mealId);
-      if (!meal) {
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { moves } = mealMoveRequestSchema.parse(req.body);
+      const familyMealTimeIds = new Set((await storage.getFamilyMealTimes(familyId)).map(mealTime => mealTime.id));
+      if (moves.some(move => !familyMealTimeIds.has(move.mealTypeId))) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+
+      const movingMeals = await Promise.all(moves.map(move => storage.getMealById(move.mealId)));
+      if (movingMeals.some(meal => !meal || meal.familyId !== familyId)) {
         return res.status(404).json({ message: "Meal not found" });
       }
 
-      // Check if user is member of the family
-      const membership = await storage.getUserFamilyMembership(userId, meal.familyId);
-      if (!membership) {
-        return res.status(403).json({ message: "Access denied" });
+      const { startDate, endDate } = MealMoveService.dateRange(moves, movingMeals as Meal[]);
+      if (differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1 > MAX_MEAL_RANGE_DAYS) {
+        return res.status(400).json({ message: `Meals can't be moved more than ${MAX_MEAL_RANGE_DAYS} days` });
       }
+      // Recurring meals already due in the target slots take part in swaps like any other
+      await storage.materializeMealRecurrences(familyId, startDate, endDate);
+      const meals = await storage.getMealsByDateRange(familyId, startDate, endDate);
 
-      const success = await storage.deleteMeal(mealId);
-      res.json({ success });
+      const { operations, error } = MealMoveService.toOperations(moves, meals);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      const result = await storage.applyMealBatch(familyId, userId, operations, "fail");
+      if (!result.applied) {
+        const failed = result.results.find(operation => operation.status === 'conflict' || operation.status === 'invalid');
+        return res.status(failed?.status === 'conflict' ? 409 : 400).json({
+          message: failed?.reason ?? "Another meal is in the way; nothing was moved",
+        });
+      }
+
+      const touchedIds = new Set(operations.flatMap(operation => operation.op === 'move' ? [operation.mealId] : []));
+      const moved = result.results.map(operation => operation.meal).filter((meal): meal is Meal => !!meal);
+      // A meal in a new slot may have different people attending
+      const refreshed = await storage.refreshAttendanceServings(familyId, { mealIds: moved.map(meal => meal.id) });
+      const written = moved.map(meal => refreshed.find(current => current.id === meal.id) ?? meal);
+      const moveResult: MealMoveResult = {
+        moved: written.slice(0, moves.length),
+        swapped: written.slice(moves.length),
+        undo: MealMoveService.undoMoves(meals.filter(meal => touchedIds.has(meal.id))),
+      };
+      res.json(moveResult);
     } catch (error) {
-      console.error("Error deleting meal:", error);
-      res.status(500).json({ message: "Failed to delete meal" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error moving meals:", error);
+        res.status(500).json({ message: "Failed to move meals" });
+      }
     }
   });
 
-  // Nutrition log routes
-  app.post('/api/nutrition-logs', isAuthenticated, async (req: any, res) => {
+  // Calendar feed routes. The feed itself is public and protected only by the token in its URL,
+  // since calendar apps can't sign in.
+  const calendarFeedSettings = (req: any, family: Family): CalendarFeedSettings => ({
+    enabled: !!family.calendarFeedToken,
+    url: family.calendarFeedToken
+      ? `${req.protocol}://${req.get('host')}/api/calendar-feeds/${family.calendarFeedToken}/meals.ics`
+      : null,
+  });
+
+  app.get('/api/families/:familyId/calendar-feed', isAuthenticated, async (req: any, res) => {
     try {
+      const familyId = parseInt(req.params.familyId);
       const userId = req.user.claims.sub;
-      const logData = insertNutritionLogSchema.parse({ ...req.body, userId });
 
-      // Check if user is member of the family
-      const membership = await storage.getUserFamilyMembership(userId, logData.familyId);
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
       if (!membership) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const log = await storage.createNutritionLog(logData);
-      res.json(log);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ message: fromZodError(error).toString() });
-      } else {
-        console.error("Error creating nutrition log:", error);
-        res.status(500).json({ message: "Failed to create nutrition log" });
+      const family = await storage.getFamilyById(familyId);
+      if (!family) {
+        return res.status(404).json({ message: "Family not found" });
       }
+      res.json(calendarFeedSettings(req, family));
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
     }
   });
 
-  app.get('/api/nutrition-logs', isAuthenticated, async (req: any, res) => {
+  // Turns the feed on, or rotates the token so the old URL stops working
+  app.post('/api/families/:familyId/calendar-feed', isAuthenticated, async (req: any, res) => {
     try {
+      const familyId = parseInt(req.params.familyId);
       const userId = req.user.claims.sub;
-      const { date } = req.query;
 
-      const logs = await storage.getNutritionLogsByUserId(userId, date as string);
-      res.json(logs);
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership || membership.role !== 'admin') {
+        return res.status(403).json({ message: "Only family admins can manage the calendar feed" });
+      }
+
+      const family = await storage.setFamilyCalendarFeedToken(familyId, randomBytes(24).toString('base64url'));
+      if (!family) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+      res.json(calendarFeedSettings(req, family));
     } catch (error) {
-      console.error("Error fetching nutrition logs:", error);
-      res.status(500).json({ message: "Failed to fetch nutrition logs" });
+      console.error("Error rotating calendar feed token:", error);
+      res.status(500).json({ message: "Failed to rotate calendar feed token" });
     }
   });
 
-  // Shopping list routes
-  app.post('/api/shopping-lists', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/families/:familyId/calendar-feed', isAuthenticated, async (req: any, res) => {
     try {
+      const familyId = parseInt(req.params.familyId);
       const userId = req.user.claims.sub;
-      const listData = insertShoppingListSchema.parse({ ...req.body, createdBy: userId });
 
-      // Check if user is member of the family
-      const membership = await storage.getUserFamilyMembership(userId, listData.familyId);
-      if (!membership) {
-        return res.status(403).json({ message: "Access denied" });
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership || membership.role !== 'admin') {
+        return res.status(403).json({ message: "Only family admins can manage the calendar feed" });
       }
 
-      const list = await storage.createShoppingList(listData);
-      res.json(list);
+      const family = await storage.setFamilyCalendarFeedToken(familyId, null);
+      if (!family) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+      res.json(calendarFeedSettings(req, family));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ message: fromZodError(error).toString() });
-      } else {
-        console.error("Error creating shopping list:", error);
-        res.status(500).json({ message: "Failed to create shopping list" });
+      console.error("Error disabling calendar feed:", error);
+      res.status(500).json({ message: "Failed to disable calendar feed" });
+    }
+  });
+
+  app.get('/api/calendar-feeds/:token/meals.ics', async (req, res) => {
+    try {
+      const family = await storage.getFamilyByCalendarFeedToken(req.params.token);
+      if (!family) {
+        return res.status(404).json({ message: "Calendar feed not found" });
       }
+
+      const today = new Date();
+      const startDate = format(addDays(today, -CALENDAR_FEED_PAST_DAYS), 'yyyy-MM-dd');
+      const endDate = format(addDays(today, CALENDAR_FEED_FUTURE_DAYS), 'yyyy-MM-dd');
+      await storage.materializeMealRecurrences(family.id, startDate, endDate);
+      const [meals, recipes, mealTimes] = await Promise.all([
+        storage.getMealsByDateRange(family.id, startDate, endDate),
+        storage.getRecipesByFamilyId(family.id),
+        storage.getFamilyMealTimes(family.id),
+      ]);
+
+      const calendar = MealCalendarFeedService.build({
+        family,
+        meals,
+        recipes,
+        mealTimes,
+        appUrl: `${req.protocol}://${req.get('host')}`,
+      });
+      res.set('Content-Type', 'text/calendar; charset=utf-8');
+      res.set('Content-Disposition', `inline; filename="meals.ics"`);
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ message: "Failed to build calendar feed" });
     }
   });
 
-  app.get('/api/families/:familyId/shopping-lists', isAuthenticated, async (req: any, res) => {
+  // Meal plan import routes. A preview reads the file without saving anything, so the family can
+  // fix meal times and recipe matches before importing the reviewed rows.
+  app.post('/api/families/:familyId/meal-imports/preview', isAuthenticated, async (req: any, res) => {
     try {
       const familyId = parseInt(req.params.familyId);
       const userId = req.user.claims.sub;
 
-      // Check if user is member of this family
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { format, content, mapping, dayFirst } = mealImportPreviewRequestSchema.parse(req.body);
+      const [family, mealTimes, recipes] = await Promise.all([
+        storage.getFamilyById(familyId),
+        storage.getFamilyMealTimes(familyId),
+        storage.getRecipesByFamilyId(familyId),
+      ]);
+      if (!family) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+
+      res.json(MealImportService.preview({
+        format,
+        content,
+        mapping,
+        dayFirst,
+        mealTimes,
+        recipes,
+        timeZone: family.timezone,
+      }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error previewing meal import:", error);
+        res.status(500).json({ message: "Failed to read the import file" });
+      }
+    }
+  });
+
+  // Imports reviewed rows: unmatched recipe names become new recipes, and rows whose slot
+  // already has a meal are skipped rather than replacing it
+  app.post('/api/families/:familyId/meal-imports', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { rows } = mealImportRequestSchema.parse(req.body);
+      const [mealTimes, recipes] = await Promise.all([
+        storage.getFamilyMealTimes(familyId),
+        storage.getRecipesByFamilyId(familyId),
+      ]);
+      const familyMealTimeIds = new Set(mealTimes.map(mealTime => mealTime.id));
+      if (rows.some(row => !familyMealTimeIds.has(row.mealTypeId))) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+      const familyRecipeIds = new Set(recipes.map(recipe => recipe.id));
+      if (rows.some(row => row.recipeId !== null && !familyRecipeIds.has(row.recipeId))) {
+        return res.status(400).json({ message: "recipeId must be one of the family's recipes" });
+      }
+      const emptyRow = rows.find(row => row.recipeId === null && !row.recipeName && !row.notes?.trim());
+      if (emptyRow) {
+        return res.status(400).json({ message: `Line ${emptyRow.line} has no recipe or notes` });
+      }
+
+      // A name used on several rows, or already a family recipe, doesn't create a duplicate.
+      // New recipes are written with the meals, so a failed import adds neither.
+      const recipeIdsByName = new Map(recipes.map(recipe => [MealImportService.normalize(recipe.name), recipe.id]));
+      const createdRecipes: Recipe[] = [];
+      const batch = await storage.applyMealBatch(familyId, userId, async (createRecipe) => {
+        for (const row of rows) {
+          if (row.recipeId !== null || !row.recipeName) continue;
+          const key = MealImportService.normalize(row.recipeName);
+          if (!key || recipeIdsByName.has(key)) continue;
+          const recipe = await createRecipe({
+            familyId,
+            name: row.recipeName,
+            ingredients: [],
+            instructions: [],
+            prepTime: row.prepTime,
+            cookTime: row.cookTime,
+            servings: row.servings,
+            tags: ["imported"],
+            createdBy: userId,
+          });
+          recipeIdsByName.set(key, recipe.id);
+          createdRecipes.push(recipe);
+        }
+        return MealImportService.toOperations(rows, recipeIdsByName);
+      }, "skip");
+      if (!batch.applied) {
+        const failed = batch.results.find(operation => operation.status === 'invalid');
+        return res.status(400).json({
+          message: `Line ${rows[failed?.index ?? 0].line} failed: ${failed?.reason}; nothing was imported`,
+        });
+      }
+
+      const skipped: MealImportIssue[] = batch.results
+        .filter(operation => operation.status === 'skipped')
+        .map(operation => ({ line: rows[operation.index].line, message: operation.reason ?? "That slot already has a meal" }));
+      const result: MealImportResult = {
+        meals: batch.results.flatMap(operation => operation.status === 'created' && operation.meal ? [operation.meal] : []),
+        createdRecipes,
+        skipped,
+      };
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error importing meals:", error);
+        res.status(500).json({ message: "Failed to import meals" });
+      }
+    }
+  });
+
+  // Recurring meal routes
+  app.get('/api/families/:familyId/meal-recurrences', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const rules = await storage.getMealRecurrencesByFamilyId(familyId);
+      res.json(rules.map(rule => ({ ...rule, rrule: MealRecurrenceService.toRRule(rule) })));
+    } catch (error) {
+      console.error("Error fetching recurring meals:", error);
+      res.status(500).json({ message: "Failed to fetch recurring meals" });
+    }
+  });
+
+  app.post('/api/families/:familyId/meal-recurrences', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const ruleData = mealRecurrenceBodySchema
+        .refine(({ startDate, untilDate }) => !untilDate || untilDate >= startDate, "untilDate must not be before startDate")
+        .parse(req.body);
+      if (!(await isFamilyMealTime(familyId, ruleData.mealTypeId))) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+      if (!(await areFamilyRecipes(familyId, [ruleData.recipeId]))) {
+        return res.status(400).json({ message: UNKNOWN_RECIPE_MESSAGE });
+      }
+      const rule = await storage.createMealRecurrence({ ...ruleData, familyId, createdBy: userId });
+      res.status(201).json({ ...rule, rrule: MealRecurrenceService.toRRule(rule) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error creating recurring meal:", error);
+        res.status(500).json({ message: "Failed to create recurring meal" });
+      }
+    }
+  });
+
+  // Edits the whole series from fromDate (default today) on; earlier meals keep their old values
+  app.patch('/api/meal-recurrences/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rule = await storage.getMealRecurrenceById(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ message: "Recurring meal not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, rule.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { fromDate, ...ruleData } = mealRecurrenceBodySchema.partial().extend({
+        fromDate: isoDateSchema.optional(),
+      }).parse(req.body);
+      const untilDate = ruleData.untilDate !== undefined ? ruleData.untilDate : rule.untilDate;
+      if (untilDate && untilDate < (ruleData.startDate ?? rule.startDate)) {
+        return res.status(400).json({ message: "untilDate must not be before startDate" });
+      }
+      if (!(await isFamilyMealTime(rule.familyId, ruleData.mealTypeId))) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+      if (!(await areFamilyRecipes(rule.familyId, [ruleData.recipeId]))) {
+        return res.status(400).json({ message: UNKNOWN_RECIPE_MESSAGE });
+      }
+
+      const updated = await storage.updateMealRecurrence(rule.id, ruleData, fromDate ?? format(new Date(), 'yyyy-MM-dd'));
+      if (!updated) {
+        return res.status(404).json({ message: "Recurring meal not found" });
+      }
+      res.json({ ...updated, rrule: MealRecurrenceService.toRRule(updated) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error updating recurring meal:", error);
+        res.status(500).json({ message: "Failed to update recurring meal" });
+      }
+    }
+  });
+
+  app.delete('/api/meal-recurrences/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rule = await storage.getMealRecurrenceById(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ message: "Recurring meal not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, rule.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const fromDate = isoDateSchema.optional().parse(req.query.fromDate) ?? format(new Date(), 'yyyy-MM-dd');
+      const success = await storage.deleteMealRecurrence(rule.id, fromDate);
+      res.json({ success });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error deleting recurring meal:", error);
+        res.status(500).json({ message: "Failed to delete recurring meal" });
+      }
+    }
+  });
+
+  // Ranked recipes for one empty slot, each with the reasons behind its score
+  app.get('/api/families/:familyId/recommendations', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { date, mealTypeId, limit } = recommendationQuerySchema.parse(req.query);
+      const mealTime = (await storage.getFamilyMealTimes(familyId)).find(familyMealTime => familyMealTime.id === mealTypeId);
+      if (!mealTime) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+
+      const [family, recipes, attendanceMembers, attendancePatterns, dietaryProfiles, pantryItems, planningPreferences] = await Promise.all([
+        storage.getFamilyById(familyId),
+        storage.getRecipesByFamilyId(familyId),
+        storage.getAttendanceMembers(familyId),
+        storage.getAttendancePatterns(familyId),
+        storage.getFamilyDietaryProfiles(familyId),
+        storage.getPantryItemsByFamilyId(familyId),
+        storage.getMealPlanningPreferences(familyId),
+      ]);
+      const { rules } = MealPlanningPreferenceService.resolve(planningPreferences, dietaryProfiles);
+      // Suggestions suit whoever usually eats at this meal time on that weekday
+      const attendees = MealAttendanceService.defaultAttendees(attendanceMembers, attendancePatterns, date, mealTypeId);
+      const attendingProfiles = MealAttendanceService.attendingProfiles(dietaryProfiles, attendees);
+
+      // Cook history, plus meals already planned inside the repeat window
+      const historyStart = format(addDays(parseISO(date), -RECOMMENDATION_HISTORY_DAYS), 'yyyy-MM-dd');
+      const historyEnd = format(addDays(parseISO(date), rules.repeatFrequency), 'yyyy-MM-dd');
+      const meals = await storage.getMealsByDateRange(familyId, historyStart, historyEnd);
+      const recipeIds = recipes.map(recipe => recipe.id);
+      const [ingredientRows, ratings, dishes, goals] = await Promise.all([
+        storage.getRecipeIngredientsByRecipeIds(recipeIds),
+        storage.getRecipeRatings(recipeIds),
+        storage.getMealDishes(meals.map(meal => meal.id)),
+        Promise.all(attendingProfiles.map(member => storage.getNutritionGoalForDate(member.userId, familyId, date))),
+      ]);
+
+      res.json(MealRecommendationService.recommend({
+        date,
+        mealTime,
+        recipes,
+        ingredientRows,
+        members: attendingProfiles,
+        memberTargets: goals.map(goal => NutritionGoalService.toTargets(goal)),
+        ratings,
+        meals,
+        dishes,
+        pantryItems,
+        preferences: rules,
+        servings: attendees.length > 0 ? MealAttendanceService.servingsFor(attendees) : null,
+        timeZone: family?.timezone ?? null,
+        limit,
+      }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error recommending meals:", error);
+        res.status(500).json({ message: "Failed to recommend meals" });
+      }
+    }
+  });
+
+  app.post('/api/families/:familyId/meal-plan/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const [planningPreferences, dietaryProfiles] = await Promise.all([
+        storage.getMealPlanningPreferences(familyId),
+        storage.getFamilyDietaryProfiles(familyId),
+      ]);
+      const { rules } = MealPlanningPreferenceService.resolve(planningPreferences, dietaryProfiles);
+
+      // Limits the request leaves out come from the family's meal planning rules
+      const request = mealPlanPreviewSchema.parse({
+        weeknightMaxMinutes: rules.maxCookTime,
+        noRepeatDays: rules.repeatFrequency,
+        ...req.body,
+      });
+      const rangeDays = differenceInCalendarDays(parseISO(request.endDate), parseISO(request.startDate)) + 1;
+      if (rangeDays > MAX_MEAL_PLAN_DAYS) {
+        return res.status(400).json({ message: `A meal plan can cover at most ${MAX_MEAL_PLAN_DAYS} days` });
+      }
+
+      // Recurring meals claim their slots before the planner fills the rest
+      await storage.materializeMealRecurrences(familyId, request.startDate, request.endDate);
+
+      // Meals on either side of the range count toward the no-repeat window
+      const windowStart = format(addDays(parseISO(request.startDate), -request.noRepeatDays), 'yyyy-MM-dd');
+      const windowEnd = format(addDays(parseISO(request.endDate), request.noRepeatDays), 'yyyy-MM-dd');
+      const [recipes, mealTimes, existingMeals, members, attendanceMembers, attendancePatterns, pantryItems, preferences] = await Promise.all([
+        storage.getRecipesByFamilyId(familyId),
+        storage.getFamilyMealTimes(familyId),
+        storage.getMealsByDateRange(familyId, windowStart, windowEnd),
+        storage.getFamilyMembers(familyId),
+        storage.getAttendanceMembers(familyId),
+        storage.getAttendancePatterns(familyId),
+        storage.getPantryItemsByFamilyId(familyId),
+        storage.getFamilyPreferences(familyId),
+      ]);
+      const [ingredientRows, goals] = await Promise.all([
+        storage.getRecipeIngredientsByRecipeIds(recipes.map(recipe => recipe.id)),
+        Promise.all(members.map(member => storage.getNutritionGoalForDate(member.userId, familyId, request.startDate))),
+      ]);
+
+      // Without an explicit budget, a tracked monthly budget is prorated over the range
+      const monthlyBudget = preferences.budgetTracking && preferences.monthlyBudget ? Number(preferences.monthlyBudget) : null;
+      const budget = request.budget ?? (monthlyBudget !== null ? (monthlyBudget * rangeDays) / 30 : null);
+
+      const preview = MealPlannerService.generate({
+        request,
+        recipes,
+        ingredientRows,
+        mealTimes,
+        existingMeals,
+        members: dietaryProfiles,
+        memberTargets: goals.map(goal => NutritionGoalService.toTargets(goal)),
+        pantryItems,
+        budget,
+        attendanceMembers,
+        attendancePatterns,
+        preferences: rules,
+      });
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error generating meal plan:", error);
+        res.status(500).json({ message: "Failed to generate meal plan" });
+      }
+    }
+  });
+
+  app.post('/api/families/:familyId/meal-plan/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { meals } = acceptMealPlanSchema.parse(req.body);
+      const familyRecipeIds = new Set((await storage.getRecipesByFamilyId(familyId)).map(recipe => recipe.id));
+      if (meals.some(meal => !familyRecipeIds.has(meal.recipeId))) {
+        return res.status(400).json({ message: "Every planned meal must use one of the family's recipes" });
+      }
+      const familyMealTimeIds = new Set((await storage.getFamilyMealTimes(familyId)).map(mealTime => mealTime.id));
+      if (meals.some(meal => !familyMealTimeIds.has(meal.mealTypeId))) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+
+      const result = await storage.createPlannedMeals(
+        familyId,
+        meals.map(meal => insertMealSchema.parse({ ...meal, familyId, status: 'planned', createdBy: userId })),
+      );
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error accepting meal plan:", error);
+        res.status(500).json({ message: "Failed to save meal plan" });
+      }
+    }
+  });
+
+  // Meal plan template routes
+  app.get('/api/families/:familyId/meal-plan-templates', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const templates = await storage.getMealPlanTemplatesByFamilyId(familyId);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching meal plan templates:", error);
+      res.status(500).json({ message: "Failed to fetch meal plan templates" });
+    }
+  });
+
+  // Saves the meals of one or more calendar weeks as a template
+  app.post('/api/families/:familyId/meal-plan-templates', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { startDate, weeks, ...templateData } = createMealTemplateSchema.parse(req.body);
+      const weekStart = MealTemplateService.weekStart(startDate);
+      const weekEnd = MealTemplateService.weekEnd(weekStart, weeks);
+      await storage.materializeMealRecurrences(familyId, weekStart, weekEnd);
+      const [weekMeals, recipes] = await Promise.all([
+        storage.getMealsByDateRange(familyId, weekStart, weekEnd),
+        storage.getRecipesByFamilyId(familyId),
+      ]);
+
+      const entries = MealTemplateService.entriesFromMeals(weekMeals, recipes, weekStart);
+      if (entries.length === 0) {
+        return res.status(400).json({ message: "There are no meals in that week to save" });
+      }
+
+      const template = await storage.createMealPlanTemplate({ ...templateData, familyId, weeks, createdBy: userId }, entries);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error creating meal plan template:", error);
+        res.status(500).json({ message: "Failed to create meal plan template" });
+      }
+    }
+  });
+
+  // Copies a template another family shared into this family
+  app.post('/api/families/:familyId/meal-plan-templates/import', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { shareCode } = z.object({ shareCode: z.string().trim().min(1).max(32) }).parse(req.body);
+      const template = await storage.getMealPlanTemplateByShareCode(shareCode);
+      if (!template) {
+        return res.status(404).json({ message: "No shared template matches that code" });
+      }
+      if (template.familyId === familyId) {
+        return res.status(400).json({ message: "This template already belongs to your family" });
+      }
+
+      const copy = await storage.copyMealPlanTemplate(template, familyId, userId);
+      res.status(201).json(copy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error importing meal plan template:", error);
+        res.status(500).json({ message: "Failed to import meal plan template" });
+      }
+    }
+  });
+
+  app.patch('/api/meal-plan-templates/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const template = await storage.getMealPlanTemplateById(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: "Meal plan template not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, template.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const templateData = mealTemplateBodySchema.partial().parse(req.body);
+      const updated = await storage.updateMealPlanTemplate(template.id, templateData);
+      res.json({ ...updated, entries: template.entries });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error updating meal plan template:", error);
+        res.status(500).json({ message: "Failed to update meal plan template" });
+      }
+    }
+  });
+
+  app.delete('/api/meal-plan-templates/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const template = await storage.getMealPlanTemplateById(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: "Meal plan template not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, template.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const success = await storage.deleteMealPlanTemplate(template.id);
+      res.json({ success });
+    } catch (error) {
+      console.error("Error deleting meal plan template:", error);
+      res.status(500).json({ message: "Failed to delete meal plan template" });
+    }
+  });
+
+  // Sharing hands out a code other families can import with; unsharing retires the code
+  app.post('/api/meal-plan-templates/:id/share', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const template = await storage.getMealPlanTemplateById(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: "Meal plan template not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, template.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const updated = template.shareCode
+        ? template
+        : await storage.updateMealPlanTemplate(template.id, { shareCode: randomBytes(9).toString('base64url') });
+      res.json({ ...updated, entries: template.entries });
+    } catch (error) {
+      console.error("Error sharing meal plan template:", error);
+      res.status(500).json({ message: "Failed to share meal plan template" });
+    }
+  });
+
+  app.delete('/api/meal-plan-templates/:id/share', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const template = await storage.getMealPlanTemplateById(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: "Meal plan template not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, template.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const updated = await storage.updateMealPlanTemplate(template.id, { shareCode: null });
+      res.json({ ...updated, entries: template.entries });
+    } catch (error) {
+      console.error("Error unsharing meal plan template:", error);
+      res.status(500).json({ message: "Failed to stop sharing meal plan template" });
+    }
+  });
+
+  // Fills the calendar from startDate's week; onConflict decides what happens to meals already there
+  app.post('/api/meal-plan-templates/:id/apply', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const template = await storage.getMealPlanTemplateById(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: "Meal plan template not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, template.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { startDate, onConflict } = applyMealTemplateSchema.parse(req.body);
+      const weekStart = MealTemplateService.weekStart(startDate);
+      // Recurring meals count as scheduled, so they are written before conflicts are checked
+      await storage.materializeMealRecurrences(template.familyId, weekStart, MealTemplateService.weekEnd(weekStart, template.weeks));
+
+      const plannedMeals = MealTemplateService.toMeals(template, weekStart, template.familyId, userId)
+        .map(meal => insertMealSchema.parse(meal));
+      const result = await storage.applyMealPlanTemplate(template.familyId, plannedMeals, onConflict);
+      if (onConflict === "fail" && result.conflicts.length > 0) {
+        return res.status(409).json({
+          message: `${result.conflicts.length} meals are already scheduled in this template's slots`,
+          ...result,
+        });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error applying meal plan template:", error);
+        res.status(500).json({ message: "Failed to apply meal plan template" });
+      }
+    }
+  });
+
+  app.patch('/api/meals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const mealId = parseInt(req.params.id);
+
+      // First get the meal to check family membership
+      const meal = await storage.getMealById(mealId);
+      if (!meal) {
+        return res.status(404).json({ message: "Meal not found" });
+      }
+
+      // Check if user is member of the family
+      const membership = await storage.getUserFamilyMembership(userId, meal.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { memberPortions, dishes, ...mealData } = editableMealSchema.partial().extend({
+        memberPortions: z.array(z.object({
+          userId: z.string(),
+          portion: z.number().min(0).max(20),
+        })).optional(),
+        dishes: mealDishesSchema.optional(),
+      }).parse(req.body);
+      if (!(await isFamilyMealTime(mealData.familyId ?? meal.familyId, mealData.mealTypeId))) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+      if (!(await areFamilyDishes(meal.familyId, dishes))) {
+        return res.status(400).json({ message: UNKNOWN_DISH_MESSAGE });
+      }
+
+      let expiryWarning: string | null = null;
+      if (meal.leftoverOfMealId !== null && (mealData.servings !== undefined || mealData.scheduledDate !== undefined)) {
+        const source = await storage.getMealById(meal.leftoverOfMealId);
+        if (source) {
+          const check = LeftoverService.validate(source, await storage.getLeftoverMeals(source.id), {
+            id: meal.id,
+            scheduledDate: mealData.scheduledDate ?? meal.scheduledDate,
+            servings: mealData.servings ?? meal.servings ?? 0,
+          });
+          if (check.error) {
+            return res.status(400).json({ message: check.error });
+          }
+          expiryWarning = check.expiryWarning;
+        }
+      }
+      if (mealData.leftoverServings !== undefined) {
+        const summary = LeftoverService.summarize(meal, await storage.getLeftoverMeals(meal.id));
+        if ((mealData.leftoverServings ?? 0) < summary.assignedServings) {
+          return res.status(400).json({
+            message: `${summary.assignedServings} leftover servings are already scheduled; remove those meals first`,
+          });
+        }
+      }
+
+      // Typed servings stay put; clearing them goes back to cooking for whoever attends
+      const changes = mealData.servings === undefined
+        ? mealData
+        : { ...mealData, servingsFromAttendance: mealData.servings === null && meal.leftoverOfMealId === null };
+      // An occurrence edited on its own is no longer rewritten by edits to its series.
+      // Nutrition logs and the cook's recipes cooked follow the meal in and out of "completed",
+      // and are redone when an eaten meal's servings or dishes change
+      const saved = await storage.saveMealEdit(
+        meal,
+        meal.recurrenceId !== null ? { ...changes, recurrenceModified: true } : changes,
+        { dishes, memberPortions },
+      );
+      if (!saved) {
+        return res.status(404).json({ message: "Meal not found" });
+      }
+      const updatedMeal = saved.meal;
+      for (const cookId of saved.creditedCooks) {
+        await storage.checkAndAwardAchievements(cookId, meal.familyId, 'recipesCooked');
+      }
+      const [withMealDishes] = await withDishes([updatedMeal]);
+      res.json(meal.leftoverOfMealId !== null ? { ...withMealDishes, expiryWarning } : withMealDishes);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error updating meal:", error);
+        res.status(500).json({ message: "Failed to update meal" });
+      }
+    }
+  });
+
+  app.get('/api/meals/:id/leftovers', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const meal = await storage.getMealById(parseInt(req.params.id));
+      if (!meal) {
+        return res.status(404).json({ message: "Meal not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, meal.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(LeftoverService.summarize(meal, await storage.getLeftoverMeals(meal.id)));
+    } catch (error) {
+      console.error("Error fetching leftovers:", error);
+      res.status(500).json({ message: "Failed to fetch leftovers" });
+    }
+  });
+
+  app.post('/api/meals/:id/leftovers', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const source = await storage.getMealById(parseInt(req.params.id));
+      if (!source) {
+        return res.status(404).json({ message: "Meal not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, source.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const leftover = z.object({
+        scheduledDate: isoDateSchema,
+        mealTypeId: z.number().int().positive(),
+        servings: z.number().int().positive(),
+        notes: z.string().nullable().optional(),
+      }).parse(req.body);
+      if (!(await isFamilyMealTime(source.familyId, leftover.mealTypeId))) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+
+      const check = LeftoverService.validate(source, await storage.getLeftoverMeals(source.id), leftover);
+      if (check.error) {
+        return res.status(400).json({ message: check.error });
+      }
+
+      // Leftovers are the whole meal, sides included, shared over the leftover servings
+      const meal = await storage.createMeal(
+        {
+          ...leftover,
+          familyId: source.familyId,
+          recipeId: source.recipeId,
+          leftoverOfMealId: source.id,
+          status: 'planned',
+          createdBy: userId,
+        },
+        (await storage.getMealDishes([source.id])).map(dish => ({ recipeId: dish.recipeId })),
+      );
+      res.status(201).json({ ...meal, expiryWarning: check.expiryWarning });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error scheduling leftovers:", error);
+        res.status(500).json({ message: "Failed to schedule leftovers" });
+      }
+    }
+  });
+
+  app.get('/api/meals/:id/attendance', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const meal = await storage.getMealById(parseInt(req.params.id));
+      if (!meal) {
+        return res.status(404).json({ message: "Meal not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, meal.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(await mealAttendanceSummary(meal));
+    } catch (error) {
+      console.error("Error fetching meal attendance:", error);
+      res.status(500).json({ message: "Failed to fetch meal attendance" });
+    }
+  });
+
+  // Replaces who is eating the meal; servings follow unless they were typed
+  app.put('/api/meals/:id/attendance', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const meal = await storage.getMealById(parseInt(req.params.id));
+      if (!meal) {
+        return res.status(404).json({ message: "Meal not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, meal.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (meal.status === 'completed') {
+        return res.status(400).json({ message: "Attendance can't change once a meal is eaten; mark it as planned first" });
+      }
+
+      const attendance = mealAttendanceInputSchema.parse(req.body);
+      const membershipIds = attendance.members.map(member => member.membershipId);
+      const familyMembershipIds = new Set((await storage.getFamilyMembers(meal.familyId)).map(member => member.id));
+      if (membershipIds.some(membershipId => !familyMembershipIds.has(membershipId))) {
+        return res.status(400).json({ message: "Every attending member must belong to the family" });
+      }
+      if (new Set(membershipIds).size !== membershipIds.length) {
+        return res.status(400).json({ message: "Each member can only be listed once" });
+      }
+
+      await storage.setMealAttendance(meal.id, attendance);
+      const [refreshed] = await storage.refreshAttendanceServings(meal.familyId, { mealIds: [meal.id] });
+      res.json(await mealAttendanceSummary(refreshed ?? meal));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error updating meal attendance:", error);
+        res.status(500).json({ message: "Failed to update meal attendance" });
+      }
+    }
+  });
+
+  // Goes back to the members' usual attendance for the meal's weekday and meal time
+  app.delete('/api/meals/:id/attendance', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const meal = await storage.getMealById(parseInt(req.params.id));
+      if (!meal) {
+        return res.status(404).json({ message: "Meal not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, meal.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (meal.status === 'completed') {
+        return res.status(400).json({ message: "Attendance can't change once a meal is eaten; mark it as planned first" });
+      }
+
+      await storage.setMealAttendance(meal.id, null);
+      const [refreshed] = await storage.refreshAttendanceServings(meal.familyId, { mealIds: [meal.id] });
+      res.json(await mealAttendanceSummary(refreshed ?? meal));
+    } catch (error) {
+      console.error("Error resetting meal attendance:", error);
+      res.status(500).json({ message: "Failed to reset meal attendance" });
+    }
+  });
+
+  // Replaces who cooks, helps and cleans up; anything worth a second look comes back as warnings
+  app.put('/api/meals/:id/assignments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const meal = await storage.getMealById(parseInt(req.params.id));
+      if (!meal) {
+        return res.status(404).json({ message: "Meal not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, meal.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (meal.status === 'completed') {
+        return res.status(400).json({ message: "Duties can't change once a meal is eaten; mark it as planned first" });
+      }
+
+      const { assignments } = mealAssignmentsInputSchema.parse(req.body);
+      const members = await storage.getCookingRotationMembers(meal.familyId);
+      if (assignments.some(assignment => !members.some(member => member.userId === assignment.userId))) {
+        return res.status(400).json({ message: "Every assigned person must belong to the family" });
+      }
+      const keys = assignments.map(assignment => `${assignment.userId}|${assignment.role}`);
+      if (new Set(keys).size !== keys.length) {
+        return res.status(400).json({ message: "Each person can only have a duty once per meal" });
+      }
+
+      const saved = await storage.setMealAssignments(meal.id, assignments);
+      const [attendeeIds, recipe] = await Promise.all([
+        mealAttendeeIds(meal.familyId, [meal]),
+        meal.recipeId ? storage.getRecipeById(meal.recipeId) : undefined,
+      ]);
+      const result: MealAssignmentsResult = {
+        assignments: saved,
+        warnings: CookRotationService.checkAssignments(saved, members, attendeeIds[meal.id], recipe?.difficulty ?? null),
+      };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error updating meal assignments:", error);
+        res.status(500).json({ message: "Failed to update meal assignments" });
+      }
+    }
+  });
+
+  app.delete('/api/meals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const mealId = parseInt(req.params.id);
+
+      // First get the meal to check family membership
+      const meal = await storage.getMealById(mealId);
+      if (!meal) {
+        return res.status(404).json({ message: "Meal not found" });
+      }
+
+      // Check if user is member of the family
+      const membership = await storage.getUserFamilyMembership(userId, meal.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const success = await storage.deleteMeal(mealId);
+      res.json({ success });
+    } catch (error) {
+      console.error("Error deleting meal:", error);
+      res.status(500).json({ message: "Failed to delete meal" });
+    }
+  });
+
+  // Nutrition log routes
+  app.post('/api/nutrition-logs', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const logData = insertNutritionLogSchema.parse({ ...req.body, userId });
+
+      // Check if user is member of the family
+      const membership = await storage.getUserFamilyMembership(userId, logData.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (!(await isFamilyMealTime(logData.familyId, logData.mealTypeId))) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+
+      const log = await storage.createNutritionLog(logData);
+      res.json(log);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error creating nutrition log:", error);
+        res.status(500).json({ message: "Failed to create nutrition log" });
+      }
+    }
+  });
+
+  app.get('/api/nutrition-logs', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { date, startDate, endDate } = req.query;
+
+      if (startDate || endDate) {
+        const range = nutritionRangeSchema.parse({ startDate, endDate });
+        const logs = await storage.getNutritionLogsByDateRange(userId, range.startDate, range.endDate);
+        return res.json(logs);
+      }
+
+      const logs = await storage.getNutritionLogsByUserId(userId, date as string);
+      res.json(logs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error fetching nutrition logs:", error);
+        res.status(500).json({ message: "Failed to fetch nutrition logs" });
+      }
+    }
+  });
+
+  // Daily totals, rolling averages, meal type breakdown and goal adherence for a date range
+  app.get('/api/nutrition-logs/analytics', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const familyId = parseInt(req.query.familyId as string);
+      const { startDate, endDate } = nutritionRangeSchema.parse(req.query);
+
+      if (differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1 > MAX_ANALYTICS_RANGE_DAYS) {
+        return res.status(400).json({ message: `Date range cannot exceed ${MAX_ANALYTICS_RANGE_DAYS} days` });
+      }
+      if (isNaN(familyId)) {
+        return res.status(400).json({ message: "familyId is required" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Reach back far enough that the first day in range has a full rolling window
+      const windowStart = format(addDays(parseISO(startDate), -(ROLLING_WINDOW_DAYS - 1)), 'yyyy-MM-dd');
+      const [logs, goals, mealTimes] = await Promise.all([
+        storage.getNutritionLogsByDateRange(userId, windowStart, endDate, familyId),
+        storage.getNutritionGoalHistory(userId, familyId),
+        storage.getFamilyMealTimes(familyId),
+      ]);
+
+      res.json(NutritionAnalyticsService.summarize(logs, goals, mealTimes, startDate, endDate));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error fetching nutrition analytics:", error);
+        res.status(500).json({ message: "Failed to fetch nutrition analytics" });
+      }
+    }
+  });
+
+  // Food search across the bundled food database, the family's recipes and the user's own logs.
+  // An empty query returns recently logged foods for "log again".
+  app.get('/api/foods/search', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { q, familyId, limit } = foodSearchQuerySchema.parse(req.query);
+
+      let recipes: Recipe[] = [];
+      if (familyId) {
+        const membership = await storage.getUserFamilyMembership(userId, familyId);
+        if (!membership) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        recipes = await storage.getRecipesByFamilyId(familyId);
+      }
+
+      const recentLogs = await storage.getRecentNutritionLogs(userId, FOOD_SEARCH_HISTORY_SIZE);
+      res.json(FoodSearchService.search(q, recipes, recentLogs, limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error searching foods:", error);
+        res.status(500).json({ message: "Failed to search foods" });
+      }
+    }
+  });
+
+  // Family nutrition dashboard: each visible member's intake against their goals, admins only
+  app.get('/api/families/:familyId/nutrition/dashboard', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const familyId = parseInt(req.params.familyId);
+      const endDate = isoDateSchema.parse(req.query.endDate ?? format(new Date(), 'yyyy-MM-dd'));
+      const startDate = isoDateSchema.parse(req.query.startDate ?? format(addDays(parseISO(endDate), -13), 'yyyy-MM-dd'));
+      nutritionRangeSchema.parse({ startDate, endDate });
+
+      if (differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1 > MAX_ANALYTICS_RANGE_DAYS) {
+        return res.status(400).json({ message: `Date range cannot exceed ${MAX_ANALYTICS_RANGE_DAYS} days` });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership || membership.role !== 'admin') {
+        return res.status(403).json({ message: "Only family admins can view the family nutrition dashboard" });
+      }
+
+      // Members with a private profile are left out; admins always see their own numbers
+      const members = await storage.getFamilyMembers(familyId);
+      const preferences = await Promise.all(members.map(member => storage.getUserPreferences(member.userId)));
+      const visibleMembers = members.filter((member, index) =>
+        member.userId === userId || preferences[index]?.profileVisibility !== 'private'
+      );
+
+      const [logs, mealTimes, goalHistories] = await Promise.all([
+        storage.getFamilyNutritionLogsByDateRange(familyId, visibleMembers.map(member => member.userId), startDate, endDate),
+        storage.getFamilyMealTimes(familyId),
+        Promise.all(visibleMembers.map(member => storage.getNutritionGoalHistory(member.userId, familyId))),
+      ]);
+
+      res.json({
+        familyId,
+        startDate,
+        endDate,
+        members: visibleMembers.map((member, index) => NutritionAnalyticsService.summarizeMember(
+          member,
+          logs.filter(log => log.userId === member.userId),
+          goalHistories[index],
+          mealTimes,
+          startDate,
+          endDate,
+        )),
+        hiddenMemberCount: members.length - visibleMembers.length,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error fetching family nutrition dashboard:", error);
+        res.status(500).json({ message: "Failed to fetch family nutrition dashboard" });
+      }
+    }
+  });
+
+  // Nutrition goal routes
+  // Members manage their own goals; family admins may manage anyone's
+  const canManageNutritionGoals = async (userId: string, familyId: number, memberId: string) => {
+    const membership = await storage.getUserFamilyMembership(userId, familyId);
+    if (!membership) return false;
+    if (memberId === userId || membership.role === 'admin') {
+      return !!(await storage.getUserFamilyMembership(memberId, familyId));
+    }
+    return false;
+  };
+
+  app.get('/api/families/:familyId/nutrition-goals', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const familyId = parseInt(req.params.familyId);
+      const memberId = (req.query.userId as string) || userId;
+      const date = isoDateSchema.parse(req.query.date ?? format(new Date(), 'yyyy-MM-dd'));
+
+      if (!(await canManageNutritionGoals(userId, familyId, memberId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const goal = await storage.getNutritionGoalForDate(memberId, familyId, date);
+      res.json({ goal: goal ?? null, targets: NutritionGoalService.toTargets(goal) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error fetching nutrition goals:", error);
+        res.status(500).json({ message: "Failed to fetch nutrition goals" });
+      }
+    }
+  });
+
+  app.get('/api/families/:familyId/nutrition-goals/history', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const familyId = parseInt(req.params.familyId);
+      const memberId = (req.query.userId as string) || userId;
+
+      if (!(await canManageNutritionGoals(userId, familyId, memberId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const history = await storage.getNutritionGoalHistory(memberId, familyId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching nutrition goal history:", error);
+      res.status(500).json({ message: "Failed to fetch nutrition goal history" });
+    }
+  });
+
+  app.post('/api/families/:familyId/nutrition-goals', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const familyId = parseInt(req.params.familyId);
+      const { userId: memberId = userId, effectiveFrom, profile, ...targets } = nutritionGoalBodySchema.parse(req.body);
+
+      if (!(await canManageNutritionGoals(userId, familyId, memberId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const goalData = insertNutritionGoalSchema.parse({
+        ...(profile ? NutritionGoalService.toGoalValues(profile) : { ...targets, source: 'manual' }),
+        userId: memberId,
+        familyId,
+        effectiveFrom: effectiveFrom ?? format(new Date(), 'yyyy-MM-dd'),
+        createdBy: userId,
+      });
+      // A new goal closes the current one, so it can't start before the current one did
+      const current = (await storage.getNutritionGoalHistory(memberId, familyId)).find(goal => goal.effectiveTo === null);
+      if (current && goalData.effectiveFrom < current.effectiveFrom) {
+        return res.status(400).json({ message: `effectiveFrom can't be before the current goal's start, ${current.effectiveFrom}` });
+      }
+
+      const goal = await storage.createNutritionGoal(goalData);
+      res.json(goal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error creating nutrition goal:", error);
+        res.status(500).json({ message: "Failed to create nutrition goal" });
+      }
+    }
+  });
+
+  // Preview calculated targets without saving them
+  app.post('/api/nutrition-goals/calculate', isAuthenticated, async (req: any, res) => {
+    try {
+      const profile = nutritionGoalProfileSchema.parse(req.body);
+      res.json({
+        bmr: Math.round(NutritionGoalService.calculateBmr(profile)),
+        targets: NutritionGoalService.calculateTargets(profile),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error calculating nutrition goals:", error);
+        res.status(500).json({ message: "Failed to calculate nutrition goals" });
+      }
+    }
+  });
+
+  app.patch('/api/nutrition-goals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const goalId = parseInt(req.params.id);
+
+      const goal = await storage.getNutritionGoalById(goalId);
+      if (!goal) {
+        return res.status(404).json({ message: "Nutrition goal not found" });
+      }
+      if (!(await canManageNutritionGoals(userId, goal.familyId, goal.userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { profile, ...targets } = nutritionGoalBodySchema.omit({ userId: true, effectiveFrom: true }).parse(req.body);
+      const goalData = insertNutritionGoalSchema
+        .omit({ userId: true, familyId: true, createdBy: true, effectiveFrom: true })
+        .partial()
+        .parse(profile ? NutritionGoalService.toGoalValues(profile) : { ...targets, source: 'manual' });
+
+      const updatedGoal = await storage.updateNutritionGoal(goalId, goalData);
+      res.json(updatedGoal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error updating nutrition goal:", error);
+        res.status(500).json({ message: "Failed to update nutrition goal" });
+      }
+    }
+  });
+
+  app.delete('/api/nutrition-goals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const goalId = parseInt(req.params.id);
+
+      const goal = await storage.getNutritionGoalById(goalId);
+      if (!goal) {
+        return res.status(404).json({ message: "Nutrition goal not found" });
+      }
+      if (!(await canManageNutritionGoals(userId, goal.familyId, goal.userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const success = await storage.deleteNutritionGoal(goalId);
+      res.json({ success });
+    } catch (error) {
+      console.error("Error deleting nutrition goal:", error);
+      res.status(500).json({ message: "Failed to delete nutrition goal" });
+    }
+  });
+
+  // Shopping list routes
+  app.post('/api/shopping-lists', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const listData = insertShoppingListSchema.parse({ ...req.body, createdBy: userId });
+
+      // Check if user is member of the family
+      const membership = await storage.getUserFamilyMembership(userId, listData.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const list = await storage.createShoppingList(listData);
+      res.json(list);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error creating shopping list:", error);
+        res.status(500).json({ message: "Failed to create shopping list" });
+      }
+    }
+  });
+
+  app.get('/api/families/:familyId/shopping-lists', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      // Check if user is member of this family
       const membership = await storage.getUserFamilyMembership(userId, familyId);
       if (!membership) {
         return res.status(403).json({ message: "Access denied" });
@@ -482,20 +2353,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const itemData = insertShoppingListItemSchema.parse({ ...req.body, shoppingListId: listId });
-      const item = await storage.addShoppingListItem(itemData);
-      res.json(item);
+      const itemData = insertShoppingListItemSchema.parse({ ...req.body, shoppingListId: listId });
+      const item = await storage.addShoppingListItem(itemData);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error adding shopping list item:", error);
+        res.status(500).json({ message: "Failed to add shopping list item" });
+      }
+    }
+  });
+
+  app.get('/api/shopping-lists/:listId/items', isAuthenticated, async (req: any, res) => {
+    try {
+      const listId = parseInt(req.params.listId);
+      const userId = req.user.claims.sub;
+
+      // Check if shopping list exists and user has access
+      const list = await storage.getShoppingListById(listId);
+      if (!list) {
+        return res.status(404).json({ message: "Shopping list not found" });
+      }
+
+      const membership = await storage.getUserFamilyMembership(userId, list.familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const items = await storage.getShoppingListItems(listId);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching shopping list items:", error);
+      res.status(500).json({ message: "Failed to fetch shopping list items" });
+    }
+  });
+
+  // Generate a consolidated shopping list from selected meals
+  app.post('/api/shopping-lists/generate', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { familyId, mealIds, shoppingListId } = z.object({
+        familyId: z.number(),
+        mealIds: z.array(z.number()),
+        shoppingListId: z.number().optional(),
+      }).parse(req.body);
+
+      // Check if user is member of the family
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (shoppingListId) {
+        const list = await storage.getShoppingListById(shoppingListId);
+        if (!list || list.familyId !== familyId) {
+          return res.status(404).json({ message: "Shopping list not found" });
+        }
+      }
+
+      const result = await storage.generateShoppingListFromMeals(familyId, mealIds, shoppingListId);
+      res.json(result);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: fromZodError(error).toString() });
       } else {
-        console.error("Error adding shopping list item:", error);
-        res.status(500).json({ message: "Failed to add shopping list item" });
+        console.error("Error generating shopping list:", error);
+        res.status(500).json({ message: "Failed to generate shopping list" });
       }
     }
   });
 
-  app.get('/api/shopping-lists/:listId/items', isAuthenticated, async (req: any, res) => {
+  app.post('/api/shopping-lists/:listId/apply-diff', isAuthenticated, async (req: any, res) => {
     try {
       const listId = parseInt(req.params.listId);
       const userId = req.user.claims.sub;
@@ -511,11 +2441,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const items = await storage.getShoppingListItems(listId);
+      const diff = z.object({
+        toAdd: z.array(insertShoppingListItemSchema.omit({ shoppingListId: true })),
+        toUpdate: z.array(z.object({
+          id: z.number(),
+          updates: insertShoppingListItemSchema.omit({ shoppingListId: true }).partial(),
+        })),
+        coveredByPantry: z.array(z.object({
+          name: z.string(),
+          quantity: z.string().nullable(),
+          unit: z.string().nullable(),
+          pantryItemId: z.number(),
+        })).default([]),
+      }).parse(req.body);
+
+      const items = await storage.applyShoppingListDiff(listId, diff);
       res.json(items);
     } catch (error) {
-      console.error("Error fetching shopping list items:", error);
-      res.status(500).json({ message: "Failed to fetch shopping list items" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error applying shopping list changes:", error);
+        res.status(500).json({ message: "Failed to apply shopping list changes" });
+      }
     }
   });
 
@@ -851,9 +2799,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get user preferences
-  app.get('/api/preferences/:userId', async (req, res) => {
+  app.get('/api/preferences/:userId', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.params.userId;
+      const userId = req.user.claims.sub;
+      if (req.params.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       const preferences = await storage.getUserPreferences(userId);
       res.json(preferences || {});
     } catch (error) {
@@ -863,21 +2814,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update user preferences
-  app.patch('/api/preferences/update', async (req, res) => {
+  app.patch('/api/preferences/update', isAuthenticated, async (req: any, res) => {
     try {
-      const { userId, ...preferencesData } = req.body;
+      const userId = req.user.claims.sub;
+      const preferencesData = insertUserPreferencesSchema.omit({ userId: true }).partial().parse(req.body);
       const updatedPreferences = await storage.updateUserPreferences(userId, preferencesData);
       res.json(updatedPreferences);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
       console.error('Error updating user preferences:', error);
       res.status(500).json({ message: 'Failed to update user preferences' });
     }
   });
 
   // Get family preferences
-  app.get('/api/families/:familyId/preferences', async (req, res) => {
+  app.get('/api/families/:familyId/preferences', isAuthenticated, async (req: any, res) => {
     try {
       const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
       const preferences = await storage.getFamilyPreferences(familyId);
       res.json(preferences || {});
     } catch (error) {
@@ -887,17 +2849,359 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update family preferences
-  app.patch('/api/families/:familyId/preferences', async (req, res) => {
+  app.patch('/api/families/:familyId/preferences', isAuthenticated, async (req: any, res) => {
     try {
       const familyId = parseInt(req.params.familyId);
-      const updatedPreferences = await storage.updateFamilyPreferences(familyId, req.body);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (membership.role !== 'admin') {
+        return res.status(403).json({ message: "Only family admins can change the family's preferences" });
+      }
+
+      const preferencesData = insertFamilyPreferencesSchema.omit({ familyId: true }).partial().parse(req.body);
+      const updatedPreferences = await storage.updateFamilyPreferences(familyId, preferencesData);
       res.json(updatedPreferences);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
       console.error('Error updating family preferences:', error);
       res.status(500).json({ message: 'Failed to update family preferences' });
     }
   });
 
+  // Meal planning preferences: family defaults, each member's overrides and the rules they add up to
+  app.get('/api/families/:familyId/meal-planning-preferences', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const [rows, members] = await Promise.all([
+        storage.getMealPlanningPreferences(familyId),
+        storage.getFamilyDietaryProfiles(familyId),
+      ]);
+      res.json(MealPlanningPreferenceService.resolve(rows, members));
+    } catch (error) {
+      console.error("Error fetching meal planning preferences:", error);
+      res.status(500).json({ message: "Failed to fetch meal planning preferences" });
+    }
+  });
+
+  // Family defaults are for admins; members can change their own overrides
+  app.patch('/api/families/:familyId/meal-planning-preferences', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (membership.role !== 'admin') {
+        return res.status(403).json({ message: "Only family admins can change the family's meal planning preferences" });
+      }
+
+      const preferences = mealPlanningPreferencesInputSchema.parse(req.body);
+      await storage.saveMealPlanningPreferences(familyId, null, preferences);
+      const [rows, members] = await Promise.all([
+        storage.getMealPlanningPreferences(familyId),
+        storage.getFamilyDietaryProfiles(familyId),
+      ]);
+      res.json(MealPlanningPreferenceService.resolve(rows, members));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error updating meal planning preferences:", error);
+        res.status(500).json({ message: "Failed to update meal planning preferences" });
+      }
+    }
+  });
+
+  app.patch('/api/families/:familyId/meal-planning-preferences/members/:userId', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+      const memberId = req.params.userId;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (memberId !== userId && membership.role !== 'admin') {
+        return res.status(403).json({ message: "Only family admins can change another member's meal planning preferences" });
+      }
+      if (!(await storage.getUserFamilyMembership(memberId, familyId))) {
+        return res.status(404).json({ message: "Family member not found" });
+      }
+
+      const preferences = mealPlanningPreferencesInputSchema.parse(req.body);
+      await storage.saveMealPlanningPreferences(familyId, memberId, preferences);
+      const [rows, members] = await Promise.all([
+        storage.getMealPlanningPreferences(familyId),
+        storage.getFamilyDietaryProfiles(familyId),
+      ]);
+      res.json(MealPlanningPreferenceService.resolve(rows, members));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error updating member meal planning preferences:", error);
+        res.status(500).json({ message: "Failed to update meal planning preferences" });
+      }
+    }
+  });
+
+  // Attendance pattern routes
+  const attendanceSettings = async (familyId: number): Promise<MemberAttendanceSettings[]> => {
+    const [members, patterns] = await Promise.all([
+      storage.getAttendanceMembers(familyId),
+      storage.getAttendancePatterns(familyId),
+    ]);
+    return members.map(member => ({
+      ...member,
+      pattern: patterns
+        .filter(pattern => pattern.membershipId === member.membershipId)
+        .map(({ dayOfWeek, mealTypeId, attending }) => ({ dayOfWeek, mealTypeId, attending })),
+    }));
+  };
+
+  app.get('/api/families/:familyId/attendance-patterns', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(await attendanceSettings(familyId));
+    } catch (error) {
+      console.error("Error fetching attendance patterns:", error);
+      res.status(500).json({ message: "Failed to fetch attendance patterns" });
+    }
+  });
+
+  // Members set their own usual attendance and portion size; admins can set anyone's
+  app.put('/api/families/:familyId/attendance-patterns/:membershipId', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const membershipId = parseInt(req.params.membershipId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const member = (await storage.getFamilyMembers(familyId)).find(other => other.id === membershipId);
+      if (!member) {
+        return res.status(404).json({ message: "Family member not found" });
+      }
+      if (member.userId !== userId && membership.role !== 'admin') {
+        return res.status(403).json({ message: "Only family admins can change another member's attendance" });
+      }
+
+      const pattern = attendancePatternInputSchema.parse(req.body);
+      const familyMealTimeIds = new Set((await storage.getFamilyMealTimes(familyId)).map(mealTime => mealTime.id));
+      if (pattern.slots.some(slot => !familyMealTimeIds.has(slot.mealTypeId))) {
+        return res.status(400).json({ message: UNKNOWN_MEAL_TIME_MESSAGE });
+      }
+
+      await storage.saveAttendancePattern(familyId, membershipId, pattern);
+      // Upcoming meals that cook for whoever attends pick up the new pattern
+      await storage.refreshAttendanceServings(familyId, { fromDate: format(new Date(), 'yyyy-MM-dd') });
+      const settings = await attendanceSettings(familyId);
+      res.json(settings.find(other => other.membershipId === membershipId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error updating attendance pattern:", error);
+        res.status(500).json({ message: "Failed to update attendance pattern" });
+      }
+    }
+  });
+
+  // Cooking rotation routes
+  app.get('/api/families/:familyId/cooking-rotation', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(await storage.getCookingRotationMembers(familyId));
+    } catch (error) {
+      console.error("Error fetching cooking rotation:", error);
+      res.status(500).json({ message: "Failed to fetch cooking rotation" });
+    }
+  });
+
+  // Members choose their own duties and weekly cooking limit; admins can set anyone's
+  app.put('/api/families/:familyId/cooking-rotation/members/:userId', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+      const memberId = req.params.userId;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (memberId !== userId && membership.role !== 'admin') {
+        return res.status(403).json({ message: "Only family admins can change another member's cooking rotation" });
+      }
+      if (!(await storage.getUserFamilyMembership(memberId, familyId))) {
+        return res.status(404).json({ message: "Family member not found" });
+      }
+
+      const settings = cookingRotationSettingsInputSchema.parse(req.body);
+      await storage.saveCookingRotationSettings(familyId, memberId, settings);
+      const members = await storage.getCookingRotationMembers(familyId);
+      res.json(members.find(member => member.userId === memberId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error updating cooking rotation:", error);
+        res.status(500).json({ message: "Failed to update cooking rotation" });
+      }
+    }
+  });
+
+  // Hands out duties for the meals in a date range, taking turns fairly among whoever is home
+  app.post('/api/families/:familyId/cooking-rotation/assign', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const request = cookingRotationBodySchema.parse(req.body);
+      if (differenceInCalendarDays(parseISO(request.endDate), parseISO(request.startDate)) + 1 > MAX_MEAL_PLAN_DAYS) {
+        return res.status(400).json({ message: `Date range cannot exceed ${MAX_MEAL_PLAN_DAYS} days` });
+      }
+
+      await storage.materializeMealRecurrences(familyId, request.startDate, request.endDate);
+      const historyStart = format(addDays(parseISO(request.startDate), -COOK_ROTATION_HISTORY_DAYS), 'yyyy-MM-dd');
+      const [family, mealList, recipes, members, duties] = await Promise.all([
+        storage.getFamilyById(familyId),
+        storage.getMealsByDateRange(familyId, request.startDate, request.endDate),
+        storage.getRecipesByFamilyId(familyId),
+        storage.getCookingRotationMembers(familyId),
+        storage.getMealAssignmentsByDateRange(familyId, historyStart, request.endDate),
+      ]);
+      // Meals already eaten, leftovers and meals with nothing to cook need no duties
+      const cookedMeals = (await withDishes(mealList)).filter(meal =>
+        meal.status !== 'completed' && meal.leftoverOfMealId === null && (meal.recipeId !== null || meal.dishes.length > 0));
+      const attendeeIds = await mealAttendeeIds(familyId, cookedMeals);
+
+      const plan = CookRotationService.plan({
+        meals: cookedMeals.map(meal => ({
+          id: meal.id,
+          scheduledDate: meal.scheduledDate,
+          difficulty: recipes.find(recipe => recipe.id === meal.recipeId)?.difficulty ?? null,
+          attendeeIds: attendeeIds[meal.id],
+        })),
+        members,
+        duties,
+        roles: request.roles,
+        overwrite: request.overwrite,
+        weekStartsOn: family?.weekStartsOn === 'monday' ? 1 : 0,
+      });
+      const saved = await storage.addMealAssignments(
+        plan.assignments,
+        request.overwrite ? { mealIds: cookedMeals.map(meal => meal.id), roles: request.roles } : undefined,
+      );
+      const result: CookingRotationResult = { assignments: saved, notes: plan.notes };
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error assigning cooking rotation:", error);
+        res.status(500).json({ message: "Failed to assign cooking rotation" });
+      }
+    }
+  });
+
+  // The signed-in member's duties, this week unless a range is given
+  app.get('/api/families/:familyId/cooking-duties', isAuthenticated, async (req: any, res) => {
+    try {
+      const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+      const { startDate, endDate } = req.query;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      let range;
+      if (startDate && endDate) {
+        range = nutritionRangeSchema.parse({ startDate, endDate });
+        if (differenceInCalendarDays(parseISO(range.endDate), parseISO(range.startDate)) + 1 > MAX_MEAL_RANGE_DAYS) {
+          return res.status(400).json({ message: `Date range cannot exceed ${MAX_MEAL_RANGE_DAYS} days` });
+        }
+      } else {
+        const family = await storage.getFamilyById(familyId);
+        const weekStart = startOfWeek(new Date(), { weekStartsOn: family?.weekStartsOn === 'monday' ? 1 : 0 });
+        range = { startDate: format(weekStart, 'yyyy-MM-dd'), endDate: format(addDays(weekStart, 6), 'yyyy-MM-dd') };
+      }
+
+      const assignments = await storage.getMealAssignmentsByDateRange(familyId, range.startDate, range.endDate);
+      const mine = assignments.filter(assignment => assignment.userId === userId);
+      if (mine.length === 0) {
+        return res.json([]);
+      }
+      const [mealList, recipes, mealTimes, members] = await Promise.all([
+        storage.getMealsByDateRange(familyId, range.startDate, range.endDate),
+        storage.getRecipesByFamilyId(familyId),
+        storage.getFamilyMealTimes(familyId),
+        storage.getAttendanceMembers(familyId),
+      ]);
+      const nameOf = (memberId: string) => members.find(member => member.userId === memberId)?.name ?? 'Family member';
+
+      const duties = mine.flatMap((assignment): CookingDuty[] => {
+        const meal = mealList.find(other => other.id === assignment.mealId);
+        if (!meal) return [];
+        return [{
+          meal,
+          role: assignment.role,
+          recipeName: recipes.find(recipe => recipe.id === meal.recipeId)?.name ?? null,
+          mealTimeName: mealTimes.find(mealTime => mealTime.id === meal.mealTypeId)?.mealName ?? 'Meal',
+          teammates: assignments
+            .filter(other => other.mealId === meal.id && other.id !== assignment.id && other.userId !== userId)
+            .map(other => ({ userId: other.userId, name: nameOf(other.userId), role: other.role })),
+        }];
+      });
+      res.json(duties);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error("Error fetching cooking duties:", error);
+        res.status(500).json({ message: "Failed to fetch cooking duties" });
+      }
+    }
+  });
+
   // Invite family member
   app.post('/api/families/:familyId/invite', async (req, res) => {
     try {
@@ -938,12 +3242,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Remove family member
-  app.delete('/api/families/:familyId/members/:memberId', async (req, res) => {
+  app.delete('/api/families/:familyId/members/:memberId', isAuthenticated, async (req: any, res) => {
     try {
+      const familyId = parseInt(req.params.familyId);
       const memberId = parseInt(req.params.memberId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (membership.role !== 'admin') {
+        return res.status(403).json({ message: "Only family admins can remove family members" });
+      }
+      // memberId is a membership row, so it has to be one of this family's
+      if (!(await storage.getFamilyMembers(familyId)).some(member => member.id === memberId)) {
+        return res.status(404).json({ message: 'Family member not found' });
+      }
+
       const success = await storage.removeFamilyMember(memberId);
       
       if (success) {
+        // Upcoming meals that cook for whoever attends no longer count the member
+        await storage.refreshAttendanceServings(familyId, { fromDate: format(new Date(), 'yyyy-MM-dd') });
         res.json({ message: 'Family member removed successfully' });
       } else {
         res.status(404).json({ message: 'Family member not found' });
@@ -1003,10 +3324,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Family meal times routes
-  app.get('/api/families/:familyId/meal-times', async (req, res) => {
+  // Family meal times routes. These are the slots the calendar, planner and nutrition pages use.
+  app.get('/api/families/:familyId/meal-times', isAuthenticated, async (req: any, res) => {
     try {
       const familyId = parseInt(req.params.familyId);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
       const mealTimes = await storage.getFamilyMealTimes(familyId);
       res.json(mealTimes);
     } catch (error) {
@@ -1015,37 +3343,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/families/:familyId/meal-times', async (req, res) => {
+  app.post('/api/families/:familyId/meal-times', isAuthenticated, async (req: any, res) => {
     try {
       const familyId = parseInt(req.params.familyId);
-      const mealTime = await storage.createFamilyMealTime({ ...req.body, familyId });
-      res.json(mealTime);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const mealTimeData = insertFamilyMealTimeSchema.parse({ ...req.body, familyId });
+      const mealTime = await storage.createFamilyMealTime(mealTimeData);
+      res.status(201).json(mealTime);
     } catch (error) {
-      console.error('Error creating family meal time:', error);
-      res.status(500).json({ message: 'Failed to create family meal time' });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error('Error creating family meal time:', error);
+        res.status(500).json({ message: 'Failed to create family meal time' });
+      }
     }
   });
 
-  app.patch('/api/families/:familyId/meal-times/:mealTimeId', async (req, res) => {
+  app.patch('/api/families/:familyId/meal-times/:mealTimeId', isAuthenticated, async (req: any, res) => {
     try {
+      const familyId = parseInt(req.params.familyId);
       const mealTimeId = parseInt(req.params.mealTimeId);
-      const mealTime = await storage.updateFamilyMealTime(mealTimeId, req.body);
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existing = await storage.getFamilyMealTimeById(mealTimeId);
+      if (!existing || existing.familyId !== familyId) {
+        return res.status(404).json({ message: 'Meal time not found' });
+      }
+
+      const mealTimeData = insertFamilyMealTimeSchema.omit({ familyId: true }).partial().parse(req.body);
+      const mealTime = await storage.updateFamilyMealTime(mealTimeId, mealTimeData);
       res.json(mealTime);
     } catch (error) {
-      console.error('Error updating family meal time:', error);
-      res.status(500).json({ message: 'Failed to update family meal time' });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: fromZodError(error).toString() });
+      } else {
+        console.error('Error updating family meal time:', error);
+        res.status(500).json({ message: 'Failed to update family meal time' });
+      }
     }
   });
 
-  app.delete('/api/families/:familyId/meal-times/:mealTimeId', async (req, res) => {
+  // A meal time that meals or logs still point at is switched off instead, so their history keeps its slot
+  app.delete('/api/families/:familyId/meal-times/:mealTimeId', isAuthenticated, async (req: any, res) => {
     try {
+      const familyId = parseInt(req.params.familyId);
       const mealTimeId = parseInt(req.params.mealTimeId);
-      const success = await storage.deleteFamilyMealTime(mealTimeId);
-      if (success) {
-        res.json({ message: 'Meal time deleted successfully' });
-      } else {
-        res.status(404).json({ message: 'Meal time not found' });
+      const userId = req.user.claims.sub;
+
+      const membership = await storage.getUserFamilyMembership(userId, familyId);
+      if (!membership) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existing = await storage.getFamilyMealTimeById(mealTimeId);
+      if (!existing || existing.familyId !== familyId) {
+        return res.status(404).json({ message: 'Meal time not found' });
+      }
+
+      if (await storage.isFamilyMealTimeInUse(mealTimeId)) {
+        await storage.updateFamilyMealTime(mealTimeId, { isActive: false });
+        return res.json({ success: true, deactivated: true });
       }
+
+      await storage.deleteFamilyMealTime(mealTimeId);
+      res.json({ success: true, deactivated: false });
     } catch (error) {
       console.error('Error deleting family meal time:', error);
       res.status(500).json({ message: 'Failed to delete family meal time' });
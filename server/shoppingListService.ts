@@ -0,0 +1,246 @@
+import type {
+  Meal,
+  MealDish,
+  Recipe,
+  RecipeIngredient,
+  PantryItem,
+  ShoppingListItem,
+  ConsolidatedIngredient,
+  ShoppingListDiff,
+} from "@shared/schema";
+import { getDensity, getUnitDefinition, isPlainCount, normalizeUnit, type UnitDimension } from "@shared/units";
+import { IngredientParser } from "./ingredientParser";
+
+interface Accumulator {
+  key: string;
+  name: string;
+  dimension: UnitDimension;
+  unit: string | null;
+  baseAmount: number | null;
+  displayFactor: number; // base units per display unit
+  recipeIds: Set<number>;
+  mealIds: Set<number>;
+}
+
+export class ShoppingListService {
+  public static foodKey(food: string): string {
+    return food
+      .toLowerCase()
+      .trim()
+      .split(/\s+/)
+      .map(word => {
+        if (word.length > 3 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+        if (word.length > 3 && /(oes|ches|shes|ses|xes)$/.test(word)) return word.slice(0, -2);
+        if (word.length > 2 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+        return word;
+      })
+      .join(' ');
+  }
+
+  // Volumes of ingredients with a known density are tracked by weight so "1 cup flour" and "200 g flour" combine
+  private static classify(unit: string | null, food: string): { dimension: UnitDimension; unit: string | null; factor: number } {
+    const definition = getUnitDefinition(unit);
+    if (definition && definition.dimension === "weight") {
+      return { dimension: "weight", unit: definition.unit, factor: definition.toBase };
+    }
+    if (definition && definition.dimension === "volume") {
+      const density = getDensity(food);
+      return density !== null
+        ? { dimension: "weight", unit: definition.unit, factor: definition.toBase * density }
+        : { dimension: "volume", unit: definition.unit, factor: definition.toBase };
+    }
+    if (!unit || isPlainCount(unit)) {
+      return { dimension: "count", unit: null, factor: 1 };
+    }
+    // Other count units (clove, can, bunch) only sum with themselves
+    return { dimension: "count", unit: normalizeUnit(unit), factor: 1 };
+  }
+
+  private static groupKey(food: string, dimension: UnitDimension, unit: string | null): string {
+    const countUnit = dimension === "count" ? unit ?? "each" : dimension;
+    return `${this.foodKey(food)}|${countUnit}`;
+  }
+
+  private static formatAmount(amount: number | null): string | null {
+    if (amount === null) return null;
+    return String(Math.round(amount * 100) / 100);
+  }
+
+  private static toDisplay(acc: Accumulator, baseAmount: number | null): { quantity: string | null; amount: number | null } {
+    if (baseAmount === null) return { quantity: null, amount: null };
+    const amount = baseAmount / acc.displayFactor;
+    return { quantity: this.formatAmount(amount), amount };
+  }
+
+  // The main recipe and each side dish, with the servings to cook of each
+  private static dishesToCook(meal: Meal, dishes: MealDish[]): { recipeId: number; servings: number | null }[] {
+    return [
+      ...(meal.recipeId !== null ? [{ recipeId: meal.recipeId, servings: meal.servings }] : []),
+      ...dishes.filter(dish => dish.mealId === meal.id).map(dish => ({ recipeId: dish.recipeId, servings: dish.servings ?? meal.servings })),
+    ];
+  }
+
+  private static consolidate(
+    mealList: Meal[],
+    recipeList: Recipe[],
+    ingredientRows: RecipeIngredient[],
+    dishes: MealDish[],
+  ): Accumulator[] {
+    const accumulators = new Map<string, Accumulator>();
+
+    for (const meal of mealList) {
+      for (const dish of this.dishesToCook(meal, dishes)) {
+        const recipe = recipeList.find(r => r.id === dish.recipeId);
+        if (!recipe) continue;
+
+        // Scale the recipe to the servings planned for this dish, plus any portions cooked as leftovers
+        const cookedServings = dish.servings ? dish.servings + (meal.leftoverServings ?? 0) : null;
+        const scale = cookedServings && recipe.servings ? cookedServings / recipe.servings : 1;
+        const rows = ingredientRows.filter(row => row.recipeId === recipe.id);
+
+        for (const row of rows) {
+          if (row.isOptional) continue;
+
+          const { dimension, unit, factor } = this.classify(row.unit, row.food);
+          const key = this.groupKey(row.food, dimension, unit);
+          const quantity = row.quantity !== null ? Number(row.quantity) * scale : null;
+
+          let acc = accumulators.get(key);
+          if (!acc) {
+            acc = {
+              key,
+              name: row.food,
+              dimension,
+              unit,
+              baseAmount: null,
+              displayFactor: factor,
+              recipeIds: new Set(),
+              mealIds: new Set(),
+            };
+            accumulators.set(key, acc);
+          }
+
+          if (quantity !== null) {
+            acc.baseAmount = (acc.baseAmount ?? 0) + quantity * factor;
+          }
+          // Report in the largest unit any recipe used (cups over tablespoons)
+          if (factor > acc.displayFactor) {
+            acc.displayFactor = factor;
+            acc.unit = unit;
+          }
+          acc.recipeIds.add(recipe.id);
+          acc.mealIds.add(meal.id);
+        }
+      }
+    }
+
+    return Array.from(accumulators.values());
+  }
+
+  private static findPantryMatch(acc: Accumulator, pantryItems: PantryItem[]): { item: PantryItem; baseAmount: number | null } | undefined {
+    for (const item of pantryItems) {
+      if (item.isLow) continue;
+
+      const parsed = IngredientParser.parse(`${item.quantity ?? ''} ${item.unit ?? ''} ${item.name}`.trim());
+      if (this.foodKey(parsed.food) !== this.foodKey(acc.name) && this.foodKey(item.name) !== this.foodKey(acc.name)) {
+        continue;
+      }
+
+      if (parsed.quantity === null) {
+        // Pantry tracks the item without an amount: assume it is fully stocked
+        return { item, baseAmount: null };
+      }
+
+      const { dimension, unit, factor } = this.classify(parsed.unit, acc.name);
+      if (dimension !== acc.dimension) continue;
+      if (dimension === "count" && unit !== acc.unit) continue;
+
+      return { item, baseAmount: parsed.quantity * factor };
+    }
+    return undefined;
+  }
+
+  public static buildShoppingList(
+    mealList: Meal[],
+    recipeList: Recipe[],
+    ingredientRows: RecipeIngredient[],
+    pantryItems: PantryItem[],
+    existingItems: ShoppingListItem[] = [],
+    dishes: MealDish[] = [],
+  ): { consolidatedIngredients: ConsolidatedIngredient[]; diff: ShoppingListDiff } {
+    const consolidatedIngredients: ConsolidatedIngredient[] = [];
+    const diff: ShoppingListDiff = { toAdd: [], toUpdate: [], coveredByPantry: [] };
+
+    for (const acc of this.consolidate(mealList, recipeList, ingredientRows, dishes)) {
+      let needed = acc.baseAmount;
+      const pantryMatch = this.findPantryMatch(acc, pantryItems);
+
+      if (pantryMatch) {
+        const covered = pantryMatch.baseAmount === null || needed === null
+          ? needed
+          : Math.min(needed, pantryMatch.baseAmount);
+        const display = this.toDisplay(acc, covered);
+        diff.coveredByPantry.push({
+          name: acc.name,
+          quantity: display.quantity,
+          unit: acc.unit,
+          pantryItemId: pantryMatch.item.id,
+        });
+
+        const fullyCovered = pantryMatch.baseAmount === null || needed === null || pantryMatch.baseAmount >= needed;
+        if (fullyCovered) continue;
+        needed = (needed as number) - pantryMatch.baseAmount!;
+      }
+
+      const display = this.toDisplay(acc, needed);
+      const [sourceId] = Array.from(acc.recipeIds);
+      const ingredient: ConsolidatedIngredient = {
+        name: acc.name,
+        quantity: display.quantity,
+        unit: acc.unit,
+        amount: display.amount,
+        category: "Recipe Ingredient",
+        sourceType: "recipe",
+        sourceId,
+        recipeIds: Array.from(acc.recipeIds),
+        mealIds: Array.from(acc.mealIds),
+        pantryItemId: pantryMatch?.item.id ?? null,
+        priority: 2,
+      };
+      consolidatedIngredients.push(ingredient);
+
+      // Compare against what the target list already has so re-generating is idempotent
+      const existing = existingItems.find(item => {
+        if (this.foodKey(item.name) !== this.foodKey(acc.name)) return false;
+        return this.classify(item.unit, acc.name).dimension === acc.dimension;
+      });
+
+      if (!existing) {
+        diff.toAdd.push({
+          name: ingredient.name,
+          quantity: ingredient.quantity,
+          unit: ingredient.unit,
+          category: ingredient.category,
+          sourceType: ingredient.sourceType,
+          sourceId: ingredient.sourceId,
+          priority: ingredient.priority,
+        });
+        continue;
+      }
+
+      if (ingredient.amount === null || existing.quantity === null) continue;
+      const existingClass = this.classify(existing.unit, acc.name);
+      if (acc.dimension === "count" && existingClass.unit !== acc.unit) continue;
+
+      const existingBase = parseFloat(existing.quantity) * existingClass.factor;
+      if (!isNaN(existingBase) && existingBase >= (needed as number)) continue;
+
+      diff.toUpdate.push({
+        id: existing.id,
+        updates: { quantity: ingredient.quantity, unit: ingredient.unit, isCompleted: false },
+      });
+    }
+
+    return { consolidatedIngredients, diff };
+  }
+}
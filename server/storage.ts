@@ -3,9 +3,19 @@ import {
   families,
   familyMemberships,
   recipes,
+  recipeIngredients,
+  recipeRatings,
   mealTypes,
   meals,
+  mealDishes,
+  mealAttendees,
+  memberAttendancePatterns,
+  mealAssignments,
+  mealRecurrences,
+  mealPlanTemplates,
+  mealPlanTemplateEntries,
   nutritionLogs,
+  nutritionGoals,
   shoppingLists,
   shoppingListItems,
   pantryItems,
@@ -16,6 +26,12 @@ import {
   challenges,
   challengeParticipants,
   userStats,
+  userPreferences,
+  familyPreferences,
+  mealPlanningPreferences,
+  cookingRotationSettings,
+  familyMealTimes,
+  DEFAULT_FAMILY_MEAL_TIMES,
   type User,
   type UpsertUser,
   type InsertFamily,
@@ -24,11 +40,29 @@ import {
   type FamilyMembership,
   type InsertRecipe,
   type Recipe,
+  type RecipeIngredient,
+  type RecipeRating,
   type MealType,
   type InsertMeal,
   type Meal,
+  type MealDish,
+  type MealDishInput,
+  type MealWithDishes,
+  type MealAttendeeRow,
+  type MealAttendance,
+  type MealAttendanceInput,
+  type MemberAttendancePattern,
+  type AttendanceMember,
+  type AttendancePatternInput,
+  type MealAssignment,
+  type MealAssignmentRole,
+  type CookingRotationMember,
+  type CookingRotationSettings,
+  type CookingRotationSettingsInput,
   type InsertNutritionLog,
   type NutritionLog,
+  type InsertNutritionGoal,
+  type NutritionGoal,
   type InsertShoppingList,
   type ShoppingList,
   type InsertShoppingListItem,
@@ -49,9 +83,46 @@ import {
   type InsertChallengeParticipant,
   type UserStats,
   type InsertUserStats,
+  type UserPreferences,
+  type InsertUserPreferences,
+  type FamilyPreferences,
+  type InsertFamilyPreferences,
+  type MealPlanningPreferences,
+  type MealPlanningPreferencesInput,
+  type GeneratedShoppingList,
+  type NutritionInfo,
+  type ShoppingListDiff,
+  type MemberDietaryProfile,
+  type MealRecurrence,
+  type InsertMealRecurrence,
+  type InsertMealPlanTemplate,
+  type InsertMealPlanTemplateEntry,
+  type MealPlanTemplate,
+  type MealPlanTemplateWithEntries,
+  type MealTemplateApplyResult,
+  type MealTemplateConflictPolicy,
+  type MealBatchConflictPolicy,
+  type MealBatchOperation,
+  type MealBatchOperationResult,
+  type MealBatchResult,
+  type FamilyMealTime,
+  type InsertFamilyMealTime,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc } from "drizzle-orm";
+import { IngredientParser } from "./ingredientParser";
+import { ShoppingListService } from "./shoppingListService";
+import { RecipeNutritionService, type MemberPortion } from "./recipeNutritionService";
+import { DietaryConflictService } from "./dietaryConflictService";
+import { MealRecurrenceService } from "./mealRecurrenceService";
+import { MealTimeService } from "./mealTimeService";
+import { LeftoverService } from "./leftoverService";
+import { MealAttendanceService } from "./mealAttendanceService";
+import { CookRotationService, type RotationDuty } from "./cookRotationService";
+import { eq, and, desc, asc, inArray, isNull, lte, gt, gte, or, sql, TransactionRollbackError } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+// Reads made while writing go through the transaction, so they see its uncommitted rows
+type Executor = typeof db | Transaction;
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -62,33 +133,108 @@ export interface IStorage {
   createFamily(family: InsertFamily): Promise<Family>;
   getFamiliesByUserId(userId: string): Promise<Family[]>;
   getFamilyById(id: number): Promise<Family | undefined>;
+  getFamilyByCalendarFeedToken(token: string): Promise<Family | undefined>;
+  setFamilyCalendarFeedToken(familyId: number, token: string | null): Promise<Family | undefined>;
   
   // Family membership operations
   addFamilyMember(membership: InsertFamilyMembership): Promise<FamilyMembership>;
   getFamilyMembers(familyId: number): Promise<FamilyMembership[]>;
   getUserFamilyMembership(userId: string, familyId: number): Promise<FamilyMembership | undefined>;
+  getFamilyDietaryProfiles(familyId: number): Promise<MemberDietaryProfile[]>;
   
   // Recipe operations
   createRecipe(recipe: InsertRecipe): Promise<Recipe>;
   getRecipesByFamilyId(familyId: number): Promise<Recipe[]>;
   getRecipeById(id: number): Promise<Recipe | undefined>;
   updateRecipe(id: number, recipe: Partial<InsertRecipe>): Promise<Recipe | undefined>;
-  deleteRecipe(id: number): Promise<boolean>;
+  deleteRecipe(id: number): Promise<{ deleted: boolean; scheduled: boolean }>;
+  getRecipeRatings(recipeIds: number[]): Promise<RecipeRating[]>;
+  rateRecipe(recipeId: number, userId: string, rating: number): Promise<Recipe | undefined>;
+  
+  // Parsed recipe ingredient operations
+  getRecipeIngredients(recipeId: number): Promise<RecipeIngredient[]>;
+  getRecipeIngredientsByRecipeIds(recipeIds: number[]): Promise<RecipeIngredient[]>;
+  replaceRecipeIngredients(recipeId: number, ingredientLines: string[]): Promise<RecipeIngredient[]>;
+  backfillRecipeIngredients(): Promise<number>;
+  calculateRecipeNutrition(recipeId: number, options?: { force?: boolean }): Promise<NutritionInfo | undefined>;
+  backfillRecipeNutrition(): Promise<number>;
   
   // Meal type operations
   getMealTypes(): Promise<MealType[]>;
   
   // Meal operations
-  createMeal(meal: InsertMeal): Promise<Meal>;
+  createMeal(meal: InsertMeal, dishes?: MealDishInput[]): Promise<MealWithDishes>;
+  createPlannedMeals(familyId: number, plannedMeals: InsertMeal[]): Promise<{ created: Meal[]; skipped: InsertMeal[] }>;
+  getLeftoverMeals(sourceMealId: number): Promise<Meal[]>;
+  getMealDishes(mealIds: number[]): Promise<MealDish[]>;
+
+  // Meal attendance operations
+  getAttendanceMembers(familyId: number): Promise<AttendanceMember[]>;
+  getAttendancePatterns(familyId: number): Promise<MemberAttendancePattern[]>;
+  saveAttendancePattern(familyId: number, membershipId: number, input: AttendancePatternInput): Promise<MemberAttendancePattern[]>;
+  getMealAttendees(mealIds: number[]): Promise<MealAttendeeRow[]>;
+  getMealAttendance(meal: Pick<Meal, "id" | "familyId" | "scheduledDate" | "mealTypeId">): Promise<MealAttendance>;
+  setMealAttendance(mealId: number, input: MealAttendanceInput | null): Promise<MealAttendeeRow[]>;
+  refreshAttendanceServings(familyId: number, scope: { mealIds: number[] } | { fromDate: string }): Promise<Meal[]>;
+
+  // Cooking rotation operations
+  getMealAssignments(mealIds: number[]): Promise<MealAssignment[]>;
+  getMealAssignmentsByDateRange(familyId: number, startDate: string, endDate: string): Promise<(MealAssignment & RotationDuty)[]>;
+  setMealAssignments(mealId: number, assignments: Pick<MealAssignment, "userId" | "role">[]): Promise<MealAssignment[]>;
+  addMealAssignments(
+    assignments: Pick<MealAssignment, "mealId" | "userId" | "role">[],
+    replace?: { mealIds: number[]; roles: MealAssignmentRole[] },
+  ): Promise<MealAssignment[]>;
+  getCookingRotationSettings(familyId: number): Promise<CookingRotationSettings[]>;
+  saveCookingRotationSettings(familyId: number, userId: string, settings: CookingRotationSettingsInput): Promise<CookingRotationSettings>;
+  getCookingRotationMembers(familyId: number): Promise<CookingRotationMember[]>;
+
+  // Recurring meal operations
+  getMealRecurrencesByFamilyId(familyId: number): Promise<MealRecurrence[]>;
+  getMealRecurrenceById(id: number): Promise<MealRecurrence | undefined>;
+  createMealRecurrence(rule: InsertMealRecurrence): Promise<MealRecurrence>;
+  updateMealRecurrence(id: number, rule: Partial<InsertMealRecurrence>, fromDate: string): Promise<MealRecurrence | undefined>;
+  deleteMealRecurrence(id: number, fromDate: string): Promise<boolean>;
+  materializeMealRecurrences(familyId: number, startDate: string, endDate: string): Promise<number>;
+  getMealPlanTemplatesByFamilyId(familyId: number): Promise<MealPlanTemplateWithEntries[]>;
+  getMealPlanTemplateById(id: number): Promise<MealPlanTemplateWithEntries | undefined>;
+  getMealPlanTemplateByShareCode(shareCode: string): Promise<MealPlanTemplateWithEntries | undefined>;
+  createMealPlanTemplate(template: InsertMealPlanTemplate, entries: InsertMealPlanTemplateEntry[]): Promise<MealPlanTemplateWithEntries>;
+  updateMealPlanTemplate(id: number, template: Partial<InsertMealPlanTemplate> & { shareCode?: string | null }): Promise<MealPlanTemplate | undefined>;
+  deleteMealPlanTemplate(id: number): Promise<boolean>;
+  copyMealPlanTemplate(template: MealPlanTemplateWithEntries, familyId: number, createdBy: string): Promise<MealPlanTemplateWithEntries>;
+  applyMealPlanTemplate(familyId: number, plannedMeals: InsertMeal[], onConflict: MealTemplateConflictPolicy): Promise<MealTemplateApplyResult>;
+  applyMealBatch(
+    familyId: number,
+    createdBy: string,
+    operations: MealBatchOperation[] | ((createRecipe: (recipe: InsertRecipe) => Promise<Recipe>) => Promise<MealBatchOperation[]>),
+    onConflict: MealBatchConflictPolicy,
+  ): Promise<MealBatchResult>;
   getMealById(id: number): Promise<Meal | undefined>;
   getMealsByFamilyId(familyId: number): Promise<Meal[]>;
   getMealsByDateRange(familyId: number, startDate: string, endDate: string): Promise<Meal[]>;
   updateMeal(id: number, meal: Partial<InsertMeal>): Promise<Meal | undefined>;
+  saveMealEdit(
+    meal: Meal,
+    changes: Partial<InsertMeal>,
+    options?: { dishes?: MealDishInput[]; memberPortions?: MemberPortion[] },
+  ): Promise<{ meal: Meal; creditedCooks: string[] } | undefined>;
   deleteMeal(id: number): Promise<boolean>;
   
   // Nutrition log operations
   createNutritionLog(log: InsertNutritionLog): Promise<NutritionLog>;
   getNutritionLogsByUserId(userId: string, date?: string): Promise<NutritionLog[]>;
+  getNutritionLogsByDateRange(userId: string, startDate: string, endDate: string, familyId?: number): Promise<NutritionLog[]>;
+  getRecentNutritionLogs(userId: string, limit: number): Promise<NutritionLog[]>;
+  getFamilyNutritionLogsByDateRange(familyId: number, userIds: string[], startDate: string, endDate: string): Promise<NutritionLog[]>;
+
+  // Nutrition goal operations
+  getNutritionGoalById(id: number): Promise<NutritionGoal | undefined>;
+  getNutritionGoalForDate(userId: string, familyId: number, date: string): Promise<NutritionGoal | undefined>;
+  getNutritionGoalHistory(userId: string, familyId: number): Promise<NutritionGoal[]>;
+  createNutritionGoal(goal: InsertNutritionGoal): Promise<NutritionGoal>;
+  updateNutritionGoal(id: number, goal: Partial<InsertNutritionGoal>): Promise<NutritionGoal | undefined>;
+  deleteNutritionGoal(id: number): Promise<boolean>;
   
   // Shopping list operations
   createShoppingList(list: InsertShoppingList): Promise<ShoppingList>;
@@ -115,7 +261,8 @@ export interface IStorage {
   deletePantryItem(id: number): Promise<boolean>;
   
   // Advanced shopping list operations
-  generateShoppingListFromMeals(familyId: number, mealIds: number[]): Promise<{ consolidatedIngredients: any[], existingPantryItems: PantryItem[] }>;
+  generateShoppingListFromMeals(familyId: number, mealIds: number[], shoppingListId?: number): Promise<GeneratedShoppingList>;
+  applyShoppingListDiff(shoppingListId: number, diff: ShoppingListDiff): Promise<ShoppingListItem[]>;
   getShoppingListItemHistory(familyId: number, itemName: string): Promise<ShoppingListItem[]>;
   bulkUpdateShoppingListItems(updates: { id: number; updates: Partial<InsertShoppingListItem> }[]): Promise<ShoppingListItem[]>;
   
@@ -143,9 +290,11 @@ export interface IStorage {
   // Profile and settings operations
   updateUserProfile(userId: string, profileData: any): Promise<User>;
   getUserPreferences(userId: string): Promise<any>;
-  updateUserPreferences(userId: string, preferences: any): Promise<any>;
+  updateUserPreferences(userId: string, preferences: Partial<InsertUserPreferences>): Promise<UserPreferences>;
   getFamilyPreferences(familyId: number): Promise<any>;
-  updateFamilyPreferences(familyId: number, preferences: any): Promise<any>;
+  updateFamilyPreferences(familyId: number, preferences: Partial<InsertFamilyPreferences>): Promise<FamilyPreferences>;
+  getMealPlanningPreferences(familyId: number): Promise<MealPlanningPreferences[]>;
+  saveMealPlanningPreferences(familyId: number, userId: string | null, preferences: MealPlanningPreferencesInput): Promise<MealPlanningPreferences>;
   createFamilyInvitation(invitation: any): Promise<any>;
   updateFamilyMemberRole(memberId: number, role: string): Promise<FamilyMembership | undefined>;
   removeFamilyMember(memberId: number): Promise<boolean>;
@@ -157,9 +306,11 @@ export interface IStorage {
   deleteFamilyAddress(addressId: number): Promise<boolean>;
   
   // Family meal times operations
-  getFamilyMealTimes(familyId: number): Promise<any[]>;
-  createFamilyMealTime(mealTime: any): Promise<any>;
-  updateFamilyMealTime(mealTimeId: number, mealTime: any): Promise<any>;
+  getFamilyMealTimes(familyId: number): Promise<FamilyMealTime[]>;
+  getFamilyMealTimeById(mealTimeId: number): Promise<FamilyMealTime | undefined>;
+  createFamilyMealTime(mealTime: InsertFamilyMealTime): Promise<FamilyMealTime>;
+  updateFamilyMealTime(mealTimeId: number, mealTime: Partial<InsertFamilyMealTime>): Promise<FamilyMealTime | undefined>;
+  isFamilyMealTimeInUse(mealTimeId: number): Promise<boolean>;
   deleteFamilyMealTime(mealTimeId: number): Promise<boolean>;
   
   // Shopping site preferences operations
@@ -194,6 +345,10 @@ export class DatabaseStorage implements IStorage {
   // Family operations
   async createFamily(family: InsertFamily): Promise<Family> {
     const [newFamily] = await db.insert(families).values(family).returning();
+    // Every family starts with the usual meal slots; they can be renamed or replaced in settings
+    await db
+      .insert(familyMealTimes)
+      .values(DEFAULT_FAMILY_MEAL_TIMES.map(mealTime => ({ ...mealTime, familyId: newFamily.id })));
     return newFamily;
   }
 
@@ -218,14 +373,28 @@ export class DatabaseStorage implements IStorage {
     return family;
   }
 
+  async getFamilyByCalendarFeedToken(token: string): Promise<Family | undefined> {
+    const [family] = await db.select().from(families).where(eq(families.calendarFeedToken, token));
+    return family;
+  }
+
+  async setFamilyCalendarFeedToken(familyId: number, token: string | null): Promise<Family | undefined> {
+    const [family] = await db
+      .update(families)
+      .set({ calendarFeedToken: token, updatedAt: new Date() })
+      .where(eq(families.id, familyId))
+      .returning();
+    return family;
+  }
+
   // Family membership operations
   async addFamilyMember(membership: InsertFamilyMembership): Promise<FamilyMembership> {
     const [newMembership] = await db.insert(familyMemberships).values(membership).returning();
     return newMembership;
   }
 
-  async getFamilyMembers(familyId: number): Promise<FamilyMembership[]> {
-    return await db
+  async getFamilyMembers(familyId: number, executor: Executor = db): Promise<FamilyMembership[]> {
+    return await executor
       .select()
       .from(familyMemberships)
       .where(eq(familyMemberships.familyId, familyId));
@@ -239,9 +408,35 @@ export class DatabaseStorage implements IStorage {
     return membership;
   }
 
+  // Allergies and diets from both the family membership and the member's own profile
+  async getFamilyDietaryProfiles(familyId: number, executor: Executor = db): Promise<MemberDietaryProfile[]> {
+    const members = await this.getFamilyMembers(familyId, executor);
+    if (members.length === 0) return [];
+
+    const memberUsers = await executor
+      .select()
+      .from(users)
+      .where(inArray(users.id, members.map(member => member.userId)));
+    return members.map(member =>
+      DietaryConflictService.buildMemberProfile(member, memberUsers.find(user => user.id === member.userId))
+    );
+  }
+
   // Recipe operations
   async createRecipe(recipe: InsertRecipe): Promise<Recipe> {
-    const [newRecipe] = await db.insert(recipes).values(recipe).returning();
+    return await db.transaction(async (tx) => this.writeRecipe(tx, recipe));
+  }
+
+  // Inserts a recipe with its parsed ingredients, calculating nutrition unless it was given
+  private async writeRecipe(tx: Transaction, recipe: InsertRecipe): Promise<Recipe> {
+    const [newRecipe] = await tx.insert(recipes).values(recipe).returning();
+    const rows = IngredientParser.toInsertRows(newRecipe.id, newRecipe.ingredients);
+    const ingredients = rows.length > 0 ? await tx.insert(recipeIngredients).values(rows).returning() : [];
+    if (!newRecipe.nutritionInfo) {
+      const nutritionInfo = RecipeNutritionService.calculateRecipeNutrition(newRecipe, ingredients);
+      await tx.update(recipes).set({ nutritionInfo }).where(eq(recipes.id, newRecipe.id));
+      newRecipe.nutritionInfo = nutritionInfo;
+    }
     return newRecipe;
   }
 
@@ -253,8 +448,8 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(recipes.createdAt));
   }
 
-  async getRecipeById(id: number): Promise<Recipe | undefined> {
-    const [recipe] = await db.select().from(recipes).where(eq(recipes.id, id));
+  async getRecipeById(id: number, executor: Executor = db): Promise<Recipe | undefined> {
+    const [recipe] = await executor.select().from(recipes).where(eq(recipes.id, id));
     return recipe;
   }
 
@@ -264,12 +459,141 @@ export class DatabaseStorage implements IStorage {
       .set({ ...recipe, updatedAt: new Date() })
       .where(eq(recipes.id, id))
       .returning();
+    if (updatedRecipe && recipe.ingredients) {
+      await this.replaceRecipeIngredients(id, updatedRecipe.ingredients);
+    }
+    // Keep calculated nutrition in step with ingredient or yield changes
+    if (updatedRecipe && (recipe.ingredients || recipe.servings) && recipe.nutritionInfo === undefined) {
+      updatedRecipe.nutritionInfo = (await this.calculateRecipeNutrition(id)) ?? updatedRecipe.nutritionInfo;
+    }
     return updatedRecipe;
   }
 
-  async deleteRecipe(id: number): Promise<boolean> {
-    const result = await db.delete(recipes).where(eq(recipes.id, id));
-    return result.rowCount > 0;
+  // A recipe still on the calendar, as a meal, a side dish or a recurring meal, isn't deleted
+  async deleteRecipe(id: number): Promise<{ deleted: boolean; scheduled: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [[meal], [dish], [rule]] = await Promise.all([
+        tx.select({ id: meals.id }).from(meals).where(eq(meals.recipeId, id)).limit(1),
+        tx.select({ id: mealDishes.id }).from(mealDishes).where(eq(mealDishes.recipeId, id)).limit(1),
+        tx.select({ id: mealRecurrences.id }).from(mealRecurrences).where(eq(mealRecurrences.recipeId, id)).limit(1),
+      ]);
+      if (meal || dish || rule) return { deleted: false, scheduled: true };
+
+      await tx.delete(recipeIngredients).where(eq(recipeIngredients.recipeId, id));
+      // Templates keep the recipe's name in the grid but stop planning it
+      await tx.update(mealPlanTemplateEntries).set({ recipeId: null }).where(eq(mealPlanTemplateEntries.recipeId, id));
+      await tx.delete(recipeRatings).where(eq(recipeRatings.recipeId, id));
+      const result = await tx.delete(recipes).where(eq(recipes.id, id));
+      return { deleted: (result.rowCount ?? 0) > 0, scheduled: false };
+    });
+  }
+
+  async getRecipeRatings(recipeIds: number[]): Promise<RecipeRating[]> {
+    if (recipeIds.length === 0) return [];
+    return await db
+      .select()
+      .from(recipeRatings)
+      .where(inArray(recipeRatings.recipeId, recipeIds));
+  }
+
+  // Saves the member's rating and refreshes the recipe's average and count
+  async rateRecipe(recipeId: number, userId: string, rating: number): Promise<Recipe | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .insert(recipeRatings)
+        .values({ recipeId, userId, rating })
+        .onConflictDoUpdate({
+          target: [recipeRatings.recipeId, recipeRatings.userId],
+          set: { rating, updatedAt: new Date() },
+        });
+
+      const [summary] = await tx
+        .select({
+          average: sql<string>`avg(${recipeRatings.rating})`,
+          count: sql<number>`count(*)::int`,
+        })
+        .from(recipeRatings)
+        .where(eq(recipeRatings.recipeId, recipeId));
+      const [updated] = await tx
+        .update(recipes)
+        .set({ rating: Number(summary.average).toFixed(2), ratingCount: summary.count })
+        .where(eq(recipes.id, recipeId))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Parsed recipe ingredient operations
+  async getRecipeIngredients(recipeId: number, executor: Executor = db): Promise<RecipeIngredient[]> {
+    return await executor
+      .select()
+      .from(recipeIngredients)
+      .where(eq(recipeIngredients.recipeId, recipeId))
+      .orderBy(asc(recipeIngredients.position));
+  }
+
+  async getRecipeIngredientsByRecipeIds(recipeIds: number[]): Promise<RecipeIngredient[]> {
+    if (recipeIds.length === 0) return [];
+    return await db
+      .select()
+      .from(recipeIngredients)
+      .where(inArray(recipeIngredients.recipeId, recipeIds))
+      .orderBy(asc(recipeIngredients.recipeId), asc(recipeIngredients.position));
+  }
+
+  async replaceRecipeIngredients(recipeId: number, ingredientLines: string[]): Promise<RecipeIngredient[]> {
+    await db.delete(recipeIngredients).where(eq(recipeIngredients.recipeId, recipeId));
+
+    const rows = IngredientParser.toInsertRows(recipeId, ingredientLines);
+    if (rows.length === 0) return [];
+
+    return await db.insert(recipeIngredients).values(rows).returning();
+  }
+
+  async backfillRecipeIngredients(): Promise<number> {
+    // Parse every recipe that has raw ingredient text but no normalized rows yet
+    const allRecipes = await db.select().from(recipes);
+    const parsedRecipeIds = new Set(
+      (await db.selectDistinct({ recipeId: recipeIngredients.recipeId }).from(recipeIngredients))
+        .map(row => row.recipeId)
+    );
+
+    let backfilled = 0;
+    for (const recipe of allRecipes) {
+      if (parsedRecipeIds.has(recipe.id) || recipe.ingredients.length === 0) continue;
+      await this.replaceRecipeIngredients(recipe.id, recipe.ingredients);
+      backfilled++;
+    }
+
+    return backfilled;
+  }
+
+  // Recipe nutrition operations
+  async calculateRecipeNutrition(
+    recipeId: number,
+    options: { force?: boolean } = {},
+    executor: Executor = db,
+  ): Promise<NutritionInfo | undefined> {
+    const recipe = await this.getRecipeById(recipeId, executor);
+    if (!recipe) return undefined;
+    // Hand-entered values win unless the caller explicitly asks to recalculate
+    if (recipe.nutritionInfo?.source === "manual" && !options.force) return recipe.nutritionInfo;
+
+    const rows = await this.getRecipeIngredients(recipeId, executor);
+    const nutritionInfo = RecipeNutritionService.calculateRecipeNutrition(recipe, rows);
+    await executor
+      .update(recipes)
+      .set({ nutritionInfo })
+      .where(eq(recipes.id, recipeId));
+    return nutritionInfo;
+  }
+
+  async backfillRecipeNutrition(): Promise<number> {
+    const missing = await db.select().from(recipes).where(isNull(recipes.nutritionInfo));
+    for (const recipe of missing) {
+      await this.calculateRecipeNutrition(recipe.id);
+    }
+    return missing.length;
   }
 
   // Meal type operations
@@ -278,9 +602,790 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Meal operations
-  async createMeal(meal: InsertMeal): Promise<Meal> {
-    const [newMeal] = await db.insert(meals).values(meal).returning();
-    return newMeal;
+  // The meal and its dishes are written together, with servings filled in from attendance when asked
+  async createMeal(meal: InsertMeal, dishes: MealDishInput[] = []): Promise<MealWithDishes> {
+    return await db.transaction(async (tx) => {
+      let [newMeal] = await tx.insert(meals).values(meal).returning();
+      if (newMeal.servingsFromAttendance) {
+        const [refreshed] = await this.writeAttendanceServings(tx, newMeal.familyId, { mealIds: [newMeal.id] });
+        newMeal = refreshed ?? newMeal;
+      }
+      return { ...newMeal, dishes: await this.writeMealDishes(tx, newMeal.id, dishes) };
+    });
+  }
+
+  // Accepts a generated plan as one batch; slots filled since the preview was made are skipped
+  async createPlannedMeals(familyId: number, plannedMeals: InsertMeal[]): Promise<{ created: Meal[]; skipped: InsertMeal[] }> {
+    if (plannedMeals.length === 0) return { created: [], skipped: [] };
+
+    const dates = plannedMeals.map(meal => meal.scheduledDate).sort();
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(meals)
+        .where(
+          and(
+            eq(meals.familyId, familyId),
+            gte(meals.scheduledDate, dates[0]),
+            lte(meals.scheduledDate, dates[dates.length - 1])
+          )
+        );
+      const occupied = new Set(existing.map(meal => `${meal.scheduledDate}|${meal.mealTypeId}`));
+
+      const toCreate: InsertMeal[] = [];
+      const skipped: InsertMeal[] = [];
+      for (const meal of plannedMeals) {
+        const key = `${meal.scheduledDate}|${meal.mealTypeId}`;
+        if (occupied.has(key)) {
+          skipped.push(meal);
+        } else {
+          occupied.add(key);
+          toCreate.push(meal);
+        }
+      }
+
+      const created = toCreate.length > 0 ? await tx.insert(meals).values(toCreate).returning() : [];
+      return { created, skipped };
+    });
+  }
+
+  async getLeftoverMeals(sourceMealId: number): Promise<Meal[]> {
+    return await db
+      .select()
+      .from(meals)
+      .where(eq(meals.leftoverOfMealId, sourceMealId))
+      .orderBy(asc(meals.scheduledDate));
+  }
+
+  async getMealDishes(mealIds: number[]): Promise<MealDish[]> {
+    if (mealIds.length === 0) return [];
+    return await db
+      .select()
+      .from(mealDishes)
+      .where(inArray(mealDishes.mealId, mealIds))
+      .orderBy(asc(mealDishes.mealId), asc(mealDishes.position));
+  }
+
+  // Replaces a meal's side dishes, keeping them in the order given
+  private async writeMealDishes(tx: Transaction, mealId: number, dishes: MealDishInput[]): Promise<MealDish[]> {
+    await tx.delete(mealDishes).where(eq(mealDishes.mealId, mealId));
+    if (dishes.length === 0) return [];
+    return await tx
+      .insert(mealDishes)
+      .values(dishes.map((dish, position) => ({ mealId, recipeId: dish.recipeId, servings: dish.servings ?? null, position })))
+      .returning();
+  }
+
+  // Meal attendance operations
+  async getAttendanceMembers(familyId: number, executor: Executor = db): Promise<AttendanceMember[]> {
+    const [members, profiles] = await Promise.all([
+      this.getFamilyMembers(familyId, executor),
+      this.getFamilyDietaryProfiles(familyId, executor),
+    ]);
+    return MealAttendanceService.toMembers(members, profiles);
+  }
+
+  async getAttendancePatterns(familyId: number, executor: Executor = db): Promise<MemberAttendancePattern[]> {
+    return await executor
+      .select()
+      .from(memberAttendancePatterns)
+      .where(eq(memberAttendancePatterns.familyId, familyId))
+      .orderBy(asc(memberAttendancePatterns.membershipId), asc(memberAttendancePatterns.dayOfWeek));
+  }
+
+  // Replaces the member's weekly pattern; a slot given twice keeps its last value
+  async saveAttendancePattern(familyId: number, membershipId: number, input: AttendancePatternInput): Promise<MemberAttendancePattern[]> {
+    const slots = new Map(input.slots.map(slot => [`${slot.dayOfWeek}|${slot.mealTypeId}`, slot]));
+    return await db.transaction(async (tx) => {
+      if (input.portionSize !== undefined) {
+        await tx
+          .update(familyMemberships)
+          .set({ portionSize: input.portionSize.toFixed(2) })
+          .where(eq(familyMemberships.id, membershipId));
+      }
+      await tx.delete(memberAttendancePatterns).where(eq(memberAttendancePatterns.membershipId, membershipId));
+      if (slots.size === 0) return [];
+      return await tx
+        .insert(memberAttendancePatterns)
+        .values(Array.from(slots.values()).map(slot => ({ familyId, membershipId, ...slot })))
+        .returning();
+    });
+  }
+
+  async getMealAttendees(mealIds: number[], executor: Executor = db): Promise<MealAttendeeRow[]> {
+    if (mealIds.length === 0) return [];
+    return await executor
+      .select()
+      .from(mealAttendees)
+      .where(inArray(mealAttendees.mealId, mealIds))
+      .orderBy(asc(mealAttendees.mealId), asc(mealAttendees.id));
+  }
+
+  async getMealAttendance(
+    meal: Pick<Meal, "id" | "familyId" | "scheduledDate" | "mealTypeId">,
+    executor: Executor = db,
+  ): Promise<MealAttendance> {
+    const [members, patterns, rows] = await Promise.all([
+      this.getAttendanceMembers(meal.familyId, executor),
+      this.getAttendancePatterns(meal.familyId, executor),
+      this.getMealAttendees([meal.id], executor),
+    ]);
+    return MealAttendanceService.resolve(meal, members, patterns, rows);
+  }
+
+  // Replaces who is eating the meal; null goes back to the members' attendance patterns
+  async setMealAttendance(mealId: number, input: MealAttendanceInput | null): Promise<MealAttendeeRow[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(mealAttendees).where(eq(mealAttendees.mealId, mealId));
+      if (!input) return [];
+      const portion = (value: number | null | undefined) => value === null || value === undefined ? null : value.toFixed(2);
+      return await tx
+        .insert(mealAttendees)
+        .values([
+          ...input.members.map(member => ({ mealId, membershipId: member.membershipId, portion: portion(member.portion) })),
+          ...input.guests.map(guest => ({ mealId, guestName: guest.name, portion: portion(guest.portion) })),
+        ])
+        .returning();
+    });
+  }
+
+  /**
+   * Re-derives servings for meals whose servings follow attendance, after attendance, patterns
+   * or portion sizes change. Meals already eaten keep the servings they were logged with.
+   * Returns the meals that changed.
+   */
+  async refreshAttendanceServings(familyId: number, scope: { mealIds: number[] } | { fromDate: string }): Promise<Meal[]> {
+    return await db.transaction(async (tx) => this.writeAttendanceServings(tx, familyId, scope));
+  }
+
+  private async writeAttendanceServings(
+    tx: Transaction,
+    familyId: number,
+    scope: { mealIds: number[] } | { fromDate: string },
+  ): Promise<Meal[]> {
+    if ('mealIds' in scope && scope.mealIds.length === 0) return [];
+    const candidates = (await tx
+      .select()
+      .from(meals)
+      .where(and(
+        eq(meals.familyId, familyId),
+        eq(meals.servingsFromAttendance, true),
+        'mealIds' in scope ? inArray(meals.id, scope.mealIds) : gte(meals.scheduledDate, scope.fromDate),
+      )))
+      .filter(meal => meal.status !== 'completed');
+    if (candidates.length === 0) return [];
+
+    const [members, patterns, rows] = await Promise.all([
+      this.getAttendanceMembers(familyId, tx),
+      this.getAttendancePatterns(familyId, tx),
+      this.getMealAttendees(candidates.map(meal => meal.id), tx),
+    ]);
+    const changed: Meal[] = [];
+    for (const meal of candidates) {
+      const { servings } = MealAttendanceService.resolve(meal, members, patterns, rows.filter(row => row.mealId === meal.id));
+      if (servings === meal.servings) continue;
+      const [updatedMeal] = await tx.update(meals).set({ servings }).where(eq(meals.id, meal.id)).returning();
+      changed.push(updatedMeal);
+    }
+    return changed;
+  }
+
+  // Cooking rotation operations
+  async getMealAssignments(mealIds: number[]): Promise<MealAssignment[]> {
+    if (mealIds.length === 0) return [];
+    return await db
+      .select()
+      .from(mealAssignments)
+      .where(inArray(mealAssignments.mealId, mealIds))
+      .orderBy(asc(mealAssignments.mealId), asc(mealAssignments.id));
+  }
+
+  async getMealAssignmentsByDateRange(familyId: number, startDate: string, endDate: string): Promise<(MealAssignment & RotationDuty)[]> {
+    const rows = await db
+      .select({ assignment: mealAssignments, scheduledDate: meals.scheduledDate })
+      .from(mealAssignments)
+      .innerJoin(meals, eq(mealAssignments.mealId, meals.id))
+      .where(and(
+        eq(meals.familyId, familyId),
+        gte(meals.scheduledDate, startDate),
+        lte(meals.scheduledDate, endDate),
+      ))
+      .orderBy(asc(meals.scheduledDate), asc(mealAssignments.id));
+    return rows.map(row => ({ ...row.assignment, scheduledDate: row.scheduledDate }));
+  }
+
+  // Replaces who cooks, helps and cleans up for the meal
+  async setMealAssignments(mealId: number, assignments: Pick<MealAssignment, "userId" | "role">[]): Promise<MealAssignment[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(mealAssignments).where(eq(mealAssignments.mealId, mealId));
+      if (assignments.length === 0) return [];
+      return await tx
+        .insert(mealAssignments)
+        .values(assignments.map(assignment => ({ mealId, userId: assignment.userId, role: assignment.role })))
+        .returning();
+    });
+  }
+
+  // Hands out duties across meals, first clearing the given roles on the given meals when asked
+  async addMealAssignments(
+    assignments: Pick<MealAssignment, "mealId" | "userId" | "role">[],
+    replace?: { mealIds: number[]; roles: MealAssignmentRole[] },
+  ): Promise<MealAssignment[]> {
+    return await db.transaction(async (tx) => {
+      if (replace && replace.mealIds.length > 0 && replace.roles.length > 0) {
+        await tx.delete(mealAssignments).where(and(
+          inArray(mealAssignments.mealId, replace.mealIds),
+          inArray(mealAssignments.role, replace.roles),
+        ));
+      }
+      if (assignments.length === 0) return [];
+      return await tx.insert(mealAssignments).values(assignments).returning();
+    });
+  }
+
+  async getCookingRotationSettings(familyId: number): Promise<CookingRotationSettings[]> {
+    return await db
+      .select()
+      .from(cookingRotationSettings)
+      .where(eq(cookingRotationSettings.familyId, familyId));
+  }
+
+  async saveCookingRotationSettings(
+    familyId: number,
+    userId: string,
+    settings: CookingRotationSettingsInput,
+  ): Promise<CookingRotationSettings> {
+    const [saved] = await db
+      .insert(cookingRotationSettings)
+      .values({ ...settings, familyId, userId })
+      .onConflictDoUpdate({
+        target: [cookingRotationSettings.familyId, cookingRotationSettings.userId],
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getCookingRotationMembers(familyId: number): Promise<CookingRotationMember[]> {
+    const [members, settings] = await Promise.all([
+      this.getAttendanceMembers(familyId),
+      this.getCookingRotationSettings(familyId),
+    ]);
+    const memberUsers = members.length > 0
+      ? await db.select().from(users).where(inArray(users.id, members.map(member => member.userId)))
+      : [];
+    return CookRotationService.toMembers(members, memberUsers, settings);
+  }
+
+  /**
+   * Completing a meal counts toward its cook's recipesCooked, once; reverting it takes the
+   * credit back. Leftovers and meals with nothing to cook don't count. Returns the cooks
+   * newly credited, so their achievements can be checked.
+   */
+  private async writeCookCredits(tx: Transaction, previous: Meal, updated: Meal): Promise<string[]> {
+    const wasCompleted = previous.status === "completed";
+    const isCompleted = updated.status === "completed";
+    if (wasCompleted === isCompleted) return [];
+
+    const cooks = await tx
+      .select()
+      .from(mealAssignments)
+      .where(and(eq(mealAssignments.mealId, updated.id), eq(mealAssignments.role, 'cook')));
+    const addToRecipesCooked = async (userId: string, amount: number) => {
+      const [existing] = await tx
+        .update(userStats)
+        .set({ recipesCooked: sql`coalesce(${userStats.recipesCooked}, 0) + ${amount}`, updatedAt: new Date() })
+        .where(and(eq(userStats.userId, userId), eq(userStats.familyId, updated.familyId)))
+        .returning();
+      if (!existing) {
+        await tx.insert(userStats).values({ userId, familyId: updated.familyId, recipesCooked: amount });
+      }
+    };
+
+    if (!isCompleted) {
+      for (const cook of cooks.filter(cook => cook.creditedAt)) {
+        await addToRecipesCooked(cook.userId, -1);
+        await tx.update(mealAssignments).set({ creditedAt: null }).where(eq(mealAssignments.id, cook.id));
+      }
+      return [];
+    }
+
+    if (updated.leftoverOfMealId !== null) return [];
+    const dishes = await tx.select().from(mealDishes).where(eq(mealDishes.mealId, updated.id));
+    if (!updated.recipeId && dishes.length === 0) return [];
+    const credited: string[] = [];
+    for (const cook of cooks.filter(cook => !cook.creditedAt)) {
+      await addToRecipesCooked(cook.userId, 1);
+      await tx.update(mealAssignments).set({ creditedAt: new Date() }).where(eq(mealAssignments.id, cook.id));
+      credited.push(cook.userId);
+    }
+    return credited;
+  }
+
+  async getMealRecurrencesByFamilyId(familyId: number): Promise<MealRecurrence[]> {
+    return await db
+      .select()
+      .from(mealRecurrences)
+      .where(eq(mealRecurrences.familyId, familyId))
+      .orderBy(asc(mealRecurrences.mealTypeId), asc(mealRecurrences.startDate));
+  }
+
+  async getMealRecurrenceById(id: number): Promise<MealRecurrence | undefined> {
+    const [rule] = await db.select().from(mealRecurrences).where(eq(mealRecurrences.id, id));
+    return rule || undefined;
+  }
+
+  async createMealRecurrence(rule: InsertMealRecurrence): Promise<MealRecurrence> {
+    const [newRule] = await db.insert(mealRecurrences).values(rule).returning();
+    return newRule;
+  }
+
+  /**
+   * Series edits apply from fromDate on. Generated meals from then on that nobody edited
+   * individually are dropped and regenerated from the new rule the next time they are queried.
+   */
+  async updateMealRecurrence(id: number, rule: Partial<InsertMealRecurrence>, fromDate: string): Promise<MealRecurrence | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(mealRecurrences)
+        .set({ ...rule, updatedAt: new Date() })
+        .where(eq(mealRecurrences.id, id))
+        .returning();
+      if (!updated) return undefined;
+
+      await this.dropRegeneratableOccurrences(tx, id, fromDate);
+      return updated;
+    });
+  }
+
+  // Past and individually edited occurrences stay on the calendar as ordinary meals
+  async deleteMealRecurrence(id: number, fromDate: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await this.dropRegeneratableOccurrences(tx, id, fromDate);
+      await tx.update(meals).set({ recurrenceId: null }).where(eq(meals.recurrenceId, id));
+      const result = await tx.delete(mealRecurrences).where(eq(mealRecurrences.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // Regenerated occurrences start fresh, so attendance, duties and leftovers planned on them go too
+  private async dropRegeneratableOccurrences(tx: Transaction, recurrenceId: number, fromDate: string): Promise<void> {
+    const occurrences = await tx
+      .select({ id: meals.id })
+      .from(meals)
+      .where(
+        and(
+          eq(meals.recurrenceId, recurrenceId),
+          eq(meals.recurrenceModified, false),
+          eq(meals.status, 'planned'),
+          gte(meals.scheduledDate, fromDate)
+        )
+      );
+    await this.deleteMealRows(tx, occurrences.map(meal => meal.id));
+  }
+
+  /**
+   * Writes the family's recurring meals for the range into meals. Occurrences that already
+   * exist (even if moved or edited) are left alone, as are slots someone already planned.
+   */
+  async materializeMealRecurrences(familyId: number, startDate: string, endDate: string): Promise<number> {
+    const rules = await db
+      .select()
+      .from(mealRecurrences)
+      .where(
+        and(
+          eq(mealRecurrences.familyId, familyId),
+          lte(mealRecurrences.startDate, endDate),
+          or(isNull(mealRecurrences.untilDate), gte(mealRecurrences.untilDate, startDate))
+        )
+      );
+    if (rules.length === 0) return 0;
+
+    const existing = await this.getMealsByDateRange(familyId, startDate, endDate);
+    const occupied = new Set(existing.map(meal => `${meal.scheduledDate}|${meal.mealTypeId}`));
+
+    const toCreate: InsertMeal[] = [];
+    for (const rule of rules) {
+      for (const date of MealRecurrenceService.occurrences(rule, startDate, endDate)) {
+        const key = `${date}|${rule.mealTypeId}`;
+        if (occupied.has(key)) continue;
+        occupied.add(key);
+        toCreate.push(MealRecurrenceService.toMeal(rule, date));
+      }
+    }
+    if (toCreate.length === 0) return 0;
+
+    // Concurrent requests may race to write the same occurrence; the unique index keeps one
+    const created = await db
+      .insert(meals)
+      .values(toCreate)
+      .onConflictDoNothing({ target: [meals.recurrenceId, meals.recurrenceDate] })
+      .returning({ id: meals.id });
+    return created.length;
+  }
+
+  // Meal plan template operations
+  async getMealPlanTemplatesByFamilyId(familyId: number): Promise<MealPlanTemplateWithEntries[]> {
+    const templates = await db
+      .select()
+      .from(mealPlanTemplates)
+      .where(eq(mealPlanTemplates.familyId, familyId))
+      .orderBy(asc(mealPlanTemplates.name));
+    return await this.withTemplateEntries(templates);
+  }
+
+  async getMealPlanTemplateById(id: number): Promise<MealPlanTemplateWithEntries | undefined> {
+    const templates = await db.select().from(mealPlanTemplates).where(eq(mealPlanTemplates.id, id));
+    const [template] = await this.withTemplateEntries(templates);
+    return template;
+  }
+
+  async getMealPlanTemplateByShareCode(shareCode: string): Promise<MealPlanTemplateWithEntries | undefined> {
+    const templates = await db.select().from(mealPlanTemplates).where(eq(mealPlanTemplates.shareCode, shareCode));
+    const [template] = await this.withTemplateEntries(templates);
+    return template;
+  }
+
+  private async withTemplateEntries(templates: MealPlanTemplate[]): Promise<MealPlanTemplateWithEntries[]> {
+    if (templates.length === 0) return [];
+
+    const entries = await db
+      .select()
+      .from(mealPlanTemplateEntries)
+      .where(inArray(mealPlanTemplateEntries.templateId, templates.map(template => template.id)))
+      .orderBy(asc(mealPlanTemplateEntries.weekIndex), asc(mealPlanTemplateEntries.dayOfWeek), asc(mealPlanTemplateEntries.mealTypeId));
+    return templates.map(template => ({
+      ...template,
+      entries: entries.filter(entry => entry.templateId === template.id),
+    }));
+  }
+
+  async createMealPlanTemplate(template: InsertMealPlanTemplate, entries: InsertMealPlanTemplateEntry[]): Promise<MealPlanTemplateWithEntries> {
+    return await db.transaction(async (tx) => this.writeMealPlanTemplate(tx, template, entries));
+  }
+
+  private async writeMealPlanTemplate(
+    tx: Transaction,
+    template: InsertMealPlanTemplate,
+    entries: InsertMealPlanTemplateEntry[],
+  ): Promise<MealPlanTemplateWithEntries> {
+    const [newTemplate] = await tx.insert(mealPlanTemplates).values(template).returning();
+    const newEntries = entries.length > 0
+      ? await tx
+        .insert(mealPlanTemplateEntries)
+        .values(entries.map(entry => ({ ...entry, templateId: newTemplate.id })))
+        .returning()
+      : [];
+    return { ...newTemplate, entries: newEntries };
+  }
+
+  async updateMealPlanTemplate(
+    id: number,
+    template: Partial<InsertMealPlanTemplate> & { shareCode?: string | null },
+  ): Promise<MealPlanTemplate | undefined> {
+    const [updated] = await db
+      .update(mealPlanTemplates)
+      .set({ ...template, updatedAt: new Date() })
+      .where(eq(mealPlanTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteMealPlanTemplate(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(mealPlanTemplateEntries).where(eq(mealPlanTemplateEntries.templateId, id));
+      const result = await tx.delete(mealPlanTemplates).where(eq(mealPlanTemplates.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  /**
+   * Imports a shared template into another family. Recipes the family already has under the
+   * same name are reused; the rest are copied so the family can edit them without touching
+   * the original.
+   */
+  async copyMealPlanTemplate(template: MealPlanTemplateWithEntries, familyId: number, createdBy: string): Promise<MealPlanTemplateWithEntries> {
+    const recipeKey = (name: string) => name.trim().toLowerCase();
+    const familyRecipes = new Map((await this.getRecipesByFamilyId(familyId)).map(recipe => [recipeKey(recipe.name), recipe.id]));
+
+    // Meal times are per family, so each entry moves to the matching slot in the new family.
+    // Entries for slots the family doesn't have are dropped.
+    const [sourceMealTimes, familyMealTimeList] = await Promise.all([
+      this.getFamilyMealTimes(template.familyId),
+      this.getFamilyMealTimes(familyId),
+    ]);
+    const mealTimeIds = new Map<number, number>();
+    for (const mealTime of sourceMealTimes) {
+      const match = MealTimeService.match(mealTime, familyMealTimeList);
+      if (match) mealTimeIds.set(mealTime.id, match.id);
+    }
+    const sources = new Map<number, Recipe>();
+    for (const entry of template.entries) {
+      if (entry.recipeId === null || sources.has(entry.recipeId)) continue;
+      const source = await this.getRecipeById(entry.recipeId);
+      if (source) sources.set(entry.recipeId, source);
+    }
+
+    // Copied recipes and the template are written together, so a failed copy leaves nothing behind
+    return await db.transaction(async (tx) => {
+
+      const recipeIds = new Map<number, number>();
+      for (const entry of template.entries) {
+        const source = entry.recipeId !== null ? sources.get(entry.recipeId) : undefined;
+        if (!source || recipeIds.has(source.id)) continue;
+
+        let recipeId = familyRecipes.get(recipeKey(source.name));
+        if (recipeId === undefined) {
+          const copy = await this.writeRecipe(tx, {
+            familyId,
+            name: source.name,
+            description: source.description,
+            ingredients: source.ingredients,
+            instructions: source.instructions,
+            prepTime: source.prepTime,
+            cookTime: source.cookTime,
+            servings: source.servings,
+            imageUrl: source.imageUrl,
+            tags: source.tags,
+            nutritionInfo: source.nutritionInfo,
+            difficulty: source.difficulty,
+            createdBy,
+          });
+          recipeId = copy.id;
+          familyRecipes.set(recipeKey(copy.name), copy.id);
+        }
+        recipeIds.set(source.id, recipeId);
+      }
+
+      return await this.writeMealPlanTemplate(
+        tx,
+        { familyId, name: template.name, description: template.description, weeks: template.weeks, createdBy },
+        template.entries
+          .filter(entry => mealTimeIds.has(entry.mealTypeId))
+          .map(entry => ({
+            weekIndex: entry.weekIndex,
+            dayOfWeek: entry.dayOfWeek,
+            mealTypeId: mealTimeIds.get(entry.mealTypeId)!,
+            recipeId: entry.recipeId !== null ? recipeIds.get(entry.recipeId) ?? null : null,
+            recipeName: entry.recipeName,
+            servings: entry.servings,
+            notes: entry.notes,
+          })),
+      );
+    });
+  }
+
+
+  /**
+   * Writes a template's meals in one transaction. A slot (date and meal type) that already
+   * has meals is a conflict: "skip" keeps the existing meals, "replace" removes the planned
+   * ones as a delete would (leftovers included), and "fail" writes nothing.
+   */
+  async applyMealPlanTemplate(
+    familyId: number,
+    plannedMeals: InsertMeal[],
+    onConflict: MealTemplateConflictPolicy,
+  ): Promise<MealTemplateApplyResult> {
+    if (plannedMeals.length === 0) return { created: [], skipped: [], replaced: [], conflicts: [] };
+
+    const slotKey = (meal: { scheduledDate: string; mealTypeId: number }) => `${meal.scheduledDate}|${meal.mealTypeId}`;
+    const dates = plannedMeals.map(meal => meal.scheduledDate).sort();
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(meals)
+        .where(
+          and(
+            eq(meals.familyId, familyId),
+            gte(meals.scheduledDate, dates[0]),
+            lte(meals.scheduledDate, dates[dates.length - 1])
+          )
+        );
+      const templateSlots = new Set(plannedMeals.map(slotKey));
+      const conflicts = existing.filter(meal => templateSlots.has(slotKey(meal)));
+      if (onConflict === "fail" && conflicts.length > 0) {
+        return { created: [], skipped: plannedMeals, replaced: [], conflicts };
+      }
+
+      // Meals already prepared or eaten are history and are never replaced
+      const replaced = onConflict === "replace" ? conflicts.filter(meal => meal.status === 'planned') : [];
+      if (replaced.length > 0) {
+        await this.removeMeals(tx, replaced);
+      }
+      const replacedIds = new Set(replaced.map(meal => meal.id));
+      const occupied = new Set(existing.filter(meal => !replacedIds.has(meal.id)).map(slotKey));
+
+      const toCreate = plannedMeals.filter(meal => !occupied.has(slotKey(meal)));
+      const skipped = plannedMeals.filter(meal => occupied.has(slotKey(meal)));
+      const created = toCreate.length > 0 ? await tx.insert(meals).values(toCreate).returning() : [];
+      return { created, skipped, replaced, conflicts };
+    });
+  }
+
+  /**
+   * Runs a batch of calendar edits in order, in one transaction. A slot (date and meal time)
+   * that already has a meal is a conflict. "skip" leaves the operation out, "overwrite" removes
+   * the planned meals in the slot as a delete would, and "fail" rolls the whole batch back, as
+   * does an operation on a meal that isn't in the family. Under "fail", meals a later operation
+   * moves away or deletes don't count, so two meals can swap slots; the other policies can drop
+   * that later operation, which would leave both meals in the slot.
+   *
+   * The operations can instead come from a function that first creates the recipes they need;
+   * those recipes are written in the same transaction, so they're rolled back with the batch.
+   */
+  async applyMealBatch(
+    familyId: number,
+    createdBy: string,
+    operations: MealBatchOperation[] | ((createRecipe: (recipe: InsertRecipe) => Promise<Recipe>) => Promise<MealBatchOperation[]>),
+    onConflict: MealBatchConflictPolicy,
+  ): Promise<MealBatchResult> {
+    let batch = Array.isArray(operations) ? operations : [];
+    const results: MealBatchOperationResult[] = [];
+    try {
+      await db.transaction(async (tx) => {
+        if (!Array.isArray(operations)) {
+          batch = await operations(recipe => this.writeRecipe(tx, recipe));
+        }
+
+        // The last operation that takes each meal out of its current slot
+        const lastDeparture = new Map<number, number>();
+        batch.forEach((operation, index) => {
+          if (operation.op === 'move' || operation.op === 'delete') {
+            lastDeparture.set(operation.mealId, index);
+          } else if (operation.op === 'update' && (operation.changes.scheduledDate !== undefined || operation.changes.mealTypeId !== undefined)) {
+            lastDeparture.set(operation.mealId, index);
+          }
+        });
+
+        for (let index = 0; index < batch.length; index++) {
+          const result = await this.applyMealBatchOperation(tx, familyId, createdBy, batch[index], index, onConflict, lastDeparture);
+          results.push(result);
+          if (result.status === 'conflict' || result.status === 'invalid') {
+            tx.rollback();
+          }
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof TransactionRollbackError)) throw error;
+      return {
+        applied: false,
+        results: batch.map((operation, index) => {
+          const result = results[index];
+          return result && (result.status === 'conflict' || result.status === 'invalid')
+            ? result
+            : { index, op: operation.op, status: 'rolled_back' as const };
+        }),
+      };
+    }
+    return { applied: true, results };
+  }
+
+  private async applyMealBatchOperation(
+    tx: Transaction,
+    familyId: number,
+    createdBy: string,
+    operation: MealBatchOperation,
+    index: number,
+    onConflict: MealBatchConflictPolicy,
+    lastDeparture: Map<number, number>,
+  ): Promise<MealBatchOperationResult> {
+    const base = { index, op: operation.op };
+
+    // Frees a slot for the meal being written, or says why the operation can't go ahead
+    const claimSlot = async (scheduledDate: string, mealTypeId: number, mealId?: number) => {
+      const conflicts = (await tx
+        .select()
+        .from(meals)
+        .where(
+          and(
+            eq(meals.familyId, familyId),
+            eq(meals.scheduledDate, scheduledDate),
+            eq(meals.mealTypeId, mealTypeId)
+          )
+        ))
+        .filter(meal => meal.id !== mealId && (onConflict !== 'fail' || (lastDeparture.get(meal.id) ?? -1) <= index));
+      if (conflicts.length === 0) {
+        return { blocked: null, overwritten: [] as Meal[] };
+      }
+      if (onConflict === 'fail') {
+        return { blocked: { ...base, status: 'conflict' as const, conflicts }, overwritten: [] as Meal[] };
+      }
+      // Meals already prepared or eaten are history and are never overwritten
+      if (onConflict === 'overwrite' && conflicts.every(meal => meal.status === 'planned')) {
+        await this.removeMeals(tx, conflicts);
+        return { blocked: null, overwritten: conflicts };
+      }
+      return {
+        blocked: {
+          ...base,
+          status: 'skipped' as const,
+          conflicts,
+          reason: onConflict === 'overwrite' ? "The slot has a meal that was already prepared or eaten" : undefined,
+        },
+        overwritten: [] as Meal[],
+      };
+    };
+
+    if (operation.op === 'create') {
+      const { blocked, overwritten } = await claimSlot(operation.meal.scheduledDate, operation.meal.mealTypeId);
+      if (blocked) return blocked;
+      const { dishes, ...fields } = operation.meal;
+      const [meal] = await tx
+        .insert(meals)
+        .values({ ...fields, familyId, createdBy, status: 'planned' })
+        .returning();
+      if (dishes) await this.writeMealDishes(tx, meal.id, dishes);
+      return { ...base, status: 'created', meal, overwritten };
+    }
+
+    const [meal] = await tx
+      .select()
+      .from(meals)
+      .where(and(eq(meals.id, operation.mealId), eq(meals.familyId, familyId)));
+    if (!meal) {
+      return { ...base, status: 'invalid', reason: `Meal ${operation.mealId} not found` };
+    }
+
+    if (operation.op === 'delete') {
+      await this.removeMeals(tx, [meal]);
+      return { ...base, status: 'deleted', meal };
+    }
+
+    const { dishes, ...changes } = operation.op === 'move'
+      ? { scheduledDate: operation.scheduledDate, mealTypeId: operation.mealTypeId, dishes: undefined }
+      : operation.changes;
+    const scheduledDate = changes.scheduledDate ?? meal.scheduledDate;
+    const mealTypeId = changes.mealTypeId ?? meal.mealTypeId;
+
+    if (meal.leftoverOfMealId !== null && (scheduledDate !== meal.scheduledDate || changes.servings !== undefined)) {
+      const [source] = await tx.select().from(meals).where(eq(meals.id, meal.leftoverOfMealId));
+      if (source) {
+        const leftovers = await tx.select().from(meals).where(eq(meals.leftoverOfMealId, source.id));
+        const check = LeftoverService.validate(source, leftovers, {
+          id: meal.id,
+          scheduledDate,
+          servings: changes.servings ?? meal.servings ?? 0,
+        });
+        if (check.error) {
+          return { ...base, status: 'invalid', reason: check.error };
+        }
+      }
+    }
+
+    let overwritten: Meal[] = [];
+    if (scheduledDate !== meal.scheduledDate || mealTypeId !== meal.mealTypeId) {
+      const claim = await claimSlot(scheduledDate, mealTypeId, meal.id);
+      if (claim.blocked) return claim.blocked;
+      overwritten = claim.overwritten;
+    }
+
+    // An occurrence edited on its own is no longer rewritten by edits to its series
+    const values = meal.recurrenceId !== null ? { ...changes, recurrenceModified: true } : changes;
+    const [updated] = Object.keys(values).length > 0
+      ? await tx.update(meals).set(values).where(eq(meals.id, meal.id)).returning()
+      : [meal];
+    if (dishes) await this.writeMealDishes(tx, meal.id, dishes);
+    return { ...base, status: operation.op === 'move' ? 'moved' : 'updated', meal: updated, overwritten };
   }
 
   async getMealById(id: number): Promise<Meal | undefined> {
@@ -306,14 +1411,16 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(meals.familyId, familyId),
-          eq(meals.scheduledDate, startDate),
-          eq(meals.scheduledDate, endDate)
+          gte(meals.scheduledDate, startDate),
+          lte(meals.scheduledDate, endDate)
         )
       )
       .orderBy(asc(meals.scheduledDate));
   }
 
   async updateMeal(id: number, meal: Partial<InsertMeal>): Promise<Meal | undefined> {
+    // A request that only changes the meal's dishes leaves the row itself alone
+    if (Object.keys(meal).length === 0) return this.getMealById(id);
     const [updatedMeal] = await db
       .update(meals)
       .set(meal)
@@ -322,9 +1429,83 @@ export class DatabaseStorage implements IStorage {
     return updatedMeal;
   }
 
+  /**
+   * Saves an edit to a meal in one transaction with everything that follows from it: servings
+   * that follow attendance, side dishes, nutrition logs and the cook's credit. Returns the
+   * cooks newly credited, so their achievements can be checked once the edit is saved.
+   */
+  async saveMealEdit(
+    meal: Meal,
+    changes: Partial<InsertMeal>,
+    options: { dishes?: MealDishInput[]; memberPortions?: MemberPortion[] } = {},
+  ): Promise<{ meal: Meal; creditedCooks: string[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      let updated = meal;
+      // A request that only changes the meal's dishes leaves the row itself alone
+      if (Object.keys(changes).length > 0) {
+        const [updatedMeal] = await tx.update(meals).set(changes).where(eq(meals.id, meal.id)).returning();
+        if (!updatedMeal) return undefined;
+        updated = updatedMeal;
+      }
+      const [refreshed] = await this.writeAttendanceServings(tx, meal.familyId, { mealIds: [meal.id] });
+      updated = refreshed ?? updated;
+      if (options.dishes) {
+        await this.writeMealDishes(tx, meal.id, options.dishes);
+      }
+
+      const contentChanged = options.dishes !== undefined
+        || updated.servings !== meal.servings
+        || updated.recipeId !== meal.recipeId;
+      await this.writeMealNutritionLogs(tx, meal, updated, options.memberPortions ?? [], contentChanged);
+      const creditedCooks = await this.writeCookCredits(tx, meal, updated);
+      return { meal: updated, creditedCooks };
+    });
+  }
+
   async deleteMeal(id: number): Promise<boolean> {
-    const result = await db.delete(meals).where(eq(meals.id, id));
-    return result.rowCount > 0;
+    return await db.transaction(async (tx) => {
+      const [meal] = await tx.select().from(meals).where(eq(meals.id, id));
+      if (!meal) return false;
+      await this.removeMeals(tx, [meal]);
+      return true;
+    });
+  }
+
+  private async removeMeals(tx: Transaction, doomed: Meal[]): Promise<void> {
+    // Deleting one occurrence of a recurring meal skips that date instead of regenerating it
+    for (const meal of doomed) {
+      if (meal.recurrenceId && meal.recurrenceDate) {
+        await tx
+          .update(mealRecurrences)
+          .set({ exceptionDates: sql`array_append(coalesce(${mealRecurrences.exceptionDates}, '{}'), ${meal.recurrenceDate}::date)` })
+          .where(eq(mealRecurrences.id, meal.recurrenceId));
+      }
+    }
+    await this.deleteMealRows(tx, doomed.map(meal => meal.id));
+  }
+
+  // Deletes meals along with their leftovers and everything that refers to them
+  private async deleteMealRows(tx: Transaction, ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    // Leftovers cannot outlive the meal that cooked them
+    const leftoverIds = (await tx
+      .select({ id: meals.id })
+      .from(meals)
+      .where(inArray(meals.leftoverOfMealId, ids)))
+      .map(meal => meal.id)
+      .filter(leftoverId => !ids.includes(leftoverId));
+    const mealIds = [...ids, ...leftoverIds];
+
+    // The food was still eaten, so keep any logs but drop the link to the meal
+    await tx.update(nutritionLogs).set({ mealId: null }).where(inArray(nutritionLogs.mealId, mealIds));
+    await tx.delete(mealDishes).where(inArray(mealDishes.mealId, mealIds));
+    await tx.delete(mealAttendees).where(inArray(mealAttendees.mealId, mealIds));
+    await tx.delete(mealAssignments).where(inArray(mealAssignments.mealId, mealIds));
+    if (leftoverIds.length > 0) {
+      await tx.delete(meals).where(inArray(meals.id, leftoverIds));
+    }
+    await tx.delete(meals).where(inArray(meals.id, ids));
   }
 
   // Nutrition log operations
@@ -346,6 +1527,188 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(nutritionLogs.createdAt));
   }
 
+  async getNutritionLogsByDateRange(userId: string, startDate: string, endDate: string, familyId?: number): Promise<NutritionLog[]> {
+    const conditions = [
+      eq(nutritionLogs.userId, userId),
+      gte(nutritionLogs.loggedDate, startDate),
+      lte(nutritionLogs.loggedDate, endDate),
+    ];
+    if (familyId) {
+      conditions.push(eq(nutritionLogs.familyId, familyId));
+    }
+
+    return await db
+      .select()
+      .from(nutritionLogs)
+      .where(and(...conditions))
+      .orderBy(asc(nutritionLogs.loggedDate), asc(nutritionLogs.createdAt));
+  }
+
+  async getRecentNutritionLogs(userId: string, limit: number): Promise<NutritionLog[]> {
+    return await db
+      .select()
+      .from(nutritionLogs)
+      .where(eq(nutritionLogs.userId, userId))
+      .orderBy(desc(nutritionLogs.loggedDate), desc(nutritionLogs.createdAt))
+      .limit(limit);
+  }
+
+  async getFamilyNutritionLogsByDateRange(familyId: number, userIds: string[], startDate: string, endDate: string): Promise<NutritionLog[]> {
+    if (userIds.length === 0) return [];
+
+    return await db
+      .select()
+      .from(nutritionLogs)
+      .where(and(
+        eq(nutritionLogs.familyId, familyId),
+        inArray(nutritionLogs.userId, userIds),
+        gte(nutritionLogs.loggedDate, startDate),
+        lte(nutritionLogs.loggedDate, endDate),
+      ))
+      .orderBy(asc(nutritionLogs.loggedDate), asc(nutritionLogs.createdAt));
+  }
+
+  /**
+   * Logs nutrition when a meal is marked eaten, relogs an eaten meal whose servings, recipe or
+   * dishes changed, and removes the logs when it goes back to planned.
+   */
+  private async writeMealNutritionLogs(
+    tx: Transaction,
+    previous: Meal,
+    updated: Meal,
+    overrides: MemberPortion[],
+    contentChanged: boolean,
+  ): Promise<NutritionLog[]> {
+    const wasCompleted = previous.status === "completed";
+    const isCompleted = updated.status === "completed";
+
+    // Reverting a completed meal undoes whatever it logged
+    if (wasCompleted && !isCompleted) {
+      await tx.delete(nutritionLogs).where(eq(nutritionLogs.mealId, updated.id));
+      return [];
+    }
+    if (!isCompleted || (wasCompleted && !contentChanged)) return [];
+    const dishes = await tx
+      .select()
+      .from(mealDishes)
+      .where(eq(mealDishes.mealId, updated.id))
+      .orderBy(asc(mealDishes.position));
+
+    const preferences = await this.getFamilyPreferences(updated.familyId, tx);
+    if (!preferences.automaticNutritionTracking) return [];
+
+    // The main recipe and every side dish get their own log, so totals add up across dishes
+    const recipeNutrition = async (recipeId: number) => {
+      const recipe = await this.getRecipeById(recipeId, tx);
+      const nutrition = recipe ? recipe.nutritionInfo ?? await this.calculateRecipeNutrition(recipe.id, {}, tx) : undefined;
+      return recipe && nutrition ? { recipe, nutrition } : undefined;
+    };
+    // Only the people who attended are logged, at their portion size; a portion given when
+    // marking the meal eaten wins, so someone who turned up after all can still be logged
+    const attendance = await this.getMealAttendance(updated, tx);
+    const portions = [...overrides, ...MealAttendanceService.memberPortions(updated, attendance)];
+    const memberIds = (await this.getFamilyMembers(updated.familyId, tx))
+      .map(member => member.userId)
+      .filter(userId => portions.some(portion => portion.userId === userId));
+    const logs: InsertNutritionLog[] = [];
+    const main = updated.recipeId ? await recipeNutrition(updated.recipeId) : undefined;
+    if (main) {
+      logs.push(...RecipeNutritionService.buildMealLogs(updated, main.recipe, main.nutrition, memberIds, portions));
+    }
+    for (const dish of dishes) {
+      const side = await recipeNutrition(dish.recipeId);
+      if (side) {
+        logs.push(...RecipeNutritionService.buildDishLogs(updated, dish, side.recipe, side.nutrition, memberIds, portions));
+      }
+    }
+
+    await tx.delete(nutritionLogs).where(eq(nutritionLogs.mealId, updated.id));
+    if (logs.length === 0) return [];
+    return await tx.insert(nutritionLogs).values(logs).returning();
+  }
+
+  // Nutrition goal operations
+  async getNutritionGoalById(id: number): Promise<NutritionGoal | undefined> {
+    const [goal] = await db.select().from(nutritionGoals).where(eq(nutritionGoals.id, id));
+    return goal;
+  }
+
+  async getNutritionGoalForDate(userId: string, familyId: number, date: string): Promise<NutritionGoal | undefined> {
+    const [goal] = await db
+      .select()
+      .from(nutritionGoals)
+      .where(and(
+        eq(nutritionGoals.userId, userId),
+        eq(nutritionGoals.familyId, familyId),
+        lte(nutritionGoals.effectiveFrom, date),
+        or(isNull(nutritionGoals.effectiveTo), gt(nutritionGoals.effectiveTo, date)),
+      ))
+      .orderBy(desc(nutritionGoals.effectiveFrom), desc(nutritionGoals.createdAt))
+      .limit(1);
+    return goal;
+  }
+
+  async getNutritionGoalHistory(userId: string, familyId: number): Promise<NutritionGoal[]> {
+    return await db
+      .select()
+      .from(nutritionGoals)
+      .where(and(eq(nutritionGoals.userId, userId), eq(nutritionGoals.familyId, familyId)))
+      .orderBy(desc(nutritionGoals.effectiveFrom), desc(nutritionGoals.createdAt));
+  }
+
+  async createNutritionGoal(goal: InsertNutritionGoal): Promise<NutritionGoal> {
+    return await db.transaction(async (tx) => {
+      // The new goal supersedes whatever is current; the old one stays as history. Only goals
+      // that started by then are closed, so no goal ends before it begins
+      await tx
+        .update(nutritionGoals)
+        .set({ effectiveTo: goal.effectiveFrom, updatedAt: new Date() })
+        .where(and(
+          eq(nutritionGoals.userId, goal.userId),
+          eq(nutritionGoals.familyId, goal.familyId),
+          isNull(nutritionGoals.effectiveTo),
+          lte(nutritionGoals.effectiveFrom, goal.effectiveFrom),
+        ));
+      const [newGoal] = await tx.insert(nutritionGoals).values(goal).returning();
+      return newGoal;
+    });
+  }
+
+  async updateNutritionGoal(id: number, goal: Partial<InsertNutritionGoal>): Promise<NutritionGoal | undefined> {
+    const [updatedGoal] = await db
+      .update(nutritionGoals)
+      .set({ ...goal, updatedAt: new Date() })
+      .where(eq(nutritionGoals.id, id))
+      .returning();
+    return updatedGoal;
+  }
+
+  async deleteNutritionGoal(id: number): Promise<boolean> {
+    const goal = await this.getNutritionGoalById(id);
+    if (!goal) return false;
+
+    return await db.transaction(async (tx) => {
+      await tx.delete(nutritionGoals).where(eq(nutritionGoals.id, id));
+
+      // Removing the current goal makes the one it replaced current again
+      if (goal.effectiveTo === null) {
+        const [previous] = await tx
+          .select()
+          .from(nutritionGoals)
+          .where(and(eq(nutritionGoals.userId, goal.userId), eq(nutritionGoals.familyId, goal.familyId)))
+          .orderBy(desc(nutritionGoals.effectiveFrom), desc(nutritionGoals.createdAt))
+          .limit(1);
+        if (previous) {
+          await tx
+            .update(nutritionGoals)
+            .set({ effectiveTo: null, updatedAt: new Date() })
+            .where(eq(nutritionGoals.id, previous.id));
+        }
+      }
+      return true;
+    });
+  }
+
   // Shopping list operations
   async createShoppingList(list: InsertShoppingList): Promise<ShoppingList> {
     const [newList] = await db.insert(shoppingLists).values(list).returning();
@@ -460,52 +1823,76 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Advanced shopping list operations
-  async generateShoppingListFromMeals(familyId: number, mealIds: number[]): Promise<{ consolidatedIngredients: any[], existingPantryItems: PantryItem[] }> {
-    // Get all meals and their recipes
+  async generateShoppingListFromMeals(familyId: number, mealIds: number[], shoppingListId?: number): Promise<GeneratedShoppingList> {
+    if (mealIds.length === 0) {
+      return {
+        consolidatedIngredients: [],
+        existingPantryItems: await this.getPantryItemsByFamilyId(familyId),
+        diff: { toAdd: [], toUpdate: [], coveredByPantry: [] },
+      };
+    }
+
+    // Get the selected meals and their recipes. Leftovers were bought for with the meal that cooked them.
     const mealList = await db
       .select()
       .from(meals)
       .where(and(
         eq(meals.familyId, familyId),
-        // TODO: Add proper SQL IN operator for mealIds
+        inArray(meals.id, mealIds),
+        isNull(meals.leftoverOfMealId)
       ));
 
-    // Get all recipes for these meals
-    const recipeIds = mealList.map(meal => meal.recipeId);
-    const recipeList = await db
-      .select()
-      .from(recipes)
-      .where(eq(recipes.familyId, familyId));
-
-    // Get existing pantry items
+    const dishes = await this.getMealDishes(mealList.map(meal => meal.id));
+    const recipeIds = Array.from(new Set([
+      ...mealList.map(meal => meal.recipeId).filter((id): id is number => id !== null),
+      ...dishes.map(dish => dish.recipeId),
+    ]));
+    const recipeList = recipeIds.length > 0
+      ? await db.select().from(recipes).where(inArray(recipes.id, recipeIds))
+      : [];
+    const ingredientRows = await this.getRecipeIngredientsByRecipeIds(recipeIds);
+
+    // Get existing pantry items and the target list's current items
     const existingPantryItems = await this.getPantryItemsByFamilyId(familyId);
-
-    // Consolidate ingredients from recipes
-    const consolidatedIngredients: any[] = [];
-    for (const meal of mealList) {
-      const recipe = recipeList.find(r => r.id === meal.recipeId);
-      if (recipe && recipe.ingredients) {
-        const ingredients = Array.isArray(recipe.ingredients) ? recipe.ingredients : [];
-        for (const ingredient of ingredients) {
-          const existing = consolidatedIngredients.find(i => i.name === ingredient);
-          if (existing) {
-            // TODO: Add quantity consolidation logic
-          } else {
-            consolidatedIngredients.push({
-              name: ingredient,
-              quantity: "1",
-              unit: "serving",
-              category: "Recipe Ingredient",
-              sourceType: "recipe",
-              sourceId: recipe.id,
-              priority: 2
-            });
-          }
-        }
+    const existingItems = shoppingListId ? await this.getShoppingListItems(shoppingListId) : [];
+
+    const { consolidatedIngredients, diff } = ShoppingListService.buildShoppingList(
+      mealList,
+      recipeList,
+      ingredientRows,
+      existingPantryItems,
+      existingItems,
+      dishes,
+    );
+
+    return { consolidatedIngredients, existingPantryItems, diff };
+  }
+
+  // All or nothing, so regenerating after a failure doesn't count the same meals twice
+  async applyShoppingListDiff(shoppingListId: number, diff: ShoppingListDiff): Promise<ShoppingListItem[]> {
+    return await db.transaction(async (tx) => {
+      // Only touch items that actually belong to this list
+      const listItemIds = new Set((await tx
+        .select({ id: shoppingListItems.id })
+        .from(shoppingListItems)
+        .where(eq(shoppingListItems.shoppingListId, shoppingListId)))
+        .map(item => item.id));
+
+      const addedItems = diff.toAdd.length > 0
+        ? await tx.insert(shoppingListItems).values(diff.toAdd.map(item => ({ ...item, shoppingListId }))).returning()
+        : [];
+      const updatedItems: ShoppingListItem[] = [];
+      for (const update of diff.toUpdate.filter(update => listItemIds.has(update.id))) {
+        const [item] = await tx
+          .update(shoppingListItems)
+          .set(update.updates)
+          .where(eq(shoppingListItems.id, update.id))
+          .returning();
+        if (item) updatedItems.push(item);
       }
-    }
 
-    return { consolidatedIngredients, existingPantryItems };
+      return [...addedItems, ...updatedItems];
+    });
   }
 
   async getShoppingListItemHistory(familyId: number, itemName: string): Promise<ShoppingListItem[]> {
@@ -837,8 +2224,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserPreferences(userId: string): Promise<any> {
-    // In a real implementation, this would fetch from a user_preferences table
-    // For now, we'll return default preferences
+    const [preferences] = await db
+      .select()
+      .from(userPreferences)
+      .where(eq(userPreferences.userId, userId));
+    if (preferences) return preferences;
+
+    // Users who never saved preferences get the column defaults
     return {
       emailNotifications: true,
       pushNotifications: true,
@@ -850,18 +2242,40 @@ export class DatabaseStorage implements IStorage {
       shareRecipes: true,
       shareMealPlans: true,
       shareAchievements: true,
+      measurementSystem: 'imperial',
     };
   }
 
-  async updateUserPreferences(userId: string, preferences: any): Promise<any> {
-    // In a real implementation, this would update a user_preferences table
-    // For now, we'll just return the preferences as updated
-    return preferences;
+  async updateUserPreferences(userId: string, preferences: Partial<InsertUserPreferences>): Promise<UserPreferences> {
+    const [existing] = await db
+      .select()
+      .from(userPreferences)
+      .where(eq(userPreferences.userId, userId));
+
+    if (existing) {
+      const [updated] = await db
+        .update(userPreferences)
+        .set({ ...preferences, updatedAt: new Date() })
+        .where(eq(userPreferences.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(userPreferences)
+      .values({ ...preferences, userId })
+      .returning();
+    return created;
   }
 
-  async getFamilyPreferences(familyId: number): Promise<any> {
-    // In a real implementation, this would fetch from a family_preferences table
-    // For now, we'll return default family preferences
+  async getFamilyPreferences(familyId: number, executor: Executor = db): Promise<any> {
+    const [preferences] = await executor
+      .select()
+      .from(familyPreferences)
+      .where(eq(familyPreferences.familyId, familyId));
+    if (preferences) return preferences;
+
+    // Families that never saved preferences get the column defaults
     return {
       allowGuestAccess: false,
       requireApprovalForNewRecipes: false,
@@ -875,10 +2289,63 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async updateFamilyPreferences(familyId: number, preferences: any): Promise<any> {
-    // In a real implementation, this would update a family_preferences table
-    // For now, we'll just return the preferences as updated
-    return preferences;
+  async updateFamilyPreferences(familyId: number, preferences: Partial<InsertFamilyPreferences>): Promise<FamilyPreferences> {
+    const [existing] = await db
+      .select()
+      .from(familyPreferences)
+      .where(eq(familyPreferences.familyId, familyId));
+
+    if (existing) {
+      const [updated] = await db
+        .update(familyPreferences)
+        .set({ ...preferences, updatedAt: new Date() })
+        .where(eq(familyPreferences.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(familyPreferences)
+      .values({ ...preferences, familyId })
+      .returning();
+    return created;
+  }
+
+  async getMealPlanningPreferences(familyId: number): Promise<MealPlanningPreferences[]> {
+    return await db
+      .select()
+      .from(mealPlanningPreferences)
+      .where(eq(mealPlanningPreferences.familyId, familyId));
+  }
+
+  // A null userId saves the family defaults; otherwise the member's overrides
+  async saveMealPlanningPreferences(
+    familyId: number,
+    userId: string | null,
+    preferences: MealPlanningPreferencesInput,
+  ): Promise<MealPlanningPreferences> {
+    const [existing] = await db
+      .select()
+      .from(mealPlanningPreferences)
+      .where(and(
+        eq(mealPlanningPreferences.familyId, familyId),
+        userId === null ? isNull(mealPlanningPreferences.userId) : eq(mealPlanningPreferences.userId, userId),
+      ));
+
+    if (existing) {
+      const [updated] = await db
+        .update(mealPlanningPreferences)
+        .set({ ...preferences, updatedAt: new Date() })
+        .where(eq(mealPlanningPreferences.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(mealPlanningPreferences)
+      .values({ ...preferences, familyId, userId })
+      .returning();
+    return created;
   }
 
   async createFamilyInvitation(invitation: any): Promise<any> {
@@ -902,10 +2369,31 @@ export class DatabaseStorage implements IStorage {
   }
 
   async removeFamilyMember(memberId: number): Promise<boolean> {
-    const result = await db
-      .delete(familyMemberships)
-      .where(eq(familyMemberships.id, memberId));
-    return (result.rowCount || 0) > 0;
+    return await db.transaction(async (tx) => {
+      await tx.delete(mealAttendees).where(eq(mealAttendees.membershipId, memberId));
+      await tx.delete(memberAttendancePatterns).where(eq(memberAttendancePatterns.membershipId, memberId));
+
+      // Duties on meals still to come go back into the rotation; past ones stay as history
+      const [membership] = await tx.select().from(familyMemberships).where(eq(familyMemberships.id, memberId));
+      if (membership) {
+        const plannedIds = tx
+          .select({ id: meals.id })
+          .from(meals)
+          .where(and(eq(meals.familyId, membership.familyId), sql`coalesce(${meals.status}, 'planned') <> 'completed'`));
+        await tx.delete(mealAssignments).where(and(
+          eq(mealAssignments.userId, membership.userId),
+          inArray(mealAssignments.mealId, plannedIds),
+        ));
+        await tx.delete(cookingRotationSettings).where(and(
+          eq(cookingRotationSettings.familyId, membership.familyId),
+          eq(cookingRotationSettings.userId, membership.userId),
+        ));
+      }
+      const result = await tx
+        .delete(familyMemberships)
+        .where(eq(familyMemberships.id, memberId));
+      return (result.rowCount || 0) > 0;
+    });
   }
 
   // Family addresses operations
@@ -962,48 +2450,52 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Family meal times operations
-  async getFamilyMealTimes(familyId: number): Promise<any[]> {
-    const mealTimes = await db
+  async getFamilyMealTimes(familyId: number): Promise<FamilyMealTime[]> {
+    return await db
       .select()
       .from(familyMealTimes)
       .where(eq(familyMealTimes.familyId, familyId))
-      .orderBy(familyMealTimes.timeOfDay);
-    return mealTimes;
+      .orderBy(asc(familyMealTimes.sortOrder), asc(familyMealTimes.defaultTime), asc(familyMealTimes.id));
   }
 
-  async createFamilyMealTime(mealTime: any): Promise<any> {
-    const [newMealTime] = await db
-      .insert(familyMealTimes)
-      .values({
-        familyId: mealTime.familyId,
-        mealName: mealTime.mealName,
-        timeOfDay: mealTime.timeOfDay,
-        daysOfWeek: mealTime.daysOfWeek,
-        isActive: mealTime.isActive ?? true
-      })
-      .returning();
+  async getFamilyMealTimeById(mealTimeId: number): Promise<FamilyMealTime | undefined> {
+    const [mealTime] = await db.select().from(familyMealTimes).where(eq(familyMealTimes.id, mealTimeId));
+    return mealTime;
+  }
+
+  async createFamilyMealTime(mealTime: InsertFamilyMealTime): Promise<FamilyMealTime> {
+    const [newMealTime] = await db.insert(familyMealTimes).values(mealTime).returning();
     return newMealTime;
   }
 
-  async updateFamilyMealTime(mealTimeId: number, mealTime: any): Promise<any> {
+  async updateFamilyMealTime(mealTimeId: number, mealTime: Partial<InsertFamilyMealTime>): Promise<FamilyMealTime | undefined> {
     const [updatedMealTime] = await db
       .update(familyMealTimes)
-      .set({
-        mealName: mealTime.mealName,
-        timeOfDay: mealTime.timeOfDay,
-        daysOfWeek: mealTime.daysOfWeek,
-        isActive: mealTime.isActive
-      })
+      .set(mealTime)
       .where(eq(familyMealTimes.id, mealTimeId))
       .returning();
     return updatedMealTime;
   }
 
+  // Meal times that anything was planned or logged against are kept so history still reads
+  async isFamilyMealTimeInUse(mealTimeId: number): Promise<boolean> {
+    const usage = await Promise.all([
+      db.select({ id: meals.id }).from(meals).where(eq(meals.mealTypeId, mealTimeId)).limit(1),
+      db.select({ id: nutritionLogs.id }).from(nutritionLogs).where(eq(nutritionLogs.mealTypeId, mealTimeId)).limit(1),
+      db.select({ id: mealRecurrences.id }).from(mealRecurrences).where(eq(mealRecurrences.mealTypeId, mealTimeId)).limit(1),
+      db.select({ id: mealPlanTemplateEntries.id }).from(mealPlanTemplateEntries).where(eq(mealPlanTemplateEntries.mealTypeId, mealTimeId)).limit(1),
+    ]);
+    return usage.some(rows => rows.length > 0);
+  }
+
   async deleteFamilyMealTime(mealTimeId: number): Promise<boolean> {
-    const result = await db
-      .delete(familyMealTimes)
-      .where(eq(familyMealTimes.id, mealTimeId));
-    return (result.rowCount || 0) > 0;
+    return await db.transaction(async (tx) => {
+      await tx.delete(memberAttendancePatterns).where(eq(memberAttendancePatterns.mealTypeId, mealTimeId));
+      const result = await tx
+        .delete(familyMealTimes)
+        .where(eq(familyMealTimes.id, mealTimeId));
+      return (result.rowCount || 0) > 0;
+    });
   }
 
   // Shopping site preferences operations
@@ -0,0 +1,49 @@
+// Converts between family wall-clock times and instants with Intl, which knows every IANA zone
+export class TimeZoneService {
+  public static isTimeZone(timeZone: string | null | undefined): timeZone is string {
+    if (!timeZone) return false;
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static wallClock(timeZone: string, instant: Date): { year: number; month: number; day: number; hour: number; minute: number } {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).formatToParts(instant);
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    return { year: part("year"), month: part("month"), day: part("day"), hour: part("hour"), minute: part("minute") };
+  }
+
+  // Minutes the time zone is ahead of UTC at the given instant
+  private static offsetMinutes(timeZone: string, instant: Date): number {
+    const { year, month, day, hour, minute } = this.wallClock(timeZone, instant);
+    return Math.round((Date.UTC(year, month - 1, day, hour, minute) - instant.getTime()) / 60000);
+  }
+
+  // The instant a wall-clock date and HH:MM time happen in the time zone
+  public static zonedToUtc(date: string, time: string, timeZone: string): Date {
+    const [year, month, day] = date.split("-").map(Number);
+    const [hour, minute] = time.split(":").map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    // A second pass settles times near a daylight saving change
+    const firstGuess = wallClock - this.offsetMinutes(timeZone, new Date(wallClock)) * 60000;
+    return new Date(wallClock - this.offsetMinutes(timeZone, new Date(firstGuess)) * 60000);
+  }
+
+  // The wall-clock date (YYYY-MM-DD) and time (HH:MM) of an instant in the time zone
+  public static utcToZoned(instant: Date, timeZone: string): { date: string; time: string } {
+    const { year, month, day, hour, minute } = this.wallClock(timeZone, instant);
+    const pad = (value: number) => value.toString().padStart(2, "0");
+    return { date: `${year}-${pad(month)}-${pad(day)}`, time: `${pad(hour)}:${pad(minute)}` };
+  }
+}
@@ -5,15 +5,18 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
   decimal,
   boolean,
   date,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { isValid, parseISO } from "date-fns";
 
 // Session storage table (mandatory for Replit Auth)
 export const sessions = pgTable(
@@ -52,6 +55,7 @@ export const families = pgTable("families", {
   timezone: varchar("timezone").default("America/New_York"),
   currency: varchar("currency").default("USD"),
   weekStartsOn: varchar("week_starts_on", { enum: ["sunday", "monday"] }).default("sunday"),
+  calendarFeedToken: varchar("calendar_feed_token", { length: 64 }).unique(), // secret in the .ics feed URL; null when the feed is off
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -69,6 +73,7 @@ export const familyMemberships = pgTable("family_memberships", {
   allergies: text("allergies").array(),
   dietType: varchar("diet_type"),
   favoriteFoods: text("favorite_foods").array(),
+  portionSize: decimal("portion_size", { precision: 4, scale: 2 }).default("1"), // servings this member usually eats, e.g. 0.5 for a young child
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -85,7 +90,7 @@ export const recipes = pgTable("recipes", {
   servings: integer("servings"),
   imageUrl: varchar("image_url"),
   tags: text("tags").array(),
-  nutritionInfo: jsonb("nutrition_info"), // calories, protein, carbs, fat, etc.
+  nutritionInfo: jsonb("nutrition_info").$type<NutritionInfo>(), // per-serving nutrition, see NutritionInfo
   difficulty: varchar("difficulty", { length: 20 }), // easy, medium, hard
   rating: decimal("rating", { precision: 3, scale: 2 }),
   ratingCount: integer("rating_count").default(0),
@@ -94,7 +99,34 @@ export const recipes = pgTable("recipes", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Meal types table
+// Recipe ingredients table (parsed, normalized form of recipes.ingredients)
+export const recipeIngredients = pgTable("recipe_ingredients", {
+  id: serial("id").primaryKey(),
+  recipeId: integer("recipe_id").notNull().references(() => recipes.id),
+  position: integer("position").notNull().default(0), // index into recipes.ingredients
+  rawText: text("raw_text").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 4 }), // lower bound when a range is given
+  quantityMax: decimal("quantity_max", { precision: 10, scale: 4 }), // upper bound for "2-3 cups"
+  unit: varchar("unit", { length: 50 }), // canonical unit: cup, tbsp, g, clove, etc.
+  food: varchar("food", { length: 255 }).notNull(), // normalized food identity, e.g. "all-purpose flour"
+  preparation: text("preparation"), // chopped, finely diced, etc.
+  notes: text("notes"), // parenthetical notes, "to taste", etc.
+  isOptional: boolean("is_optional").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_recipe_ingredients_recipe").on(table.recipeId)]);
+
+// Each member's own 1-5 star rating of a recipe; recipes.rating and ratingCount summarize them
+export const recipeRatings = pgTable("recipe_ratings", {
+  id: serial("id").primaryKey(),
+  recipeId: integer("recipe_id").notNull().references(() => recipes.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  rating: integer("rating").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_recipe_ratings_recipe_user").on(table.recipeId, table.userId)]);
+
+// Global meal types. Calendars use each family's meal times; these are the defaults new
+// families start with and the categories the meal times were migrated from
 export const mealTypes = pgTable("meal_types", {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 100 }).notNull(), // breakfast, lunch, dinner, snack
@@ -106,21 +138,127 @@ export const meals = pgTable("meals", {
   id: serial("id").primaryKey(),
   familyId: integer("family_id").notNull().references(() => families.id),
   recipeId: integer("recipe_id").references(() => recipes.id),
-  mealTypeId: integer("meal_type_id").notNull().references(() => mealTypes.id),
+  mealTypeId: integer("meal_type_id").notNull().references((): AnyPgColumn => familyMealTimes.id), // the family meal time (slot) this meal fills
   scheduledDate: date("scheduled_date").notNull(),
   servings: integer("servings"),
+  servingsFromAttendance: boolean("servings_from_attendance").default(false), // servings follow who is attending instead of being typed
   notes: text("notes"),
   status: varchar("status", { length: 20 }).default("planned"), // planned, prepared, completed
+  leftoverServings: integer("leftover_servings").default(0), // extra portions cooked to eat at a later meal
+  leftoverOfMealId: integer("leftover_of_meal_id").references((): AnyPgColumn => meals.id), // set when this meal eats another meal's leftovers
+  fridgeLifeDays: integer("fridge_life_days"), // how long the leftovers keep; null means DEFAULT_FRIDGE_LIFE_DAYS
+  recurrenceId: integer("recurrence_id").references((): AnyPgColumn => mealRecurrences.id), // set on meals generated from a recurring rule
+  recurrenceDate: date("recurrence_date"), // the occurrence this meal was generated for, even if it was moved
+  recurrenceModified: boolean("recurrence_modified").default(false), // edited on its own, so series edits leave it alone
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_meals_leftover_of").on(table.leftoverOfMealId),
+  uniqueIndex("UQ_meals_recurrence_occurrence").on(table.recurrenceId, table.recurrenceDate),
+]);
+
+// Dishes served alongside a meal's main recipe (meals.recipeId), e.g. sides and salads
+export const mealDishes = pgTable("meal_dishes", {
+  id: serial("id").primaryKey(),
+  mealId: integer("meal_id").notNull().references((): AnyPgColumn => meals.id),
+  recipeId: integer("recipe_id").notNull().references(() => recipes.id),
+  servings: integer("servings"), // null cooks as many servings as the meal
+  position: integer("position").notNull().default(0), // order shown after the main recipe
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_meal_dishes_meal").on(table.mealId)]);
+
+// Who is eating a meal. Meals without rows follow each member's attendance pattern
+export const mealAttendees = pgTable("meal_attendees", {
+  id: serial("id").primaryKey(),
+  mealId: integer("meal_id").notNull().references((): AnyPgColumn => meals.id),
+  membershipId: integer("membership_id").references(() => familyMemberships.id), // null for guests
+  guestName: varchar("guest_name", { length: 255 }),
+  portion: decimal("portion", { precision: 4, scale: 2 }), // null eats the member's usual portion size
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_meal_attendees_meal").on(table.mealId)]);
+
+// Whether a member usually eats a meal time on a weekday ("Dad works late on Wednesdays").
+// Without a row the member attends.
+export const memberAttendancePatterns = pgTable("member_attendance_patterns", {
+  id: serial("id").primaryKey(),
+  familyId: integer("family_id").notNull().references(() => families.id),
+  membershipId: integer("membership_id").notNull().references(() => familyMemberships.id),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday, as Date.getDay()
+  mealTypeId: integer("meal_type_id").notNull().references((): AnyPgColumn => familyMealTimes.id),
+  attending: boolean("attending").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_member_attendance_patterns_family").on(table.familyId),
+  uniqueIndex("UQ_member_attendance_patterns_slot").on(table.membershipId, table.dayOfWeek, table.mealTypeId),
+]);
+
+// Who cooks, helps with or cleans up after a meal; meals.createdBy is only who planned it
+export const mealAssignments = pgTable("meal_assignments", {
+  id: serial("id").primaryKey(),
+  mealId: integer("meal_id").notNull().references((): AnyPgColumn => meals.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  role: varchar("role", { enum: ["cook", "helper", "cleanup"] }).notNull(),
+  creditedAt: timestamp("credited_at"), // when completing the meal counted toward the cook's recipesCooked
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_meal_assignments_meal").on(table.mealId),
+  uniqueIndex("UQ_meal_assignments_meal_user_role").on(table.mealId, table.userId, table.role),
+]);
+
+// Recurring meal rules, RRULE-style ("every Friday", "weekdays", "every 2 weeks on Sunday").
+// Occurrences are written to meals on demand when a date range is queried.
+export const mealRecurrences = pgTable("meal_recurrences", {
+  id: serial("id").primaryKey(),
+  familyId: integer("family_id").notNull().references(() => families.id),
+  recipeId: integer("recipe_id").references(() => recipes.id),
+  mealTypeId: integer("meal_type_id").notNull().references((): AnyPgColumn => familyMealTimes.id),
+  servings: integer("servings"),
+  notes: text("notes"),
+  frequency: varchar("frequency", { enum: ["daily", "weekly"] }).notNull().default("weekly"),
+  interval: integer("interval").notNull().default(1), // every N days or weeks
+  byDay: text("by_day").array(), // weekly rules: MO, TU, WE, TH, FR, SA, SU
+  startDate: date("start_date").notNull(),
+  untilDate: date("until_date"), // inclusive; null repeats forever
+  exceptionDates: date("exception_dates").array(), // skipped occurrences
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_meal_recurrences_family").on(table.familyId)]);
+
+// Saved meal plan templates: a one- or multi-week grid of recipes by weekday and meal type.
+// Other families can import a copy through the share code while sharing is turned on.
+export const mealPlanTemplates = pgTable("meal_plan_templates", {
+  id: serial("id").primaryKey(),
+  familyId: integer("family_id").notNull().references(() => families.id),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  weeks: integer("weeks").notNull().default(1),
+  shareCode: varchar("share_code", { length: 32 }).unique(), // null while the template is private
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_meal_plan_templates_family").on(table.familyId)]);
+
+export const mealPlanTemplateEntries = pgTable("meal_plan_template_entries", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").notNull().references(() => mealPlanTemplates.id),
+  weekIndex: integer("week_index").notNull().default(0), // 0-based week within the template
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday, as Date.getDay()
+  mealTypeId: integer("meal_type_id").notNull().references((): AnyPgColumn => familyMealTimes.id),
+  recipeId: integer("recipe_id").references(() => recipes.id), // null for notes-only meals or deleted recipes
+  recipeName: varchar("recipe_name", { length: 255 }), // kept so the grid still reads after a recipe is deleted
+  servings: integer("servings"),
+  notes: text("notes"),
+}, (table) => [index("IDX_meal_plan_template_entries_template").on(table.templateId)]);
 
 // Nutrition logs table
 export const nutritionLogs = pgTable("nutrition_logs", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
   familyId: integer("family_id").notNull().references(() => families.id),
-  mealTypeId: integer("meal_type_id").references(() => mealTypes.id),
+  mealTypeId: integer("meal_type_id").references((): AnyPgColumn => familyMealTimes.id),
+  mealId: integer("meal_id").references(() => meals.id), // set when logged automatically from a completed meal
+  portion: decimal("portion", { precision: 5, scale: 2 }), // servings eaten
   foodName: varchar("food_name", { length: 255 }).notNull(),
   calories: integer("calories"),
   protein: decimal("protein", { precision: 5, scale: 2 }),
@@ -133,6 +271,34 @@ export const nutritionLogs = pgTable("nutrition_logs", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Nutrition goals table. Each row is one version of a member's targets; the current
+// version has no effectiveTo, older ones are kept as history
+export const nutritionGoals = pgTable("nutrition_goals", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  familyId: integer("family_id").notNull().references(() => families.id),
+  calories: integer("calories").notNull(),
+  protein: decimal("protein", { precision: 6, scale: 2 }).notNull(),
+  carbs: decimal("carbs", { precision: 6, scale: 2 }).notNull(),
+  fat: decimal("fat", { precision: 6, scale: 2 }).notNull(),
+  fiber: decimal("fiber", { precision: 6, scale: 2 }),
+  sugar: decimal("sugar", { precision: 6, scale: 2 }),
+  sodium: decimal("sodium", { precision: 7, scale: 2 }), // mg
+  source: varchar("source", { enum: ["manual", "calculated"] }).default("manual"),
+  // Body profile used for auto-calculation (Mifflin-St Jeor)
+  age: integer("age"),
+  sex: varchar("sex", { enum: ["male", "female"] }),
+  heightCm: decimal("height_cm", { precision: 5, scale: 1 }),
+  weightKg: decimal("weight_kg", { precision: 5, scale: 1 }),
+  activityLevel: varchar("activity_level", { enum: ["sedentary", "light", "moderate", "active", "very_active"] }),
+  goalType: varchar("goal_type", { enum: ["lose", "maintain", "gain"] }).default("maintain"),
+  effectiveFrom: date("effective_from").notNull(),
+  effectiveTo: date("effective_to"), // exclusive; null for the current goal
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_nutrition_goals_user_family").on(table.userId, table.familyId)]);
+
 // Shopping lists table
 export const shoppingLists = pgTable("shopping_lists", {
   id: serial("id").primaryKey(),
@@ -287,6 +453,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   createdFamilies: many(families),
   createdRecipes: many(recipes),
   nutritionLogs: many(nutritionLogs),
+  nutritionGoals: many(nutritionGoals),
   createdShoppingLists: many(shoppingLists),
   createdOrders: many(restaurantOrders),
   userAchievements: many(userAchievements),
@@ -304,6 +471,7 @@ export const familiesRelations = relations(families, ({ one, many }) => ({
   recipes: many(recipes),
   meals: many(meals),
   nutritionLogs: many(nutritionLogs),
+  nutritionGoals: many(nutritionGoals),
   shoppingLists: many(shoppingLists),
   pantryItems: many(pantryItems),
   restaurantOrders: many(restaurantOrders),
@@ -330,14 +498,29 @@ export const recipesRelations = relations(recipes, ({ one, many }) => ({
     references: [users.id],
   }),
   meals: many(meals),
+  parsedIngredients: many(recipeIngredients),
+  ratings: many(recipeRatings),
 }));
 
-export const mealTypesRelations = relations(mealTypes, ({ many }) => ({
-  meals: many(meals),
-  nutritionLogs: many(nutritionLogs),
+export const recipeIngredientsRelations = relations(recipeIngredients, ({ one }) => ({
+  recipe: one(recipes, {
+    fields: [recipeIngredients.recipeId],
+    references: [recipes.id],
+  }),
 }));
 
-export const mealsRelations = relations(meals, ({ one }) => ({
+export const recipeRatingsRelations = relations(recipeRatings, ({ one }) => ({
+  recipe: one(recipes, {
+    fields: [recipeRatings.recipeId],
+    references: [recipes.id],
+  }),
+  user: one(users, {
+    fields: [recipeRatings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const mealsRelations = relations(meals, ({ one, many }) => ({
   family: one(families, {
     fields: [meals.familyId],
     references: [families.id],
@@ -346,14 +529,103 @@ export const mealsRelations = relations(meals, ({ one }) => ({
     fields: [meals.recipeId],
     references: [recipes.id],
   }),
-  mealType: one(mealTypes, {
+  mealTime: one(familyMealTimes, {
     fields: [meals.mealTypeId],
-    references: [mealTypes.id],
+    references: [familyMealTimes.id],
   }),
   creator: one(users, {
     fields: [meals.createdBy],
     references: [users.id],
   }),
+  leftoverOf: one(meals, {
+    fields: [meals.leftoverOfMealId],
+    references: [meals.id],
+    relationName: "leftovers",
+  }),
+  leftovers: many(meals, { relationName: "leftovers" }),
+  recurrence: one(mealRecurrences, {
+    fields: [meals.recurrenceId],
+    references: [mealRecurrences.id],
+  }),
+  dishes: many(mealDishes),
+  attendees: many(mealAttendees),
+  assignments: many(mealAssignments),
+}));
+
+export const mealDishesRelations = relations(mealDishes, ({ one }) => ({
+  meal: one(meals, {
+    fields: [mealDishes.mealId],
+    references: [meals.id],
+  }),
+  recipe: one(recipes, {
+    fields: [mealDishes.recipeId],
+    references: [recipes.id],
+  }),
+}));
+
+export const mealAttendeesRelations = relations(mealAttendees, ({ one }) => ({
+  meal: one(meals, {
+    fields: [mealAttendees.mealId],
+    references: [meals.id],
+  }),
+  membership: one(familyMemberships, {
+    fields: [mealAttendees.membershipId],
+    references: [familyMemberships.id],
+  }),
+}));
+
+export const mealAssignmentsRelations = relations(mealAssignments, ({ one }) => ({
+  meal: one(meals, {
+    fields: [mealAssignments.mealId],
+    references: [meals.id],
+  }),
+  user: one(users, {
+    fields: [mealAssignments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const mealRecurrencesRelations = relations(mealRecurrences, ({ one, many }) => ({
+  family: one(families, {
+    fields: [mealRecurrences.familyId],
+    references: [families.id],
+  }),
+  recipe: one(recipes, {
+    fields: [mealRecurrences.recipeId],
+    references: [recipes.id],
+  }),
+  mealTime: one(familyMealTimes, {
+    fields: [mealRecurrences.mealTypeId],
+    references: [familyMealTimes.id],
+  }),
+  meals: many(meals),
+}));
+
+export const mealPlanTemplatesRelations = relations(mealPlanTemplates, ({ one, many }) => ({
+  family: one(families, {
+    fields: [mealPlanTemplates.familyId],
+    references: [families.id],
+  }),
+  creator: one(users, {
+    fields: [mealPlanTemplates.createdBy],
+    references: [users.id],
+  }),
+  entries: many(mealPlanTemplateEntries),
+}));
+
+export const mealPlanTemplateEntriesRelations = relations(mealPlanTemplateEntries, ({ one }) => ({
+  template: one(mealPlanTemplates, {
+    fields: [mealPlanTemplateEntries.templateId],
+    references: [mealPlanTemplates.id],
+  }),
+  mealTime: one(familyMealTimes, {
+    fields: [mealPlanTemplateEntries.mealTypeId],
+    references: [familyMealTimes.id],
+  }),
+  recipe: one(recipes, {
+    fields: [mealPlanTemplateEntries.recipeId],
+    references: [recipes.id],
+  }),
 }));
 
 export const nutritionLogsRelations = relations(nutritionLogs, ({ one }) => ({
@@ -365,9 +637,24 @@ export const nutritionLogsRelations = relations(nutritionLogs, ({ one }) => ({
     fields: [nutritionLogs.familyId],
     references: [families.id],
   }),
-  mealType: one(mealTypes, {
+  mealTime: one(familyMealTimes, {
     fields: [nutritionLogs.mealTypeId],
-    references: [mealTypes.id],
+    references: [familyMealTimes.id],
+  }),
+  meal: one(meals, {
+    fields: [nutritionLogs.mealId],
+    references: [meals.id],
+  }),
+}));
+
+export const nutritionGoalsRelations = relations(nutritionGoals, ({ one }) => ({
+  user: one(users, {
+    fields: [nutritionGoals.userId],
+    references: [users.id],
+  }),
+  family: one(families, {
+    fields: [nutritionGoals.familyId],
+    references: [families.id],
   }),
 }));
 
@@ -464,9 +751,61 @@ export const userStatsRelations = relations(userStats, ({ one }) => ({
   }),
 }));
 
+// A calendar date as YYYY-MM-DD; the shape alone would let through dates like 2025-02-30
+export const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+  .refine(date => isValid(parseISO(date)), "Expected a real calendar date");
+
+// Recipe nutrition types. Per-serving values live at the top level; grams except sodium (mg)
+export const nutrientTotalsSchema = z.object({
+  calories: z.number().nonnegative(),
+  protein: z.number().nonnegative(),
+  carbs: z.number().nonnegative(),
+  fat: z.number().nonnegative(),
+  fiber: z.number().nonnegative(),
+  sugar: z.number().nonnegative(),
+  sodium: z.number().nonnegative(),
+});
+
+export const ingredientNutritionSchema = z.object({
+  ingredientId: z.number().nullable(),
+  rawText: z.string(),
+  matchedFood: z.string().nullable(),
+  foodId: z.string().nullable(),
+  grams: z.number().nullable(),
+  confidence: z.number().min(0).max(1),
+  nutrients: nutrientTotalsSchema.nullable(),
+});
+
+export const nutritionInfoSchema = nutrientTotalsSchema.extend({
+  servings: z.number().positive(),
+  source: z.enum(["calculated", "manual"]),
+  confidence: z.number().min(0).max(1).optional(), // calculated only: share of the recipe we could match
+  total: nutrientTotalsSchema.optional(),
+  ingredients: z.array(ingredientNutritionSchema).optional(),
+  calculatedAt: z.string().optional(),
+});
+
+// Inputs for calculating nutrition goals from a member's body profile
+export const nutritionGoalProfileSchema = z.object({
+  age: z.number().int().min(2).max(120),
+  sex: z.enum(["male", "female"]),
+  heightCm: z.number().min(50).max(250),
+  weightKg: z.number().min(10).max(350),
+  activityLevel: z.enum(["sedentary", "light", "moderate", "active", "very_active"]),
+  goalType: z.enum(["lose", "maintain", "gain"]).default("maintain"),
+});
+
+export type NutrientTotals = z.infer<typeof nutrientTotalsSchema>;
+export type IngredientNutrition = z.infer<typeof ingredientNutritionSchema>;
+export type NutritionInfo = z.infer<typeof nutritionInfoSchema>;
+export type NutritionGoalProfile = z.infer<typeof nutritionGoalProfileSchema>;
+
 // Insert schemas
 export const insertFamilySchema = createInsertSchema(families).omit({
   id: true,
+  calendarFeedToken: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -476,7 +815,9 @@ export const insertFamilyMembershipSchema = createInsertSchema(familyMemberships
   createdAt: true,
 });
 
-export const insertRecipeSchema = createInsertSchema(recipes).omit({
+export const insertRecipeSchema = createInsertSchema(recipes, {
+  nutritionInfo: nutritionInfoSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -484,16 +825,75 @@ export const insertRecipeSchema = createInsertSchema(recipes).omit({
   ratingCount: true,
 });
 
+export const insertRecipeIngredientSchema = createInsertSchema(recipeIngredients).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const recipeRatingSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+});
+
 export const insertMealSchema = createInsertSchema(meals).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertMealDishSchema = createInsertSchema(mealDishes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const MAX_MEAL_DISHES = 6; // side dishes per meal, on top of the main recipe
+
+// A side dish as sent with a meal; the meal and position come from the request
+export const mealDishInputSchema = z.object({
+  recipeId: z.number().int().positive(),
+  servings: z.number().int().positive().nullable().optional(),
+});
+
+export const MAX_TEMPLATE_WEEKS = 4;
+
+export const RECURRENCE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const; // indexed by Date.getDay()
+
+export const insertMealRecurrenceSchema = createInsertSchema(mealRecurrences, {
+  interval: z.number().int().min(1).max(52),
+  byDay: z.array(z.enum(RECURRENCE_WEEKDAYS)).nullable().optional(),
+}).omit({
+  id: true,
+  exceptionDates: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertMealPlanTemplateSchema = createInsertSchema(mealPlanTemplates, {
+  weeks: z.number().int().min(1).max(MAX_TEMPLATE_WEEKS),
+}).omit({
+  id: true,
+  shareCode: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertMealPlanTemplateEntrySchema = createInsertSchema(mealPlanTemplateEntries, {
+  dayOfWeek: z.number().int().min(0).max(6),
+}).omit({
+  id: true,
+  templateId: true,
+});
+
 export const insertNutritionLogSchema = createInsertSchema(nutritionLogs).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertNutritionGoalSchema = createInsertSchema(nutritionGoals).omit({
+  id: true,
+  effectiveTo: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertShoppingListSchema = createInsertSchema(shoppingLists).omit({
   id: true,
   createdAt: true,
@@ -526,11 +926,29 @@ export type InsertFamilyMembership = z.infer<typeof insertFamilyMembershipSchema
 export type FamilyMembership = typeof familyMemberships.$inferSelect;
 export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
 export type Recipe = typeof recipes.$inferSelect;
+export type InsertRecipeIngredient = z.infer<typeof insertRecipeIngredientSchema>;
+export type RecipeIngredient = typeof recipeIngredients.$inferSelect;
+export type RecipeRating = typeof recipeRatings.$inferSelect;
 export type MealType = typeof mealTypes.$inferSelect;
 export type InsertMeal = z.infer<typeof insertMealSchema>;
 export type Meal = typeof meals.$inferSelect;
+export type InsertMealDish = z.infer<typeof insertMealDishSchema>;
+export type MealDish = typeof mealDishes.$inferSelect;
+export type MealDishInput = z.infer<typeof mealDishInputSchema>;
+export type MealWithDishes = Meal & { dishes: MealDish[] };
+export type MealAttendeeRow = typeof mealAttendees.$inferSelect;
+export type MemberAttendancePattern = typeof memberAttendancePatterns.$inferSelect;
+export type MealAssignment = typeof mealAssignments.$inferSelect;
+export type MealRecurrence = typeof mealRecurrences.$inferSelect;
+export type InsertMealRecurrence = z.infer<typeof insertMealRecurrenceSchema>;
+export type MealPlanTemplate = typeof mealPlanTemplates.$inferSelect;
+export type InsertMealPlanTemplate = z.infer<typeof insertMealPlanTemplateSchema>;
+export type MealPlanTemplateEntry = typeof mealPlanTemplateEntries.$inferSelect;
+export type InsertMealPlanTemplateEntry = z.infer<typeof insertMealPlanTemplateEntrySchema>;
 export type InsertNutritionLog = z.infer<typeof insertNutritionLogSchema>;
 export type NutritionLog = typeof nutritionLogs.$inferSelect;
+export type InsertNutritionGoal = z.infer<typeof insertNutritionGoalSchema>;
+export type NutritionGoal = typeof nutritionGoals.$inferSelect;
 export type InsertShoppingList = z.infer<typeof insertShoppingListSchema>;
 export type ShoppingList = typeof shoppingLists.$inferSelect;
 export type InsertShoppingListItem = z.infer<typeof insertShoppingListItemSchema>;
@@ -569,18 +987,32 @@ export const familyAddresses = pgTable("family_addresses", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Family meal times table
+// Family meal times table. These are the family's meal slots: meals, nutrition logs, recurring
+// meals and templates all point at them through their mealTypeId columns.
+export const MEAL_CATEGORIES = ["breakfast", "lunch", "dinner", "snack"] as const;
+export type MealCategory = typeof MEAL_CATEGORIES[number];
+
 export const familyMealTimes = pgTable("family_meal_times", {
   id: serial("id").primaryKey(),
   familyId: integer("family_id").notNull().references(() => families.id),
   mealName: varchar("meal_name").notNull(),
+  category: varchar("category", { enum: MEAL_CATEGORIES }).notNull().default("snack"), // sizes and suits recipes when planning
   defaultTime: varchar("default_time"),
-  daysOfWeek: text("days_of_week").array(),
+  daysOfWeek: text("days_of_week").array(), // lowercase day names, e.g. "monday"; empty means every day
   isActive: boolean("is_active").default(true),
   sortOrder: integer("sort_order").default(0),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const familyMealTimesRelations = relations(familyMealTimes, ({ one, many }) => ({
+  family: one(families, {
+    fields: [familyMealTimes.familyId],
+    references: [families.id],
+  }),
+  meals: many(meals),
+  nutritionLogs: many(nutritionLogs),
+}));
+
 // Shopping site preferences table
 export const shoppingSitePreferences = pgTable("shopping_site_preferences", {
   id: serial("id").primaryKey(),
@@ -608,6 +1040,7 @@ export const userPreferences = pgTable("user_preferences", {
   shareRecipes: boolean("share_recipes").default(true),
   shareMealPlans: boolean("share_meal_plans").default(true),
   shareAchievements: boolean("share_achievements").default(true),
+  measurementSystem: varchar("measurement_system", { enum: ["imperial", "metric"] }).default("imperial"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -629,17 +1062,58 @@ export const familyPreferences = pgTable("family_preferences", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Rules for meal recommendations and auto-fill. The row without a user holds the family
+// defaults; a member's row overrides them, and a null column falls back to the level above.
+export const mealPlanningPreferences = pgTable("meal_planning_preferences", {
+  id: serial("id").primaryKey(),
+  familyId: integer("family_id").notNull().references(() => families.id),
+  userId: varchar("user_id").references(() => users.id), // null for the family defaults
+  dietaryRestrictions: text("dietary_restrictions").array(),
+  preferredCuisines: text("preferred_cuisines").array(),
+  avoidIngredients: text("avoid_ingredients").array(),
+  maxCookTime: integer("max_cook_time"), // prep + cook minutes
+  preferredDifficulty: varchar("preferred_difficulty", { enum: ["easy", "medium", "hard", "any"] }),
+  balanceNutrition: boolean("balance_nutrition"),
+  repeatFrequency: integer("repeat_frequency"), // days before the same recipe comes back
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_meal_planning_preferences_family").on(table.familyId)]);
+
+// How each member takes part in the cooking rotation. Without a row they take every duty
+// with no weekly limit
+export const cookingRotationSettings = pgTable("cooking_rotation_settings", {
+  id: serial("id").primaryKey(),
+  familyId: integer("family_id").notNull().references(() => families.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  roles: text("roles").array(), // duties they take turns at; null takes all of them
+  maxCooksPerWeek: integer("max_cooks_per_week"), // null for no limit
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_cooking_rotation_settings_member").on(table.familyId, table.userId)]);
+
 // Insert schemas for new tables
 export const insertFamilyAddressSchema = createInsertSchema(familyAddresses).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertFamilyMealTimeSchema = createInsertSchema(familyMealTimes).omit({
+export const insertFamilyMealTimeSchema = createInsertSchema(familyMealTimes, {
+  mealName: z.string().trim().min(1).max(100),
+  defaultTime: z.string().regex(/^\d{2}:\d{2}$/, "Expected an HH:MM time").nullable().optional(),
+  daysOfWeek: z.array(z.enum(["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"])).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+// Meal times every new family starts with
+export const DEFAULT_FAMILY_MEAL_TIMES: Pick<InsertFamilyMealTime, "mealName" | "category" | "defaultTime" | "sortOrder">[] = [
+  { mealName: "Breakfast", category: "breakfast", defaultTime: "07:30", sortOrder: 1 },
+  { mealName: "Lunch", category: "lunch", defaultTime: "12:30", sortOrder: 2 },
+  { mealName: "Dinner", category: "dinner", defaultTime: "18:30", sortOrder: 3 },
+  { mealName: "Snack", category: "snack", defaultTime: "15:30", sortOrder: 4 },
+];
+
 export const insertShoppingSitePreferenceSchema = createInsertSchema(shoppingSitePreferences).omit({
   id: true,
   createdAt: true,
@@ -668,3 +1142,607 @@ export type UserPreferences = typeof userPreferences.$inferSelect;
 export type InsertUserPreferences = z.infer<typeof insertUserPreferencesSchema>;
 export type FamilyPreferences = typeof familyPreferences.$inferSelect;
 export type InsertFamilyPreferences = z.infer<typeof insertFamilyPreferencesSchema>;
+
+// Meal planning preference types
+export const MEAL_PLANNING_DIFFICULTIES = ["easy", "medium", "hard", "any"] as const;
+
+const preferenceListSchema = z.array(z.string().trim().min(1).max(100)).max(50);
+
+// A null field clears it, so it falls back to the family default (or the app default)
+export const mealPlanningPreferencesInputSchema = z.object({
+  dietaryRestrictions: preferenceListSchema.nullable(),
+  preferredCuisines: preferenceListSchema.nullable(),
+  avoidIngredients: preferenceListSchema.nullable(),
+  maxCookTime: z.number().int().min(5).max(480).nullable(),
+  preferredDifficulty: z.enum(MEAL_PLANNING_DIFFICULTIES).nullable(),
+  balanceNutrition: z.boolean().nullable(),
+  repeatFrequency: z.number().int().min(0).max(60).nullable(),
+}).partial();
+
+export type MealPlanningDifficulty = typeof MEAL_PLANNING_DIFFICULTIES[number];
+export type MealPlanningPreferences = typeof mealPlanningPreferences.$inferSelect;
+export type MealPlanningPreferencesInput = z.infer<typeof mealPlanningPreferencesInputSchema>;
+
+// Preferences with every fallback applied
+export interface MealPlanningRules {
+  dietaryRestrictions: string[];
+  preferredCuisines: string[];
+  avoidIngredients: string[];
+  maxCookTime: number;
+  preferredDifficulty: MealPlanningDifficulty;
+  balanceNutrition: boolean;
+  repeatFrequency: number;
+}
+
+export const DEFAULT_MEAL_PLANNING_RULES: MealPlanningRules = {
+  dietaryRestrictions: [],
+  preferredCuisines: [],
+  avoidIngredients: [],
+  maxCookTime: 60,
+  preferredDifficulty: "any",
+  balanceNutrition: true,
+  repeatFrequency: 3,
+};
+
+export type MealPlanningPreferenceValues = Required<MealPlanningPreferencesInput>;
+
+export interface MemberMealPlanningPreferences {
+  userId: string;
+  name: string;
+  overrides: MealPlanningPreferenceValues;
+  rules: MealPlanningRules;
+}
+
+export interface MealPlanningPreferenceSettings {
+  familyDefaults: MealPlanningPreferenceValues;
+  members: MemberMealPlanningPreferences[];
+  rules: MealPlanningRules; // what recommendations and auto-fill plan with for the whole family
+}
+
+// Meal attendance types
+export const MAX_MEAL_GUESTS = 20;
+
+const portionSchema = z.number().min(0.25).max(10);
+
+// Replaces who is eating a meal; a member left out is not attending
+export const mealAttendanceInputSchema = z.object({
+  members: z.array(z.object({
+    membershipId: z.number().int().positive(),
+    portion: portionSchema.nullable().optional(), // null eats the member's usual portion size
+  })).max(50),
+  guests: z.array(z.object({
+    name: z.string().trim().min(1).max(255),
+    portion: portionSchema.nullable().optional(), // null eats one serving
+  })).max(MAX_MEAL_GUESTS).default([]),
+}).refine(({ members, guests }) => members.length + guests.length > 0, "At least one person has to attend the meal");
+
+// Replaces a member's weekly pattern; slots left out fall back to attending
+export const attendancePatternInputSchema = z.object({
+  portionSize: portionSchema.optional(),
+  slots: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    mealTypeId: z.number().int().positive(),
+    attending: z.boolean(),
+  })).max(7 * 24),
+});
+
+export type MealAttendanceInput = z.infer<typeof mealAttendanceInputSchema>;
+export type AttendancePatternInput = z.infer<typeof attendancePatternInputSchema>;
+export type AttendancePatternSlot = AttendancePatternInput["slots"][number];
+
+export interface AttendanceMember {
+  membershipId: number;
+  userId: string;
+  name: string;
+  portionSize: number;
+}
+
+export interface MemberAttendanceSettings extends AttendanceMember {
+  pattern: AttendancePatternSlot[]; // the saved slots; any other slot counts as attending
+}
+
+export interface MealAttendee {
+  membershipId: number | null; // null for guests
+  userId: string | null;
+  name: string;
+  portion: number; // servings this person eats
+}
+
+export interface MealAttendance {
+  mealId: number;
+  isDefault: boolean; // true while the meal follows the members' attendance patterns
+  attendees: MealAttendee[];
+  servings: number; // what the attendees eat between them, rounded up
+}
+
+export interface MealAttendanceSummary extends MealAttendance {
+  mealServings: number | null; // the meal's servings; they follow the attendees unless typed
+  servingsFromAttendance: boolean;
+  dietaryConflicts: DietaryConflict[]; // checked against the attendees only
+}
+
+// Cooking rotation types
+export const MEAL_ASSIGNMENT_ROLES = ["cook", "helper", "cleanup"] as const;
+export const COOKING_SKILL_LEVELS = ["beginner", "intermediate", "advanced", "expert"] as const;
+
+export type MealAssignmentRole = typeof MEAL_ASSIGNMENT_ROLES[number];
+export type CookingSkillLevel = typeof COOKING_SKILL_LEVELS[number];
+
+// Replaces a meal's duties; one cook at most, any number of helpers and people cleaning up
+export const mealAssignmentsInputSchema = z.object({
+  assignments: z.array(z.object({
+    userId: z.string().min(1),
+    role: z.enum(MEAL_ASSIGNMENT_ROLES),
+  })).max(12),
+}).refine(({ assignments }) => assignments.filter(assignment => assignment.role === "cook").length <= 1, "A meal can only have one cook");
+
+// A null field goes back to the default: every duty, no weekly limit
+export const cookingRotationSettingsInputSchema = z.object({
+  roles: z.array(z.enum(MEAL_ASSIGNMENT_ROLES)).max(MEAL_ASSIGNMENT_ROLES.length).nullable(),
+  maxCooksPerWeek: z.number().int().min(0).max(21).nullable(),
+}).partial();
+
+export const cookingRotationRequestSchema = z.object({
+  startDate: isoDateSchema,
+  endDate: isoDateSchema,
+  roles: z.array(z.enum(MEAL_ASSIGNMENT_ROLES)).min(1).default(["cook"]), // duties to hand out
+  overwrite: z.boolean().default(false), // hand out again duties that are already taken
+});
+
+export type MealAssignmentsInput = z.infer<typeof mealAssignmentsInputSchema>;
+export type CookingRotationSettings = typeof cookingRotationSettings.$inferSelect;
+export type CookingRotationSettingsInput = z.infer<typeof cookingRotationSettingsInputSchema>;
+export type CookingRotationRequest = z.infer<typeof cookingRotationRequestSchema>;
+export type MealWithAssignments = MealWithDishes & { assignments: MealAssignment[] };
+
+export interface CookingRotationMember {
+  userId: string;
+  name: string;
+  skill: CookingSkillLevel; // from the member's profile; beginner until they set it
+  roles: MealAssignmentRole[];
+  maxCooksPerWeek: number | null;
+}
+
+export interface MealAssignmentsResult {
+  assignments: MealAssignment[];
+  warnings: string[]; // e.g. the cook isn't home or the recipe is beyond their skill
+}
+
+export interface CookingRotationNote {
+  mealId: number;
+  scheduledDate: string;
+  message: string;
+}
+
+export interface CookingRotationResult {
+  assignments: MealAssignment[]; // duties handed out by this run
+  notes: CookingRotationNote[]; // meals a duty couldn't be filled or was a stretch for
+}
+
+export interface CookingDuty {
+  meal: Meal;
+  role: MealAssignmentRole;
+  recipeName: string | null;
+  mealTimeName: string;
+  teammates: { userId: string; name: string; role: MealAssignmentRole }[]; // everyone else on the meal
+}
+
+// Shopping list generation types
+export interface ConsolidatedIngredient {
+  name: string;
+  quantity: string | null; // display quantity, e.g. "1.5"
+  unit: string | null;
+  amount: number | null; // numeric quantity still needed after pantry deduction
+  category: string;
+  sourceType: "recipe";
+  sourceId: number; // first recipe that needs this ingredient
+  recipeIds: number[];
+  mealIds: number[];
+  pantryItemId: number | null; // pantry item that covered part or all of it
+  priority: number;
+}
+
+export interface ShoppingListDiff {
+  toAdd: Omit<InsertShoppingListItem, "shoppingListId">[];
+  toUpdate: { id: number; updates: Partial<Omit<InsertShoppingListItem, "shoppingListId">> }[];
+  coveredByPantry: { name: string; quantity: string | null; unit: string | null; pantryItemId: number }[];
+}
+
+export interface GeneratedShoppingList {
+  consolidatedIngredients: ConsolidatedIngredient[];
+  existingPantryItems: PantryItem[];
+  diff: ShoppingListDiff;
+}
+
+// Recipe scaling types
+export interface ScaledIngredient {
+  ingredientId: number;
+  rawText: string;
+  text: string; // rewritten line, e.g. "1/3 cup sugar"
+  quantity: number | null;
+  quantityMax: number | null;
+  displayQuantity: string | null; // rounded for display, e.g. "1 1/2"
+  unit: string | null;
+  food: string;
+  preparation: string | null;
+  notes: string | null;
+  isOptional: boolean;
+}
+
+export interface ScaledRecipe extends Recipe {
+  originalServings: number;
+  scaleFactor: number;
+  scaledIngredients: ScaledIngredient[];
+}
+
+// Nutrition goal types
+export interface ResolvedNutritionGoals {
+  goal: NutritionGoal | null; // null when the member has not set goals yet
+  targets: NutrientTotals;
+}
+
+// Nutrition analytics types
+export interface DailyNutrition {
+  date: string;
+  totals: NutrientTotals;
+  targets: NutrientTotals; // goal in effect on this date
+  logCount: number;
+  adherence: number | null; // 0-100, null when nothing was logged
+  rolling7: NutrientTotals; // average over logged days in the trailing 7-day window
+  rolling30: NutrientTotals;
+}
+
+export interface MealTypeNutrition {
+  mealTypeId: number | null;
+  mealTypeName: string;
+  totals: NutrientTotals;
+  dailyAverage: NutrientTotals;
+  calorieShare: number; // 0-100 share of the range's calories
+  logCount: number;
+}
+
+export interface NutritionAnalytics {
+  startDate: string;
+  endDate: string;
+  days: DailyNutrition[];
+  averages: NutrientTotals; // per logged day across the range
+  mealTypes: MealTypeNutrition[];
+  adherence: {
+    average: number | null;
+    daysLogged: number;
+    daysOnTarget: number; // calories within 10% of the goal
+  };
+}
+
+// Family nutrition dashboard types
+export interface NutritionFlag {
+  nutrient: "protein" | "sodium";
+  direction: "under" | "over";
+  daysFlagged: number;
+  daysLogged: number;
+  averagePercent: number; // average intake as a percent of the target
+}
+
+export interface FamilyMemberNutrition {
+  userId: string;
+  displayName: string | null;
+  memberImageUrl: string | null;
+  role: string;
+  targets: NutrientTotals; // goal in effect at the end of the range
+  averages: NutrientTotals;
+  adherence: NutritionAnalytics["adherence"];
+  flags: NutritionFlag[];
+}
+
+export interface FamilyNutritionDashboard {
+  familyId: number;
+  startDate: string;
+  endDate: string;
+  members: FamilyMemberNutrition[];
+  hiddenMemberCount: number; // members excluded because their profile is private
+}
+
+// Food search types
+export interface FoodServingOption {
+  label: string; // "1 cup", "100 g", "1 serving"
+  grams: number | null; // null for recipe servings and past logs
+  portion: number | null; // recipe servings this option stands for, when known
+  nutrients: NutrientTotals;
+}
+
+export interface FoodSearchResult {
+  key: string; // unique across sources, e.g. "database:oats" or "recipe:12"
+  source: "database" | "recipe" | "history";
+  name: string;
+  detail: string | null; // category, recipe description or when it was last logged
+  servings: FoodServingOption[]; // first option is the default
+  recipeId: number | null;
+  mealTypeId: number | null; // meal type it was last logged under
+  lastLoggedDate: string | null;
+}
+
+// Allergen and diet conflict types
+export const ALLERGEN_GROUPS = ["nuts", "dairy", "gluten", "shellfish", "soy", "egg", "sesame", "fish"] as const;
+export const DIET_RULES = ["vegetarian", "vegan", "keto", "halal"] as const;
+
+export type AllergenGroup = typeof ALLERGEN_GROUPS[number];
+export type DietRule = typeof DIET_RULES[number];
+
+export interface IngredientDietaryFlags {
+  ingredient: string;
+  allergens: AllergenGroup[];
+  violatesDiets: DietRule[];
+}
+
+export interface MemberDietaryProfile {
+  userId: string;
+  name: string;
+  allergens: AllergenGroup[];
+  diets: DietRule[];
+  otherAllergies: string[]; // allergies outside the major groups, matched by name
+}
+
+export interface DietaryConflict {
+  userId: string;
+  memberName: string;
+  type: "allergy" | "diet";
+  rule: string; // allergen group, diet or a custom allergy
+  ingredients: string[];
+}
+
+export interface RecipeConflictReport {
+  recipeId: number;
+  recipeName: string;
+  allergens: AllergenGroup[];
+  violatesDiets: DietRule[];
+  conflicts: DietaryConflict[];
+}
+
+// Weekly meal plan generator types
+export const mealPlanRequestSchema = z.object({
+  startDate: isoDateSchema,
+  endDate: isoDateSchema,
+  mealTypeIds: z.array(z.number().int().positive()).optional(), // defaults to every meal type
+  weeknightMaxMinutes: z.number().int().positive().nullable().default(45), // prep + cook, Monday to Friday
+  noRepeatDays: z.number().int().min(0).max(60).default(7),
+  budget: z.number().nonnegative().nullable().optional(), // for the whole range; defaults to the family's monthly budget
+  usePantry: z.boolean().default(true),
+  seed: z.number().int().optional(), // a different seed gives a different plan from the same inputs
+});
+
+export type MealPlanRequest = z.infer<typeof mealPlanRequestSchema>;
+
+export interface PlannedMeal {
+  scheduledDate: string;
+  mealTypeId: number;
+  recipeId: number;
+  recipeName: string;
+  servings: number;
+  totalMinutes: number | null;
+  cuisine: string | null;
+  protein: string | null;
+  estimatedCost: number; // for the planned servings, pantry items excluded
+  pantryItems: string[]; // pantry items the recipe uses up
+  caloriesPerServing: number | null;
+  reasons: string[]; // why this recipe won the slot
+}
+
+export interface UnfilledMealSlot {
+  scheduledDate: string;
+  mealTypeId: number;
+  reason: string;
+}
+
+export interface MealPlanPreview {
+  startDate: string;
+  endDate: string;
+  meals: PlannedMeal[];
+  unfilled: UnfilledMealSlot[];
+  excludedRecipes: { recipeId: number; recipeName: string; reason: string }[];
+  estimatedCost: number;
+  budget: number | null;
+}
+
+// Leftover types
+export const DEFAULT_FRIDGE_LIFE_DAYS = 4;
+
+export interface LeftoverSummary {
+  sourceMealId: number;
+  cookedServings: number; // extra portions the source meal makes
+  assignedServings: number; // portions already scheduled as leftover meals
+  remainingServings: number;
+  expiresOn: string; // last day the leftovers are safe to eat
+  leftovers: Meal[];
+}
+
+// Meal plan template types
+export const MEAL_TEMPLATE_CONFLICT_POLICIES = ["skip", "replace", "fail"] as const;
+
+export type MealTemplateConflictPolicy = typeof MEAL_TEMPLATE_CONFLICT_POLICIES[number];
+
+export type MealPlanTemplateWithEntries = MealPlanTemplate & { entries: MealPlanTemplateEntry[] };
+
+export interface MealTemplateApplyResult {
+  created: Meal[];
+  skipped: InsertMeal[]; // template meals left out because the slot was taken
+  replaced: Meal[]; // planned meals removed to make room ("replace" only)
+  conflicts: Meal[]; // meals already in the template's slots
+}
+
+// Batch meal scheduling types
+export const MEAL_BATCH_CONFLICT_POLICIES = ["skip", "overwrite", "fail"] as const;
+
+export type MealBatchConflictPolicy = typeof MEAL_BATCH_CONFLICT_POLICIES[number];
+
+export const MAX_MEAL_BATCH_OPERATIONS = 200;
+
+const mealBatchFieldsSchema = z.object({
+  recipeId: z.number().int().positive().nullable().optional(),
+  mealTypeId: z.number().int().positive(),
+  scheduledDate: isoDateSchema,
+  servings: z.number().int().positive().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  dishes: z.array(mealDishInputSchema).max(MAX_MEAL_DISHES).optional(), // replaces the meal's side dishes
+});
+
+// Status changes log nutrition and stay with the single-meal endpoint
+export const mealBatchOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("create"), meal: mealBatchFieldsSchema }),
+  z.object({ op: z.literal("update"), mealId: z.number().int().positive(), changes: mealBatchFieldsSchema.partial() }),
+  z.object({
+    op: z.literal("move"),
+    mealId: z.number().int().positive(),
+    scheduledDate: isoDateSchema,
+    mealTypeId: z.number().int().positive(),
+  }),
+  z.object({ op: z.literal("delete"), mealId: z.number().int().positive() }),
+]);
+
+export const mealBatchRequestSchema = z.object({
+  operations: z.array(mealBatchOperationSchema).min(1).max(MAX_MEAL_BATCH_OPERATIONS),
+  onConflict: z.enum(MEAL_BATCH_CONFLICT_POLICIES).default("fail"),
+});
+
+export type MealBatchOperation = z.infer<typeof mealBatchOperationSchema>;
+
+export type MealBatchOperationStatus =
+  | "created"
+  | "updated"
+  | "moved"
+  | "deleted"
+  | "skipped" // the slot was taken and the batch used "skip", or held a meal that can't be overwritten
+  | "conflict" // the slot was taken and the batch used "fail"
+  | "invalid" // e.g. the meal doesn't exist; the whole batch is rolled back
+  | "rolled_back"; // would have been applied, but another operation stopped the batch
+
+export interface MealBatchOperationResult {
+  index: number; // position in the request's operations
+  op: MealBatchOperation["op"];
+  status: MealBatchOperationStatus;
+  meal?: Meal; // as written, or as it was before a delete
+  conflicts?: Meal[]; // meals already in the target slot
+  overwritten?: Meal[]; // planned meals removed to free the slot ("overwrite" only)
+  reason?: string;
+}
+
+export interface MealBatchResult {
+  applied: boolean; // false when the batch was rolled back and nothing was written
+  results: MealBatchOperationResult[];
+}
+
+// Drag-and-drop rescheduling types
+export const MAX_MEAL_MOVES = 50;
+
+export const mealMoveSchema = z.object({
+  mealId: z.number().int().positive(),
+  scheduledDate: isoDateSchema,
+  mealTypeId: z.number().int().positive(),
+});
+
+export const mealMoveRequestSchema = z.object({
+  moves: z.array(mealMoveSchema).min(1).max(MAX_MEAL_MOVES),
+});
+
+export type MealMove = z.infer<typeof mealMoveSchema>;
+
+export interface MealMoveResult {
+  moved: Meal[];
+  swapped: Meal[]; // meals that were in a target slot and took the moved meal's old place
+  undo: MealMove[]; // moves that put every meal touched back where it was
+}
+
+// Calendar feed types
+export interface CalendarFeedSettings {
+  enabled: boolean;
+  url: string | null; // subscribe to this in a calendar app; changes when the token is rotated
+}
+
+// Meal plan import types
+export const MEAL_IMPORT_FORMATS = ["csv", "ics"] as const;
+export type MealImportFormat = (typeof MEAL_IMPORT_FORMATS)[number];
+export const MAX_MEAL_IMPORT_FILE_LENGTH = 2_000_000; // characters of file text
+export const MAX_MEAL_IMPORT_ROWS = MAX_MEAL_BATCH_OPERATIONS;
+
+// Meal fields a CSV column can be mapped to
+export const MEAL_IMPORT_FIELDS = ["date", "mealTime", "recipe", "servings", "notes", "prepTime", "cookTime"] as const;
+export type MealImportField = (typeof MEAL_IMPORT_FIELDS)[number];
+export type MealImportMapping = Partial<Record<MealImportField, string>>; // field -> CSV column header
+
+export const mealImportPreviewRequestSchema = z.object({
+  format: z.enum(MEAL_IMPORT_FORMATS),
+  content: z.string().min(1).max(MAX_MEAL_IMPORT_FILE_LENGTH),
+  mapping: z.record(z.enum(MEAL_IMPORT_FIELDS), z.string()).optional(), // overrides the guessed columns
+  dayFirst: z.boolean().default(false), // read 03/04/2025 as 3 April rather than March 4
+});
+
+export const mealImportRowSchema = z.object({
+  line: z.number().int().positive(), // CSV line or calendar event number in the file
+  scheduledDate: isoDateSchema,
+  mealTypeId: z.number().int().positive(),
+  recipeId: z.number().int().positive().nullable(), // null creates a recipe named recipeName
+  recipeName: z.string().trim().max(255).nullable(), // null imports a meal with only notes
+  servings: z.number().int().positive().nullable(),
+  notes: z.string().nullable(),
+  prepTime: z.number().int().min(0).nullable(), // used for created recipes
+  cookTime: z.number().int().min(0).nullable(),
+});
+
+export const mealImportRequestSchema = z.object({
+  rows: z.array(mealImportRowSchema).min(1).max(MAX_MEAL_IMPORT_ROWS),
+});
+
+export type MealImportRowInput = z.infer<typeof mealImportRowSchema>;
+
+export interface MealImportRecipeMatch {
+  recipeId: number;
+  name: string;
+  score: number; // 0-1 name similarity
+}
+
+export interface MealImportRow extends MealImportRowInput {
+  matchScore: number | null; // similarity of the matched recipe; 1 is an exact match
+  suggestions: MealImportRecipeMatch[]; // close recipes to pick instead, best first
+}
+
+export interface MealImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface MealImportPreview {
+  columns: string[]; // CSV headers; empty for calendars
+  mapping: MealImportMapping;
+  rows: MealImportRow[];
+  issues: MealImportIssue[]; // rows and events that couldn't be mapped to a meal
+}
+
+export interface MealImportResult {
+  meals: Meal[];
+  createdRecipes: Recipe[];
+  skipped: MealImportIssue[]; // rows whose slot already had a meal
+}
+
+// Meal recommendation types
+export const RECOMMENDATION_FACTORS = ["nutrition", "rating", "recency", "pantry", "season", "time", "preference"] as const;
+export const MAX_RECOMMENDATIONS = 20;
+
+export type RecommendationFactor = typeof RECOMMENDATION_FACTORS[number];
+
+export interface MealRecommendation {
+  recipeId: number;
+  recipeName: string;
+  score: number; // 0-100
+  factors: Record<RecommendationFactor, number>; // each factor's 0-1 score before weighting
+  reasons: string[]; // strongest first, e.g. "Uses spinach expiring Thursday"
+  totalMinutes: number | null;
+  caloriesPerServing: number | null;
+  servings: number;
+  sides: { recipeId: number; recipeName: string }[]; // suggested side dishes
+}
+
+export interface MealRecommendations {
+  date: string;
+  mealTypeId: number;
+  recommendations: MealRecommendation[];
+  excludedRecipes: { recipeId: number; recipeName: string; reason: string }[];
+}
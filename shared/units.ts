@@ -0,0 +1,397 @@
+// Unit conversion shared by the server (shopping, pantry, nutrition) and the client (display)
+
+export type MeasurementSystem = "imperial" | "metric";
+export type UnitDimension = "volume" | "weight" | "count";
+
+export interface UnitDefinition {
+  unit: string;
+  dimension: UnitDimension;
+  // null for units that belong to neither system (pinch, clove, can)
+  system: MeasurementSystem | null;
+  // Amount of the dimension's base unit (ml, g, each) in one of this unit
+  toBase: number;
+  plural: string;
+}
+
+export interface Measurement {
+  amount: number;
+  unit: string | null;
+}
+
+const UNITS: UnitDefinition[] = [
+  // Volume, base ml
+  { unit: 'tsp', dimension: 'volume', system: 'imperial', toBase: 4.92892159375, plural: 'tsp' },
+  { unit: 'tbsp', dimension: 'volume', system: 'imperial', toBase: 14.78676478125, plural: 'tbsp' },
+  { unit: 'fl oz', dimension: 'volume', system: 'imperial', toBase: 29.5735295625, plural: 'fl oz' },
+  { unit: 'cup', dimension: 'volume', system: 'imperial', toBase: 236.5882365, plural: 'cups' },
+  { unit: 'pint', dimension: 'volume', system: 'imperial', toBase: 473.176473, plural: 'pints' },
+  { unit: 'quart', dimension: 'volume', system: 'imperial', toBase: 946.352946, plural: 'quarts' },
+  { unit: 'gallon', dimension: 'volume', system: 'imperial', toBase: 3785.411784, plural: 'gallons' },
+  { unit: 'ml', dimension: 'volume', system: 'metric', toBase: 1, plural: 'ml' },
+  { unit: 'l', dimension: 'volume', system: 'metric', toBase: 1000, plural: 'l' },
+  { unit: 'pinch', dimension: 'volume', system: null, toBase: 0.31, plural: 'pinches' },
+  { unit: 'dash', dimension: 'volume', system: null, toBase: 0.62, plural: 'dashes' },
+
+  // Weight, base g
+  { unit: 'mg', dimension: 'weight', system: 'metric', toBase: 0.001, plural: 'mg' },
+  { unit: 'g', dimension: 'weight', system: 'metric', toBase: 1, plural: 'g' },
+  { unit: 'kg', dimension: 'weight', system: 'metric', toBase: 1000, plural: 'kg' },
+  { unit: 'oz', dimension: 'weight', system: 'imperial', toBase: 28.3495, plural: 'oz' },
+  { unit: 'lb', dimension: 'weight', system: 'imperial', toBase: 453.592, plural: 'lb' },
+
+  // Count, base each. Size words describe a whole item so they count as "each"
+  { unit: 'each', dimension: 'count', system: null, toBase: 1, plural: 'each' },
+  { unit: 'large', dimension: 'count', system: null, toBase: 1, plural: 'large' },
+  { unit: 'medium', dimension: 'count', system: null, toBase: 1, plural: 'medium' },
+  { unit: 'small', dimension: 'count', system: null, toBase: 1, plural: 'small' },
+  ...['clove', 'can', 'jar', 'bottle', 'package', 'stick', 'slice', 'piece', 'bunch', 'sprig', 'head', 'handful', 'stalk', 'fillet']
+    .map(unit => ({
+      unit,
+      dimension: 'count' as const,
+      system: null,
+      toBase: 1,
+      plural: unit.endsWith('h') ? `${unit}es` : `${unit}s`,
+    })),
+];
+
+const UNIT_BY_NAME = new Map(UNITS.map(definition => [definition.unit, definition]));
+
+// Canonical unit -> accepted spellings (matched case-insensitively, longest first)
+export const UNIT_ALIASES: Record<string, string[]> = {
+  tsp: ['teaspoons', 'teaspoon', 'tsps', 'tsp', 't'],
+  tbsp: ['tablespoons', 'tablespoon', 'tbsps', 'tbsp', 'tbs', 'tbl', 'T'],
+  cup: ['cups', 'cup', 'c'],
+  'fl oz': ['fluid ounces', 'fluid ounce', 'fl. oz.', 'fl. oz', 'fl oz', 'floz'],
+  pint: ['pints', 'pint', 'pt'],
+  quart: ['quarts', 'quart', 'qt'],
+  gallon: ['gallons', 'gallon', 'gal'],
+  ml: ['milliliters', 'millilitres', 'milliliter', 'millilitre', 'ml'],
+  l: ['liters', 'litres', 'liter', 'litre', 'l'],
+  mg: ['milligrams', 'milligram', 'mg'],
+  g: ['grams', 'gram', 'gr', 'g'],
+  kg: ['kilograms', 'kilogram', 'kgs', 'kg'],
+  oz: ['ounces', 'ounce', 'oz'],
+  lb: ['pounds', 'pound', 'lbs', 'lb'],
+  pinch: ['pinches', 'pinch'],
+  dash: ['dashes', 'dash'],
+  clove: ['cloves', 'clove'],
+  can: ['cans', 'can'],
+  jar: ['jars', 'jar'],
+  bottle: ['bottles', 'bottle'],
+  package: ['packages', 'package', 'pkgs', 'pkg', 'packets', 'packet'],
+  stick: ['sticks', 'stick'],
+  slice: ['slices', 'slice'],
+  piece: ['pieces', 'piece', 'pcs'],
+  bunch: ['bunches', 'bunch'],
+  sprig: ['sprigs', 'sprig'],
+  head: ['heads', 'head'],
+  handful: ['handfuls', 'handful'],
+  stalk: ['stalks', 'stalk'],
+  fillet: ['fillets', 'fillet'],
+  each: ['each'],
+  large: ['large'],
+  medium: ['medium'],
+  small: ['small'],
+};
+
+// Grams per millilitre, matched against the food name (longest keyword wins)
+const DENSITIES: Record<string, number> = {
+  water: 1,
+  broth: 1,
+  stock: 1,
+  milk: 1.03,
+  buttermilk: 1.03,
+  cream: 1.01,
+  'heavy cream': 1.01,
+  'sour cream': 1.01,
+  yogurt: 1.03,
+  butter: 0.96,
+  oil: 0.92,
+  'olive oil': 0.91,
+  honey: 1.42,
+  'maple syrup': 1.32,
+  molasses: 1.4,
+  vinegar: 1.01,
+  'soy sauce': 1.1,
+  'tomato sauce': 1.03,
+  'tomato paste': 1.1,
+  'peanut butter': 1.08,
+  flour: 0.53,
+  'all-purpose flour': 0.53,
+  'bread flour': 0.55,
+  'whole wheat flour': 0.51,
+  'almond flour': 0.41,
+  cornstarch: 0.54,
+  cornmeal: 0.64,
+  sugar: 0.85,
+  'granulated sugar': 0.85,
+  'brown sugar': 0.93,
+  'powdered sugar': 0.5,
+  "confectioners' sugar": 0.5,
+  salt: 1.2,
+  'kosher salt': 0.54,
+  'baking soda': 0.92,
+  'baking powder': 0.9,
+  'cocoa powder': 0.42,
+  'chocolate chips': 0.72,
+  rice: 0.85,
+  oats: 0.34,
+  'rolled oats': 0.34,
+  quinoa: 0.72,
+  lentils: 0.81,
+  breadcrumbs: 0.45,
+  'panko': 0.25,
+  'shredded cheese': 0.45,
+  'grated parmesan': 0.42,
+  parmesan: 0.42,
+  cheddar: 0.45,
+  raisins: 0.64,
+  walnuts: 0.5,
+  almonds: 0.6,
+  pecans: 0.45,
+};
+
+// Typical weight of one item for converting counts ("2 eggs", "3 cloves garlic") to weight
+const ITEM_WEIGHTS: { food: string; unit: string; grams: number }[] = [
+  { food: 'egg', unit: 'each', grams: 50 },
+  { food: 'garlic', unit: 'clove', grams: 5 },
+  { food: 'butter', unit: 'stick', grams: 113 },
+  { food: 'onion', unit: 'each', grams: 150 },
+  { food: 'potato', unit: 'each', grams: 170 },
+  { food: 'tomato', unit: 'each', grams: 120 },
+  { food: 'carrot', unit: 'each', grams: 60 },
+  { food: 'celery', unit: 'stalk', grams: 40 },
+  { food: 'bell pepper', unit: 'each', grams: 150 },
+  { food: 'apple', unit: 'each', grams: 180 },
+  { food: 'banana', unit: 'each', grams: 120 },
+  { food: 'lemon', unit: 'each', grams: 100 },
+  { food: 'lime', unit: 'each', grams: 65 },
+  { food: 'avocado', unit: 'each', grams: 150 },
+  { food: 'chicken breast', unit: 'each', grams: 175 },
+  { food: 'bread', unit: 'slice', grams: 30 },
+  { food: 'bacon', unit: 'slice', grams: 15 },
+];
+
+// Display ladders per system, smallest first: a unit is used once the amount reaches `from` base units
+const DISPLAY_UNITS: Record<MeasurementSystem, Record<'volume' | 'weight', { unit: string; from: number }[]>> = {
+  imperial: {
+    volume: [
+      { unit: 'tsp', from: 0 },
+      { unit: 'tbsp', from: 14.78676478125 },
+      { unit: 'cup', from: 59.147059125 }, // 1/4 cup
+      { unit: 'quart', from: 3785.411784 }, // 16 cups
+    ],
+    weight: [
+      { unit: 'oz', from: 0 },
+      { unit: 'lb', from: 453.592 },
+    ],
+  },
+  metric: {
+    volume: [
+      { unit: 'ml', from: 0 },
+      { unit: 'l', from: 1000 },
+    ],
+    weight: [
+      { unit: 'mg', from: 0 },
+      { unit: 'g', from: 1 },
+      { unit: 'kg', from: 1000 },
+    ],
+  },
+};
+
+function foodKey(food: string): string {
+  return food.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function matchesFood(food: string, keyword: string): boolean {
+  // Whole-word match that tolerates plurals ("eggs", "potatoes")
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|\\s)${escaped}(e?s)?($|\\s)`).test(food);
+}
+
+export function normalizeUnit(unit: string | null | undefined): string | null {
+  if (!unit) return null;
+  const trimmed = unit.trim().replace(/\.$/, '');
+  if (!trimmed) return null;
+  if (UNIT_BY_NAME.has(trimmed)) return trimmed;
+
+  for (const [canonical, aliases] of Object.entries(UNIT_ALIASES)) {
+    // Single-letter aliases are case-sensitive so "T" (tbsp) and "t" (tsp) stay distinct
+    const match = aliases.some(alias =>
+      alias.length === 1 ? alias === trimmed : alias.toLowerCase() === trimmed.toLowerCase(),
+    );
+    if (match) return canonical;
+  }
+  return trimmed.toLowerCase();
+}
+
+export function getUnitDefinition(unit: string | null | undefined): UnitDefinition | undefined {
+  const normalized = normalizeUnit(unit);
+  // A missing unit means a plain count ("3 eggs")
+  return UNIT_BY_NAME.get(normalized ?? 'each');
+}
+
+export function getDensity(food: string): number | null {
+  const key = foodKey(food);
+  let best: { keyword: string; density: number } | null = null;
+  for (const [keyword, density] of Object.entries(DENSITIES)) {
+    if (!matchesFood(key, keyword)) continue;
+    if (!best || keyword.length > best.keyword.length) best = { keyword, density };
+  }
+  return best?.density ?? null;
+}
+
+export function isPlainCount(unit: string | null): boolean {
+  const definition = getUnitDefinition(unit);
+  return !!definition && ['each', 'large', 'medium', 'small'].includes(definition.unit);
+}
+
+export function getItemWeight(food: string, unit: string | null): number | null {
+  const definition = getUnitDefinition(unit);
+  if (!definition || definition.dimension !== 'count') return null;
+  // Size words weigh the same as a plain item for our purposes
+  const countUnit = isPlainCount(definition.unit) ? 'each' : definition.unit;
+  const key = foodKey(food);
+  const match = ITEM_WEIGHTS
+    .filter(entry => entry.unit === countUnit && matchesFood(key, entry.food))
+    .sort((a, b) => b.food.length - a.food.length)[0];
+  return match?.grams ?? null;
+}
+
+// Converts to grams where possible, falling back to the unit's own dimension base
+function toGrams(amount: number, unit: string | null, food?: string): number | null {
+  const definition = getUnitDefinition(unit);
+  if (!definition) return null;
+  if (definition.dimension === 'weight') return amount * definition.toBase;
+  if (!food) return null;
+  if (definition.dimension === 'volume') {
+    const density = getDensity(food);
+    return density === null ? null : amount * definition.toBase * density;
+  }
+  const itemWeight = getItemWeight(food, unit);
+  return itemWeight === null ? null : amount * itemWeight;
+}
+
+function fromGrams(grams: number, unit: string | null, food?: string): number | null {
+  const definition = getUnitDefinition(unit);
+  if (!definition) return null;
+  if (definition.dimension === 'weight') return grams / definition.toBase;
+  if (!food) return null;
+  if (definition.dimension === 'volume') {
+    const density = getDensity(food);
+    return density === null ? null : grams / density / definition.toBase;
+  }
+  const itemWeight = getItemWeight(food, unit);
+  return itemWeight === null ? null : grams / itemWeight;
+}
+
+/**
+ * Converts an amount between units. Units of the same dimension convert directly;
+ * volume, weight and counts convert through the ingredient's density or item weight
+ * when `food` is known. Returns null when no conversion is possible.
+ */
+export function convertUnits(amount: number, from: string | null, to: string | null, food?: string): number | null {
+  const source = getUnitDefinition(from);
+  const target = getUnitDefinition(to);
+  if (!source || !target) {
+    return normalizeUnit(from) === normalizeUnit(to) ? amount : null;
+  }
+
+  // Distinct count units (cans vs cloves) only convert through an item weight
+  const sameScale = source.dimension !== 'count'
+    || source.unit === target.unit
+    || (isPlainCount(source.unit) && isPlainCount(target.unit));
+  if (source.dimension === target.dimension && sameScale) {
+    return (amount * source.toBase) / target.toBase;
+  }
+
+  const grams = toGrams(amount, from, food);
+  return grams === null ? null : fromGrams(grams, to, food);
+}
+
+export function canConvert(from: string | null, to: string | null, food?: string): boolean {
+  return convertUnits(1, from, to, food) !== null;
+}
+
+/**
+ * Picks the most readable unit in the requested system for a volume or weight,
+ * e.g. 48 tsp -> 1 cup, 1500 g -> 1.5 kg. Counts and unknown units are returned unchanged.
+ */
+export function toMeasurementSystem(amount: number, unit: string | null, system: MeasurementSystem): Measurement {
+  const definition = getUnitDefinition(unit);
+  if (!definition || definition.dimension === 'count' || definition.system === null) {
+    return { amount, unit: normalizeUnit(unit) };
+  }
+
+  const base = amount * definition.toBase;
+  const ladder = DISPLAY_UNITS[system][definition.dimension];
+  const step = [...ladder].reverse().find(candidate => base >= candidate.from) ?? ladder[0];
+  return { amount: base / UNIT_BY_NAME.get(step.unit)!.toBase, unit: step.unit };
+}
+
+export function formatUnit(unit: string | null, amount: number): string {
+  if (!unit || unit === 'each') return '';
+  const definition = UNIT_BY_NAME.get(unit);
+  if (!definition) return unit;
+  return amount > 1 ? definition.plural : definition.unit;
+}
+
+export function formatMeasurement(amount: number, unit: string | null): string {
+  const quantity = formatQuantity(amount, unit);
+  const label = formatUnit(unit, amount);
+  return label ? `${quantity} ${label}` : quantity;
+}
+
+// Kitchen fractions used when rounding imperial and count amounts
+const FRACTIONS: [number, number][] = [[1, 8], [1, 4], [1, 3], [3, 8], [1, 2], [5, 8], [2, 3], [3, 4], [7, 8]];
+
+function formatFraction(amount: number): string {
+  if (amount >= 10) {
+    // Large amounts only need halves
+    const halves = Math.round(amount * 2) / 2;
+    return Number.isInteger(halves) ? String(halves) : `${Math.floor(halves)} 1/2`;
+  }
+
+  let whole = Math.floor(amount);
+  const remainder = amount - whole;
+  let best: { text: string; value: number } = { text: '', value: 0 };
+  for (const [numerator, denominator] of FRACTIONS) {
+    const value = numerator / denominator;
+    if (Math.abs(remainder - value) < Math.abs(remainder - best.value)) {
+      best = { text: `${numerator}/${denominator}`, value };
+    }
+  }
+  if (Math.abs(remainder - 1) < Math.abs(remainder - best.value)) {
+    whole += 1;
+    best = { text: '', value: 0 };
+  }
+
+  // Never round a real amount down to nothing
+  if (whole === 0 && !best.text) return amount > 0 ? '1/8' : '0';
+  if (!best.text) return String(whole);
+  return whole > 0 ? `${whole} ${best.text}` : best.text;
+}
+
+function formatDecimal(amount: number, unit: string): string {
+  let rounded: number;
+  if (unit === 'l' || unit === 'kg') {
+    rounded = Math.round(amount * 100) / 100;
+  } else if (amount >= 100) {
+    rounded = Math.round(amount / 5) * 5;
+  } else if (amount >= 10) {
+    rounded = Math.round(amount);
+  } else {
+    rounded = Math.round(amount * 2) / 2;
+  }
+  return String(rounded > 0 ? rounded : Math.round(amount * 100) / 100);
+}
+
+/**
+ * Renders an amount the way a cook would write it: "1/3" rather than 0.333 for cups,
+ * spoons and counts, and tidy decimals for metric units ("250 ml", "1.25 kg").
+ */
+export function formatQuantity(amount: number, unit: string | null): string {
+  const definition = getUnitDefinition(unit);
+  if (definition?.system === 'metric') return formatDecimal(amount, definition.unit);
+  return formatFraction(amount);
+}